@@ -8,6 +8,9 @@ const config = {
       tsconfig: 'tsconfig.json',
     }],
   },
+  moduleNameMapper: {
+    '^@/(.*)$': '<rootDir>/src/$1',
+  },
   // Ignore the Next.js app directory since it has special build requirements
   modulePathIgnorePatterns: ['.next', 'node_modules'],
   setupFilesAfterEnv: ['<rootDir>/jest.setup.js'],
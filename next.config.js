@@ -7,6 +7,10 @@ const nextConfig = {
   },
   experimental: {
     optimizeCss: true,
+    // Load pdf.js from node_modules on the server for upload-time text extraction
+    serverComponentsExternalPackages: ['pdfjs-dist'],
+    // Runs src/instrumentation.ts, which refuses to start without JWT_SECRET
+    instrumentationHook: true,
   },
 };
 
@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import prisma from '@/lib/prisma';
 import * as bcrypt from 'bcryptjs';
-import jwt from 'jsonwebtoken';
+import { REFRESH_COOKIE, refreshCookieOptions, sessionService } from '@/lib/sessionService';
+import { withRateLimit } from '@/lib/rateLimit/withRateLimit';
+import { loginLockout } from '@/lib/rateLimit/rateLimiter';
 
 // Set Node.js runtime to make bcrypt work in Vercel
 export const runtime = 'nodejs';
@@ -22,16 +24,39 @@ export async function OPTIONS() {
     });
 }
 
-export async function POST(req: NextRequest) {
+// Answer for an account locked after repeated failures
+function lockedResponse(lockedMs: number) {
+    const seconds = Math.ceil(lockedMs / 1000);
+    return NextResponse.json(
+        { success: false, message: `Too many failed sign-in attempts. Try again in ${Math.ceil(seconds / 60)} minute(s).` },
+        { status: 429, headers: { ...corsHeaders(), 'Retry-After': String(seconds) } }
+    );
+}
+
+export const POST = withRateLimit('auth', login);
+
+async function login(req: NextRequest) {
     try {
         const { email, password } = await req.json();
 
+        // Accounts with repeated failures are locked for longer after each one
+        const account = String(email || '');
+        const lockedMs = await loginLockout.check(account);
+        if (lockedMs > 0) {
+            return lockedResponse(lockedMs);
+        }
+
         // Find user
         const user = await prisma.user.findUnique({
             where: { email }
         });
 
         if (!user) {
+            // Unknown accounts lock the same way, so a lockout does not reveal which emails exist
+            const lockMs = await loginLockout.recordFailure(account);
+            if (lockMs > 0) {
+                return lockedResponse(lockMs);
+            }
             return NextResponse.json(
                 { success: false, message: 'Invalid credentials' },
                 { status: 401 }
@@ -41,27 +66,31 @@ export async function POST(req: NextRequest) {
         // Verify password
     const isValidPassword = bcrypt.compareSync(password, user.password);
         if (!isValidPassword) {
+            const lockMs = await loginLockout.recordFailure(account);
+            if (lockMs > 0) {
+                return lockedResponse(lockMs);
+            }
             return NextResponse.json(
                 { success: false, message: 'Invalid credentials' },
                 { status: 401 }
             );
         }
+        await loginLockout.recordSuccess(account);
 
-        // Generate JWT
-        const token = jwt.sign(
-            { userId: user.id, email: user.email },
-            process.env.JWT_SECRET || 'default-secret',
-            { expiresIn: '24h' }
-        );
+        // Start a session: short-lived access token in the body, refresh token in an httpOnly cookie
+        const session = await sessionService.createSession(user, req.headers.get('user-agent'));
 
-        return NextResponse.json(
+        const response = NextResponse.json(
           {
               success: true,
               user: { id: user.id, email: user.email },
-              token
+              token: session.accessToken,
+              expiresIn: session.expiresIn
           },
           { headers: corsHeaders() }
         );
+        response.cookies.set(REFRESH_COOKIE, session.refreshToken, refreshCookieOptions());
+        return response;
     } catch (error: any) {
         console.error('Login error:', error);
         return NextResponse.json(
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser } from '@/lib/auth';
+import { REFRESH_COOKIE, refreshCookieOptions, sessionService } from '@/lib/sessionService';
+
+export const runtime = 'nodejs';
+
+/**
+ * Sign out this device, or every device with { allDevices: true }.
+ * Works with either the refresh cookie or a valid access token, so an expired access token can still log out.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const allDevices = body?.allDevices === true;
+
+    const refreshToken = request.cookies.get(REFRESH_COOKIE)?.value;
+    const fromCookie = refreshToken ? await sessionService.findByRefreshToken(refreshToken) : null;
+    const user = getRequestUser(request);
+
+    const sessionId = fromCookie?.id || user?.sessionId;
+    const userId = fromCookie?.userId || user?.userId;
+    if (!sessionId || !userId) {
+      const response = NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+      response.cookies.set(REFRESH_COOKIE, '', refreshCookieOptions(0));
+      return response;
+    }
+
+    let revoked = 1;
+    if (allDevices) {
+      revoked = await sessionService.revokeAllSessions(userId);
+    } else {
+      await sessionService.revokeSession(sessionId);
+    }
+
+    const response = NextResponse.json({ success: true, revoked });
+    response.cookies.set(REFRESH_COOKIE, '', refreshCookieOptions(0));
+    return response;
+  } catch (error) {
+    console.error('Logout error:', error);
+    return NextResponse.json({ error: 'Failed to log out' }, { status: 500 });
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { REFRESH_COOKIE, refreshCookieOptions, sessionService } from '@/lib/sessionService';
+import { withRateLimit } from '@/lib/rateLimit/withRateLimit';
+
+export const runtime = 'nodejs';
+
+export const POST = withRateLimit('auth', refresh);
+
+/**
+ * Rotate the refresh token cookie and issue a new access token
+ */
+async function refresh(request: NextRequest) {
+  try {
+    const refreshToken = request.cookies.get(REFRESH_COOKIE)?.value;
+    const session = refreshToken ? await sessionService.refresh(refreshToken) : null;
+
+    if (!session) {
+      const response = NextResponse.json({ error: 'Session expired' }, { status: 401 });
+      response.cookies.set(REFRESH_COOKIE, '', refreshCookieOptions(0));
+      return response;
+    }
+
+    const response = NextResponse.json({ token: session.accessToken, expiresIn: session.expiresIn });
+    response.cookies.set(REFRESH_COOKIE, session.refreshToken, refreshCookieOptions());
+    return response;
+  } catch (error) {
+    console.error('Token refresh error:', error);
+    return NextResponse.json({ error: 'Failed to refresh session' }, { status: 500 });
+  }
+}
@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server';
 import prisma from '@/lib/prisma';
 import * as bcrypt from 'bcryptjs';
+import { withRateLimit } from '@/lib/rateLimit/withRateLimit';
 
 // Set Node.js runtime to make bcrypt work in Vercel
 export const runtime = 'nodejs';
@@ -21,7 +22,9 @@ export async function OPTIONS() {
   });
 }
 
-export async function POST(request: Request) {
+export const POST = withRateLimit('auth', signup);
+
+async function signup(request: Request) {
   try {
     const { email, password } = await request.json();
     if (!email || !password) {
@@ -1,7 +1,7 @@
 import { NextResponse } from 'next/server';
-import { verifyAuth } from '@/lib/auth';
+import { getRequestUser } from '@/lib/auth';
+import { sessionService } from '@/lib/sessionService';
 
-// Set Node.js runtime for JWT verification
 export const runtime = 'nodejs';
 
 function corsHeaders() {
@@ -19,10 +19,17 @@ export async function OPTIONS() {
 
 export async function GET(request: Request) {
   try {
-    const userId = await verifyAuth(request);
-    if (!userId) {
+    // Public route: the middleware attaches the user only when the token is valid
+    const user = getRequestUser(request);
+    if (!user) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401, headers: corsHeaders() });
     }
+    const userId = user.userId;
+
+    // The token's signature can outlive its session; check it has not been signed out
+    if (!(await sessionService.isSessionActive(user.sessionId, userId))) {
+      return NextResponse.json({ error: 'Session revoked' }, { status: 401, headers: corsHeaders() });
+    }
 
     return NextResponse.json({ 
       message: 'Token is valid',
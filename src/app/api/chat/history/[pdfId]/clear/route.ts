@@ -1,23 +1,20 @@
 import { NextResponse } from 'next/server';
-import { verifyAuth } from '@/lib/auth';
-import prisma from '@/lib/prisma';
+import { getRequestUser } from '@/lib/auth';
+import { chatMessageService } from '@/lib/chatMessageService';
 
 export async function DELETE(request: Request, { params }: { params: { pdfId: string } }) {
   try {
-    const userId = await verifyAuth(request);
+    const userId = getRequestUser(request)?.userId;
     if (!userId) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
     const pdfId = params.pdfId;
+    // ?sessionId= clears one conversation
+    const sessionId = new URL(request.url).searchParams.get('sessionId') || undefined;
 
     // Delete all chat history for this PDF and user
-    const result = await prisma.chat.deleteMany({
-      where: {
-        pdfId,
-        userId
-      }
-    });
+    const result = await chatMessageService.deleteByPdf({ pdfId, userId, sessionId });
 
     return NextResponse.json({ 
       success: true, 
@@ -31,4 +28,4 @@ export async function DELETE(request: Request, { params }: { params: { pdfId: st
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
@@ -1,93 +1,46 @@
 import { NextResponse } from 'next/server';
-import { verifyAuth } from '@/lib/auth';
-import prisma from '@/lib/prisma';
-import { deserializeChatMessages } from '@/lib/chatUtils';
-import { Annotation } from '@/types/types';
+import { getRequestUser } from '@/lib/auth';
+import { chatMessageService } from '@/lib/chatMessageService';
+import { migrateLegacyChats } from '@/lib/legacyChatMigration';
+import { findOwnedPdf } from '@/lib/pdfAccess';
 
+/**
+ * GET /api/chat/history/[pdfId]?sessionId=&branch=&cursor=&limit=
+ * The latest page of a conversation, oldest message first; pass nextCursor back as cursor for earlier pages.
+ * A session's history follows one branch: the newest, or the one through message branch.
+ * Without sessionId every session's history is returned.
+ */
 export async function GET(request: Request, { params }: { params: { pdfId: string } }) {
   try {
-    const userId = await verifyAuth(request);
+    const userId = getRequestUser(request)?.userId;
     if (!userId) {
-      console.log('Unauthorized access attempt to chat history');
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
     const pdfId = params.pdfId;
-    console.log(`Fetching chat history for PDF ${pdfId} and user ${userId}`);
-
-    // Get all chat entries for this PDF and user
-    const chats = await prisma.chat.findMany({
-      where: {
-        pdfId,
-        userId
-      },
-      orderBy: {
-        createdAt: 'asc'
-      }
-    });
+    if (!(await findOwnedPdf(pdfId, userId))) {
+      return NextResponse.json({ error: 'PDF not found' }, { status: 404 });
+    }
 
-    console.log(`Found ${chats.length} chat entries in the database`);
+    const url = new URL(request.url);
+    const sessionId = url.searchParams.get('sessionId') || undefined;
+    const branch = url.searchParams.get('branch');
+    const cursor = url.searchParams.get('cursor');
+    const limit = parseInt(url.searchParams.get('limit') || '50', 10);
+    if (!Number.isInteger(limit) || limit < 1) {
+      return NextResponse.json({ error: 'limit must be a positive integer' }, { status: 400 });
+    }
 
-    // Process each chat and build messages
-    const allMessages: any[] = [];
-    const allAnnotations: Annotation[] = [];
-    
-    for (const chat of chats) {
-      try {
-        // Parse the messages field with better error handling
-        let messagesData;
-        try {
-          messagesData = typeof chat.messages === 'string'
-            ? JSON.parse(chat.messages)
-            : chat.messages;
-            
-          console.log(`Chat ${chat.id} contains data format:`, 
-            typeof messagesData, 
-            messagesData ? Object.keys(messagesData) : 'null');
-        } catch (parseError) {
-          console.error('Failed to parse chat messages from database:', parseError);
-          console.log('Raw message data:', chat.messages);
-          continue; // Skip this problematic chat entry
-        }
-        
-        // Use our utility function to deserialize messages
-        const chatMessages = deserializeChatMessages(messagesData);
-        
-        // Check if we got valid messages
-        if (!chatMessages || chatMessages.length === 0) {
-          console.warn(`No valid messages in chat ${chat.id}`);
-          continue;
-        }
-        
-        console.log(`Processed ${chatMessages.length} messages from chat ${chat.id}`);
-        
-        // Add timestamp from database
-        chatMessages.forEach(msg => {
-          msg.timestamp = chat.createdAt;
-          
-          // Collect annotations
-          if (msg.annotations && msg.annotations.length > 0) {
-            allAnnotations.push(...msg.annotations);
-          }
-        });
-        
-        // Add messages to our collection
-        allMessages.push(...chatMessages);
-      } catch (error) {
-        console.error(`Error processing chat ${chat.id}:`, error);
-      }
+    // History saved before messages were normalized is copied over the first time it is read
+    if (!cursor) {
+      await migrateLegacyChats({ pdfId, userId });
     }
 
-    // Log the final result
-    console.log(`Returning ${allMessages.length} total messages with ${allAnnotations.length} annotations`);
-    
-    // Return both messages and annotations separately
-    return NextResponse.json({ 
-      messages: allMessages,
-      annotations: allAnnotations,
-      count: allMessages.length,
-      pdfId: pdfId,
-      userId: userId
+    const page = await chatMessageService.getPage({ pdfId, userId, sessionId, branch, cursor, limit });
+    return NextResponse.json({
+      messages: chatMessageService.toClientMessages(page.messages),
+      nextCursor: page.nextCursor,
+      pdfId,
     });
   } catch (error) {
     console.error('Error fetching chat history:', error);
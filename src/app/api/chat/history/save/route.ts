@@ -1,36 +1,52 @@
 import { NextResponse } from 'next/server';
-import { verifyAuth } from '@/lib/auth';
-import prisma from '@/lib/prisma';
-import { serializeChatMessages } from '@/lib/chatUtils';
+import { getRequestUser } from '@/lib/auth';
+import { chatMessageService } from '@/lib/chatMessageService';
+import { chatSessionService } from '@/lib/chatSessionService';
+import { findOwnedPdf } from '@/lib/pdfAccess';
 
-// Save or append chat history for a PDF. Strategy: create a new row per save for append-only log.
-// Client can re-hydrate by concatenating all rows (existing GET already does this).
+/**
+ * POST /api/chat/history/save { pdfId, sessionId?, messages }
+ * Append messages to a conversation. Messages the conversation already ends with are skipped,
+ * so resending the whole conversation or retrying a save does not duplicate it.
+ */
 export async function POST(request: Request) {
   try {
-    const userId = await verifyAuth(request);
+    const userId = getRequestUser(request)?.userId;
     if (!userId) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
     const body = await request.json();
-    const { pdfId, messages } = body || {};
+    const { pdfId, messages, sessionId } = body || {};
     if (!pdfId || !Array.isArray(messages)) {
       return NextResponse.json({ error: 'pdfId and messages array required' }, { status: 400 });
     }
+    const valid = messages.every((m: any) => (m?.role === 'user' || m?.role === 'assistant') && typeof m.content === 'string');
+    if (!valid) {
+      return NextResponse.json({ error: 'Each message needs a role of user or assistant and string content' }, { status: 400 });
+    }
+    if (!(await findOwnedPdf(pdfId, userId))) {
+      return NextResponse.json({ error: 'PDF not found' }, { status: 404 });
+    }
+    if (sessionId && !(await chatSessionService.findOwned(sessionId, userId, pdfId))) {
+      return NextResponse.json({ error: 'Chat session not found' }, { status: 404 });
+    }
 
-    const serialized = serializeChatMessages(messages);
-
-    const chat = await prisma.chat.create({
-      data: {
-        pdfId,
-        userId,
-        messages: serialized as any
-      }
+    const saved = await chatMessageService.appendUnsaved({
+      pdfId,
+      userId,
+      sessionId,
+      messages: messages.map((m: any) => ({
+        role: m.role,
+        content: m.content,
+        annotations: Array.isArray(m.annotations) ? m.annotations : undefined,
+        error: m.error === true,
+      })),
     });
 
-    return NextResponse.json({ success: true, id: chat.id, createdAt: chat.createdAt });
+    return NextResponse.json({ success: true, messages: chatMessageService.toClientMessages(saved) });
   } catch (error: any) {
     console.error('Error saving chat history:', error);
     return NextResponse.json({ error: 'Failed to save chat history' }, { status: 500 });
   }
-}
\ No newline at end of file
+}
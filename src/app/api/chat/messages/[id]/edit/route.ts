@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser } from '@/lib/auth';
+import { chatMessageService } from '@/lib/chatMessageService';
+import { chatSessionService } from '@/lib/chatSessionService';
+import { prepareTutorStream } from '@/lib/tutorStream';
+import { PayloadTooLargeError } from '@/lib/streamStore/types';
+import { isTemplateName } from '@/lib/prompts/registry';
+import { QuotaExceededError, usageService } from '@/lib/usageService';
+import { withRateLimit } from '@/lib/rateLimit/withRateLimit';
+
+// Node.js runtime so messages can be read with Prisma
+export const runtime = 'nodejs';
+
+// Far longer than any real question; keeps pasted documents out of the prompt
+const MAX_QUESTION_LENGTH = 10000;
+
+export const POST = withRateLimit('chat', editQuestion);
+
+/**
+ * POST /api/chat/messages/[id]/edit { content, currentPage?, template? }
+ * Ask an edited version of question id as a new branch beside it; the original and its answers are kept.
+ * Responds with the new question's id and a stream to follow for its answer.
+ */
+async function editQuestion(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const userId = getRequestUser(request)?.userId;
+    if (!userId) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const original = await chatMessageService.findOwned(params.id, userId);
+    if (!original || !original.pdfId) {
+      return NextResponse.json({ error: 'Message not found' }, { status: 404 });
+    }
+    if (original.role !== 'user') {
+      return NextResponse.json({ error: 'Only questions can be edited; regenerate an answer instead' }, { status: 400 });
+    }
+
+    const body = await request.json().catch(() => null);
+    const content = typeof body?.content === 'string' ? body.content.trim() : '';
+    if (!content || content.length > MAX_QUESTION_LENGTH) {
+      return NextResponse.json({ error: `content must be a non-empty string of at most ${MAX_QUESTION_LENGTH} characters` }, { status: 400 });
+    }
+    if (body.template !== undefined && !isTemplateName(body.template)) {
+      return NextResponse.json({ error: 'Unknown prompt template' }, { status: 400 });
+    }
+    const currentPage = Number(body?.currentPage) || original.pageContext || 1;
+    const quota = await usageService.checkQuota(userId);
+
+    // The edit follows what the original followed, so the two are siblings. The stream is prepared
+    // before the question is stored, so a failure leaves no unanswered question behind.
+    const parent = await chatMessageService.findParent(original);
+    const questionId = crypto.randomUUID();
+    const asked = [{ role: 'user', content }];
+    const stream = await prepareTutorStream({
+      userId,
+      messages: parent ? await chatMessageService.branchContext(parent, asked) : asked,
+      pdfId: original.pdfId,
+      sessionId: original.sessionId || undefined,
+      currentPage,
+      replyTo: questionId,
+      template: body.template,
+      quota,
+    });
+
+    const [question] = await chatMessageService.appendMessages({
+      pdfId: original.pdfId,
+      userId,
+      sessionId: original.sessionId,
+      parentId: parent?.id || null,
+      messages: [{ id: questionId, role: 'user', content, pageContext: currentPage, meta: { branchOf: original.id } }],
+    });
+    if (original.sessionId) await chatSessionService.recordQuestion(original.sessionId, content);
+
+    return NextResponse.json({ ...stream, questionId: question.id }, { status: 201 });
+  } catch (error: any) {
+    if (error instanceof QuotaExceededError) {
+      return NextResponse.json(
+        { error: error.message, resetAt: error.quota.resetAt },
+        { status: 429, headers: { 'Retry-After': String(error.retryAfterSeconds()) } }
+      );
+    }
+    if (error instanceof PayloadTooLargeError) {
+      return NextResponse.json({ error: 'Conversation is too large to stream; start a new chat' }, { status: 413 });
+    }
+    console.error('Error editing question:', error);
+    return NextResponse.json({ error: 'Failed to edit question', message: error.message }, { status: 500 });
+  }
+}
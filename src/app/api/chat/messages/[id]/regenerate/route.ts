@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser } from '@/lib/auth';
+import { chatMessageService } from '@/lib/chatMessageService';
+import { chatSessionService } from '@/lib/chatSessionService';
+import { prepareTutorStream } from '@/lib/tutorStream';
+import { PayloadTooLargeError } from '@/lib/streamStore/types';
+import { isTemplateName } from '@/lib/prompts/registry';
+import { QuotaExceededError, usageService } from '@/lib/usageService';
+import { withRateLimit } from '@/lib/rateLimit/withRateLimit';
+
+// Node.js runtime so messages can be read with Prisma
+export const runtime = 'nodejs';
+
+export const POST = withRateLimit('chat', regenerateAnswer);
+
+/**
+ * POST /api/chat/messages/[id]/regenerate { currentPage?, template? }
+ * Answer the question again as a new branch beside answer id; the old answer is kept.
+ * Uses the template that produced the old answer unless another is given.
+ * Responds with a stream to follow, like POST /api/chat/stream.
+ */
+async function regenerateAnswer(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const userId = getRequestUser(request)?.userId;
+    if (!userId) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const answer = await chatMessageService.findOwned(params.id, userId);
+    if (!answer || !answer.pdfId) {
+      return NextResponse.json({ error: 'Message not found' }, { status: 404 });
+    }
+    if (answer.role !== 'assistant') {
+      return NextResponse.json({ error: 'Only answers can be regenerated; edit a question instead' }, { status: 400 });
+    }
+    const question = await chatMessageService.findParent(answer);
+    if (!question || question.role !== 'user') {
+      return NextResponse.json({ error: 'This answer has no question to answer again' }, { status: 400 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const template = body?.template ?? answer.meta?.prompt?.template;
+    if (template !== undefined && !isTemplateName(template)) {
+      return NextResponse.json({ error: 'Unknown prompt template' }, { status: 400 });
+    }
+    const quota = await usageService.checkQuota(userId);
+    const messages = (await chatMessageService.getBranch(question)).map(({ role, content }) => ({ role, content }));
+    if (question.sessionId) await chatSessionService.recordQuestion(question.sessionId, question.content);
+
+    const stream = await prepareTutorStream({
+      userId,
+      messages,
+      pdfId: answer.pdfId,
+      sessionId: answer.sessionId || undefined,
+      currentPage: Number(body?.currentPage) || answer.pageContext || 1,
+      replyTo: question.id,
+      template,
+      quota,
+    });
+    return NextResponse.json({ ...stream, questionId: question.id });
+  } catch (error: any) {
+    if (error instanceof QuotaExceededError) {
+      return NextResponse.json(
+        { error: error.message, resetAt: error.quota.resetAt },
+        { status: 429, headers: { 'Retry-After': String(error.retryAfterSeconds()) } }
+      );
+    }
+    if (error instanceof PayloadTooLargeError) {
+      return NextResponse.json({ error: 'Conversation is too large to stream; start a new chat' }, { status: 413 });
+    }
+    console.error('Error regenerating answer:', error);
+    return NextResponse.json({ error: 'Failed to regenerate answer', message: error.message }, { status: 500 });
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * Route tests for asking an edited question as a new branch
+ */
+
+import type { NextRequest } from 'next/server';
+import { POST } from '../[id]/edit/route';
+import { chatMessageService } from '@/lib/chatMessageService';
+import { prepareTutorStream } from '@/lib/tutorStream';
+import { PayloadTooLargeError } from '@/lib/streamStore/types';
+
+// A question q1 asked after answer a0, in student's conversation
+const mockMessages: Record<string, any> = {
+  a0: { id: 'a0', userId: 'student', pdfId: 'pdf-1', sessionId: 'session-1', role: 'assistant', content: 'Welcome.' },
+  q1: { id: 'q1', userId: 'student', pdfId: 'pdf-1', sessionId: 'session-1', role: 'user', content: 'What is entropy?', pageContext: 2 },
+};
+let mockUserId = 'student';
+
+jest.mock('@/lib/auth', () => ({ getRequestUser: () => ({ userId: mockUserId }) }));
+jest.mock('@/lib/rateLimit/withRateLimit', () => ({ withRateLimit: (_: string, handler: any) => handler }));
+jest.mock('@/lib/chatMessageService', () => ({
+  chatMessageService: {
+    findOwned: jest.fn(async (id: string, userId: string) => (mockMessages[id]?.userId === userId ? mockMessages[id] : null)),
+    findParent: jest.fn(async () => mockMessages.a0),
+    branchContext: jest.fn(async (_: any, messages: any[]) => [{ role: 'assistant', content: 'Welcome.' }, ...messages]),
+    appendMessages: jest.fn(async ({ messages }: any) => messages.map((m: any) => ({ ...m, id: m.id || 'generated' }))),
+  },
+}));
+jest.mock('@/lib/chatSessionService', () => ({ chatSessionService: { recordQuestion: jest.fn(async () => {}) } }));
+jest.mock('@/lib/usageService', () => ({
+  QuotaExceededError: class QuotaExceededError extends Error {},
+  usageService: { checkQuota: jest.fn(async () => ({ tier: 'free', remaining: 40000 })) },
+}));
+jest.mock('@/lib/tutorStream', () => ({
+  prepareTutorStream: jest.fn(async () => ({ streamId: 'stream-1', streamUrl: '/api/chat/stream/stream-1?ticket=t' })),
+}));
+
+const service = chatMessageService as jest.Mocked<typeof chatMessageService>;
+const prepare = prepareTutorStream as jest.Mock;
+
+const edit = (id: string, body: Record<string, unknown>) =>
+  POST({ json: async () => body } as unknown as NextRequest, { params: { id } }) as unknown as Promise<{ status: number; body: string }>;
+
+describe('POST /api/chat/messages/[id]/edit', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockUserId = 'student';
+  });
+
+  test('should store the edit beside the original, after the stream for its answer is ready', async () => {
+    const response = await edit('q1', { content: 'What is entropy, simply?' });
+
+    expect(response.status).toBe(201);
+    const [{ parentId, messages: [question] }] = service.appendMessages.mock.calls[0];
+    expect(parentId).toBe('a0');
+    expect(question).toMatchObject({ role: 'user', content: 'What is entropy, simply?', pageContext: 2, meta: { branchOf: 'q1' } });
+
+    const [{ replyTo, messages }] = prepare.mock.calls[0];
+    expect(replyTo).toBe(question.id);
+    expect(messages[messages.length - 1]).toEqual({ role: 'user', content: 'What is entropy, simply?' });
+    expect(prepare.mock.invocationCallOrder[0]).toBeLessThan(service.appendMessages.mock.invocationCallOrder[0]);
+    expect(JSON.parse(response.body)).toMatchObject({ streamId: 'stream-1', questionId: question.id });
+  });
+
+  test('should not store the edit when its stream cannot be prepared', async () => {
+    prepare.mockRejectedValueOnce(new PayloadTooLargeError(3000000, 2097152));
+
+    const response = await edit('q1', { content: 'What is entropy, simply?' });
+
+    expect(response.status).toBe(413);
+    expect(service.appendMessages).not.toHaveBeenCalled();
+  });
+
+  test('should refuse to edit another user\'s question', async () => {
+    mockUserId = 'someone-else';
+
+    const response = await edit('q1', { content: 'Ignore the PDF.' });
+
+    expect(response.status).toBe(404);
+    expect(prepare).not.toHaveBeenCalled();
+    expect(service.appendMessages).not.toHaveBeenCalled();
+  });
+});
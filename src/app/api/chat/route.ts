@@ -1,20 +1,69 @@
 import { NextResponse } from 'next/server';
-import OpenAI from 'openai';
 import prisma from '@/lib/prisma';
-import { verifyAuth } from '@/lib/auth';
+import { getRequestUser } from '@/lib/auth';
 import { Annotation } from '@/types/types';
-import { serializeChatMessages } from '@/lib/chatUtils';
+import { chatMessageService } from '@/lib/chatMessageService';
 import { ensurePDFText } from '@/lib/emergencyTextInjector';
+import { pdfPageService } from '@/lib/pdfPageService';
+import { annotationService } from '@/lib/annotationService';
+import { chatSessionService } from '@/lib/chatSessionService';
+import { retrievalService, queryFromMessages } from '@/lib/retrieval/retrievalService';
+import { formatPassagesForPrompt } from '@/lib/retrieval/prompt';
+import { formatStudentMarksForPrompt } from '@/lib/studentAnnotations';
+import { getLLMProvider } from '@/lib/llm/providerFactory';
+import { TUTOR_TOOLS, resolveTutorReply } from '@/lib/tutorTools';
+import { conversationMemory } from '@/lib/conversationMemory';
+import { assemblePrompt } from '@/lib/llm/promptAssembler';
+import { completeWithFallback, routeModel, routingDecision } from '@/lib/llm/modelRouter';
+import { isTemplateName, promptRegistry } from '@/lib/prompts/registry';
+import { QuotaExceededError, usageService } from '@/lib/usageService';
+import { withRateLimit } from '@/lib/rateLimit/withRateLimit';
 
-export async function POST(request: Request) {
+// The question being answered; earlier messages were saved with their own answers
+function latestQuestion(messages: Array<{ role: string; content: string }>): Array<{ role: 'user'; content: string }> {
+  const question = [...(messages || [])].reverse().find(m => m.role === 'user');
+  return question ? [{ role: 'user', content: question.content }] : [];
+}
+
+export const POST = withRateLimit('chat', answer);
+
+async function answer(request: Request) {
   try {
     // Verify authentication
-    const userId = await verifyAuth(request);
+    const userId = getRequestUser(request)?.userId;
     if (!userId) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    let { messages, pdfText, pdfId, currentPage: requestedPage } = await request.json();
+    let { messages, pdfText, pdfId, sessionId, parentId, template, currentPage: requestedPage } = await request.json();
+    if (template !== undefined && !isTemplateName(template)) {
+      return NextResponse.json({ error: 'Unknown prompt template' }, { status: 400 });
+    }
+    const quota = await usageService.checkQuota(userId);
+
+    // Read page text from the database rather than trusting the client payload
+    if (pdfId) {
+      const pdf = await prisma.pDF.findFirst({
+        where: { id: pdfId, userId, deletedAt: null },
+        select: { id: true }
+      });
+      if (!pdf) {
+        return NextResponse.json({ error: 'PDF not found' }, { status: 404 });
+      }
+      if (sessionId && !(await chatSessionService.findOwned(sessionId, userId, pdfId))) {
+        return NextResponse.json({ error: 'Chat session not found' }, { status: 404 });
+      }
+      // Questions asked on an earlier branch see that branch, not what the page last showed
+      if (parentId) {
+        const parent = await chatMessageService.findOwned(parentId, userId);
+        if (!parent || parent.pdfId !== pdfId || (parent.sessionId || undefined) !== (sessionId || undefined)) {
+          return NextResponse.json({ error: 'Parent message not found' }, { status: 404 });
+        }
+        messages = await chatMessageService.branchContext(parent, messages);
+      }
+      if (sessionId) await chatSessionService.recordQuestion(sessionId, queryFromMessages(messages));
+      pdfText = await pdfPageService.buildChatPdfText(pdfId, pdfText?.currentPage || requestedPage || 1, pdfText || {});
+    }
     
     // Ensure the PDF text structure is valid, but don't force specific content
     pdfText = ensurePDFText(pdfText);
@@ -34,19 +83,19 @@ export async function POST(request: Request) {
       documentType = 'general'
     } = pdfText;
 
-    // Limit text size to prevent token overflow
-    const truncateText = (text: string, maxLength: number) => {
-      if (!text) return '';
-      return text.length > maxLength ? text.substring(0, maxLength) + '...' : text;
-    };
+    // Retrieve passages from anywhere in the document for the latest question
+    const passages = pdfId ? await retrievalService.retrieve(pdfId, queryFromMessages(messages)) : [];
+    const passagesSection = formatPassagesForPrompt(passages);
 
-    // Use smaller excerpt sizes to reduce token count
-    const currentExcerpt = truncateText(currentPageText, 600);
-    const prevExcerpt = previousPageText ? truncateText(previousPageText, 150) : '';
-    const nextExcerpt = nextPageText ? truncateText(nextPageText, 150) : '';
+    // Line geometry so quoted highlights resolve to exact rectangles
+    const geometry = pdfId
+      ? await pdfPageService.getGeometry(pdfId, [currentPage - 1, currentPage, currentPage + 1, ...passages.map(p => p.page)])
+      : {};
 
-    // Only keep recent message history to reduce token count
-    const recentMessages = messages.slice(-5); // Only keep the last 5 messages
+    // The student's own highlights and notes, nearest pages first
+    const studentMarksSection = pdfId
+      ? formatStudentMarksForPrompt(await annotationService.studentMarks(pdfId, currentPage, geometry))
+      : '';
 
     // Try to infer document type based on content, but don't force any specific interpretation
     // This allows us to provide better handling for different document types
@@ -69,302 +118,158 @@ export async function POST(request: Request) {
       }
     }
     
-    // For longer documents, use the full text or a larger excerpt
-    const processedText = (currentPageText && currentPageText.length > 0) ? 
-      (currentPageText.length > 1000 ? currentExcerpt : currentPageText) : 
-      "No text available for this page";
-                         
-    // Create a system message with adaptive handling based on detected document type
-    const systemMessage = {
-      role: 'system',
-      content: `You are an AI tutor helping a student understand a PDF document. Your primary role is to explain concepts, answer questions, and help them navigate and comprehend the material effectively.
-
-You are currently viewing Page ${currentPage} of ${totalPages}.
-
-${detectedType !== 'unknown' ? `DOCUMENT TYPE: ${detectedType.toUpperCase()}\n\n` : ''}
-Current Page Content (${currentPage}/${totalPages}):
-${processedText}
-
-${previousPageText ? `Previous Page (${currentPage - 1}):\n${prevExcerpt}` : ''}
-
-${nextPageText ? `Next Page (${currentPage + 1}):\n${nextExcerpt}` : 'Note: You are on the last page.'}
+    const llm = getLLMProvider();
+    const tools = llm.supportsTools ? TUTOR_TOOLS : undefined;
 
-IMPORTANT INSTRUCTIONS:
-
-1. ACTIVE TEACHING - Act as an experienced tutor. Explain concepts clearly, use examples, and check for understanding. Be encouraging and supportive.
-
-2. PAGE NAVIGATION - You MUST use these commands when information is on a different page:
-   - Use [GO TO PAGE x] to jump to a specific page
-   - Use [NEXT PAGE] to move forward one page
-   - Use [PREV PAGE] to move back one page
-   - Use [FIRST PAGE] or [LAST PAGE] for quick navigation
-   Always explain why you're navigating to a different page.
+    // The latest messages in full and a summary of everything before them, within a token budget
+    const question = latestQuestion(messages);
+    const history = pdfId
+      ? await chatMessageService.historyBefore({ pdfId, userId, sessionId, parentId })
+      : (messages || []).slice(0, -1);
+    const memory = await conversationMemory.recall(history, llm, { userId, pdfId });
+    
+    // The model chain for this answer, from the user's tier, the answer style, the page size and the tokens left today
+    const route = routeModel({
+      tier: quota.tier,
+      task: template,
+      documentTokens: llm.countTokens(currentPageText || ''),
+      budgetRemaining: quota.remaining,
+    });
+    const model = route.steps[0].model;
 
-3. VISUAL ANNOTATIONS - Your most important feature is highlighting content for the student:
-   - Highlight text: [HIGHLIGHT ${currentPage} x y width height] (use coordinates)
-   - Circle important items: [CIRCLE ${currentPage} x y radius] (use coordinates)
-   - Use colors for emphasis: [HIGHLIGHT ${currentPage} x y width height color="rgba(255,0,0,0.5)"]
-   ALWAYS include at least one annotation in every response to visually guide the student.
-   Explain what you're highlighting and why it's important.
+    // The requested template (tutor unless the student picked another), fitted to the model
+    const rendered = promptRegistry.render(template, {
+      currentPage,
+      totalPages,
+      currentPageText,
+      previousPageText,
+      nextPageText,
+      documentType: detectedType,
+      passages: passagesSection,
+      studentMarks: studentMarksSection,
+      memorySummary: memory.summary,
+      tools: !!tools,
+    });
+    const prompt = assemblePrompt({
+      llm,
+      model,
+      system: rendered.sections,
+      history: memory.recent,
+      question,
+      replyTokens: route.steps[0].maxTokens,
+    });
+    if (prompt.trimmed.length > 0) {
+      console.log(`Prompt trimmed to ${prompt.promptTokens}/${prompt.budget} tokens: ${prompt.trimmed.join(', ')}`);
+    }
+    
+    const { result: response, step } = await completeWithFallback(llm, route.steps, {
+      messages: prompt.messages,
+      temperature: 0.7,
+      tools,
+    });
 
-4. ADAPTIVE TEACHING - Adapt your teaching style to the subject matter:
-   - For textbooks: Explain concepts, highlight definitions, summarize key points
-   - For research papers: Explain methodology, highlight findings, discuss implications
-   - For study materials: Point out important facts, create connections between concepts
-   
-5. INTERACTION GUIDELINES:
-   - Be concise but thorough
-   - When asked to explain something, highlight the relevant text as you discuss it
-   - If answering from multiple pages, navigate between them to show comprehensive information
-   - Use page numbers when referencing content
-   - Encourage critical thinking through thoughtful questions`
-    };
+    const reply = response.content;
 
-    try {
-      const openai = new OpenAI({ 
-        apiKey: process.env.OPENAI_API_KEY
-      });
-      
-      // Choose the best model based on content complexity and teaching requirements
-      // For a tutor experience, we need strong reasoning and instruction capabilities
-      const isComplex = currentPageText && currentPageText.length > 2000;
-      const detectedComplexSubject = detectedType === 'scientific' || 
-                                 processedText.toLowerCase().includes('theorem') ||
-                                 processedText.toLowerCase().includes('equation') ||
-                                 processedText.toLowerCase().includes('analysis');
-                                 
-      // Prefer GPT-4o for tutoring complex subjects or longer content
-      const model = isComplex || detectedComplexSubject ? 'gpt-4o' : 'gpt-3.5-turbo';
+    // Tool calls and any bracket commands in the text resolve through the same grammar
+    const resolved = resolveTutorReply(reply, response.toolCalls, { currentPage, totalPages, geometry });
+    if (resolved.errors.length > 0) {
+      console.warn('Rejected tool calls:', resolved.errors);
+    }
+    const pageNumber = resolved.targetPage ?? currentPage;
+    const annotations: Annotation[] = resolved.annotations;
+    
+    // Quotes without stored geometry fall back to the client's text positions
+    for (const { text: textToHighlight, page: pageNum } of resolved.textHighlights) {
+      // Skip if text is too short (likely to cause false positives)
+      if (textToHighlight.length < 3) continue;
       
-      const response = await openai.chat.completions.create({
-        model: model,
-        messages: [
-          systemMessage,
-          ...recentMessages.map((m: {role: string, content: string}) => ({
-            role: m.role,
-            content: m.content,
-          }))
-        ],
-        temperature: 0.7,
-        max_tokens: 800,
-      });
-
-      const reply = response.choices[0].message?.content;
-
-      // Parse navigation commands from the reply
-      let pageNumber = currentPage;
-      const goToPageRegex = /\[GO TO PAGE (\d+)\]/;
-      const nextPageRegex = /\[NEXT PAGE\]/;
-      const prevPageRegex = /\[PREV PAGE\]/;
-      const firstPageRegex = /\[FIRST PAGE\]/;
-      const lastPageRegex = /\[LAST PAGE\]/;
-
-      const goToPageMatch = reply?.match(goToPageRegex);
-      const hasNextPage = nextPageRegex.test(reply || '');
-      const hasPrevPage = prevPageRegex.test(reply || '');
-      const hasFirstPage = firstPageRegex.test(reply || '');
-      const hasLastPage = lastPageRegex.test(reply || '');
-
-      if (goToPageMatch) {
-        const requestedPage = parseInt(goToPageMatch[1], 10);
-        if (requestedPage >= 1 && requestedPage <= totalPages) {
-          pageNumber = requestedPage;
-        }
-      } else if (hasNextPage && currentPage < totalPages) {
-        pageNumber = currentPage + 1;
-      } else if (hasPrevPage && currentPage > 1) {
-        pageNumber = currentPage - 1;
-      } else if (hasFirstPage) {
-        pageNumber = 1;
-      } else if (hasLastPage) {
-        pageNumber = totalPages;
+      // Get position data for the specified page
+      let pagePositions = [];
+      if (pageNum === currentPage) {
+        pagePositions = positions.current || [];
+      } else if (pageNum === currentPage - 1) {
+        pagePositions = positions.previous || [];
+      } else if (pageNum === currentPage + 1) {
+        pagePositions = positions.next || [];
       }
-
-      // Parse annotations from the reply
-      const annotations: Annotation[] = [];
       
-      // Standard annotation commands with explicit coordinates
-      const highlightRegex = /\[HIGHLIGHT (\d+) (\d+) (\d+) (\d+) (\d+)(?:\s+color="([^"]+)")?\]/g;
-      const circleRegex = /\[CIRCLE (\d+) (\d+) (\d+) (\d+)(?:\s+color="([^"]+)")?\]/g;
-      const textHighlightRegex = /\[HIGHLIGHT TEXT "([^"]+)" ON PAGE (\d+)\]/g;
+      // Skip if we don't have position data for this page
+      if (pagePositions.length === 0) continue;
+      
+      // Find text positions that contain the text
+      const matchingPositions = pagePositions.filter((pos: any) => 
+        pos.text.includes(textToHighlight)
+      );
       
-      // Process highlights
-      let match;
-      while ((match = highlightRegex.exec(reply || '')) !== null) {
+      // If matches found, create highlight annotations
+      matchingPositions.forEach((pos: any) => {
         annotations.push({
           type: 'highlight',
-          page: parseInt(match[1]),
-          x: parseInt(match[2]),
-          y: parseInt(match[3]),
-          width: parseInt(match[4]),
-          height: parseInt(match[5]),
-          color: match[6] || 'rgba(255, 255, 0, 0.3)'
+          page: pageNum,
+          x: pos.x,
+          y: pos.y - (pos.height || 12), // Adjust y position to align with text
+          width: pos.width || textToHighlight.length * 7, // Estimate width based on text length
+          height: pos.height || 15, // Default height if not available
+          color: 'rgba(255, 255, 0, 0.3)',
+          text: textToHighlight
         });
-      }
+      });
+    }
+    
+    const cleanReply = resolved.text;
 
-      // Process circles
-      while ((match = circleRegex.exec(reply || '')) !== null) {
-        annotations.push({
-          type: 'circle',
-          page: parseInt(match[1]),
-          x: parseInt(match[2]),
-          y: parseInt(match[3]),
-          radius: parseInt(match[4]),
-          color: match[5] || 'rgba(255, 0, 0, 0.7)'
-        });
-      }
-      
-      // Process text-based highlights
-      while ((match = textHighlightRegex.exec(reply || '')) !== null) {
-        const textToHighlight = match[1].trim();
-        const pageNum = parseInt(match[2]);
-        
-        // Skip if text is too short (likely to cause false positives)
-        if (textToHighlight.length < 3) continue;
-        
-        // Get position data for the specified page
-        let pagePositions = [];
-        if (pageNum === currentPage) {
-          pagePositions = positions.current || [];
-        } else if (pageNum === currentPage - 1) {
-          pagePositions = positions.previous || [];
-        } else if (pageNum === currentPage + 1) {
-          pagePositions = positions.next || [];
-        }
-        
-        // Skip if we don't have position data for this page
-        if (pagePositions.length === 0) continue;
-        
-        // Find text positions that contain the text
-        const matchingPositions = pagePositions.filter((pos: any) => 
-          pos.text.includes(textToHighlight)
-        );
-        
-        // If matches found, create highlight annotations
-        matchingPositions.forEach((pos: any) => {
-          annotations.push({
-            type: 'highlight',
-            page: pageNum,
-            x: pos.x,
-            y: pos.y - (pos.height || 12), // Adjust y position to align with text
-            width: pos.width || textToHighlight.length * 7, // Estimate width based on text length
-            height: pos.height || 15, // Default height if not available
-            color: 'rgba(255, 255, 0, 0.3)',
-            text: textToHighlight
-          });
-        });
-      }
-      
-      // Clean reply text by removing annotation commands for cleaner display
-      let cleanReply = reply || '';
-      cleanReply = cleanReply
-        .replace(highlightRegex, '')
-        .replace(circleRegex, '')
-        .replace(textHighlightRegex, '')
-        .replace(/\[GO TO PAGE \d+\]/g, '')
-        .replace(/\[NEXT PAGE\]/g, '')
-        .replace(/\[PREV PAGE\]/g, '')
-        .replace(/\[FIRST PAGE\]/g, '')
-        .replace(/\[LAST PAGE\]/g, '')
-        .replace(/\s{2,}/g, ' ')
-        .trim();
+    // What the answer took; counted here when the provider does not report it
+    const usage = {
+      model: response.model || model,
+      promptTokens: response.usage?.promptTokens ?? prompt.promptTokens,
+      completionTokens: response.usage?.completionTokens ?? llm.countTokens(reply, model),
+    };
+    const routing = routingDecision(route, step, usage.model);
 
-      // Store the chat message and annotations in the database
-      if (pdfId) {
-        // Use our serialization utility for consistent storage format
-        const chatMessages = [
-          ...messages, 
-          { 
-            role: 'assistant', 
-            content: reply,
-            annotations: annotations 
-          }
-        ];
-        
-        const serializedData = serializeChatMessages(chatMessages);
-        
-        await prisma.chat.create({
-          data: {
-            pdfId,
-            userId,
-            messages: serializedData as any,
+    // Store the question and answer, with the answer's annotations linked to it
+    let saved: Awaited<ReturnType<typeof chatMessageService.appendUnsaved>> = [];
+    if (pdfId) {
+      saved = await chatMessageService.appendUnsaved({
+        pdfId,
+        userId,
+        sessionId,
+        parentId,
+        messages: [
+          ...question.map(m => ({ ...m, tokenCount: llm.countTokens(m.content, model) })),
+          {
+            role: 'assistant',
+            content: cleanReply,
+            annotations,
+            tokenCount: usage.completionTokens,
+            meta: { usage, prompt: rendered.ref, routing },
           },
-        });
-      }
-
-      return NextResponse.json({ 
-        reply: cleanReply,
-        annotations,
-        pageNumber: pageNumber !== currentPage ? pageNumber : undefined 
+        ],
       });
-    } catch (apiError: any) {
-      // Handle token limit errors
-      if (apiError.message && apiError.message.includes('maximum context length')) {
-        console.warn('Token limit exceeded, retrying with reduced content');
-        
-        try {
-          // Try again with minimal content
-          const openai = new OpenAI({ 
-            apiKey: process.env.OPENAI_API_KEY
-          });
-          
-          // Use only the last user message
-          const latestUserMessage = messages
-            .filter((m: {role: string, content: string}) => m.role === 'user')
-            .pop();
-            
-          if (!latestUserMessage) {
-            throw new Error('No user message found');
-          }
-          
-          const fallbackResponse = await openai.chat.completions.create({
-            model: 'gpt-3.5-turbo',
-            messages: [
-              {
-                role: 'system',
-                content: "You're a PDF study assistant. Be concise."
-              },
-              latestUserMessage
-            ],
-            temperature: 0.7,
-            max_tokens: 300,
-          });
-          
-          const fallbackReply = fallbackResponse.choices[0].message?.content;
-          
-          // Store the simplified chat message in the database
-          if (pdfId) {
-            // Use our serialization utility for fallback mode
-            const chatMessages = [
-              ...messages,
-              { role: 'assistant', content: fallbackReply }
-            ];
-            
-            const serializedData = serializeChatMessages(chatMessages);
-            
-            await prisma.chat.create({
-              data: {
-                pdfId,
-                userId,
-                messages: serializedData as any,
-              },
-            });
-          }
-          
-          return NextResponse.json({ 
-            reply: fallbackReply,
-            annotations: [],
-            note: 'Response generated with limited context due to token limits'
-          });
-        } catch (fallbackError) {
-          console.error('Fallback error:', fallbackError);
-          throw fallbackError;
-        }
-      }
-      
-      throw apiError;
     }
+    await usageService.record({
+      userId,
+      pdfId,
+      messageId: saved[saved.length - 1]?.id,
+      ...usage,
+      route: 'chat',
+      reason: routing.reason,
+    });
+
+    return NextResponse.json({ 
+      reply: cleanReply,
+      annotations,
+      messageId: saved[saved.length - 1]?.id,
+      questionId: saved.length > 1 ? saved[0].id : undefined,
+      pageNumber: pageNumber !== currentPage ? pageNumber : undefined,
+      sources: passages.map(p => ({ page: p.page, score: p.score }))
+    });
   } catch (error: any) {
+    if (error instanceof QuotaExceededError) {
+      return NextResponse.json(
+        { error: error.message, resetAt: error.quota.resetAt },
+        { status: 429, headers: { 'Retry-After': String(error.retryAfterSeconds()) } }
+      );
+    }
     console.error('Chat error:', error);
     const errorMessage = error.message || 'Failed to process chat request';
     return NextResponse.json(
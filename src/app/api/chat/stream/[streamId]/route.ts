@@ -1,11 +1,34 @@
 import { NextRequest, NextResponse } from 'next/server';
-import OpenAI from 'openai';
 import {
   formatSSEMessage as createSSE,
   handleEdgeError
 } from '@/lib/sseUtils';
-import { emergencyGetSixSigmaText } from '@/lib/pdfUtils';
-import { getStreamPayload, deleteStreamPayload } from '@/lib/shortTermStore';
+import { getStreamPayloadStore } from '@/lib/streamStore/storeFactory';
+import type { StreamPayload } from '@/lib/streamStore/types';
+import { STREAM_TICKET_TTL_SECONDS, verifyStreamTicket } from '@/lib/edgeAuth';
+import type { PageGeometry } from '@/lib/textAnchor';
+import {
+  appendStreamEvent,
+  canReadStream,
+  completeStreamLog,
+  followStream,
+  hasStreamLog,
+  openStreamLog,
+  parseLastEventId
+} from '@/lib/streamEventLog';
+import { formatPassagesForPrompt } from '@/lib/retrieval/prompt';
+import { StudentMark, formatStudentMarksForPrompt } from '@/lib/studentAnnotations';
+import { getLLMProvider } from '@/lib/llm/providerFactory';
+import { LLMConfigurationError, LLMMessage, LLMProvider, LLMUsage } from '@/lib/llm/types';
+import { assemblePrompt } from '@/lib/llm/promptAssembler';
+import { GenerationCancelledError, RoutingDecision, routeModel, routingDecision, streamWithFallback } from '@/lib/llm/modelRouter';
+import { estimateCost, usageService } from '@/lib/usageService';
+import { TUTOR_TOOLS, TutorAction, TutorActionStream } from '@/lib/tutorTools';
+import { StreamedReply } from '@/lib/streamedReply';
+import { chatMessageService } from '@/lib/chatMessageService';
+import { conversationMemory } from '@/lib/conversationMemory';
+import { promptRegistry } from '@/lib/prompts/registry';
+import type { TemplateName } from '@/lib/prompts/types';
 
 // Stream timeout - reduced to prevent browser hanging (60 seconds)
 const STREAM_TIMEOUT = 60000;
@@ -13,7 +36,8 @@ const STREAM_TIMEOUT = 60000;
 // Send a heartbeat every 5 seconds to keep connection alive
 const HEARTBEAT_INTERVAL = 5000;
 
-export const runtime = 'edge';
+// Node.js runtime so the configured stream store (file or Redis) can be reached
+export const runtime = 'nodejs';
 
 export async function GET(
   req: NextRequest,
@@ -39,166 +63,182 @@ export async function GET(
   // Extract query parameters
   const searchParams = req.nextUrl.searchParams;
   const message = searchParams.get('message');
-  const urlPdfId = searchParams.get('pdfId');
   const useStream = searchParams.get('stream') !== 'false';
-  const authToken = searchParams.get('token') || '';
-  
-  // Log authentication status for debugging
-  console.log(`Stream ${streamId} - Auth token present: ${authToken ? 'Yes' : 'No'}`);
-  if (authToken) {
-    console.log(`Token starts with: ${authToken.substring(0, 5)}...`);
+  const ticket = searchParams.get('ticket') || '';
+  // EventSource sends Last-Event-ID itself when it reconnects; manual reconnects pass it in the query
+  const lastEventId = parseLastEventId(req.headers.get('last-event-id') || searchParams.get('lastEventId'));
+  const resuming = lastEventId > 0 || searchParams.get('resume') === '1';
+
+  const reject = (error: string) => {
+    writer.write(encoder.encode(createSSE({ type: 'error', error, recoverable: false })))
+      .then(() => writer.close())
+      .catch(() => {});
+    return responseStream;
+  };
+
+  // Every connection needs its own ticket: minted for this user and stream, and redeemable once
+  const claims = await verifyStreamTicket(ticket, streamId);
+  if (!claims) {
+    console.warn(`Stream ${streamId} - Invalid or expired stream ticket`);
+    return reject('Invalid authentication');
   }
+  const store = getStreamPayloadStore();
+  try {
+    if (!(await store.markUsed(`ticket:${claims.jti}`, STREAM_TICKET_TTL_SECONDS * 1000))) {
+      console.warn(`Stream ${streamId} - Stream ticket reused`);
+      return reject('Invalid authentication');
+    }
+  } catch (storeError) {
+    console.error(`Stream ${streamId} - Could not record stream ticket:`, storeError);
+    return reject('Stream unavailable');
+  }
+  const userId = claims.sub;
+
+  // A new stream may only start from a payload this user (and PDF) created
+  if (!resuming && !hasStreamLog(streamId)) {
+    const pending = await store.get(streamId).catch(() => undefined);
+    if (!pending) {
+      return reject('Stream expired');
+    }
+    if (pending.userId !== userId || (pending.pdfId || '') !== claims.pdf) {
+      console.warn(`Stream ${streamId} - Ticket for user ${userId} does not match the stream payload`);
+      return reject('Stream not found');
+    }
+  }
+
+  // Generation writes to the stream log; this connection replays it from lastEventId and follows the tail
+  const startsGeneration = !resuming && openStreamLog(streamId, userId);
+  if (!startsGeneration && !canReadStream(streamId, userId)) {
+    return reject(hasStreamLog(streamId) ? 'Stream not found' : 'Stream expired');
+  }
+  if (resuming) {
+    console.log(`Stream ${streamId} - Resuming after event ${lastEventId}`);
+  }
+  pipeStreamToConnection(streamId, lastEventId, writer, encoder);
+  if (!startsGeneration) {
+    return responseStream;
+  }
+
+  let endSent = false;
+  const emit = (data: any) => {
+    // Nothing follows the end event (a generation cut off by the timeout may still be winding down)
+    if (endSent) return;
+    if (data.type === 'end') endSent = true;
+    appendStreamEvent(streamId, data);
+  };
     
-  // Process the stream
+  // Produce the stream
   (async () => {
     // Track if the stream is active
     let isStreamActive = true;
+
+    // Aborted by the timeout: the model stops and the generation drops whatever it was still writing
+    const generation = new AbortController();
+
+    // The stored question and answer; null without a PDF or a stream payload
+    let reply: StreamedReply | null = null;
+
+    // Finish storing the reply before ending, so the end event can carry its id.
+    // Only the first call stores and ends; later ones wait for it.
+    let ending: Promise<void> | null = null;
+    const end = (message: string, failure?: string) => {
+      ending ??= (async () => {
+        if (reply) await (failure ? reply.fail(failure) : reply.finish());
+        emit({ type: 'end', message, messageId: reply?.id, questionId: reply?.questionId });
+      })();
+      return ending;
+    };
     
-    // Set up heartbeat interval to keep connection alive
-    const heartbeatInterval = setInterval(async () => {
-      if (isStreamActive) {
-        try {
-          await writer.write(encoder.encode(createSSE({ 
-            type: 'heartbeat', 
-            timestamp: Date.now()
-          })));
-        } catch (err) {
-          console.error('Heartbeat error:', err);
-          clearInterval(heartbeatInterval);
-        }
-      } else {
-        clearInterval(heartbeatInterval);
-      }
-    }, HEARTBEAT_INTERVAL);
-    
-    // Set up a timeout to close the connection if it takes too long
+    // Set up a timeout to end generation if it takes too long; it alone fails the reply
     const timeout = setTimeout(async () => {
-      if (isStreamActive) {
-        try {
-          console.log('Stream timeout reached');
-          await writer.write(encoder.encode(createSSE({
-            type: 'error',
-            error: 'Stream timeout reached'
-          })));
-          isStreamActive = false;
-          clearInterval(heartbeatInterval);
-          await writer.close();
-        } catch (err) {
-          console.error('Timeout handler error:', err);
-        }
+      if (isStreamActive && !ending) {
+        console.log('Stream timeout reached');
+        generation.abort();
+        isStreamActive = false;
+        emit({
+          type: 'error',
+          error: 'Stream timeout reached'
+        });
+        await end('Stream timed out', 'Stream timeout reached');
+        completeStreamLog(streamId);
       }
     }, STREAM_TIMEOUT);
     
     try {
       // Send initial connection message
-      await writer.write(encoder.encode(createSSE({ 
+      emit({ 
         type: 'connect',
         message: 'Stream connected'
-      })));
+      });
       
-  // Get information from query params (support both plain & base64 encoded payloads)
-  const messageData = searchParams.get('messageData');
-  const messageDataB64 = searchParams.get('messageDataB64');
-  const messageDataLength = messageData ? messageData.length : 0;
+      // The payload comes from the stream store (written by POST /api/chat/stream) and is consumed once
       let messages: any[] = [];
       let pdfText: Record<string, any> = {};
-  let currentPage = 1;
-      let pdfId = urlPdfId || '';
-  let pageHints: Array<{ page: number; score: number; snippet: string }> = [];
-
-  // Track where the payload was sourced from
-  let payloadSource: 'query' | 'store' | 'store-fallback' | 'empty' = 'empty';
+      let currentPage = 1;
+      let pdfId = claims.pdf;
+      let sessionId: string | undefined;
+      let parentId: string | null | undefined;
+      let replyTo: string | undefined;
+      let template: TemplateName | undefined;
+      let tier: string | undefined;
+      let quota: StreamPayload['quota'];
+      let passages: Array<{ page: number; score: number; text: string }> = [];
+      let geometry: Record<number, PageGeometry> = {};
+      let studentMarks: StudentMark[] = [];
+      let payloadSource: 'store' | 'empty' = 'empty';
 
       try {
-        if (messageDataB64) {
-          try {
-            const decodedB64 = decodeURIComponent(messageDataB64);
-            const jsonStr = decodeURIComponent(escape(atob(decodedB64)));
-            const parsedData = JSON.parse(jsonStr);
-            messages = parsedData.messages || [];
-            pdfText = parsedData.pdfText || {};
-            currentPage = parsedData.currentPage || 1;
-            pdfId = parsedData.pdfId || pdfId;
-            if (Array.isArray(parsedData.pageHints)) pageHints = parsedData.pageHints.slice(0, 10);
-            payloadSource = 'query';
-            console.log(`Stream ${streamId} - Parsed base64 messageData payload`);
-          } catch (b64Err) {
-            console.warn(`Stream ${streamId} - base64 messageData parse failed`, b64Err);
-          }
-        }
-        if (!messages.length && messageData) {
-          try {
-            const decoded = decodeURIComponent(messageData);
-            const parsedData = JSON.parse(decoded);
-            messages = parsedData.messages || [];
-            pdfText = parsedData.pdfText || {};
-            currentPage = parsedData.currentPage || 1;
-            pdfId = parsedData.pdfId || pdfId;
-            if (Array.isArray(parsedData.pageHints)) pageHints = parsedData.pageHints.slice(0, 10);
-            payloadSource = 'query';
-            console.log(`Stream ${streamId} - Parsed messageData payload length=${messageDataLength}`);
-          } catch (innerErr) {
-            console.warn(`Stream ${streamId} - plain messageData parse failed`, innerErr);
-          }
-        }
-        if (!messages.length) {
-          const stored = getStreamPayload(streamId);
-          if (stored) {
-            messages = stored.messages || [];
-            pdfText = stored.pdfText || {};
-            currentPage = stored.currentPage || 1;
-            pdfId = stored.pdfId || pdfId;
-            if (Array.isArray(stored.pageHints)) pageHints = stored.pageHints.slice(0, 10);
-            payloadSource = 'store';
-            deleteStreamPayload(streamId);
-            console.log(`Stream ${streamId} - Retrieved payload from store`);
-          }
-        }
-        if (!messages.length) {
-          // Graceful degraded fallback: create minimal message to avoid hard failure
-          payloadSource = 'empty';
-          messages = [{ role: 'user', content: message || 'Explain the current page.' }];
-          pdfText = pdfText || { current: 'No text provided', currentPage: 1, totalPages: 1 };
-          await writer.write(encoder.encode(createSSE({ type: 'diagnostic', note: 'using minimal fallback payload' })));
+        const stored = await store.take(streamId);
+        if (stored) {
+          messages = stored.messages || [];
+          pdfText = stored.pdfText || {};
+          currentPage = stored.currentPage || 1;
+          pdfId = stored.pdfId || pdfId;
+          sessionId = stored.sessionId;
+          parentId = stored.parentId;
+          replyTo = stored.replyTo;
+          template = stored.template;
+          tier = stored.tier;
+          quota = stored.quota;
+          if (Array.isArray(stored.passages)) passages = stored.passages.slice(0, 10);
+          geometry = stored.geometry || {};
+          if (Array.isArray(stored.studentMarks)) studentMarks = stored.studentMarks;
+          payloadSource = 'store';
+          console.log(`Stream ${streamId} - Retrieved payload from ${store.name} store`);
         }
-      } catch (parseError) {
-        console.error('Unexpected error handling messageData:', parseError);
-        payloadSource = 'empty';
+      } catch (storeError) {
+        console.error(`Stream ${streamId} - Failed to read stream payload:`, storeError);
+      }
+
+      if (!messages.length) {
+        // Graceful degraded fallback: create minimal message to avoid hard failure
         messages = [{ role: 'user', content: message || 'Explain the current page.' }];
-        pdfText = pdfText || { current: 'No text provided', currentPage: 1, totalPages: 1 };
-        await writer.write(encoder.encode(createSSE({ type: 'diagnostic', note: 'unexpected parse error, using minimal fallback' })));
+        pdfText = { current: 'No text provided', currentPage: 1, totalPages: 1 };
+        emit({ type: 'diagnostic', note: 'stream payload missing or expired, using minimal fallback' });
       }
 
       // Emit diagnostic event about payload source and sizes
-      await writer.write(encoder.encode(createSSE({
+      emit({
         type: 'diagnostic',
         source: payloadSource,
         messagesCount: messages.length,
         pdfTextKeys: Object.keys(pdfText || {}),
         currentPage,
         currentLength: (pdfText?.current || '').length || 0
-      })));
+      });
       console.log(`Stream ${streamId} diagnostic: source=${payloadSource} messages=${messages.length} currentLen=${(pdfText?.current || '').length || 0}`);
-      
-      // Basic auth check - JWT verification can cause issues in edge runtime
-      // We'll just check that the token exists and has a reasonable format
-      if (!authToken || authToken.length < 10) {
-        console.error('Missing or invalid token:', authToken);
-        await writer.write(encoder.encode(createSSE({
-          type: 'error',
-          error: 'Invalid authentication'
-        })));
-        isStreamActive = false;
-        return;
+
+      // Store the question and the answer as it streams, so closing the tab does not lose them
+      if (pdfId && payloadSource === 'store') {
+        const question = [...messages].reverse().find(m => m.role === 'user');
+        try {
+          reply = await StreamedReply.start({ pdfId, userId, sessionId, question: question?.content, parentId, replyTo, pageContext: currentPage });
+        } catch (persistError) {
+          console.error(`Stream ${streamId} - Could not store the question:`, persistError);
+        }
       }
       
-      // Log success
-      console.log('Authentication token validated successfully');
-      
-      // Note: For production, you should implement proper token validation that's compatible
-      // with the edge runtime, such as using a simple HMAC validation
-      
-      // Prepare data for OpenAI with proper type safety
+      // Prepare data for the model with proper type safety
       // Process the PDF text from what was provided - don't force specific content
   const currentPageText = pdfText.current || "No text available for current page";
       const previousPageText = pdfText.previous || null;
@@ -207,387 +247,227 @@ export async function GET(
 
       // Emit a preview of the received PDF text so client can confirm server-side receipt
       try {
-        await writer.write(encoder.encode(createSSE({
+        emit({
           type: 'pdfPreview',
           source: payloadSource,
-          messageDataLength,
           currentPage,
           totalPages,
             sample: (typeof currentPageText === 'string') ? currentPageText.slice(0, 180) : '',
           length: (typeof currentPageText === 'string') ? currentPageText.length : 0
-        })));
+        });
       } catch (previewErr) {
         console.error('Failed to send pdfPreview event:', previewErr);
       }
       
-      // Create a system message with emergency text injection
-      // Get the emergency Six Sigma text to ensure AI always has access to it
-      const essayText = emergencyGetSixSigmaText();
-      
-      const pageHintsSection = pageHints.length > 0 ? `\nPAGE HINTS (candidate relevant pages):\n${pageHints.map(h => `- Page ${h.page} (score ${h.score}): ${h.snippet.slice(0,120)}`).join('\n')}\n` : '';
-
-      const systemMessage = {
-        role: 'system',
-        content: `You are an AI tutor helping a student understand a PDF document. Your primary role is to explain concepts, answer questions, and help them navigate and comprehend the material effectively.
-
-You are currently viewing Page ${currentPage} of ${totalPages || 1}.
-
-Current Page Content (${currentPage}/${totalPages || 1}):
-${currentPageText}
-
-${previousPageText ? `Previous Page (${currentPage - 1}):\n${previousPageText}` : 'No previous page available'}
-
-${nextPageText ? `Next Page (${currentPage + 1}):\n${nextPageText}` : 'No next page available'}
-
-${pageHintsSection}
-IMPORTANT INSTRUCTIONS:
-
-1. ACTIVE TEACHING - Act as an experienced tutor. Explain concepts clearly, use examples, and check for understanding. Be encouraging and supportive.
-
-2. PAGE NAVIGATION - You MUST use these commands when information is on a different page:
-   - Use [GO TO PAGE x] to jump to a specific page
-   - Use [NEXT PAGE] to move forward one page
-   - Use [PREV PAGE] to move back one page
-   - Use [FIRST PAGE] or [LAST PAGE] for quick navigation
-   Always explain why you're navigating to a different page.
-
-3. VISUAL ANNOTATIONS - ALWAYS include at least one annotation OR navigation command relevant to the student's request:
-  Enhanced annotation syntax with smart coordinate estimation:
-  - [HIGHLIGHT ${currentPage} x y width height color="rgba(255,255,0,0.35)"]
-  - [CIRCLE ${currentPage} x y radius color="rgba(255,0,0,0.4)"]
-  - [ARROW ${currentPage} x1 y1 x2 y2 color="rgba(255,0,0,0.8)"]
-  - [UNDERLINE ${currentPage} x y width color="rgba(0,0,255,0.8)"]
-  - [TEXT ${currentPage} x y "content" color="rgba(0,0,0,0.9)"]
-  - [RECTANGLE ${currentPage} x y width height color="rgba(0,0,255,0.3)"]
-  
-  Smart coordinate guidelines:
-  - Page dimensions: 612×792 points (US Letter)
-  - Text typically starts at x=80, margins are ~40 points
-  - Line height is typically 22 points
-  - For titles: y=120-150, height=30-40
-  - For body text: y=200-600, height=18-25
-  - For highlights: use multiple small rectangles instead of one large one
-  - Example good highlight: [HIGHLIGHT ${currentPage} 80 200 400 22] (single line)
-  - Example multi-line: [HIGHLIGHT ${currentPage} 80 200 400 22] [HIGHLIGHT ${currentPage} 80 222 400 22]
-  
-  Strategy:
-  - If the answer is primarily on current page, highlight 1–3 key spans with precise coordinates
-  - If content spans multiple pages, navigate first: [GO TO PAGE X] then highlight
-  - Always explain what you're highlighting and why it's important
-
-4. ADAPTIVE TEACHING - Analyze the PDF content carefully and adapt your teaching style to the subject matter:
-   - For textbooks: Explain concepts, highlight definitions, summarize key points
-   - For research papers: Explain methodology, highlight findings, discuss implications
-   - For study materials: Point out important facts, create connections between concepts
-   
-5. NAVIGATION EXECUTION ORDER:
-  a. Evaluate question vs current page text.
-  b. If not found, consult PAGE HINTS list and pick the highest score likely page.
-  c. Issue [GO TO PAGE X] BEFORE giving the explanation referencing that page.
-  d. After navigating, highlight relevant text on that page.
-
-6. INTERACTION GUIDELINES:
-   - Be concise but thorough
-   - When asked to explain something, highlight the relevant text as you discuss it
-   - If answering from multiple pages, navigate between them to show the student comprehensive information
-   - Use page numbers when referencing content
-  - Encourage critical thinking through thoughtful questions
-  - If a student asks for definitions or “main idea” and it's not on current page but in hints, navigate + explain.
-FAILURE MODES TO AVOID:
- - Responding without any annotation or navigation command
- - Using coordinates outside page bounds (0-612 width, 0-792 height)
- - Creating highlights taller than 60 points (split into multiple lines instead)
- - Giving explanations about content not visible without navigating first
- - Using vague coordinates when specific ones can be estimated
-
-COORDINATE ESTIMATION RULES:
- - If highlighting a title/heading: x=80, y=120-150, width=400-500, height=25-35
- - If highlighting first paragraph: x=80, y=180-200, width=450, height=20-25
- - If highlighting mid-page content: x=80, y=300-400, width=450, height=20-25
- - If highlighting near bottom: x=80, y=600-700, width=450, height=20-25
- - For circles around important items: radius=30-50, center on the item
- - For arrows pointing to content: start 50 points away, point to target
-
-If coordinates cannot be estimated, use: [HIGHLIGHT ${currentPage} 80 300 400 25] as default and mention it's an estimated region.`
-      };
-  // Append micro-annotation style guidance (post-construction to keep main template readable)
-  (systemMessage as any).content += `\n\nADDITIONAL VISUAL GUIDANCE:\n- ALWAYS prefer multiple small line-height highlights instead of one tall rectangle\n- Each highlight should have height between 18-28 points (one text line)\n- For titles: height 25-35 points, width matching text span\n- For body text: height 18-25 points, width 400-450 points\n- Use different colors for importance: yellow for key points, orange for important, red for critical\n- Produce 1-3 highlights per answer, more if user asks for comprehensive highlighting\n- Always include page number in annotation commands\n- Test coordinates: x should be 40-550, y should be 50-750 for visibility`;
-      
-      // Use OpenAI for actual responses
-      // Clean up API key to remove any newlines or whitespace
-      // Edge runtime has different environment variable handling
-      // We'll use a try/catch to handle potential issues
-      let apiKey = '';
+      // Resolve the configured LLM provider (OpenAI, OpenAI-compatible or the offline fake)
+      let llm: LLMProvider;
       try {
-        apiKey = process.env.OPENAI_API_KEY || '';
-        if (apiKey) {
-          apiKey = apiKey.replace(/\r?\n|\r/g, '').trim();
-        }
-      } catch (envError) {
-        console.error('Environment variable access error:', envError);
-        await writer.write(encoder.encode(createSSE({
+        llm = getLLMProvider();
+      } catch (configError) {
+        console.error('LLM provider configuration error:', configError);
+        emit({
           type: 'error',
-          error: 'Configuration error',
-          details: 'Unable to access environment variables'
-        })));
+          error: configError instanceof LLMConfigurationError ? configError.message : 'Configuration error',
+          details: handleEdgeError(configError)
+        });
         
         // Add a user-friendly message
-        await writer.write(encoder.encode(createSSE({
+        const notice = "I'm sorry, but the AI service is not properly configured. Please contact support.";
+        emit({
           type: 'content',
-          content: "I'm sorry, but there's a configuration issue with the AI service. Please contact support."
-        })));
+          content: notice
+        });
         
         // End the stream properly
-        await writer.write(encoder.encode(createSSE({
-          type: 'end',
-          message: 'Stream completed with configuration error'
-        })));
-        
-        isStreamActive = false;
-        return;
-      }
-
-      if (!apiKey) {
-        console.error('OpenAI API key is missing or empty');
-        await writer.write(encoder.encode(createSSE({
-          type: 'error',
-          error: 'OpenAI API key not configured'
-        })));
-        
-        // Add a user-friendly message
-        await writer.write(encoder.encode(createSSE({
-          type: 'content',
-          content: "I'm sorry, but the AI service is not properly configured. Please contact support."
-        })));
-        
-        // End the stream properly
-        await writer.write(encoder.encode(createSSE({
-          type: 'end',
-          message: 'Stream completed with API key error'
-        })));
+        await end('Stream completed with configuration error', notice);
         
         isStreamActive = false;
         return;
       }
       
-      // Check if the API key appears valid
-      if (apiKey.length < 20 || !apiKey.startsWith('sk-')) {
-        console.error('OpenAI API key appears malformed');
-        await writer.write(encoder.encode(createSSE({
-          type: 'error',
-          error: 'API key configuration issue'
-        })));
-        
-        // Add a user-friendly message
-        await writer.write(encoder.encode(createSSE({
-          type: 'content',
-          content: "I'm sorry, but the AI service is misconfigured. Please contact support."
-        })));
-        
-        // End the stream properly
-        await writer.write(encoder.encode(createSSE({
-          type: 'end',
-          message: 'Stream completed with API key format error'
-        })));
-        
-        isStreamActive = false;
-        return;
-      }
-      
-      try {
-        // Log the initialization (but not the actual API key)
-        console.log('Initializing OpenAI client, API key starts with:', apiKey.substring(0, 5) + '...');
-        
-        let openai: OpenAI;
-        
-        try {
-          // Initialize OpenAI client with safety measures
-          openai = new OpenAI({ 
-            apiKey,
-            dangerouslyAllowBrowser: false, // Explicitly disallow browser usage
-            maxRetries: 2 // Limit retries to prevent hanging
-          });
-        } catch (initError) {
-          console.error('OpenAI client initialization error:', initError);
-          
-          await writer.write(encoder.encode(createSSE({
-            type: 'error',
-            error: 'OpenAI client initialization failed',
-            details: handleEdgeError(initError)
-          })));
-          
-          // Add a user-friendly message
-          await writer.write(encoder.encode(createSSE({
-            type: 'content',
-            content: "I'm sorry, but I'm having trouble connecting to the AI service. Please try again later."
-          })));
-          
-          // End the stream properly
-          await writer.write(encoder.encode(createSSE({
-            type: 'end',
-            message: 'Stream completed with initialization error'
-          })));
-          
-          isStreamActive = false;
-          return;
+      // Structured tool calls when the provider supports them; bracket commands in the text are always parsed as a fallback
+      const tools = llm.supportsTools ? TUTOR_TOOLS : undefined;
+      const actionContext = { currentPage, totalPages, geometry };
+      let actionStream = new TutorActionStream(actionContext);
+      const writeActions = async (actions: TutorAction[]) => {
+        if (generation.signal.aborted) return;
+        for (const action of actions) {
+          if (action.kind === 'annotation') reply?.addAnnotation(action.annotation);
+          emit(
+            action.kind === 'annotation'
+              ? { type: 'annotation', annotation: action.annotation, source: action.source }
+              : { type: 'navigation', page: action.page, source: action.source }
+          );
+        }
+      };
+      const writeText = async (text: string) => {
+        if (generation.signal.aborted) return;
+        const { text: cleaned, actions } = actionStream.pushText(text);
+        await writeActions(actions);
+        if (cleaned) {
+          reply?.append(cleaned);
+          emit({ type: 'content', content: cleaned });
         }
+      };
+
+      try {
+        console.log(`Stream ${streamId} - Using LLM provider: ${llm.name}${tools ? ' (tool calls)' : ''}`);
         
-        // Stream the OpenAI response
-        await writer.write(encoder.encode(createSSE({
+        // Stream the model response
+        emit({
           type: 'content',
           content: "Processing your question..."
-        })));
+        });
 
           // Prepare messages with proper types, ensuring context continuity
-        const processedMessages = messages.map(msg => ({
+        const processedMessages: LLMMessage[] = messages.map(msg => ({
           role: msg.role === 'user' || msg.role === 'assistant' || msg.role === 'system' 
             ? msg.role 
             : 'user', // Default to user if role is invalid
           content: msg.content || ''
         }));
 
-        // Add system message at the beginning
-        // CRITICAL FIX: Use only the most recent messages to maintain proper conversation state
-        // This prevents the AI from losing context and repeating the same answers
-        
-        // We'll use a dynamic approach based on message content length
-        // If we have long PDF content, we need to be more conservative with message history
-        const pdfContentLength = (currentPageText?.length || 0) + 
-                               (previousPageText?.length || 0) + 
-                               (nextPageText?.length || 0);
-                               
-        // Determine how many messages to keep based on content size
-        const messagesToKeep = pdfContentLength > 5000 ? 4 : 
-                            pdfContentLength > 2000 ? 5 : 6;
-                            
-  console.log(`Stream ${streamId} - Content length: ${pdfContentLength}, keeping ${messagesToKeep} messages (payload source: ${payloadSource})`);
-        
-        const recentMessages = processedMessages.slice(-messagesToKeep);
-        const finalMessages = [systemMessage, ...recentMessages];        console.log(`Sending ${finalMessages.length} messages to OpenAI`);
+        // The latest messages in full and a summary of everything before them, within a token budget
+        const question = processedMessages[processedMessages.length - 1];
+        const history = pdfId && reply?.questionId
+          ? (await chatMessageService.getBranch({ id: reply.questionId, pdfId, userId, sessionId })).slice(0, -1)
+          : processedMessages.slice(0, -1);
+        const memory = await conversationMemory.recall(history, llm, { userId, pdfId });
+
+        // The model chain for this answer: the routed model streams, fallbacks answer in one call
+        const route = routeModel({ tier, task: template, documentTokens: llm.countTokens(currentPageText), budgetRemaining: quota?.remaining });
+        const primary = route.steps[0];
+        console.log(`Stream ${streamId} - Using ${primary.model} for tutoring (${route.reason})`);
+
+        // The requested template (tutor unless the student picked another), filled with what the tutor knows
+        const rendered = promptRegistry.render(template, {
+          currentPage,
+          totalPages,
+          currentPageText,
+          previousPageText,
+          nextPageText,
+          passages: formatPassagesForPrompt(passages),
+          studentMarks: formatStudentMarksForPrompt(studentMarks),
+          memorySummary: memory.summary,
+          tools: !!tools,
+        });
+        reply?.recordPrompt(rendered.ref);
+        const prompt = assemblePrompt({
+          llm,
+          model: primary.model,
+          system: rendered.sections,
+          history: memory.recent,
+          question: question ? [question] : [],
+          replyTokens: primary.maxTokens,
+        });
+        const finalMessages = prompt.messages;
+        if (prompt.trimmed.length > 0) {
+          emit({ type: 'diagnostic', note: 'prompt trimmed to fit the token budget', trimmed: prompt.trimmed, budget: prompt.budget });
+        }
+        console.log(`Stream ${streamId} - Sending ${finalMessages.length} messages (${prompt.promptTokens}/${prompt.budget} tokens${memory.summary ? ', with a summary' : ''}) to ${llm.name} (payload source: ${payloadSource})`);
+
+        // Tokens a model spent on an answer that was abandoned for a fallback still count against the quota
+        let abandonedTokens = 0;
+
+        // Token counts for the stored reply and the usage table (the provider's own when it reports any),
+        // sent to the client as a usage event once the answer is complete
+        const recordUsage = async (model: string, generated: string, usage: LLMUsage | undefined, routing: RoutingDecision) => {
+          const promptTokens = usage?.promptTokens ?? llm.countTokens(finalMessages, model);
+          const completionTokens = usage?.completionTokens ?? llm.countTokens(generated, model);
+          reply?.recordUsage({
+            model,
+            promptTokens,
+            completionTokens,
+            questionTokens: question ? llm.countTokens(question.content, model) : undefined,
+          });
+          reply?.recordRouting(routing);
+          await usageService.record({ userId, pdfId, messageId: reply?.id, model, promptTokens, completionTokens, route: 'stream', reason: routing.reason });
+          emit({
+            type: 'usage',
+            model,
+            promptTokens,
+            completionTokens,
+            totalTokens: promptTokens + completionTokens,
+            cost: estimateCost(model, promptTokens, completionTokens),
+            ...(quota ? { remaining: Math.max(0, quota.remaining - abandonedTokens - promptTokens - completionTokens), resetAt: quota.resetAt } : {}),
+          });
+        };
         
-        console.log('Starting OpenAI API request');
+        console.log('Starting LLM request');
         let responseSuccessful = false;
         
         try {
-          // Create a promise that will reject after a timeout
-          const timeoutPromise = new Promise((_, reject) => {
-            setTimeout(() => reject(new Error('OpenAI API request timed out')), 15000);
-          });
-          
-          // Create the actual API request promise
-          // Determine if this is a complex or technical document that needs GPT-4
-          const isComplexContent = 
-            (currentPageText && currentPageText.length > 2000) || 
-            (currentPageText && (
-              currentPageText.toLowerCase().includes('theorem') ||
-              currentPageText.toLowerCase().includes('equation') ||
-              currentPageText.toLowerCase().includes('analysis') ||
-              currentPageText.toLowerCase().includes('scientific') ||
-              currentPageText.toLowerCase().includes('research')
-            ));
-          
-          // Use GPT-4o for complex tutoring scenarios, otherwise GPT-3.5 for better responsiveness
-          const tutorModel = isComplexContent ? 'gpt-4o' : 'gpt-3.5-turbo';
-          
-          console.log(`Stream ${streamId} - Using ${tutorModel} for tutoring${isComplexContent ? ' (complex content detected)' : ''}`);
-          
-          const apiRequestPromise = openai.chat.completions.create({
-            model: tutorModel,
-            messages: finalMessages,
-            temperature: 0.7,
-            max_tokens: 800,
-            stream: true,
+          // The routed model streams; if it fails or stalls, what it sent is discarded and the fallbacks answer in one call
+          const answer = await streamWithFallback(llm, route.steps, { messages: finalMessages, temperature: 0.7, tools, signal: generation.signal }, {
+            chunk: async chunk => {
+              if (generation.signal.aborted) return;
+              if (chunk.type === 'content') {
+                await writeText(chunk.content);
+                return;
+              }
+              const { actions, error } = actionStream.pushToolCall(chunk.call);
+              if (error) {
+                console.warn(`Stream ${streamId} - Rejected tool call: ${error}`);
+                emit({ type: 'diagnostic', note: 'rejected tool call', error });
+              }
+              await writeActions(actions);
+            },
+            abandon: async (model, generated) => {
+              // A stream that failed before answering anything is not charged
+              if (generated) {
+                const promptTokens = llm.countTokens(finalMessages, model);
+                const completionTokens = llm.countTokens(generated, model);
+                abandonedTokens += promptTokens + completionTokens;
+                await usageService.record({ userId, pdfId, messageId: reply?.id, model, promptTokens, completionTokens, route: 'stream', reason: `${route.reason}; abandoned` });
+              }
+              // Cut off by the timeout, which already failed the reply: nothing to reset
+              if (generation.signal.aborted) return;
+              emit({
+                type: 'error',
+                error: 'AI service issue',
+                details: 'The AI service encountered a problem. Using fallback approach.',
+                recoverable: true
+              });
+              // The client drops the partial answer; a command it left half-parsed goes with it
+              emit({ type: 'reset' });
+              reply?.reset();
+              actionStream = new TutorActionStream(actionContext);
+            },
           });
-          
-          // Race between the API request and the timeout
-          const apiResult: any = await Promise.race([apiRequestPromise, timeoutPromise]);
-          console.log('OpenAI API request successful, processing stream');
-          
-          // Process the stream chunks
-          for await (const chunk of apiResult as AsyncIterable<any>) {
-            if (chunk.choices[0]?.delta?.content) {
-              await writer.write(encoder.encode(createSSE({
-                type: 'content',
-                content: chunk.choices[0].delta.content
-              })));
-            }
+
+          let generated = answer.content;
+          if (!generated && answer.step > 0) {
+            generated = "Sorry, I couldn't process your request fully. Could you try asking a simpler question?";
+            await writeText(generated);
           }
+          await writeText(actionStream.flush());
+          await recordUsage(answer.model, generated, answer.usage, routingDecision(route, answer.step, answer.model));
           
           responseSuccessful = true;
-        } catch (apiError) {
-          console.error('OpenAI API error or timeout:', apiError);
-          
-          // Send notification to client
-          await writer.write(encoder.encode(createSSE({
-            type: 'error',
-            error: 'AI service issue',
-            details: 'The AI service encountered a problem. Using fallback approach.',
-            recoverable: true
-          })));
-          
-          try {
-            // Fallback to non-streaming for better reliability
-            console.log('Using non-streaming fallback due to error or timeout');
-            const fallbackResponse = await openai.chat.completions.create({
-              model: 'gpt-3.5-turbo', // Use 3.5 for fallback for faster response
-              messages: finalMessages,
-              temperature: 0.7,
-              max_tokens: 300, // Reduced for faster response
-              stream: false,
-            });
-            
-            // Get the complete response
-            const fallbackContent = fallbackResponse.choices[0]?.message?.content || 
-              "Sorry, I couldn't process your request fully. Could you try asking a simpler question?";
-            
-            // Send it as a single chunk
-            await writer.write(encoder.encode(createSSE({
-              type: 'content',
-              content: fallbackContent
-            })));
-            
-            responseSuccessful = true;
-          } catch (fallbackError) {
-            console.error('Fallback response also failed:', fallbackError);
-            await writer.write(encoder.encode(createSSE({
-              type: 'content',
-              content: "I'm having technical difficulties right now. Please try again with a simpler question or try again later."
-            })));
-          }
-        }
-        
-        // We've already replaced this code with the more robust implementation
-        // No need for this duplicate chunk, save history is handled in the main try block
-        
-        // Save the chat history if response was successful
-        if (responseSuccessful && pdfId) {
-          try {
-            // We would save the history to the database here
-            // For now we'll just send a notification
-            await writer.write(encoder.encode(createSSE({
-              type: 'info',
-              info: 'Chat history saved'
-            })));
-          } catch (saveError) {
-            console.error('Error saving chat history:', saveError);
-          }
+        } catch (chainError) {
+          // The timeout stopped the generation and has ended the stream
+          if (chainError instanceof GenerationCancelledError) return;
+          console.error('LLM error, and every fallback failed:', chainError);
+          const notice = "I'm having technical difficulties right now. Please try again with a simpler question or try again later.";
+          emit({
+            type: 'content',
+            content: notice
+          });
+          await end('Stream completed with model error', notice);
         }
         
-        // Signal the end of the stream (only if we haven't already done so in a fallback)
+        // Signal the end of the stream once the reply is stored (only if we haven't already done so in a fallback)
         if (responseSuccessful) {
-          await writer.write(encoder.encode(createSSE({ 
-            type: 'end',
-            message: 'Stream completed'
-          })));
+          await end('Stream completed');
         }
       } catch (apiError) {
-        console.error('OpenAI API error:', apiError);
+        console.error('LLM error:', apiError);
         
         // Determine the specific type of error for better user feedback
         let errorMessage = 'AI service error';
         let errorDetails = apiError instanceof Error ? apiError.message : 'Unknown error';
         
-        // Check for common OpenAI error patterns
+        // Check for common provider error patterns
         if (errorDetails.includes('API key')) {
           errorMessage = 'API key issue';
           errorDetails = 'There was a problem with the API key. Please check your configuration.';
@@ -603,25 +483,23 @@ If coordinates cannot be estimated, use: [HIGHLIGHT ${currentPage} 80 300 400 25
         }
         
         // Send detailed error to client
-        await writer.write(encoder.encode(createSSE({
+        emit({
           type: 'error',
           error: errorMessage,
           details: errorDetails,
           recoverable: true // Indicates client could retry with different input
-        })));
+        });
         
         // For certain errors, send a fallback response
         if (errorMessage === 'Request timeout' || errorMessage === 'Rate limit exceeded') {
-          await writer.write(encoder.encode(createSSE({
+          const notice = "I'm having trouble processing your question right now. Could you try asking a shorter question or try again in a moment?";
+          emit({
             type: 'content',
-            content: "I'm having trouble processing your question right now. Could you try asking a shorter question or try again in a moment?"
-          })));
+            content: notice
+          });
           
           // Signal stream end
-          await writer.write(encoder.encode(createSSE({
-            type: 'end',
-            message: 'Stream completed with fallback response'
-          })));
+          await end('Stream completed with fallback response', notice);
         }
       }
     } catch (error) {
@@ -631,40 +509,80 @@ If coordinates cannot be estimated, use: [HIGHLIGHT ${currentPage} 80 300 400 25
           // Use our safe error handler to avoid Edge runtime issues
           const errorDetails = handleEdgeError(error);
           
-          await writer.write(encoder.encode(createSSE({ 
+          emit({ 
             type: 'error', 
             error: 'Stream processing failed',
             details: errorDetails
-          })));
+          });
           
           // Send a user-friendly message so the UI doesn't appear broken
-          await writer.write(encoder.encode(createSSE({
+          const notice = "I'm sorry, but I encountered a technical issue while processing your request. Please try again.";
+          emit({
             type: 'content',
-            content: "I'm sorry, but I encountered a technical issue while processing your request. Please try again."
-          })));
+            content: notice
+          });
           
           // End the stream properly
-          await writer.write(encoder.encode(createSSE({
-            type: 'end',
-            message: 'Stream completed with error recovery'
-          })));
+          await end('Stream completed with error recovery', notice);
           
         } catch (writeError) {
           console.error('Error writing error to stream:', writeError);
         }
       }
     } finally {
+      // Every finished stream ends with an end event so reconnecting clients know to stop
+      if (!endSent) {
+        await end('Stream closed', 'The answer could not be completed. Please try again.');
+      }
       isStreamActive = false;
       clearTimeout(timeout);
-      clearInterval(heartbeatInterval);
-      
-      try {
-        await writer.close();
-      } catch (closeError) {
-        console.error('Error closing stream writer:', closeError);
-      }
+      completeStreamLog(streamId);
     }
   })();
   
   return responseStream;
-}
\ No newline at end of file
+}
+
+/**
+ * Write the stream log to one SSE connection: replay events after lastEventId, then follow live
+ * events with heartbeats until generation completes. A disconnect only detaches this connection.
+ */
+function pipeStreamToConnection(
+  streamId: string,
+  lastEventId: number,
+  writer: WritableStreamDefaultWriter,
+  encoder: TextEncoder
+) {
+  let closed = false;
+  let pending: Promise<void> = Promise.resolve();
+  let unsubscribe: (() => void) | null = null;
+
+  const close = () => {
+    if (closed) return;
+    closed = true;
+    clearInterval(heartbeatInterval);
+    unsubscribe?.();
+    pending = pending.then(() => writer.close()).catch(() => {});
+  };
+  // Writes are chained so events leave in id order
+  const send = (payload: string) => {
+    pending = pending
+      .then(() => writer.write(encoder.encode(payload)))
+      .catch(err => {
+        console.log(`Stream ${streamId} - Connection closed by client`, handleEdgeError(err));
+        close();
+      });
+  };
+
+  // Heartbeats are per connection and carry no id, so they are never replayed
+  const heartbeatInterval = setInterval(() => {
+    if (!closed) send(createSSE({ type: 'heartbeat', timestamp: Date.now() }));
+  }, HEARTBEAT_INTERVAL);
+
+  unsubscribe = followStream(streamId, lastEventId, event => {
+    if (closed) return;
+    if (event) send(createSSE(event.data, 'message', event.id));
+    else close();
+  });
+  if (!unsubscribe) close();
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser } from '@/lib/auth';
+import { mintStreamTicket } from '@/lib/edgeAuth';
+
+export const runtime = 'nodejs';
+
+/**
+ * Mint a fresh single-use ticket for reconnecting to a stream (tickets are spent on each connection).
+ * The stream route only honours it if the stream belongs to the same user.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { streamId: string } }
+) {
+  try {
+    const userId = getRequestUser(request)?.userId;
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const pdfId = typeof body?.pdfId === 'string' ? body.pdfId : undefined;
+
+    const ticket = await mintStreamTicket({ userId, streamId: params.streamId, pdfId });
+    return NextResponse.json({ streamUrl: `/api/chat/stream/${params.streamId}?ticket=${ticket}` });
+  } catch (error) {
+    console.error('Stream ticket error:', error);
+    return NextResponse.json({ error: 'Failed to issue stream ticket' }, { status: 500 });
+  }
+}
@@ -1,26 +1,28 @@
 import { NextRequest, NextResponse } from 'next/server';
 import prisma from '@/lib/prisma';
-import { setStreamPayload } from '@/lib/shortTermStore';
+import { PayloadTooLargeError } from '@/lib/streamStore/types';
+import { getRequestUser } from '@/lib/auth';
+import { queryFromMessages } from '@/lib/retrieval/retrievalService';
+import { chatSessionService } from '@/lib/chatSessionService';
+import { chatMessageService } from '@/lib/chatMessageService';
+import { prepareTutorStream } from '@/lib/tutorStream';
+import { isTemplateName } from '@/lib/prompts/registry';
+import { QuotaExceededError, usageService } from '@/lib/usageService';
+import { withRateLimit } from '@/lib/rateLimit/withRateLimit';
 
 // Stream timeout after which we should close the connection (2 minutes)
 const STREAM_TIMEOUT = 120000;
 
-export const runtime = 'edge';
+// Node.js runtime so stored page text can be read with Prisma
+export const runtime = 'nodejs';
 
-// For easier debugging and verification - keep this commented for production
-// console.log should show in server-side logs when this route is called
-// function debugTokenHandling(token: string | null, streamUrl: string) {
-//   console.log('----DEBUG TOKEN HANDLING----');
-//   console.log('Token received:', token ? `${token.substring(0, 5)}...` : 'null');
-//   console.log('Stream URL created:', streamUrl);
-//   console.log('--------------------------');
-// }
+export const POST = withRateLimit('chat', prepareStream);
 
-export async function POST(req: NextRequest) {
+async function prepareStream(req: NextRequest) {
   try {
     // Check authentication
-    const token = req.headers.get('authorization')?.split(' ')[1];
-    if (!token) {
+    const userId = getRequestUser(req)?.userId;
+    if (!userId) {
       return new NextResponse(
         JSON.stringify({ error: 'Authentication required' }),
         { status: 401, headers: { 'Content-Type': 'application/json' } }
@@ -29,7 +31,8 @@ export async function POST(req: NextRequest) {
 
     // Parse the request
     const body = await req.json();
-  const { messages, pdfText, pdfId, streamId, currentPage, pageHints } = body;
+    const { pdfId, sessionId, currentPage, parentId, pdfText, template } = body;
+    let messages = body.messages;
     
     if (!messages || !Array.isArray(messages)) {
       return new NextResponse(
@@ -37,76 +40,76 @@ export async function POST(req: NextRequest) {
         { status: 400, headers: { 'Content-Type': 'application/json' } }
       );
     }
+    if (template !== undefined && !isTemplateName(template)) {
+      return new NextResponse(
+        JSON.stringify({ error: 'Unknown prompt template' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Questions are only taken while the user has tokens left today
+    const quota = await usageService.checkQuota(userId);
     
-    // Determine streamId (client-provided or generated)
-    const effectiveStreamId = String(streamId || Date.now());
+    // Replace the client's page text with the server-side extraction when available
+    if (pdfId) {
+      const pdf = await prisma.pDF.findFirst({ where: { id: pdfId, userId, deletedAt: null }, select: { id: true } });
+      if (!pdf) {
+        return new NextResponse(
+          JSON.stringify({ error: 'PDF not found' }),
+          { status: 404, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+      if (sessionId && !(await chatSessionService.findOwned(sessionId, userId, pdfId))) {
+        return new NextResponse(
+          JSON.stringify({ error: 'Chat session not found' }),
+          { status: 404, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+      // Questions asked on an earlier branch see that branch, not what the page last showed
+      if (parentId) {
+        const parent = await chatMessageService.findOwned(parentId, userId);
+        if (!parent || parent.pdfId !== pdfId || (parent.sessionId || undefined) !== (sessionId || undefined)) {
+          return new NextResponse(
+            JSON.stringify({ error: 'Parent message not found' }),
+            { status: 404, headers: { 'Content-Type': 'application/json' } }
+          );
+        }
+        messages = await chatMessageService.branchContext(parent, messages);
+      }
+      if (sessionId) await chatSessionService.recordQuestion(sessionId, queryFromMessages(messages));
+    }
 
-    // Store payload in short term store (omit any huge data trimming for now)
+    // Hand the payload to the stream route and mint the first ticket
+    let prepared;
     try {
-      setStreamPayload(effectiveStreamId, {
-        messages,
-        pdfText: pdfText || {},
-        pdfId,
-        currentPage: currentPage || 1,
-        pageHints: Array.isArray(pageHints) ? pageHints.slice(0, 10) : undefined
-      });
+      prepared = await prepareTutorStream({ userId, messages, pdfId, sessionId, currentPage, pdfText, parentId, template, quota });
     } catch (storeErr) {
+      if (storeErr instanceof PayloadTooLargeError) {
+        return new NextResponse(
+          JSON.stringify({ error: 'Conversation is too large to stream; start a new chat or shorten the question' }),
+          { status: 413, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
       console.error('Failed to store stream payload', storeErr);
       return new NextResponse(
         JSON.stringify({ error: 'Failed to prepare stream payload' }),
         { status: 500, headers: { 'Content-Type': 'application/json' } }
       );
     }
-
-    // Prepare a trimmed payload as a query + base64 fallback (Edge isolates may not share in-memory store)
-    let queryPayload = '';
-    let queryPayloadB64 = '';
-    try {
-      const lastMessages = messages.slice(-6).map((m: any) => ({ role: m.role, content: (m.content || '').slice(0, 1200) }));
-      const trimmedPdfText = {
-        current: (pdfText?.current || pdfText || '').toString().slice(0, 5000),
-        previous: (pdfText?.previous || null) ? String(pdfText.previous).slice(0, 600) : null,
-        next: (pdfText?.next || null) ? String(pdfText.next).slice(0, 600) : null,
-        currentPage: currentPage || 1,
-        totalPages: pdfText?.totalPages || pdfText?.total || pdfText?.pages || 1
-      };
-      const payload = {
-        messages: lastMessages,
-        pdfText: trimmedPdfText,
-        currentPage: currentPage || 1,
-        pdfId
-      };
-      const json = JSON.stringify(payload);
-      queryPayload = encodeURIComponent(json);
-      try {
-        // Base64 for higher reliability (avoid % sequence issues)
-        // atob/btoa limited to Latin1 -> use escape/unescape trick
-        const b64 = btoa(unescape(encodeURIComponent(json)));
-        queryPayloadB64 = encodeURIComponent(b64);
-      } catch (b64Err) {
-        console.warn('Could not base64 encode stream payload', b64Err);
-      }
-    } catch (encodeErr) {
-      console.warn('Could not encode query fallback payload', encodeErr);
-    }
-
-    // Generate stream URL including token and query fallback (messageData) for robustness (prefer b64 if present)
-    const streamUrl = `/api/chat/stream/${effectiveStreamId}?token=${token}` +
-      (queryPayload ? `&messageData=${queryPayload}` : '') +
-      (queryPayloadB64 ? `&messageDataB64=${queryPayloadB64}` : '');
-    
-    // Uncomment for debugging
-    // if (typeof debugTokenHandling === 'function') {
-    //   debugTokenHandling(token, streamUrl);
-    // }
     
     // Return the stream URL to the client
     return new NextResponse(
-      JSON.stringify({ streamUrl }),
+      JSON.stringify(prepared),
       { status: 200, headers: { 'Content-Type': 'application/json' } }
     );
     
   } catch (error) {
+    if (error instanceof QuotaExceededError) {
+      return new NextResponse(
+        JSON.stringify({ error: error.message, resetAt: error.quota.resetAt }),
+        { status: 429, headers: { 'Content-Type': 'application/json', 'Retry-After': String(error.retryAfterSeconds()) } }
+      );
+    }
     console.error('Stream preparation error:', error);
     return new NextResponse(
       JSON.stringify({ error: 'Internal server error' }),
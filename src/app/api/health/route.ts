@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
 import prisma from '@/lib/prisma';
+import { getStreamPayloadStore } from '@/lib/streamStore/storeFactory';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -9,7 +10,7 @@ export async function GET() {
   try {
     // Simple connectivity check
     await prisma.$queryRaw`SELECT 1`;
-    return NextResponse.json({ ok: true });
+    return NextResponse.json({ ok: true, streamStore: streamStoreStatus() });
   } catch (error: any) {
     console.error('Health check DB error:', error);
     return NextResponse.json(
@@ -18,3 +19,13 @@ export async function GET() {
     );
   }
 }
+
+// Stream payload store backend and counters; configuration problems are reported, not thrown
+function streamStoreStatus() {
+  try {
+    const store = getStreamPayloadStore();
+    return { backend: store.name, ...store.metrics() };
+  } catch (error: any) {
+    return { error: error?.message || 'Stream store unavailable' };
+  }
+}
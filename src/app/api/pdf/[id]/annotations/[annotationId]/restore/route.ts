@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { annotationService } from '@/lib/annotationService';
+import { getRequestUser } from '@/lib/auth';
+import { findOwnedPdf } from '@/lib/pdfAccess';
+
+// POST endpoint - Restore a soft-deleted annotation
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string; annotationId: string } }
+) {
+  try {
+    const userId = getRequestUser(request)?.userId;
+    if (!userId) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+    if (!(await findOwnedPdf(params.id, userId))) {
+      return NextResponse.json({ error: 'PDF not found' }, { status: 404 });
+    }
+
+    const annotation = await annotationService.getInPdf(params.id, params.annotationId);
+    if (!annotation) {
+      return NextResponse.json({ error: 'Annotation not found' }, { status: 404 });
+    }
+
+    const restored = await annotationService.restore(annotation, userId);
+    return NextResponse.json({ success: true, annotation: annotationService.toClientAnnotation(restored) });
+  } catch (error: any) {
+    console.error('Error restoring annotation:', error);
+    return NextResponse.json({ error: 'Failed to restore annotation', message: error.message }, { status: 500 });
+  }
+}
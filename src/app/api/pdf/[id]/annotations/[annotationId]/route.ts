@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { annotationService } from '@/lib/annotationService';
+import { parseAnnotationChanges } from '@/lib/annotationOperations';
+import { getRequestUser } from '@/lib/auth';
+import { findOwnedPdf } from '@/lib/pdfAccess';
+
+type Params = { params: { id: string; annotationId: string } };
+
+/**
+ * The annotation if the user owns its PDF, otherwise the error response to send
+ */
+async function loadAnnotation(request: NextRequest, params: Params['params']) {
+  const userId = getRequestUser(request)?.userId;
+  if (!userId) {
+    return { error: NextResponse.json({ error: 'Authentication required' }, { status: 401 }) };
+  }
+  if (!(await findOwnedPdf(params.id, userId))) {
+    return { error: NextResponse.json({ error: 'PDF not found' }, { status: 404 }) };
+  }
+  const annotation = await annotationService.getInPdf(params.id, params.annotationId);
+  if (!annotation) {
+    return { error: NextResponse.json({ error: 'Annotation not found' }, { status: 404 }) };
+  }
+  return { userId, annotation };
+}
+
+// PATCH endpoint - Move, resize, recolor, or change the importance or text of an annotation
+export async function PATCH(request: NextRequest, { params }: Params) {
+  try {
+    const loaded = await loadAnnotation(request, params);
+    if (loaded.error) return loaded.error;
+
+    const { changes, error } = parseAnnotationChanges(await request.json().catch(() => null));
+    if (!changes) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+    if (loaded.annotation.deletedAt) {
+      return NextResponse.json({ error: 'Restore the annotation before editing it' }, { status: 409 });
+    }
+
+    const updated = await annotationService.edit(loaded.annotation, changes, loaded.userId);
+    return NextResponse.json({ annotation: annotationService.toClientAnnotation(updated) });
+  } catch (error: any) {
+    console.error('Error updating annotation:', error);
+    return NextResponse.json({ error: 'Failed to update annotation', message: error.message }, { status: 500 });
+  }
+}
+
+// DELETE endpoint - Soft delete an annotation (undoable, or restore it later)
+export async function DELETE(request: NextRequest, { params }: Params) {
+  try {
+    const loaded = await loadAnnotation(request, params);
+    if (loaded.error) return loaded.error;
+
+    const deleted = await annotationService.remove(loaded.annotation, loaded.userId);
+    return NextResponse.json({ success: true, annotation: annotationService.toClientAnnotation(deleted) });
+  } catch (error: any) {
+    console.error('Error deleting annotation:', error);
+    return NextResponse.json({ error: 'Failed to delete annotation', message: error.message }, { status: 500 });
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { annotationService } from '@/lib/annotationService';
+import { getRequestUser } from '@/lib/auth';
+import { findOwnedPdf } from '@/lib/pdfAccess';
+
+type Params = { params: { id: string } };
+
+async function authorize(request: NextRequest, pdfId: string) {
+  const userId = getRequestUser(request)?.userId;
+  if (!userId) {
+    return { error: NextResponse.json({ error: 'Authentication required' }, { status: 401 }) };
+  }
+  if (!(await findOwnedPdf(pdfId, userId))) {
+    return { error: NextResponse.json({ error: 'PDF not found' }, { status: 404 }) };
+  }
+  return { userId };
+}
+
+// GET endpoint - Whether there is anything to undo or redo
+export async function GET(request: NextRequest, { params }: Params) {
+  try {
+    const auth = await authorize(request, params.id);
+    if (auth.error) return auth.error;
+
+    return NextResponse.json(await annotationService.historyState(params.id, auth.userId));
+  } catch (error: any) {
+    console.error('Error reading annotation history:', error);
+    return NextResponse.json({ error: 'Failed to read annotation history', message: error.message }, { status: 500 });
+  }
+}
+
+// POST endpoint - { action: 'undo' | 'redo' } steps through the user's annotation operations
+export async function POST(request: NextRequest, { params }: Params) {
+  try {
+    const auth = await authorize(request, params.id);
+    if (auth.error) return auth.error;
+
+    const body = await request.json().catch(() => ({}));
+    if (body?.action !== 'undo' && body?.action !== 'redo') {
+      return NextResponse.json({ error: "action must be 'undo' or 'redo'" }, { status: 400 });
+    }
+
+    const result = body.action === 'undo'
+      ? await annotationService.undo(params.id, auth.userId)
+      : await annotationService.redo(params.id, auth.userId);
+    if (!result) {
+      return NextResponse.json({ error: `Nothing to ${body.action}` }, { status: 409 });
+    }
+
+    return NextResponse.json({
+      action: body.action,
+      operation: result.kind,
+      annotation: annotationService.toClientAnnotation(result.annotation),
+      deleted: !!result.annotation.deletedAt,
+      ...(await annotationService.historyState(params.id, auth.userId)),
+    });
+  } catch (error: any) {
+    console.error('Error applying annotation history:', error);
+    return NextResponse.json({ error: 'Failed to apply annotation history', message: error.message }, { status: 500 });
+  }
+}
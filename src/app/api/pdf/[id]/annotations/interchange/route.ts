@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser } from '@/lib/auth';
+import { findOwnedPdf, readPdfFile } from '@/lib/pdfAccess';
+import { INTERCHANGE_FORMATS, interchangeService } from '@/lib/interchange/interchangeService';
+import { InterchangeFormat, InterchangeFormatError } from '@/lib/interchange/types';
+
+// Reads the uploaded file from disk for page sizes
+export const runtime = 'nodejs';
+
+// A few thousand annotations with notes; larger uploads are refused before parsing
+const MAX_IMPORT_BYTES = 10 * 1024 * 1024;
+
+function parseFormat(value: string | null): InterchangeFormat | null | undefined {
+  if (!value) return undefined;
+  return INTERCHANGE_FORMATS.includes(value as InterchangeFormat) ? value as InterchangeFormat : null;
+}
+
+/**
+ * GET /api/pdf/[id]/annotations/interchange?format=w3c|xfdf
+ * Download every annotation as W3C Web Annotations (JSON-LD, the default) or XFDF
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const userId = getRequestUser(request)?.userId;
+    if (!userId) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const pdf = await findOwnedPdf(params.id, userId);
+    if (!pdf) {
+      return NextResponse.json({ error: 'PDF not found' }, { status: 404 });
+    }
+
+    const format = parseFormat(new URL(request.url).searchParams.get('format'));
+    if (format === null) {
+      return NextResponse.json({ error: `format must be one of: ${INTERCHANGE_FORMATS.join(', ')}` }, { status: 400 });
+    }
+
+    const file = format === 'xfdf' ? await readPdfFile(pdf.url) : null;
+    if (format === 'xfdf' && !file) {
+      return NextResponse.json({ error: 'PDF file not found' }, { status: 404 });
+    }
+
+    const exported = await interchangeService.export({
+      pdf,
+      format: format || 'w3c',
+      source: new URL(pdf.url, request.url).toString(),
+      file,
+    });
+
+    return new NextResponse(exported.body, {
+      headers: {
+        'Content-Type': exported.contentType,
+        'Content-Disposition': `attachment; filename="${exported.filename}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error: any) {
+    console.error('Error exporting annotations:', error);
+    return NextResponse.json({ error: 'Failed to export annotations', message: error.message }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/pdf/[id]/annotations/interchange?format=w3c|xfdf
+ * Import annotations from a Web Annotation or XFDF document sent as the request body;
+ * the format is detected when not given
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const userId = getRequestUser(request)?.userId;
+    if (!userId) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const pdf = await findOwnedPdf(params.id, userId);
+    if (!pdf) {
+      return NextResponse.json({ error: 'PDF not found' }, { status: 404 });
+    }
+
+    const format = parseFormat(new URL(request.url).searchParams.get('format'));
+    if (format === null) {
+      return NextResponse.json({ error: `format must be one of: ${INTERCHANGE_FORMATS.join(', ')}` }, { status: 400 });
+    }
+
+    const body = await request.text();
+    if (!body.trim()) {
+      return NextResponse.json({ error: 'An annotation document is required' }, { status: 400 });
+    }
+    if (Buffer.byteLength(body) > MAX_IMPORT_BYTES) {
+      return NextResponse.json({ error: 'Annotation document is too large' }, { status: 413 });
+    }
+
+    const { created, skipped } = await interchangeService.import({
+      pdfId: pdf.id,
+      userId,
+      body,
+      format,
+      file: await readPdfFile(pdf.url),
+    });
+
+    return NextResponse.json({ success: true, created, skipped }, { status: created > 0 ? 201 : 200 });
+  } catch (error: any) {
+    if (error instanceof InterchangeFormatError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Error importing annotations:', error);
+    return NextResponse.json({ error: 'Failed to import annotations', message: error.message }, { status: 500 });
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { annotationService } from '@/lib/annotationService';
-import { verifyAuth } from '@/lib/auth';
+import { getRequestUser } from '@/lib/auth';
+import { findOwnedPdf } from '@/lib/pdfAccess';
 
 // GET endpoint - Retrieve annotations for a PDF
 export async function GET(
@@ -8,6 +9,14 @@ export async function GET(
   { params }: { params: { id: string } }
 ) {
   try {
+    const userId = getRequestUser(request)?.userId;
+    if (!userId) {
+      return new NextResponse(
+        JSON.stringify({ error: 'Authentication required' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
     // Get the PDF ID from the URL
     const pdfId = params.id;
     if (!pdfId) {
@@ -17,14 +26,26 @@ export async function GET(
       );
     }
 
+    // Only the PDF's owner may see its annotations
+    if (!(await findOwnedPdf(pdfId, userId))) {
+      return new NextResponse(
+        JSON.stringify({ error: 'PDF not found' }),
+        { status: 404, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
     // Get query parameters
     const url = new URL(request.url);
     const pageParam = url.searchParams.get('page');
     const page = pageParam ? parseInt(pageParam, 10) : undefined;
+    // ?source=manual returns only what the user drew (the tutor's annotations come back with the chat history)
+    const manualOnly = url.searchParams.get('source') === 'manual';
 
     // Get annotations
     let annotations;
-    if (page !== undefined) {
+    if (manualOnly) {
+      annotations = await annotationService.get({ pdfId, page, isAutomatic: false });
+    } else if (page !== undefined) {
       annotations = await annotationService.getByPage(pdfId, page);
     } else {
       annotations = await annotationService.getByPdfId(pdfId);
@@ -59,7 +80,7 @@ export async function GET(
 export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
   try {
     // Verify the user is authenticated
-    const userId = await verifyAuth(request);
+    const userId = getRequestUser(request)?.userId;
     if (!userId) {
       return new NextResponse(
         JSON.stringify({ error: 'Authentication required' }),
@@ -76,6 +97,13 @@ export async function POST(request: NextRequest, { params }: { params: { id: str
       );
     }
 
+    if (!(await findOwnedPdf(pdfId, userId))) {
+      return new NextResponse(
+        JSON.stringify({ error: 'PDF not found' }),
+        { status: 404, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
     // Parse the request body
     const body = await request.json();
     const { annotations, chatMessageId } = body;
@@ -103,19 +131,24 @@ export async function POST(request: NextRequest, { params }: { params: { id: str
         text: annotation.text,
         importance: annotation.importance,
         chatMessageId: chatMessageId || undefined,
+        // Drawn by the user unless the tutor's message created it
+        isAutomatic: !!chatMessageId && annotation.isAutomatic !== false,
         userId: !chatMessageId ? userId : undefined, // If not from AI, set userId
         sequence: index,
+        meta: annotation.anchor ? { anchor: annotation.anchor } : undefined,
       };
     });
 
     // Create the annotations in a batch
-    const count = await annotationService.createMany(dbAnnotations);
+    const created = await annotationService.createMany(dbAnnotations);
+    const count = created.length;
 
     return new NextResponse(
       JSON.stringify({ 
         success: true, 
         message: `Created ${count} annotations`,
-        annotationCount: count
+        annotationCount: count,
+        annotations: created.map(annotation => annotationService.toClientAnnotation(annotation))
       }),
       { status: 201, headers: { 'Content-Type': 'application/json' } }
     );
@@ -1,7 +1,8 @@
 import { NextResponse } from 'next/server';
 import { PrismaClient } from '@prisma/client';
 import { chatMessageService } from '@/lib/chatMessageService';
-import { verifyAuth } from '@/lib/auth';
+import { chatSessionService } from '@/lib/chatSessionService';
+import { getRequestUser } from '@/lib/auth';
 
 /**
  * GET handler to retrieve chat history for a PDF
@@ -12,7 +13,7 @@ export async function GET(
 ) {
   try {
     // Authenticate user
-    const userId = await verifyAuth(req);
+    const userId = getRequestUser(req)?.userId;
     if (!userId) {
       return NextResponse.json(
         { error: 'Unauthorized access' },
@@ -64,7 +65,7 @@ export async function POST(
 ) {
   try {
     // Authenticate user
-    const userId = await verifyAuth(req);
+    const userId = getRequestUser(req)?.userId;
     if (!userId) {
       return NextResponse.json(
         { error: 'Unauthorized access' },
@@ -91,6 +92,16 @@ export async function POST(
         { status: 400 }
       );
     }
+
+    if (sessionId && !(await chatSessionService.findOwned(sessionId, userId, pdfId))) {
+      return NextResponse.json(
+        { error: 'Chat session not found' },
+        { status: 404 }
+      );
+    }
+    if (sessionId && role === 'user') {
+      await chatSessionService.recordQuestion(sessionId, content);
+    }
     
     // Create new chat message
     const message = await chatMessageService.create({
@@ -121,7 +132,7 @@ export async function DELETE(
 ) {
   try {
     // Authenticate user
-    const userId = await verifyAuth(req);
+    const userId = getRequestUser(req)?.userId;
     if (!userId) {
       return NextResponse.json(
         { error: 'Unauthorized access' },
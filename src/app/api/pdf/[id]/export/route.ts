@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { annotationService } from '@/lib/annotationService';
+import { chatMessageService } from '@/lib/chatMessageService';
+import { getRequestUser } from '@/lib/auth';
+import { findOwnedPdf, readPdfFile } from '@/lib/pdfAccess';
+import { ExportRangeError, exportAnnotatedPdf, parseExportOptions } from '@/lib/pdfExport';
+
+// Reads the uploaded file from disk
+export const runtime = 'nodejs';
+
+// Enough for long study sessions without loading an unbounded history into one PDF
+const MAX_TRANSCRIPT_MESSAGES = 1000;
+
+/**
+ * GET /api/pdf/[id]/export?mode=flatten|native&pages=1-3,5&source=all|ai|user&importance=high,medium&chat=true
+ * Download the PDF with its annotations
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const pdf = await findOwnedPdf(params.id, user.userId);
+    if (!pdf) {
+      return NextResponse.json({ error: 'PDF not found' }, { status: 404 });
+    }
+
+    const { options, error } = parseExportOptions(new URL(request.url).searchParams);
+    if (!options) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const file = await readPdfFile(pdf.url);
+    if (!file) {
+      return NextResponse.json({ error: 'PDF file not found' }, { status: 404 });
+    }
+
+    const annotations = (await annotationService.getByPdfId(pdf.id))
+      .map(annotation => annotationService.toClientAnnotation(annotation));
+    const transcript = options.includeChat
+      ? await chatMessageService.getByPdf({ pdfId: pdf.id, userId: user.userId, limit: MAX_TRANSCRIPT_MESSAGES })
+      : undefined;
+
+    const exported = await exportAnnotatedPdf(file, annotations, options, {
+      title: pdf.title,
+      author: user.email,
+      transcript,
+    });
+
+    const filename = `${pdf.title.replace(/\.pdf$/i, '').replace(/[^a-zA-Z0-9._-]/g, '_')}-annotated.pdf`;
+    return new NextResponse(Buffer.from(exported), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error: any) {
+    if (error instanceof ExportRangeError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Error exporting PDF:', error);
+    return NextResponse.json({ error: 'Failed to export PDF', message: error.message }, { status: 500 });
+  }
+}
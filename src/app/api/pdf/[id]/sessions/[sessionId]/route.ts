@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser } from '@/lib/auth';
+import { MAX_SESSION_TITLE_LENGTH, chatSessionService } from '@/lib/chatSessionService';
+
+type Params = { params: { id: string; sessionId: string } };
+
+/**
+ * The session if the user owns it and it belongs to the PDF, otherwise the error response to send
+ */
+async function loadSession(request: NextRequest, params: Params['params']) {
+  const userId = getRequestUser(request)?.userId;
+  if (!userId) {
+    return { error: NextResponse.json({ error: 'Authentication required' }, { status: 401 }) };
+  }
+  const session = await chatSessionService.findOwned(params.sessionId, userId, params.id);
+  if (!session) {
+    return { error: NextResponse.json({ error: 'Chat session not found' }, { status: 404 }) };
+  }
+  return { session };
+}
+
+// PATCH endpoint - Rename ({ title }) or archive ({ archived: true }) / unarchive a session
+export async function PATCH(request: NextRequest, { params }: Params) {
+  try {
+    const loaded = await loadSession(request, params);
+    if (loaded.error) return loaded.error;
+
+    const body = await request.json().catch(() => null);
+    const { title, archived } = body || {};
+    if (title === undefined && archived === undefined) {
+      return NextResponse.json({ error: 'Nothing to change; send title or archived' }, { status: 400 });
+    }
+    if (title !== undefined && (typeof title !== 'string' || title.length > MAX_SESSION_TITLE_LENGTH * 2)) {
+      return NextResponse.json({ error: `title must be a string of at most ${MAX_SESSION_TITLE_LENGTH * 2} characters` }, { status: 400 });
+    }
+    if (archived !== undefined && typeof archived !== 'boolean') {
+      return NextResponse.json({ error: 'archived must be true or false' }, { status: 400 });
+    }
+
+    const session = await chatSessionService.update(loaded.session.id, { title, archived });
+    return NextResponse.json({ session });
+  } catch (error: any) {
+    console.error('Error updating chat session:', error);
+    return NextResponse.json({ error: 'Failed to update chat session', message: error.message }, { status: 500 });
+  }
+}
+
+// DELETE endpoint - Delete a session with its messages
+export async function DELETE(request: NextRequest, { params }: Params) {
+  try {
+    const loaded = await loadSession(request, params);
+    if (loaded.error) return loaded.error;
+
+    await chatSessionService.delete(loaded.session.id);
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error('Error deleting chat session:', error);
+    return NextResponse.json({ error: 'Failed to delete chat session', message: error.message }, { status: 500 });
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser } from '@/lib/auth';
+import { chatSessionService } from '@/lib/chatSessionService';
+import { findOwnedPdf } from '@/lib/pdfAccess';
+
+// GET endpoint - List the user's chat sessions on a PDF, most recent first (?archived=true includes archived ones)
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const userId = getRequestUser(request)?.userId;
+    if (!userId) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+    if (!(await findOwnedPdf(params.id, userId))) {
+      return NextResponse.json({ error: 'PDF not found' }, { status: 404 });
+    }
+
+    const includeArchived = new URL(request.url).searchParams.get('archived') === 'true';
+    const sessions = await chatSessionService.list(params.id, userId, { includeArchived });
+    return NextResponse.json({ sessions });
+  } catch (error: any) {
+    console.error('Error listing chat sessions:', error);
+    return NextResponse.json({ error: 'Failed to list chat sessions', message: error.message }, { status: 500 });
+  }
+}
+
+// POST endpoint - Start a new chat session; untitled sessions are named after their first question
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const userId = getRequestUser(request)?.userId;
+    if (!userId) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+    if (!(await findOwnedPdf(params.id, userId))) {
+      return NextResponse.json({ error: 'PDF not found' }, { status: 404 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    if (body?.title !== undefined && typeof body.title !== 'string') {
+      return NextResponse.json({ error: 'title must be a string' }, { status: 400 });
+    }
+
+    const session = await chatSessionService.create(params.id, userId, body?.title);
+    return NextResponse.json({ session }, { status: 201 });
+  } catch (error: any) {
+    console.error('Error creating chat session:', error);
+    return NextResponse.json({ error: 'Failed to create chat session', message: error.message }, { status: 500 });
+  }
+}
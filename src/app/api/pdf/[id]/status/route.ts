@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { getRequestUser } from '@/lib/auth';
+import { pdfExtractionService } from '@/lib/pdfExtractionService';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET handler reporting server-side extraction progress for a PDF
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const userId = getRequestUser(request)?.userId;
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const pdf = await prisma.pDF.findFirst({
+      where: {
+        id: params.id,
+        userId,
+        deletedAt: null
+      },
+      select: { id: true }
+    });
+
+    if (!pdf) {
+      return NextResponse.json({ error: 'PDF not found' }, { status: 404 });
+    }
+
+    const progress = await pdfExtractionService.getProgress(pdf.id);
+    if (!progress) {
+      return NextResponse.json({ error: 'PDF not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      ...progress,
+      readyForTutoring: progress.status === 'ready'
+    });
+  } catch (error) {
+    console.error('Error fetching extraction status:', error);
+    return NextResponse.json({ error: 'Failed to fetch extraction status' }, { status: 500 });
+  }
+}
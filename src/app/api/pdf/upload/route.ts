@@ -2,13 +2,22 @@ import { NextResponse } from 'next/server';
 import prisma from '@/lib/prisma';
 import fs from 'fs';
 import path from 'path';
-import { verifyAuth } from '@/lib/auth';
+import { getRequestUser } from '@/lib/auth';
 import { PDFDocument } from 'pdf-lib';
+import { pdfExtractionService } from '@/lib/pdfExtractionService';
+import { annotationService } from '@/lib/annotationService';
+import { readPdfAnnotations } from '@/lib/pdfAnnotationImport';
+import { withRateLimit } from '@/lib/rateLimit/withRateLimit';
 
-export async function POST(request: Request) {
+// pdf.js text extraction needs the Node.js runtime
+export const runtime = 'nodejs';
+
+export const POST = withRateLimit('upload', upload);
+
+async function upload(request: Request) {
   try {
     // Verify authentication
-    const userId = await verifyAuth(request);
+    const userId = getRequestUser(request)?.userId;
     if (!userId) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
@@ -57,12 +66,40 @@ export async function POST(request: Request) {
         }
       });
 
+      // Keep highlights and notes the student made in another reader, as their own annotations
+      let importedAnnotations = 0;
+      try {
+        const imported = readPdfAnnotations(pdfDoc);
+        if (imported.length > 0) {
+          const created = await annotationService.createMany(
+            imported.map(({ annotation, subtype, author }) => ({
+              ...annotationService.fromClientAnnotation(annotation, pdf.id, undefined, userId),
+              isAutomatic: false,
+              meta: { imported: { subtype, ...(author ? { author } : {}) } },
+            })),
+            // Part of the upload, not an edit the student could undo
+            { logOperations: false }
+          );
+          importedAnnotations = created.length;
+        }
+      } catch (importError) {
+        console.error('Failed to import PDF annotations:', importError);
+      }
+
+      // Kick off server-side text extraction; the viewer polls the status endpoint
+      pdfExtractionService.start(pdf.id, buffer);
+
       return NextResponse.json({
         message: 'Upload successful',
         pdf: {
           ...pdf,
           pageCount
-        }
+        },
+        extraction: {
+          status: 'pending',
+          statusUrl: `/api/pdf/${pdf.id}/status`
+        },
+        importedAnnotations
       });
 
     } catch (pdfError) {
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser } from '@/lib/auth';
+import { MAX_ROLLUP_DAYS, MAX_ROLLUP_MONTHS, usageService } from '@/lib/usageService';
+
+// GET endpoint - The user's token usage: today's quota, and daily and monthly totals (?days=30&months=6)
+export async function GET(request: NextRequest) {
+  try {
+    const userId = getRequestUser(request)?.userId;
+    if (!userId) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const searchParams = new URL(request.url).searchParams;
+    const days = Number(searchParams.get('days') ?? 30);
+    const months = Number(searchParams.get('months') ?? 6);
+    if (!Number.isInteger(days) || days < 1 || days > MAX_ROLLUP_DAYS) {
+      return NextResponse.json({ error: `days must be a whole number from 1 to ${MAX_ROLLUP_DAYS}` }, { status: 400 });
+    }
+    if (!Number.isInteger(months) || months < 1 || months > MAX_ROLLUP_MONTHS) {
+      return NextResponse.json({ error: `months must be a whole number from 1 to ${MAX_ROLLUP_MONTHS}` }, { status: 400 });
+    }
+
+    const [quota, rollups] = await Promise.all([
+      usageService.quota(userId),
+      usageService.rollups(userId, { days, months }),
+    ]);
+    return NextResponse.json({ quota, ...rollups });
+  } catch (error: any) {
+    console.error('Error reading token usage:', error);
+    return NextResponse.json({ error: 'Failed to read token usage', message: error.message }, { status: 500 });
+  }
+}
@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { verifyAuth } from '@/lib/auth';
+import { getRequestUser } from '@/lib/auth';
 
 /**
  * Speech-to-Text API endpoint
@@ -9,7 +9,7 @@ import { verifyAuth } from '@/lib/auth';
 export async function POST(request: NextRequest) {
   try {
     // Check authentication
-    const userId = await verifyAuth(request);
+    const userId = getRequestUser(request)?.userId;
     if (!userId) {
       return NextResponse.json(
         { error: 'Authentication required' },
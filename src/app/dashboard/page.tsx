@@ -2,6 +2,7 @@
 import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
+import { clearSession, getValidAccessToken, logout } from '@/lib/authClient';
 
 interface PDF {
   id: string;
@@ -36,14 +37,18 @@ export default function Dashboard() {
   const router = useRouter();
 
   useEffect(() => {
-    const token = localStorage.getItem('token');
-    if (!token) {
+    if (!localStorage.getItem('token')) {
       router.push('/');
       return;
     }
 
     const fetchPDFs = async () => {
       try {
+        const token = await getValidAccessToken();
+        if (!token) {
+          router.push('/');
+          return;
+        }
         const response = await fetch('/api/pdf/list', {
           headers: {
             'Authorization': `Bearer ${token}`,
@@ -51,7 +56,7 @@ export default function Dashboard() {
         });
 
         if (response.status === 401) {
-          localStorage.removeItem('token');
+          clearSession();
           router.push('/');
           return;
         }
@@ -72,9 +77,8 @@ export default function Dashboard() {
     fetchPDFs();
   }, [router]);
 
-  const handleLogout = () => {
-    localStorage.removeItem('token');
-    localStorage.removeItem('user');
+  const handleLogout = async (allDevices = false) => {
+    await logout(allDevices);
     router.push('/');
   };
 
@@ -103,11 +107,18 @@ export default function Dashboard() {
               Upload New PDF
             </button>
             <button
-              onClick={handleLogout}
+              onClick={() => handleLogout()}
               className="px-6 py-3 bg-[#453A7C] rounded-xl hover:bg-[#554A8C] transition-all duration-200"
             >
               Logout
             </button>
+            <button
+              onClick={() => handleLogout(true)}
+              title="Sign out on every device, e.g. after using a shared computer"
+              className="px-6 py-3 bg-[#453A7C] rounded-xl hover:bg-[#554A8C] transition-all duration-200"
+            >
+              Sign out all devices
+            </button>
           </div>
         </div>
       </nav>
@@ -134,7 +145,7 @@ export default function Dashboard() {
               setLoading(true);
               
               try {
-                const token = localStorage.getItem('token');
+                const token = await getValidAccessToken();
                 const reader = new FileReader();
                 reader.onload = async () => {
                   const base64 = (reader.result as string).split(',')[1];
@@ -4,6 +4,7 @@ import "./globals.css";
 import "./styles/custom.css";
 import ConnectionManager from "@/components/ConnectionManager";
 import DebugOverlay from "@/components/DebugOverlay";
+import SessionRefresher from "@/components/SessionRefresher";
 
 const plusJakartaSans = Plus_Jakarta_Sans({
   subsets: ["latin"],
@@ -25,6 +26,7 @@ export default function RootLayout({
       <body className={`${plusJakartaSans.variable} font-sans antialiased`}>
         <ConnectionManager>
           {children}
+          <SessionRefresher />
           <DebugOverlay />
         </ConnectionManager>
       </body>
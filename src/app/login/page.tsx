@@ -1,6 +1,7 @@
 "use client";
 import { useState } from "react";
 import { useRouter } from "next/navigation";
+import { storeSession } from "@/lib/authClient";
 
 export default function LoginPage() {
   // Next.js App Router page components can't accept arbitrary props. Removed onSuccess prop.
@@ -25,9 +26,8 @@ export default function LoginPage() {
       const data = await res.json();
       
       if (res.ok && data.token) {
-        // Store the token locally (consider httpOnly cookie for production security)
-        localStorage.setItem('token', data.token);
-        localStorage.setItem('user', JSON.stringify(data.user));
+        // The access token is short-lived; the refresh token arrived as an httpOnly cookie
+        storeSession(data.token, data.expiresIn, data.user);
 
         setMessage("Login successful! Redirecting...");
         // Give a short delay so user can see success message (optional)
@@ -35,7 +35,7 @@ export default function LoginPage() {
           router.push('/dashboard');
         }, 600);
       } else {
-        setMessage(data.message || "Login failed. Please check your credentials.");
+        setMessage(data.message || data.error || "Login failed. Please check your credentials.");
       }
     } catch (error) {
       console.error('Login error:', error);
@@ -4,6 +4,7 @@ import { useState, useEffect } from "react";
 import LoginPage from "./login/page";
 import SignupPage from "./signup/page";
 import PDFPage from "./pdf/page";
+import { clearSession, getValidAccessToken, logout } from "@/lib/authClient";
 
 export default function Home() {
   const [authMode, setAuthMode] = useState<'login' | 'signup'>('login');
@@ -11,31 +12,29 @@ export default function Home() {
 
   // Check for existing authentication on component mount
   useEffect(() => {
-    const token = localStorage.getItem('token');
-    if (token) {
-      // Verify the token with the backend
-      fetch('/api/auth/verify', {
+    if (!localStorage.getItem('token')) return;
+
+    // Refresh an expired access token first, then verify it (and its session) with the backend
+    getValidAccessToken()
+      .then(token => token ? fetch('/api/auth/verify', {
         headers: {
           'Authorization': `Bearer ${token}`
         }
-      })
+      }) : null)
       .then(res => {
-        if (res.ok) {
+        if (res?.ok) {
           setIsAuthenticated(true);
           window.location.href = '/dashboard'; // Redirect to dashboard on successful auth check
         } else {
-          // If token is invalid, remove it
-          localStorage.removeItem('token');
-          localStorage.removeItem('user');
+          // If the session is over, forget it
+          clearSession();
           setIsAuthenticated(false);
         }
       })
       .catch(() => {
-        localStorage.removeItem('token');
-        localStorage.removeItem('user');
+        clearSession();
         setIsAuthenticated(false);
       });
-    }
   }, []);
 
   const handleAuthSuccess = () => {
@@ -43,9 +42,8 @@ export default function Home() {
     window.location.href = '/dashboard'; // Redirect to dashboard after login
   };
 
-  const handleLogout = () => {
-    localStorage.removeItem('token');
-    localStorage.removeItem('user');
+  const handleLogout = async () => {
+    await logout();
     setIsAuthenticated(false);
     window.location.href = '/'; // Redirect to home on logout
   };
@@ -1,7 +1,7 @@
 "use client";
 // Force dynamic rendering to avoid prerender errors with useSearchParams
 export const dynamic = 'force-dynamic';
-import React, { useState, useEffect, Suspense } from "react";
+import React, { useState, useEffect, useCallback, useMemo, useRef, Suspense } from "react";
 import { useRouter, useSearchParams } from 'next/navigation';
 import {
   DocumentLoadEvent,
@@ -18,6 +18,7 @@ import SmartAnnotationProcessor from '@/components/SmartAnnotationProcessor';
 import { KeyTerm } from '@/components/PDFReferenceHelper';
 import { PDFSection } from '@/components/PDFStructureMapper';
 import ChatBox from '@/components/ChatBox';
+import { AUTH_TOKEN_EVENT, clearSession, getValidAccessToken } from '@/lib/authClient';
 import { Annotation } from '@/types/types';
 import PDFDiagnosticHelper from '@/components/PDFDiagnosticHelper';
 import CleanPDFViewer from '@/components/CleanPDFViewer';
@@ -83,6 +84,8 @@ function PDFPageInner() {
   const [currentPdfId, setCurrentPdfId] = useState<string>("");
   const [pdfs, setPdfs] = useState<Array<{ id: string; url: string; title: string }>>([]);
   const [annotations, setAnnotations] = useState<Annotation[]>([]);
+  // Drawn by the user and saved through the annotations API; kept apart from the tutor's, which are trimmed per page
+  const [manualAnnotations, setManualAnnotations] = useState<Annotation[]>([]);
   const [token, setToken] = useState<string | null>(null);
   const [currentPage, setCurrentPage] = useState<number>(1);
   const [totalPages, setTotalPages] = useState<number>(0);
@@ -126,9 +129,102 @@ function PDFPageInner() {
     return () => window.removeEventListener('keydown', handleKeyPress);
   }, [currentPage, totalPages]);
 
+  // Load what the user drew on this PDF in earlier sessions, once per PDF; token refreshes do not change what is saved
+  const drawingsLoadedForRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (!pdfId || !token || drawingsLoadedForRef.current === pdfId) return;
+    drawingsLoadedForRef.current = pdfId;
+    fetch(`/api/pdf/${pdfId}/annotations?source=manual`, {
+      headers: { 'Authorization': `Bearer ${token}` }
+    })
+      .then(res => res.ok ? res.json() : null)
+      .then(data => {
+        if (data?.annotations) setManualAnnotations(data.annotations);
+      })
+      .catch(error => {
+        console.error('Failed to load drawn annotations:', error);
+        drawingsLoadedForRef.current = null; // try again with the next token
+      });
+  }, [pdfId, token]);
+
+  const annotationsApi = useCallback((path: string, method: string, body?: unknown) => {
+    return fetch(`/api/pdf/${pdfId}/annotations${path}`, {
+      method,
+      headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${token}` },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+  }, [pdfId, token]);
+
+  // Show a new drawing straight away, then swap in the saved copy (which has an id, so it can be edited)
+  const handleManualAnnotationAdd = useCallback(async (annotation: Annotation) => {
+    setManualAnnotations(prev => [...prev, annotation]);
+    try {
+      const res = await annotationsApi('', 'POST', { annotations: [annotation] });
+      const data = await res.json();
+      if (!res.ok || !data.annotations?.[0]) throw new Error(data.error || 'Save failed');
+      setManualAnnotations(prev => prev.map(a => a === annotation ? data.annotations[0] : a));
+    } catch (error) {
+      console.error('Failed to save annotation:', error);
+      setManualAnnotations(prev => prev.filter(a => a !== annotation));
+    }
+  }, [annotationsApi]);
+
+  const handleAnnotationChange = useCallback(async (annotation: Annotation, changes: Partial<Annotation>) => {
+    if (!annotation.id) return;
+    const edited = { ...annotation, ...changes };
+    const replace = (from: Annotation, to: Annotation) => (list: Annotation[]) => list.map(a => a === from ? to : a);
+    setManualAnnotations(replace(annotation, edited));
+    setAnnotations(replace(annotation, edited));
+    try {
+      const res = await annotationsApi(`/${annotation.id}`, 'PATCH', changes);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Update failed');
+      setManualAnnotations(replace(edited, data.annotation));
+      setAnnotations(replace(edited, data.annotation));
+    } catch (error) {
+      console.error('Failed to update annotation:', error);
+      setManualAnnotations(replace(edited, annotation));
+      setAnnotations(replace(edited, annotation));
+    }
+  }, [annotationsApi]);
+
+  // Both lists as last rendered, so a handler can tell where an annotation is before changing them
+  const annotationListsRef = useRef({ annotations, manualAnnotations });
+  annotationListsRef.current = { annotations, manualAnnotations };
+
+  const handleAnnotationDelete = useCallback(async (annotation: Annotation) => {
+    // Remember which lists held it, so a failed delete puts it back where it was
+    const wasManual = annotationListsRef.current.manualAnnotations.includes(annotation);
+    const wasTutor = annotationListsRef.current.annotations.includes(annotation);
+    if (wasManual) setManualAnnotations(prev => prev.filter(a => a !== annotation));
+    if (wasTutor) setAnnotations(prev => prev.filter(a => a !== annotation));
+    if (!annotation.id) return;
+    try {
+      const res = await annotationsApi(`/${annotation.id}`, 'DELETE');
+      if (!res.ok) throw new Error(`Delete failed with ${res.status}`);
+    } catch (error) {
+      console.error('Failed to delete annotation:', error);
+      if (wasManual) setManualAnnotations(prev => [...prev, annotation]);
+      if (wasTutor) setAnnotations(prev => [...prev, annotation]);
+    }
+  }, [annotationsApi]);
+
+  // A stable list, so the canvas does not redraw (and drop a selection) on unrelated renders
+  const canvasAnnotations = useMemo(() => [
+    ...annotations.filter(a => !a.page || a.page === currentPage).slice(0, 50), // Limit annotations to prevent memory issues
+    ...manualAnnotations.filter(a => a.page === currentPage)
+  ], [annotations, manualAnnotations, currentPage]);
+
+  // Pick up access tokens renewed by SessionRefresher
+  useEffect(() => {
+    const onToken = (event: Event) => setToken((event as CustomEvent<string | null>).detail);
+    window.addEventListener(AUTH_TOKEN_EVENT, onToken);
+    return () => window.removeEventListener(AUTH_TOKEN_EVENT, onToken);
+  }, []);
+
   useEffect(() => {
     const checkAuth = async () => {
-      const storedToken = localStorage.getItem('token');
+      const storedToken = await getValidAccessToken();
       if (!storedToken) {
         router.push('/');
         return;
@@ -219,7 +315,7 @@ function PDFPageInner() {
       } catch (err) {
         console.error('Error:', err);
         setError('Failed to verify authentication. Please try logging in again.');
-        localStorage.removeItem('token');
+        clearSession();
         setTimeout(() => window.location.href = '/', 2000);
       } finally {
         setIsLoading(false);
@@ -425,17 +521,13 @@ function PDFPageInner() {
                     <EnhancedPDFAnnotationCanvas 
                       pageWidth={612} // US Letter width in points for more accurate coordinate mapping
                       pageHeight={792} // US Letter height in points
-                      annotations={annotations.filter(a => !a.page || a.page === currentPage).slice(0, 50)} // Limit annotations to prevent memory issues
+                      annotations={canvasAnnotations}
                       currentPage={currentPage}
                       scale={1.0}
-                      enableInteraction={false}
-                      onAnnotationAdd={(annotation: Annotation) => {
-                        // Limit the number of annotations to prevent memory issues
-                        setAnnotations(prev => {
-                          const newAnnotations = [...prev, annotation].slice(-100); // Keep only the last 100 annotations
-                          return newAnnotations;
-                        });
-                      }}
+                      enableInteraction={!!token && !!pdfId}
+                      onAnnotationAdd={handleManualAnnotationAdd}
+                      onAnnotationChange={handleAnnotationChange}
+                      onAnnotationDelete={handleAnnotationDelete}
                     />
                   </div>
                   
@@ -0,0 +1,60 @@
+"use client";
+import { DrawingTool } from '@/lib/drawingTools';
+
+interface AnnotationToolbarProps {
+  tool: DrawingTool;
+  color: string;
+  onToolChange: (tool: DrawingTool) => void;
+  onColorChange: (color: string) => void;
+}
+
+const TOOLS: Array<{ tool: DrawingTool; label: string; icon: string }> = [
+  { tool: 'none', label: 'Read (no drawing)', icon: '👆' },
+  { tool: 'select', label: 'Select, move and resize', icon: '⬚' },
+  { tool: 'highlight', label: 'Highlight', icon: '🖍' },
+  { tool: 'underline', label: 'Underline', icon: 'U̲' },
+  { tool: 'rectangle', label: 'Rectangle', icon: '▭' },
+  { tool: 'circle', label: 'Circle', icon: '◯' },
+  { tool: 'arrow', label: 'Arrow', icon: '➜' },
+  { tool: 'pen', label: 'Pen', icon: '✎' },
+  { tool: 'text', label: 'Sticky note', icon: '🗒' },
+  { tool: 'eraser', label: 'Eraser', icon: '⌫' },
+];
+
+/**
+ * Annotation Toolbar
+ * Tool and color picker for drawing on the PDF alongside the tutor's annotations
+ */
+export default function AnnotationToolbar({ tool, color, onToolChange, onColorChange }: AnnotationToolbarProps) {
+  return (
+    <div
+      className="pointer-events-auto flex items-center gap-1 bg-[#352D63]/95 text-white rounded-xl shadow-lg px-2 py-1"
+      role="toolbar"
+      aria-label="Annotation tools"
+    >
+      {TOOLS.map(({ tool: value, label, icon }) => (
+        <button
+          key={value}
+          type="button"
+          title={label}
+          aria-label={label}
+          aria-pressed={tool === value}
+          onClick={() => onToolChange(value)}
+          className={`w-8 h-8 rounded-lg text-sm transition-colors duration-200 ${
+            tool === value ? 'bg-[#6A5DB9]' : 'hover:bg-[#453A7C]'
+          }`}
+        >
+          {icon}
+        </button>
+      ))}
+      <input
+        type="color"
+        value={color}
+        title="Color"
+        aria-label="Annotation color"
+        onChange={e => onColorChange(e.target.value)}
+        className="w-8 h-8 ml-1 bg-transparent border-0 cursor-pointer"
+      />
+    </div>
+  );
+}
@@ -3,13 +3,15 @@ import React, { useState, useEffect, useRef } from 'react';
 import { Annotation } from '@/types/types';
 import * as pdfjsLib from 'pdfjs-dist';
 import ChatHistoryManager from './ChatHistoryManager';
+import ChatSessionSwitcher from './ChatSessionSwitcher';
+import MessageBranchControls from './MessageBranchControls';
 import AutoNavigator from './AutoNavigator';
 import EnhancedSpeech from './EnhancedSpeech';
 import LiveHighlighter from './LiveHighlighter';
 import { cleanResponseText } from '@/lib/chatUtils';
-import { parseAnnotationCommands, extractNavigationCues, synthesizeFallbackAnnotation, extractHeuristicAnnotations } from '@/lib/annotationUtils';
-import { annotationEngine } from '@/lib/annotationEngine';
-import { setDebugMode, logAnnotation, logError } from '@/lib/debugUtils';
+import { setDebugMode, logError } from '@/lib/debugUtils';
+import { useExtractionStatus } from '@/hooks/useExtractionStatus';
+import { TEMPLATE_LABELS, TEMPLATE_NAMES, TemplateName } from '@/lib/prompts/types';
 
 interface ChatBoxProps {
   pdfUrl: string;
@@ -23,12 +25,48 @@ interface ChatBoxProps {
 }
 
 interface ChatMessage {
+  id?: string; // set once the server has stored the message
   role: 'user' | 'assistant';
   content: string;
   timestamp?: Date;
   annotations?: Annotation[];
   streaming?: boolean; // Flag for messages that are currently streaming
   error?: boolean; // Flag for messages that failed with an error
+  siblingIds?: string[]; // this message and its regenerated or edited alternatives
+}
+
+// The stream being answered, kept in sessionStorage so a reload mid-answer can replay it
+interface ActiveStream {
+  streamId: string;
+  pdfId?: string;
+  sessionId?: string | null;
+  question: string;
+  parentId?: string; // the last stored message when it was asked; the question is stored after it
+  startedAt: number;
+}
+
+const ACTIVE_STREAM_KEY = 'chat_active_stream';
+// Matches how long the server keeps completed streams replayable
+const STREAM_RESUME_WINDOW_MS = 5 * 60 * 1000;
+const MAX_STREAM_RECONNECTS = 3;
+
+/**
+ * Get a stream URL with a fresh single-use ticket; every connection to a stream spends one
+ */
+async function streamTicketUrl(streamId: string, token: string | null, pdfId?: string): Promise<string | null> {
+  try {
+    const res = await fetch(`/api/chat/stream/${streamId}/ticket`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${token}` },
+      body: JSON.stringify({ pdfId }),
+    });
+    if (!res.ok) return null;
+    const data = await res.json();
+    return typeof data.streamUrl === 'string' ? data.streamUrl : null;
+  } catch (e) {
+    console.warn('Could not get a stream ticket:', e);
+    return null;
+  }
 }
 
 export default function ChatBox({
@@ -45,6 +83,13 @@ export default function ChatBox({
   const [input, setInput] = useState("");
   const [loading, setLoading] = useState(false);
   const [isListening, setIsListening] = useState(false);
+  // The conversation being shown; questions and saved history go to it
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  // A message on the branch being shown; null shows the newest branch
+  const [branchId, setBranchId] = useState<string | null>(null);
+  // How the tutor answers the next question (explain, quiz, summarize, Socratic)
+  const [template, setTemplate] = useState<TemplateName>('tutor');
+  const extraction = useExtractionStatus(pdfId, token);
   const [pdfText, setPdfText] = useState<string>(
     initialPdfText && initialPdfText.length > 0 
       ? initialPdfText 
@@ -92,6 +137,148 @@ export default function ChatBox({
     message?: string;
   }>({ status: 'idle' });
 
+  // Follow a stream into the last (assistant) message: an answer resumed after a reload, or a regenerated or edited one
+  const followAnswer = (url: string | null, failure: string, onEnd?: (messageId?: string) => void) => {
+    let text = '';
+    let messageId: string | undefined; // the stored answer, sent with the end event
+    let questionId: string | undefined;
+    const received: Annotation[] = [];
+
+    const updateLast = (update: (message: ChatMessage, question?: ChatMessage) => void) => {
+      setMessages(prev => {
+        const updated = [...prev];
+        const last = updated[updated.length - 1];
+        const before = updated[updated.length - 2];
+        if (last && last.role === 'assistant') update(last, before?.role === 'user' ? before : undefined);
+        return updated;
+      });
+    };
+
+    let source: EventSource | null = null;
+    const finish = (error?: string) => {
+      source?.close();
+      setLoading(false);
+      updateLast((last, question) => {
+        last.content = text || error || '';
+        last.annotations = received.slice(-20);
+        if (messageId) last.id = messageId;
+        if (question && questionId) question.id = questionId;
+        if (error) last.error = true;
+        delete last.streaming;
+      });
+      onEnd?.(messageId);
+    };
+
+    if (!url) {
+      finish(failure);
+      return;
+    }
+    source = new EventSource(url);
+    source.onmessage = (event) => {
+      let data: any;
+      try {
+        data = JSON.parse(event.data);
+      } catch {
+        return;
+      }
+      if (data.type === 'content' && data.content) {
+        text += data.content;
+        updateLast(last => { last.content = text; });
+      } else if (data.type === 'reset') {
+        text = '';
+        received.length = 0;
+        updateLast(last => { last.content = ''; });
+      } else if (data.type === 'annotation' && data.annotation) {
+        received.push(data.annotation);
+        onAnnotation([data.annotation]);
+      } else if (data.type === 'navigation' && typeof data.page === 'number') {
+        onPageChange(Math.max(1, Math.min(data.page, totalPages)));
+      } else if (data.type === 'error' && !data.recoverable) {
+        finish(data.error === 'Stream expired' ? failure : `[Error: ${data.error}]`);
+      } else if (data.type === 'end') {
+        messageId = data.messageId;
+        questionId = data.questionId;
+        finish();
+      }
+    };
+    source.onerror = () => finish(text ? undefined : failure);
+  };
+
+  // After history loads, replay an answer that was still streaming when the page was reloaded
+  const resumeCheckedRef = useRef(false);
+  useEffect(() => {
+    if (resumeCheckedRef.current || (historyStatus.status !== 'success' && historyStatus.status !== 'error')) return;
+    resumeCheckedRef.current = true;
+
+    let active: ActiveStream | null = null;
+    try {
+      active = JSON.parse(sessionStorage.getItem(ACTIVE_STREAM_KEY) || 'null');
+    } catch (e) {
+      console.warn('Could not read active stream:', e);
+    }
+    if (!active || active.pdfId !== pdfId || (active.sessionId || null) !== sessionId || Date.now() - active.startedAt > STREAM_RESUME_WINDOW_MS) {
+      sessionStorage.removeItem(ACTIVE_STREAM_KEY);
+      return;
+    }
+
+    console.log('ChatBox: Recovering interrupted stream', active.streamId);
+    const { streamId, question, parentId } = active;
+
+    // The stream route stores the question and the answer so far, so history usually holds them already:
+    // resume into those rather than showing them twice
+    setMessages(prev => {
+      const start = parentId ? prev.findIndex(m => m.id === parentId) + 1 : 0;
+      const saved = start > 0 || !parentId ? prev[start] : undefined;
+      if (saved?.role !== 'user' || saved.content !== question) {
+        return [
+          ...prev,
+          { role: 'user', content: question, timestamp: new Date() },
+          { role: 'assistant', content: '', timestamp: new Date(), streaming: true },
+        ];
+      }
+      const answer = prev[start + 1]?.role === 'assistant' ? prev[start + 1] : { role: 'assistant' as const, content: '', timestamp: new Date() };
+      return [...prev.slice(0, start + 1), { ...answer, streaming: true }];
+    });
+    setLoading(true);
+
+    const unrecoverable = 'The previous answer could not be recovered. Please ask again.';
+    streamTicketUrl(streamId, token, pdfId).then(url => {
+      followAnswer(url && `${url}&resume=1`, unrecoverable, () => sessionStorage.removeItem(ACTIVE_STREAM_KEY));
+    });
+  }, [historyStatus.status]);
+
+  // Ask for another answer, or answer an edited question, as a new branch; the old one stays a click away
+  const branchFrom = async (index: number, action: 'regenerate' | 'edit', content?: string) => {
+    const message = messages[index];
+    if (!message?.id || !token || loading) return;
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/chat/messages/${message.id}/${action}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${token}` },
+        // An edit is asked with the template picked now; a regenerated answer keeps its old one
+        body: JSON.stringify(action === 'edit' ? { content, currentPage, template } : { currentPage }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok || !data.streamUrl) {
+        throw new Error(data.error || `Request failed: ${res.status}`);
+      }
+      setMessages(prev => [
+        ...prev.slice(0, index),
+        ...(action === 'edit' ? [{ id: data.questionId, role: 'user' as const, content: content || '', timestamp: new Date() }] : []),
+        { role: 'assistant', content: '', timestamp: new Date(), streaming: true },
+      ]);
+      // Reload the branch afterwards so the new alternative shows its arrows
+      followAnswer(data.streamUrl, 'The new answer could not be loaded. Please try again.', messageId => {
+        if (messageId) setBranchId(messageId);
+      });
+    } catch (e) {
+      console.warn(`ChatBox: Could not ${action} message`, e);
+      alert(e instanceof Error ? e.message : `Could not ${action} the message`);
+      setLoading(false);
+    }
+  };
+
   // Voice recognition setup
   useEffect(() => {
     let recognition: any = null;
@@ -883,6 +1070,8 @@ export default function ChatBox({
       timestamp: new Date()
     };
     
+    // The question continues the branch being shown
+    const parentId = [...messages].reverse().find(m => m.id)?.id;
     const newMessages = [...messages, userMessage];
     setMessages(newMessages);
     setLoading(true);
@@ -974,6 +1163,9 @@ export default function ChatBox({
               messages: newMessages,
               pdfText,
               pdfId,
+              sessionId,
+              parentId,
+              template,
               currentPage,
               useStream: false
             }),
@@ -991,16 +1183,11 @@ export default function ChatBox({
           
           const data = await res.json();
           
-          // Process and clean up the response using enhanced engine
-          let annotations: Annotation[] = [];
-          let cleanedText = data.reply || "";
+          // The server resolves tool calls and bracket commands into annotations and a target page
+          const annotations: Annotation[] = Array.isArray(data.annotations) ? data.annotations : [];
+          const cleanedText = data.reply || "";
           
           try {
-            // Parse annotations from the complete response
-            const result = annotationEngine.parseAnnotationCommands(data.reply || "", currentPage);
-            annotations = result.annotations || [];
-            cleanedText = annotationEngine.cleanText(data.reply || "");
-            
             // Dispatch complete response event
             window.dispatchEvent(new CustomEvent('ai-response-complete', {
               detail: { text: data.reply }
@@ -1011,16 +1198,14 @@ export default function ChatBox({
               onAnnotation(annotations.slice(0, 20)); // Limit to 20 annotations
             }
             
-            // Handle navigation using enhanced engine
-            const navigation = annotationEngine.parseNavigationCommands(data.reply || "", currentPage);
-            if (navigation.hasNavigation && navigation.targetPage !== null) {
-              const clampedPage = Math.max(1, Math.min(navigation.targetPage, totalPages));
+            if (typeof data.pageNumber === 'number') {
+              const clampedPage = Math.max(1, Math.min(data.pageNumber, totalPages));
               setTimeout(() => {
                 onPageChange(clampedPage);
               }, 500);
             }
           } catch (parseError) {
-            console.error("Error parsing non-streaming response:", parseError);
+            console.error("Error applying non-streaming response:", parseError);
           }
           
           // Update the message with the complete response
@@ -1029,23 +1214,13 @@ export default function ChatBox({
             const lastMessage = finalMessages[finalMessages.length - 1];
             lastMessage.content = cleanedText;
             lastMessage.annotations = annotations.slice(0, 20); // Limit stored annotations
+            if (data.messageId) lastMessage.id = data.messageId;
+            if (data.questionId && finalMessages[finalMessages.length - 2]?.role === 'user') finalMessages[finalMessages.length - 2].id = data.questionId;
             delete lastMessage.streaming;
             return finalMessages;
           });
 
-          // Auto-save non-streaming response
-          if (pdfId) {
-            try {
-              const assembled = [...newMessages, { role: 'assistant', content: cleanedText, annotations: annotations.slice(0,20) }];
-              fetch('/api/chat/history/save', {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json', 'Authorization': token ? `Bearer ${token}` : '' },
-                body: JSON.stringify({ pdfId, messages: assembled })
-              }).catch(e => console.warn('Non-stream auto-save failed', e));
-            } catch (e) {
-              console.warn('Non-stream auto-save exception', e);
-            }
-          }
+          // /api/chat saved the exchange itself
           
           // Clear any stored error count on success
           try {
@@ -1248,6 +1423,9 @@ export default function ChatBox({
               messages: newMessages,
               pdfText,
               pdfId,
+              sessionId,
+              parentId,
+              template,
               currentPage,
               streamId
             }),
@@ -1262,6 +1440,14 @@ export default function ChatBox({
           const streamData = await streamRes.json();
           
           if (streamRes.ok && streamData.streamUrl) {
+            // Remember the stream so a reload mid-answer can replay it
+            try {
+              const active: ActiveStream = { streamId: streamData.streamId, pdfId, sessionId, question: input, parentId, startedAt: Date.now() };
+              sessionStorage.setItem(ACTIVE_STREAM_KEY, JSON.stringify(active));
+            } catch (e) {
+              console.warn('Could not remember active stream:', e);
+            }
+
             // Connect to the streaming endpoint with error handling
             let eventSource: EventSource;
             try {
@@ -1328,16 +1514,43 @@ export default function ChatBox({
             // Track if we've completed
             let isComplete = false;
             let lastHeartbeat = Date.now();
+
+            // Events are numbered by the server; reconnects replay everything after the last id we saw
+            let lastSeenEventId = 0;
+            let reconnectAttempts = 0;
+            const reconnect = async () => {
+              reconnectAttempts++;
+              lastHeartbeat = Date.now();
+              try {
+                eventSource.close();
+              } catch (e) {
+                console.error("ChatBox: Error closing stale EventSource:", e);
+              }
+              // The spent ticket cannot be reused, so each connection needs a new one
+              const url = await streamTicketUrl(streamData.streamId, token, pdfId);
+              if (!url || isComplete) return;
+              eventSource = new EventSource(`${url}&lastEventId=${lastSeenEventId}`);
+              eventSource.onmessage = handleStreamMessage;
+              eventSource.onerror = handleStreamError;
+            };
             
             // Set up periodic heartbeats to detect if connection is still alive
             const heartbeatInterval = setInterval(() => {
               // If we haven't received a message in 10 seconds, the connection may be dead
               if (Date.now() - lastHeartbeat > 10000 && !isComplete) {
                 console.warn("ChatBox: No SSE messages received for 10 seconds, connection may be stale");
+
+                // Reconnect and replay what was missed; the server resumes from lastSeenEventId
+                if (reconnectAttempts < MAX_STREAM_RECONNECTS) {
+                  console.log(`ChatBox: Reconnecting after event ${lastSeenEventId}`);
+                  reconnect();
+                  return;
+                }
                 
-                // Try to close and recreate the connection
+                // Give up and close the connection
                 try {
                   eventSource.close();
+                  sessionStorage.removeItem(ACTIVE_STREAM_KEY);
                   
                   // Notify UI of connection issues
                   setMessages(prev => {
@@ -1349,8 +1562,6 @@ export default function ChatBox({
                     }
                     return updatedMessages;
                   });
-                  
-                  // We don't auto-reconnect here as it could cause duplicate messages
                 } catch (e) {
                   console.error("ChatBox: Error during stale connection cleanup:", e);
                 }
@@ -1358,12 +1569,19 @@ export default function ChatBox({
             }, 5000);
             
             // Use a more resilient message handling approach
-            eventSource.onmessage = (event) => {
+            const handleStreamMessage = (event: MessageEvent) => {
               // Update heartbeat timestamp
               lastHeartbeat = Date.now();
               
               // Dispatch a heartbeat event that ConnectionManager can listen for
               window.dispatchEvent(new Event('sse-heartbeat'));
+
+              // Skip events already seen before a reconnect (heartbeats carry no id of their own)
+              const eventId = parseInt(event.lastEventId || '', 10);
+              if (eventId > 0) {
+                if (eventId <= lastSeenEventId) return;
+                lastSeenEventId = eventId;
+              }
               
               try {
                 // Check if we have valid data
@@ -1433,6 +1651,7 @@ export default function ChatBox({
                     try {
                       eventSource.close();
                       clearInterval(heartbeatInterval);
+                      sessionStorage.removeItem(ACTIVE_STREAM_KEY);
                     } catch (closeError) {
                       console.error("Error closing event source after error:", closeError);
                     }
@@ -1469,77 +1688,9 @@ export default function ChatBox({
                     data.content = data.content.substring(0, 10000) + "... [Content truncated for performance]";
                   }
                   
-                  // Process chunk for annotations using enhanced engine
-                  let annotations: Annotation[] = [];
-                  let cleanedText = data.content || "";
-                  try {
-                    const result = annotationEngine.processStreamChunk(data.content || "", streamId);
-                    annotations = result.annotations;
-                    cleanedText = annotationEngine.cleanText(data.content || "");
-                    
-                    // Dispatch event for SmartAnnotationProcessor
-                    window.dispatchEvent(new CustomEvent('ai-response-chunk', {
-                      detail: { text: data.content, streamId }
-                    }));
-                  } catch (parseError) {
-                    console.error("ChatBox: Error parsing annotations:", parseError);
-                  }
-                  
-                  // Process for navigation commands using enhanced engine
-                  let navigation = { targetPage: null as number | null, delayMs: 500, hasNavigation: false };
-                  try {
-                    const navResult = annotationEngine.parseNavigationCommands(data.content || "", currentPage);
-                    if (navResult.hasNavigation && navResult.targetPage !== null) {
-                      navigation = {
-                        targetPage: navResult.targetPage,
-                        delayMs: 500,
-                        hasNavigation: true
-                      };
-                    }
-                  } catch (navError) {
-                    console.error("ChatBox: Error extracting navigation cues:", navError);
-                  }
-                  
-                  // Handle annotations if any
-                  if (annotations.length > 0) {
-                    // Limit number of annotations to prevent memory issues
-                    const limitedAnnotations = annotations.slice(0, 5);
-                    
-                    // Update UI with annotations
-                    onAnnotation(limitedAnnotations);
-                    
-                    // Add to collection for final message (limit total stored)
-                    collectedAnnotations.push(...limitedAnnotations);
-                    
-                    // Keep only the last 50 annotations
-                    if (collectedAnnotations.length > 50) {
-                      collectedAnnotations.splice(0, collectedAnnotations.length - 50);
-                    }
-                  }
-                  
-                  // Handle navigation if any
-                  if (navigation.hasNavigation && navigation.targetPage !== null) {
-                    try {
-                      // Debounce: allow only one navigation per stream every 2 seconds
-                      const navKey = '__lastNavTs';
-                      const now = Date.now();
-                      const last = (window as any)[navKey] || 0;
-                      if (now - last > 2000) {
-                        (window as any)[navKey] = now;
-                        setTimeout(() => { onPageChange(navigation.targetPage!); }, navigation.delayMs);
-                      } else {
-                        console.log('Navigation suppressed (debounce)');
-                      }
-                    } catch (e) {
-                      setTimeout(() => { onPageChange(navigation.targetPage!); }, navigation.delayMs);
-                    }
-                  }
-                  
-                  // Clean the text for display
-                  const cleanedChunk = cleanedText;
-                  
-                  // Add to collected text
-                  collectedText += cleanedChunk;
+                  // Content arrives with commands already stripped; annotations and
+                  // navigation come as separate typed events
+                  collectedText += data.content || "";
                   
                   // Update UI with current text
                   setMessages(prev => {
@@ -1549,52 +1700,19 @@ export default function ChatBox({
                   });
                   
                   // Dispatch a custom event for the LiveHighlighter component
-                  try {
-                    console.log("ChatBox: Processing ai-response-chunk with content:", 
-                      data.content.substring(0, 50) + (data.content.length > 50 ? "..." : ""));
-                    
-                    // Add detailed logging for annotation commands
-                    if (data.content.includes('[HIGHLIGHT') || 
-                        data.content.includes('[CIRCLE') ||
-                        data.content.includes('HIGHLIGHT') || 
-                        data.content.includes('CIRCLE')) {
-                      console.log("ANNOTATION COMMAND DETECTED in stream chunk:", 
-                        JSON.stringify(data.content.substring(0, 200)));
-                    }
-                    
-                    // Always dispatch event to ensure partial commands get processed
-                    // This ensures that even if "[HIGHLIGHT" and the rest of the command come in different chunks,
-                    // the LiveHighlighter component will still be able to process them
-                    const streamEvent = new CustomEvent('ai-response-chunk', { 
-                      detail: { text: data.content, streamId }
-                    });
-                    window.dispatchEvent(streamEvent);
-                    
-                    // Log confirmation that event was dispatched
-                    console.log(`ChatBox: Dispatched ai-response-chunk event for streamId ${streamId} with ${data.content.length} chars`);
-                    
-                    // Also process locally for immediate feedback
-                    try {
-                      const { annotations: chunkAnnotations } = parseAnnotationCommands(data.content, currentPage);
-                      
-                      // Limit annotations to prevent memory issues
-                      if (chunkAnnotations.length > 0) {
-                        const limitedAnnotations = chunkAnnotations.slice(0, 5); // Only process max 5 annotations per chunk
-                        
-                        // Log annotations for debugging
-                        limitedAnnotations.forEach(anno => logAnnotation(anno));
-                        
-                        // Apply annotations to the PDF
-                        onAnnotation(limitedAnnotations);
-                        
-                        console.log(`ChatBox: Applied ${limitedAnnotations.length} annotations from stream`);
-                      }
-                    } catch (annotationError) {
-                      console.error("Error processing annotations locally:", annotationError);
-                    }
-                  } catch (error) {
-                    console.error("ChatBox: Failed to process chunk:", error);
-                  }
+                  window.dispatchEvent(new CustomEvent('ai-response-chunk', { 
+                    detail: { text: data.content, streamId }
+                  }));
+                }
+                else if (data.type === 'reset') {
+                  // The model failed mid-answer; a fallback answers from scratch
+                  collectedText = '';
+                  collectedAnnotations.length = 0;
+                  setMessages(prev => {
+                    const updatedMessages = [...prev];
+                    updatedMessages[updatedMessages.length - 1].content = '';
+                    return updatedMessages;
+                  });
                 }
                 else if (data.type === 'annotation') {
                   // Direct annotation data (alternative to embedding in text)
@@ -1610,6 +1728,25 @@ export default function ChatBox({
                     }
                   }
                 }
+                else if (data.type === 'navigation') {
+                  if (typeof data.page === 'number') {
+                    const targetPage = Math.max(1, Math.min(data.page, totalPages));
+                    try {
+                      // Debounce: allow only one navigation per stream every 2 seconds
+                      const navKey = '__lastNavTs';
+                      const now = Date.now();
+                      const last = (window as any)[navKey] || 0;
+                      if (now - last > 2000) {
+                        (window as any)[navKey] = now;
+                        setTimeout(() => { onPageChange(targetPage); }, 500);
+                      } else {
+                        console.log('Navigation suppressed (debounce)');
+                      }
+                    } catch (e) {
+                      setTimeout(() => { onPageChange(targetPage); }, 500);
+                    }
+                  }
+                }
                 else if (data.type === 'end') {
                   // Stream completed
                   isComplete = true;
@@ -1618,6 +1755,7 @@ export default function ChatBox({
                     // Clean up resources
                     eventSource.close();
                     clearInterval(heartbeatInterval);
+                    sessionStorage.removeItem(ACTIVE_STREAM_KEY);
                     
                     console.log("ChatBox: Stream completed successfully, processed", 
                       collectedAnnotations.length, "annotations");
@@ -1625,50 +1763,18 @@ export default function ChatBox({
                     // Update final message with annotations (keep only 20 most recent for UI)
                     const finalAnnotations = collectedAnnotations.slice(-20);
 
-                    // Fallback: if no annotations were collected, generate smart fallback
-                    if (finalAnnotations.length === 0 && collectedText.length > 0) {
-                      // Try heuristic extraction first
-                      const heuristic = extractHeuristicAnnotations(collectedText, currentPage);
-                      if (heuristic.annotations.length > 0) {
-                        console.log(`ChatBox: Applying heuristic fallback annotation (${heuristic.reason})`);
-                        onAnnotation(heuristic.annotations);
-                        finalAnnotations.push(...heuristic.annotations.slice(0,2));
-                      } else {
-                        // Use enhanced annotation engine for smart fallback
-                        const smartFallback = annotationEngine.generateFallbackAnnotation(currentPage, collectedText.substring(0, 100));
-                        console.log('ChatBox: Injecting smart fallback highlight');
-                        onAnnotation([smartFallback]);
-                        finalAnnotations.push(smartFallback);
-                        
-                        // Also dispatch fallback event
-                        window.dispatchEvent(new CustomEvent('ai-annotation-fallback', {
-                          detail: { textHint: collectedText.substring(0, 100) }
-                        }));
-                      }
-                    }
-                    
                     setMessages(prev => {
                       const finalMessages = [...prev];
                       const finalMessage = finalMessages[finalMessages.length - 1];
                       finalMessage.content = collectedText;
                       finalMessage.annotations = finalAnnotations;
+                      // The stream route stored the question and answer as it streamed
+                      if (data.messageId) finalMessage.id = data.messageId;
+                      const question = finalMessages[finalMessages.length - 2];
+                      if (data.questionId && question?.role === 'user') question.id = data.questionId;
                       delete finalMessage.streaming; // Remove streaming flag
                       return finalMessages;
                     });
-
-                    // Auto-save streaming chat history
-                    if (pdfId) {
-                      try {
-                        const assembled = [...messages, { role: 'user', content: input }, { role: 'assistant', content: collectedText, annotations: finalAnnotations }];
-                        fetch('/api/chat/history/save', {
-                          method: 'POST',
-                          headers: { 'Content-Type': 'application/json', 'Authorization': token ? `Bearer ${token}` : '' },
-                          body: JSON.stringify({ pdfId, messages: assembled })
-                        }).catch(e => console.warn('Stream auto-save failed', e));
-                      } catch (e) {
-                        console.warn('Stream auto-save exception', e);
-                      }
-                    }
                   } catch (error) {
                     console.error("ChatBox: Error during stream completion:", error);
                   } finally {
@@ -1680,6 +1786,8 @@ export default function ChatBox({
               }
             };
             
+            eventSource.onmessage = handleStreamMessage;
+            
             // Handle stream error with more robust error handling
             let errorCount = 0;
             let errorTimeout: NodeJS.Timeout | null = null;
@@ -1694,7 +1802,7 @@ export default function ChatBox({
             };
             
             // More robust error handling for EventSource
-            eventSource.onerror = (error) => {
+            const handleStreamError = (error: Event) => {
               errorCount++;
               console.error(`Stream error (${errorCount}/2):`, error);
               
@@ -1710,7 +1818,7 @@ export default function ChatBox({
               
               // If this is the first error and not an Edge runtime error, 
               // show a warning but keep trying
-              if (errorCount === 1 && !isComplete && !isEdgeRuntimeError) {
+              if (errorCount === 1 && !isComplete && !isEdgeRuntimeError && reconnectAttempts < MAX_STREAM_RECONNECTS) {
                 console.log("ChatBox: First error encountered, continuing...");
                 
                 // Add a warning to the UI
@@ -1723,7 +1831,8 @@ export default function ChatBox({
                   return updatedMessages;
                 });
                 
-                // Allow EventSource to attempt auto-reconnection
+                // Reconnect ourselves: the native retry would present the spent ticket again
+                reconnect();
                 return;
               }
               
@@ -1732,6 +1841,7 @@ export default function ChatBox({
               try {
                 eventSource.close();
                 if (heartbeatInterval) clearInterval(heartbeatInterval);
+                sessionStorage.removeItem(ACTIVE_STREAM_KEY);
               } catch (e) {
                 console.error("Error closing EventSource:", e);
               }
@@ -1792,6 +1902,8 @@ export default function ChatBox({
               }
             };
             
+            eventSource.onerror = handleStreamError;
+            
             // Activate LiveHighlighter
             // (No direct activation needed as it will listen for ai-response-chunk events)
             
@@ -1814,6 +1926,9 @@ export default function ChatBox({
           messages: newMessages,
           pdfText,
           pdfId,
+          sessionId,
+          parentId,
+          template,
           currentPage
         }),
       });
@@ -1827,13 +1942,14 @@ export default function ChatBox({
       const data = await res.json();
       if (res.ok) {
         const assistantMessage: ChatMessage = {
+          id: data.messageId,
           role: "assistant",
           content: data.reply,
           timestamp: new Date(),
           annotations: data.annotations
         };
 
-        setMessages([...newMessages, assistantMessage]);
+        setMessages([...newMessages.slice(0, -1), { ...userMessage, id: data.questionId }, assistantMessage]);
         
         if (data.annotations) {
           onAnnotation(data.annotations);
@@ -1906,6 +2022,14 @@ export default function ChatBox({
           </div>
           <div>
             <h3 className="text-lg font-semibold text-white">AI Study Assistant</h3>
+            {(extraction.status === 'pending' || extraction.status === 'processing') && (
+              <p className="text-xs text-blue-300">
+                Preparing document for tutoring… {extraction.extractedPages}/{extraction.pageCount || '?'} pages
+              </p>
+            )}
+            {extraction.status === 'failed' && (
+              <p className="text-xs text-red-400">Server-side text extraction failed; answers may be less accurate</p>
+            )}
           </div>
         </div>
         {isSpeaking && (
@@ -1934,16 +2058,31 @@ export default function ChatBox({
         isActive={true}
       />
       
-      {/* Chat History Controls */}
+      {/* Conversation switcher and history controls */}
       {pdfId && token && (
-        <div className="mb-3 px-2">
-          <ChatHistoryManager
+        <div className="mb-3 px-2 space-y-2">
+          <ChatSessionSwitcher
             pdfId={pdfId}
             token={token}
+            sessionId={sessionId}
+            onSessionChange={(id) => {
+              if (id === sessionId) return;
+              setMessages([]);
+              setBranchId(null);
+              setSessionId(id);
+            }}
+            refreshKey={messages.filter(m => m.role === 'user').length}
+          />
+          {sessionId && <ChatHistoryManager
+            pdfId={pdfId}
+            token={token}
+            sessionId={sessionId}
+            branchId={branchId}
             onLoadHistory={(loadedMessages) => setMessages(loadedMessages)}
+            onLoadEarlier={(earlier) => setMessages(prev => [...earlier, ...prev])}
             onLoadAnnotations={(annotations) => onAnnotation(annotations)}
             onStatusChange={(status, message) => setHistoryStatus({ status, message })}
-          />
+          />}
           {historyStatus.status === 'loading' && (
             <p className="text-xs text-purple-300 mt-1">Loading chat history...</p>
           )}
@@ -2081,6 +2220,19 @@ export default function ChatBox({
                     </span>
                   )}
                 </div>
+
+                {!msg.streaming && (
+                  <MessageBranchControls
+                    id={msg.id}
+                    role={msg.role}
+                    content={msg.content}
+                    siblingIds={msg.siblingIds}
+                    disabled={loading}
+                    onSelectBranch={setBranchId}
+                    onRegenerate={() => branchFrom(idx, 'regenerate')}
+                    onEdit={(content) => branchFrom(idx, 'edit', content)}
+                  />
+                )}
                 
                 {/* Show annotation indicators if message has annotations */}
                 {msg.annotations && msg.annotations.length > 0 && (
@@ -2177,6 +2329,17 @@ export default function ChatBox({
       {/* Input form with improved styling */}
       <form onSubmit={handleSend} className="relative mt-2">
         <div className="flex items-center gap-3 p-3 bg-gray-800/80 rounded-lg border border-gray-700/80 shadow-md backdrop-blur-sm">
+          <select
+            value={template}
+            onChange={e => setTemplate(e.target.value as TemplateName)}
+            disabled={loading}
+            aria-label="Answer style"
+            className="bg-gray-700/90 text-white rounded-lg px-2 py-3 text-sm border border-gray-600/50"
+          >
+            {TEMPLATE_NAMES.map(name => (
+              <option key={name} value={name}>{TEMPLATE_LABELS[name]}</option>
+            ))}
+          </select>
           <input
             type="text"
             value={input}
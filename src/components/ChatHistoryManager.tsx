@@ -1,32 +1,47 @@
 "use client";
 import React, { useState, useEffect } from 'react';
 import { Annotation } from '@/types/types';
-import { deserializeChatMessages, extractAnnotationsFromMessages } from '@/lib/chatUtils';
+import { extractAnnotationsFromMessages } from '@/lib/chatUtils';
 
 interface ChatHistoryManagerProps {
   pdfId?: string;
   token: string | null;
+  sessionId?: string | null; // the conversation to load; all of the PDF's history when omitted
+  branchId?: string | null; // a message on the branch to load; the newest branch when omitted
   onLoadHistory: (messages: any[]) => void;
+  onLoadEarlier?: (messages: any[]) => void; // earlier messages to put before the loaded ones
   onLoadAnnotations: (annotations: Annotation[]) => void;
   onStatusChange: (status: 'loading' | 'success' | 'error' | 'idle', message?: string) => void;
 }
 
 interface ChatMessage {
+  id?: string;
   role: 'user' | 'assistant';
   content: string;
   timestamp?: Date;
   annotations?: Annotation[];
+  error?: boolean;
+  siblingIds?: string[];
 }
 
+// The history API sends timestamps as strings
+const fromResponse = (messages: any[]): ChatMessage[] =>
+  messages.map(message => ({ ...message, timestamp: message.timestamp ? new Date(message.timestamp) : undefined }));
+
 export default function ChatHistoryManager({
   pdfId,
   token,
+  sessionId,
+  branchId,
   onLoadHistory,
+  onLoadEarlier,
   onLoadAnnotations,
   onStatusChange
 }: ChatHistoryManagerProps): JSX.Element {
   // Track loading state
   const [loading, setLoading] = useState<boolean>(false);
+  // Id of the oldest loaded message while earlier ones remain on the server
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   
   // Function to load chat history
   const loadChatHistory = async () => {
@@ -46,7 +61,10 @@ export default function ChatHistoryManager({
         console.warn('ChatHistoryManager: Request is taking longer than expected');
       }, 5000); // 5 seconds
       
-      const response = await fetch(`/api/chat/history/${pdfId}`, {
+      const params = new URLSearchParams();
+      if (sessionId) params.set('sessionId', sessionId);
+      if (branchId) params.set('branch', branchId);
+      const response = await fetch(`/api/chat/history/${pdfId}?${params}`, {
         headers: {
           'Authorization': `Bearer ${token}`,
           'Cache-Control': 'no-cache',
@@ -79,8 +97,8 @@ export default function ChatHistoryManager({
       }
       
       if (data && data.messages) {
-        // Process messages with our utility function
-        const processedMessages = deserializeChatMessages(data);
+        const processedMessages = fromResponse(data.messages);
+        setNextCursor(data.nextCursor || null);
         console.log(`ChatHistoryManager: Processed ${processedMessages.length} messages`);
         
         // Extract all annotations
@@ -101,6 +119,7 @@ export default function ChatHistoryManager({
         onStatusChange('success', `Loaded ${processedMessages.length} messages with ${allAnnotations.length} annotations`);
       } else {
         console.log('ChatHistoryManager: No chat history found or empty history');
+        setNextCursor(null);
         onLoadHistory([]);
         onStatusChange('success', 'No chat history found');
       }
@@ -112,6 +131,34 @@ export default function ChatHistoryManager({
     }
   };
   
+  // Load the page of messages before the oldest one shown
+  const loadEarlier = async () => {
+    if (!pdfId || !token || !nextCursor) return;
+    try {
+      setLoading(true);
+      const params = new URLSearchParams({ cursor: nextCursor });
+      if (sessionId) params.set('sessionId', sessionId);
+      if (branchId) params.set('branch', branchId);
+      const response = await fetch(`/api/chat/history/${pdfId}?${params}`, {
+        headers: { 'Authorization': `Bearer ${token}` }
+      });
+      if (!response.ok) {
+        throw new Error(`Failed to load earlier messages: ${response.status}`);
+      }
+      const data = await response.json();
+      const earlier = fromResponse(data.messages || []);
+      setNextCursor(data.nextCursor || null);
+      onLoadEarlier?.(earlier);
+      const annotations = extractAnnotationsFromMessages(earlier);
+      if (annotations.length > 0) onLoadAnnotations(annotations);
+    } catch (error) {
+      console.error('ChatHistoryManager: Error loading earlier messages:', error);
+      onStatusChange('error', error instanceof Error ? error.message : 'Unknown error loading earlier messages');
+    } finally {
+      setLoading(false);
+    }
+  };
+  
   // Load chat history on component mount with retry logic
   useEffect(() => {
     // Skip if we don't have required parameters
@@ -153,13 +200,13 @@ export default function ChatHistoryManager({
     return () => {
       console.log('ChatHistoryManager: Component unmounted or dependencies changed');
     };
-  }, [pdfId, token]);
+  }, [pdfId, token, sessionId, branchId]);
   
   // Function to clear chat history
   const clearHistory = async () => {
     if (!pdfId || !token) return;
     
-    if (!confirm('Are you sure you want to clear your chat history? This cannot be undone.')) {
+    if (!confirm('Are you sure you want to clear this conversation\'s history? This cannot be undone.')) {
       return;
     }
     
@@ -167,7 +214,8 @@ export default function ChatHistoryManager({
       setLoading(true);
       onStatusChange('loading');
       
-      const response = await fetch(`/api/chat/history/${pdfId}/clear`, {
+      const query = sessionId ? `?sessionId=${encodeURIComponent(sessionId)}` : '';
+      const response = await fetch(`/api/chat/history/${pdfId}/clear${query}`, {
         method: 'DELETE',
         headers: {
           'Authorization': `Bearer ${token}`
@@ -179,6 +227,7 @@ export default function ChatHistoryManager({
       }
       
       // Clear messages and annotations
+      setNextCursor(null);
       onLoadHistory([]);
       onLoadAnnotations([]);
       
@@ -198,6 +247,17 @@ export default function ChatHistoryManager({
   
   return (
     <div className="chat-history-controls">
+      {nextCursor && onLoadEarlier && (
+        <button 
+          onClick={loadEarlier}
+          disabled={loading}
+          className="text-sm bg-[#453A7C] hover:bg-[#6A5DB9] text-white py-1 px-2 rounded mr-2"
+          title="Load earlier messages in this conversation"
+        >
+          Load earlier messages
+        </button>
+      )}
+      
       <button 
         onClick={retryLoadHistory}
         disabled={loading}
@@ -211,7 +271,7 @@ export default function ChatHistoryManager({
         onClick={clearHistory}
         disabled={loading}
         className="text-sm bg-red-600 hover:bg-red-700 text-white py-1 px-2 rounded"
-        title="Delete all chat history for this PDF"
+        title="Delete this conversation's messages"
       >
         {loading ? 'Processing...' : 'Clear History'}
       </button>
@@ -0,0 +1,155 @@
+"use client";
+import React, { useEffect, useState } from 'react';
+
+interface ChatSessionSummary {
+  id: string;
+  title: string | null;
+  updatedAt: string;
+  archivedAt: string | null;
+}
+
+interface ChatSessionSwitcherProps {
+  pdfId: string;
+  token: string;
+  sessionId: string | null;
+  onSessionChange: (sessionId: string) => void;
+  refreshKey?: number; // changes when a question is asked, so an untitled session picks up its title
+}
+
+const UNTITLED = 'New conversation';
+
+/**
+ * Chat Session Switcher
+ * Lists the conversations about a PDF and starts, renames, archives or deletes them
+ */
+export default function ChatSessionSwitcher({ pdfId, token, sessionId, onSessionChange, refreshKey }: ChatSessionSwitcherProps) {
+  const [sessions, setSessions] = useState<ChatSessionSummary[]>([]);
+  const [showArchived, setShowArchived] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const request = async (path: string, method: string = 'GET', body?: unknown) => {
+    const res = await fetch(`/api/pdf/${pdfId}/sessions${path}`, {
+      method,
+      headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${token}` },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(data.error || `Request failed: ${res.status}`);
+    return data;
+  };
+
+  const createSession = async (): Promise<ChatSessionSummary> => {
+    const { session } = await request('', 'POST', {});
+    setSessions(prev => [session, ...prev]);
+    onSessionChange(session.id);
+    return session;
+  };
+
+  // Load the list, and open the most recent conversation (or a new one) when the selected one is not listed
+  const loadSessions = async () => {
+    try {
+      const { sessions: loaded } = await request(showArchived ? '?archived=true' : '');
+      setSessions(loaded);
+      setError(null);
+      if (sessionId && loaded.some((session: ChatSessionSummary) => session.id === sessionId)) return;
+      const active = loaded.find((session: ChatSessionSummary) => !session.archivedAt);
+      if (active) onSessionChange(active.id);
+      else await createSession();
+    } catch (e) {
+      console.warn('ChatSessionSwitcher: Could not load sessions', e);
+      setError('Could not load conversations');
+    }
+  };
+
+  useEffect(() => {
+    loadSessions();
+  }, [pdfId, token, showArchived]);
+
+  // Pick up the title the server gives an untitled session from its first question
+  const current = sessions.find(session => session.id === sessionId);
+  useEffect(() => {
+    if (refreshKey && current && !current.title) loadSessions();
+  }, [refreshKey]);
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await action();
+      setError(null);
+    } catch (e) {
+      console.warn('ChatSessionSwitcher: Action failed', e);
+      setError(e instanceof Error ? e.message : 'Action failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // After the current conversation is archived or deleted, move to the next one
+  const leaveCurrent = async (remaining: ChatSessionSummary[]) => {
+    const next = remaining.find(session => !session.archivedAt);
+    if (next) onSessionChange(next.id);
+    else await createSession();
+  };
+
+  const rename = () => run(async () => {
+    if (!current) return;
+    const title = prompt('Rename conversation', current.title || '');
+    if (title === null) return;
+    const { session } = await request(`/${current.id}`, 'PATCH', { title });
+    setSessions(prev => prev.map(s => (s.id === session.id ? session : s)));
+  });
+
+  const toggleArchived = () => run(async () => {
+    if (!current) return;
+    const { session } = await request(`/${current.id}`, 'PATCH', { archived: !current.archivedAt });
+    const updated = sessions.map(s => (s.id === session.id ? session : s)).filter(s => showArchived || !s.archivedAt);
+    setSessions(updated);
+    if (session.archivedAt) await leaveCurrent(updated.filter(s => s.id !== session.id));
+  });
+
+  const remove = () => run(async () => {
+    if (!current || !confirm(`Delete "${current.title || UNTITLED}" and all its messages? This cannot be undone.`)) return;
+    await request(`/${current.id}`, 'DELETE');
+    const remaining = sessions.filter(s => s.id !== current.id);
+    setSessions(remaining);
+    await leaveCurrent(remaining);
+  });
+
+  const buttonClass = 'text-xs bg-[#453A7C] hover:bg-[#6A5DB9] text-white py-1 px-2 rounded disabled:opacity-50';
+
+  return (
+    <div className="chat-session-switcher flex flex-wrap items-center gap-2">
+      <select
+        value={sessionId || ''}
+        onChange={e => onSessionChange(e.target.value)}
+        disabled={busy || sessions.length === 0}
+        aria-label="Conversation"
+        className="flex-1 min-w-0 text-sm bg-[#2A2250] text-white border border-[#453A7C] rounded px-2 py-1"
+      >
+        {sessions.map(session => (
+          <option key={session.id} value={session.id}>
+            {session.title || UNTITLED}{session.archivedAt ? ' (archived)' : ''}
+          </option>
+        ))}
+      </select>
+      <button type="button" onClick={() => run(async () => { await createSession(); })} disabled={busy} className={buttonClass} title="Start a new conversation">
+        + New
+      </button>
+      <button type="button" onClick={rename} disabled={busy || !current} className={buttonClass} title="Rename this conversation">
+        Rename
+      </button>
+      <button type="button" onClick={toggleArchived} disabled={busy || !current} className={buttonClass} title="Archive or unarchive this conversation">
+        {current?.archivedAt ? 'Unarchive' : 'Archive'}
+      </button>
+      <button type="button" onClick={remove} disabled={busy || !current} className={`${buttonClass} hover:bg-red-600`} title="Delete this conversation">
+        Delete
+      </button>
+      <label className="text-xs text-purple-200 flex items-center gap-1">
+        <input type="checkbox" checked={showArchived} onChange={e => setShowArchived(e.target.checked)} />
+        Show archived
+      </label>
+      {error && <p className="w-full text-xs text-red-400">{error}</p>}
+    </div>
+  );
+}
@@ -1,6 +1,19 @@
 "use client";
 import { useEffect, useRef, useState, useCallback } from 'react';
 import { Annotation } from '@/types/types';
+import AnnotationToolbar from '@/components/AnnotationToolbar';
+import {
+  DEFAULT_TOOL_COLOR,
+  DrawingTool,
+  Point,
+  STICKY_NOTE_WIDTH,
+  dragToAnnotation,
+  freeformPoints,
+  pathCommandsToPoints,
+  strokeToAnnotation,
+  transformToChanges,
+  withAlpha,
+} from '@/lib/drawingTools';
 
 // Dynamic fabric import to avoid SSR issues
 let fabric: any = null;
@@ -31,16 +44,26 @@ interface EnhancedPDFAnnotationCanvasProps {
   annotations: Annotation[];
   currentPage: number;
   onAnnotationAdd?: (annotation: Annotation) => void;
+  onAnnotationChange?: (annotation: Annotation, changes: Partial<Annotation>) => void;
+  onAnnotationDelete?: (annotation: Annotation) => void;
   scale?: number;
-  enableInteraction?: boolean;
+  enableInteraction?: boolean; // show the drawing toolbar
 }
 
+// Tools that draw by dragging out a shape
+const SHAPE_TOOLS: DrawingTool[] = ['highlight', 'underline', 'rectangle', 'circle', 'arrow'];
+
+// Annotations that can be moved but not resized on the canvas
+const MOVE_ONLY_TYPES = ['arrow', 'underline', 'freeform'];
+
 export function EnhancedPDFAnnotationCanvas({
   pageWidth,
   pageHeight,
   annotations,
   currentPage,
   onAnnotationAdd,
+  onAnnotationChange,
+  onAnnotationDelete,
   scale = 1,
   enableInteraction = false
 }: EnhancedPDFAnnotationCanvasProps) {
@@ -49,6 +72,29 @@ export function EnhancedPDFAnnotationCanvas({
   const containerRef = useRef<HTMLDivElement>(null);
   const [isReady, setIsReady] = useState(false);
   const [animatingAnnotations, setAnimatingAnnotations] = useState<Set<string>>(new Set());
+  const [tool, setTool] = useState<DrawingTool>('none');
+  const [color, setColor] = useState(DEFAULT_TOOL_COLOR);
+  const toolRef = useRef<DrawingTool>('none');
+  // Parents re-render often (e.g. while the tutor streams); reading callbacks from a ref keeps a drag in progress alive
+  const callbacksRef = useRef({ onAnnotationAdd, onAnnotationChange, onAnnotationDelete });
+  callbacksRef.current = { onAnnotationAdd, onAnnotationChange, onAnnotationDelete };
+
+  // Which canvas objects respond to the pointer depends on the tool; only saved annotations can be edited
+  const configureObject = useCallback((obj: any) => {
+    const annotation: Annotation | undefined = obj.annotationRef;
+    const editable = toolRef.current === 'select' && !!annotation?.id;
+    const erasable = toolRef.current === 'eraser' && !!annotation;
+    const moveOnly = !!annotation && MOVE_ONLY_TYPES.includes(annotation.type);
+    obj.set({
+      selectable: editable,
+      evented: editable || erasable,
+      hoverCursor: erasable ? 'crosshair' : 'move',
+      hasControls: editable && !moveOnly,
+      lockScalingX: moveOnly,
+      lockScalingY: moveOnly || annotation?.type === 'text',
+      lockRotation: true,
+    });
+  }, []);
 
   // Initialize fabric canvas
   useEffect(() => {
@@ -166,10 +212,10 @@ export function EnhancedPDFAnnotationCanvas({
         }
 
         case 'arrow': {
-          if (!annotation.width || !annotation.height) return null;
+          if (!annotation.width && !annotation.height) return null;
 
-          const endX = scaledX + (annotation.width * scale);
-          const endY = scaledY + (annotation.height * scale);
+          const endX = scaledX + ((annotation.width || 0) * scale);
+          const endY = scaledY + ((annotation.height || 0) * scale);
 
           // Create arrow line
           const line = new fabric.Line([scaledX, scaledY, endX, endY], {
@@ -252,6 +298,19 @@ export function EnhancedPDFAnnotationCanvas({
           return rect;
         }
 
+        case 'freeform': {
+          const points = freeformPoints(annotation);
+          if (points.length < 2) return null;
+
+          return new fabric.Polyline(points.map(p => ({ x: p.x * scale, y: p.y * scale })), {
+            fill: 'transparent',
+            stroke: annotation.color || 'rgba(128, 0, 128, 0.8)',
+            strokeLineCap: 'round',
+            strokeLineJoin: 'round',
+            ...commonProps
+          });
+        }
+
         default:
           return null;
       }
@@ -415,6 +474,10 @@ export function EnhancedPDFAnnotationCanvas({
           canvas.add(label);
         }
 
+        // Remember where it was drawn, so moves and resizes can be mapped back to the annotation
+        obj.annotationRef = annotation;
+        obj.annotationOrigin = { left: obj.left, top: obj.top };
+        configureObject(obj);
         canvas.add(obj);
 
         // Apply animation if specified
@@ -431,38 +494,163 @@ export function EnhancedPDFAnnotationCanvas({
     });
 
     canvas.renderAll();
-  }, [annotations, currentPage, isReady, createAnnotationObject, applyAnimation, scale]);
+  }, [annotations, currentPage, isReady, createAnnotationObject, applyAnimation, configureObject, scale]);
 
-  // Handle canvas interactions
+  // Drawing tools: gestures become new annotations, edits of saved ones go to onAnnotationChange
   useEffect(() => {
-    if (!fabricCanvasRef.current || !enableInteraction) return;
-
     const canvas = fabricCanvasRef.current;
+    if (!canvas || !isReady || !enableInteraction || !fabric) return;
+
+    toolRef.current = tool;
+    const wrapper = canvas.wrapperEl || canvas.upperCanvasEl?.parentElement;
+    if (wrapper) wrapper.style.pointerEvents = tool === 'none' ? 'none' : 'auto';
+
+    canvas.selection = false;
+    canvas.isDrawingMode = tool === 'pen';
+    if (tool === 'pen') {
+      const brush = new fabric.PencilBrush(canvas);
+      brush.color = color;
+      brush.width = 2 * scale;
+      canvas.freeDrawingBrush = brush;
+    }
+    canvas.discardActiveObject();
+    canvas.getObjects().forEach(configureObject);
+    canvas.requestRenderAll();
+
+    const toPage = (opt: any): Point => {
+      const point = opt.scenePoint || canvas.getScenePoint(opt.e);
+      return { x: point.x / scale, y: point.y / scale };
+    };
 
-    const handleObjectAdded = (e: any) => {
-      if (onAnnotationAdd && e.target) {
-        // Convert fabric object back to annotation
-        const obj = e.target;
-        const annotation: Annotation = {
-          type: 'highlight', // Default type
-          page: currentPage,
-          x: obj.left / scale,
-          y: obj.top / scale,
-          width: obj.width / scale,
-          height: obj.height / scale,
-          color: obj.fill || 'rgba(255, 255, 0, 0.3)'
-        };
-        
-        onAnnotationAdd(annotation);
+    let start: Point | null = null;
+    let preview: any = null;
+
+    const handleMouseDown = (opt: any) => {
+      if (tool === 'eraser') {
+        const annotation = opt.target?.annotationRef;
+        if (annotation) callbacksRef.current.onAnnotationDelete?.(annotation);
+        return;
+      }
+
+      if (tool === 'text') {
+        const point = toPage(opt);
+        const text = window.prompt('Note text');
+        if (text && text.trim()) {
+          callbacksRef.current.onAnnotationAdd?.({
+            type: 'text',
+            page: currentPage,
+            x: Math.round(point.x),
+            y: Math.round(point.y),
+            width: STICKY_NOTE_WIDTH,
+            text: text.trim(),
+            color: '#000000',
+            isAutomatic: false
+          });
+        }
+        return;
       }
+
+      if (!SHAPE_TOOLS.includes(tool)) return;
+      start = toPage(opt);
+      const at = { x: start.x * scale, y: start.y * scale };
+      const previewProps = { stroke: color, strokeWidth: 1, strokeDashArray: [4, 4], fill: 'transparent', selectable: false, evented: false };
+      if (tool === 'arrow' || tool === 'underline') {
+        preview = new fabric.Line([at.x, at.y, at.x, at.y], previewProps);
+      } else if (tool === 'circle') {
+        preview = new fabric.Circle({ left: at.x, top: at.y, radius: 0, originX: 'center', originY: 'center', ...previewProps });
+      } else {
+        preview = new fabric.Rect({ left: at.x, top: at.y, width: 0, height: 0, ...previewProps });
+      }
+      canvas.add(preview);
+    };
+
+    const handleMouseMove = (opt: any) => {
+      if (!start || !preview) return;
+      const point = toPage(opt);
+      if (tool === 'arrow') {
+        preview.set({ x2: point.x * scale, y2: point.y * scale });
+      } else if (tool === 'underline') {
+        preview.set({ x2: point.x * scale, y2: start.y * scale });
+      } else if (tool === 'circle') {
+        preview.set({ radius: Math.hypot(point.x - start.x, point.y - start.y) * scale });
+      } else {
+        preview.set({
+          left: Math.min(start.x, point.x) * scale,
+          top: Math.min(start.y, point.y) * scale,
+          width: Math.abs(point.x - start.x) * scale,
+          height: Math.abs(point.y - start.y) * scale
+        });
+      }
+      canvas.requestRenderAll();
     };
 
-    canvas.on('object:added', handleObjectAdded);
+    const handleMouseUp = (opt: any) => {
+      if (!start) return;
+      if (preview) canvas.remove(preview);
+      const annotation = dragToAnnotation(tool, start, toPage(opt), currentPage, color);
+      start = null;
+      preview = null;
+      if (annotation) callbacksRef.current.onAnnotationAdd?.(annotation);
+    };
+
+    // The stroke is replaced by the saved annotation once the parent re-renders
+    const handlePathCreated = (opt: any) => {
+      const path = opt.path;
+      if (!path) return;
+      canvas.remove(path);
+      const points = pathCommandsToPoints(path.path || []).map(p => ({ x: p.x / scale, y: p.y / scale }));
+      const annotation = strokeToAnnotation(points, currentPage, color);
+      if (annotation) callbacksRef.current.onAnnotationAdd?.(annotation);
+    };
+
+    const handleObjectModified = (opt: any) => {
+      const obj = opt.target;
+      const annotation: Annotation | undefined = obj?.annotationRef;
+      if (!annotation || !obj.annotationOrigin) return;
+      callbacksRef.current.onAnnotationChange?.(annotation, transformToChanges(annotation, {
+        dx: (obj.left - obj.annotationOrigin.left) / scale,
+        dy: (obj.top - obj.annotationOrigin.top) / scale,
+        scaleX: obj.scaleX || 1,
+        scaleY: obj.scaleY || 1
+      }));
+    };
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (tool !== 'select' || (e.key !== 'Delete' && e.key !== 'Backspace')) return;
+      if ((e.target as HTMLElement)?.closest?.('input, textarea, [contenteditable="true"]')) return;
+      const annotation = canvas.getActiveObject()?.annotationRef;
+      if (annotation) {
+        e.preventDefault();
+        callbacksRef.current.onAnnotationDelete?.(annotation);
+      }
+    };
+
+    canvas.on('mouse:down', handleMouseDown);
+    canvas.on('mouse:move', handleMouseMove);
+    canvas.on('mouse:up', handleMouseUp);
+    canvas.on('path:created', handlePathCreated);
+    canvas.on('object:modified', handleObjectModified);
+    window.addEventListener('keydown', handleKeyDown);
 
     return () => {
-      canvas.off('object:added', handleObjectAdded);
+      canvas.off('mouse:down', handleMouseDown);
+      canvas.off('mouse:move', handleMouseMove);
+      canvas.off('mouse:up', handleMouseUp);
+      canvas.off('path:created', handlePathCreated);
+      canvas.off('object:modified', handleObjectModified);
+      window.removeEventListener('keydown', handleKeyDown);
+      if (preview) canvas.remove(preview);
     };
-  }, [enableInteraction, onAnnotationAdd, currentPage, scale]);
+  }, [tool, color, isReady, enableInteraction, scale, currentPage, configureObject]);
+
+  // With a saved annotation selected, picking a color recolors it
+  const handleColorChange = (value: string) => {
+    setColor(value);
+    const annotation: Annotation | undefined = fabricCanvasRef.current?.getActiveObject()?.annotationRef;
+    if (tool === 'select' && annotation) {
+      onAnnotationChange?.(annotation, { color: annotation.type === 'highlight' ? withAlpha(value, 0.3) : value });
+    }
+  };
 
   return (
     <div 
@@ -484,6 +672,12 @@ export function EnhancedPDFAnnotationCanvas({
         }}
       />
       
+      {enableInteraction && (
+        <div className="absolute top-2 left-1/2 -translate-x-1/2 z-20">
+          <AnnotationToolbar tool={tool} color={color} onToolChange={setTool} onColorChange={handleColorChange} />
+        </div>
+      )}
+
       {/* Animation indicator */}
       {animatingAnnotations.size > 0 && (
         <div className="absolute top-2 right-2 bg-blue-500/80 text-white text-xs px-2 py-1 rounded-md">
@@ -0,0 +1,53 @@
+"use client";
+import React from 'react';
+
+interface MessageBranchControlsProps {
+  id?: string;
+  role: 'user' | 'assistant';
+  content: string;
+  siblingIds?: string[]; // this message and its alternatives, oldest first
+  disabled?: boolean;
+  onSelectBranch: (messageId: string) => void;
+  onRegenerate: () => void;
+  onEdit: (content: string) => void;
+}
+
+/**
+ * Message Branch Controls
+ * Arrows between a message's alternatives (1/3), and regenerate or edit-and-resend for stored messages
+ */
+export default function MessageBranchControls({ id, role, content, siblingIds, disabled, onSelectBranch, onRegenerate, onEdit }: MessageBranchControlsProps) {
+  if (!id) return null;
+  const index = siblingIds ? siblingIds.indexOf(id) : -1;
+  const buttonClass = 'px-1.5 py-0.5 rounded hover:bg-white/10 disabled:opacity-40 disabled:hover:bg-transparent';
+
+  const edit = () => {
+    const edited = prompt('Edit your question', content);
+    if (edited !== null && edited.trim() && edited.trim() !== content.trim()) onEdit(edited.trim());
+  };
+
+  return (
+    <div className="message-branch-controls mt-2 flex items-center gap-2 text-xs text-white/70">
+      {siblingIds && index >= 0 && (
+        <span className="flex items-center gap-1" aria-label="Alternative versions">
+          <button type="button" className={buttonClass} disabled={disabled || index === 0} onClick={() => onSelectBranch(siblingIds[index - 1])} title="Previous version">
+            ‹
+          </button>
+          <span>{index + 1}/{siblingIds.length}</span>
+          <button type="button" className={buttonClass} disabled={disabled || index === siblingIds.length - 1} onClick={() => onSelectBranch(siblingIds[index + 1])} title="Next version">
+            ›
+          </button>
+        </span>
+      )}
+      {role === 'assistant' ? (
+        <button type="button" className={buttonClass} disabled={disabled} onClick={onRegenerate} title="Answer this question again">
+          Regenerate
+        </button>
+      ) : (
+        <button type="button" className={buttonClass} disabled={disabled} onClick={edit} title="Edit this question and ask again">
+          Edit
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+"use client";
+import { useEffect } from 'react';
+import { accessTokenExpiresAt, AUTH_TOKEN_EVENT, refreshAccessToken, REFRESH_MARGIN_MS } from '@/lib/authClient';
+
+/**
+ * Session Refresher
+ * Renews the short-lived access token shortly before it expires, for as long as a token is stored.
+ * Renders nothing.
+ */
+export default function SessionRefresher() {
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const schedule = () => {
+      if (timer) clearTimeout(timer);
+      timer = null;
+      if (!localStorage.getItem('token')) return;
+
+      const delay = Math.max(0, accessTokenExpiresAt() - Date.now() - REFRESH_MARGIN_MS);
+      timer = setTimeout(async () => {
+        // A successful refresh dispatches AUTH_TOKEN_EVENT, which schedules the next one
+        const token = await refreshAccessToken();
+        if (!token && localStorage.getItem('token')) {
+          timer = setTimeout(schedule, 30 * 1000); // transient failure; try again
+        }
+      }, delay);
+    };
+
+    schedule();
+    window.addEventListener(AUTH_TOKEN_EVENT, schedule);
+    return () => {
+      if (timer) clearTimeout(timer);
+      window.removeEventListener(AUTH_TOKEN_EVENT, schedule);
+    };
+  }, []);
+
+  return null;
+}
@@ -88,15 +88,6 @@ export function SmartAnnotationProcessor({
     }
   }, [isActive, onAnnotationAdd, onPageChange, currentPage, totalPages]);
 
-  // Generate fallback annotation when AI doesn't provide specific commands
-  const generateFallbackAnnotation = useCallback((textHint?: string) => {
-    if (!isActive) return;
-
-    const fallback = annotationEngine.generateFallbackAnnotation(currentPage, textHint);
-    console.log('SmartAnnotationProcessor: Generated fallback annotation');
-    onAnnotationAdd([fallback]);
-  }, [isActive, currentPage, onAnnotationAdd]);
-
   // Listen for AI response events
   useEffect(() => {
     if (!isActive) return;
@@ -113,23 +104,15 @@ export function SmartAnnotationProcessor({
       processCompleteResponse(text);
     };
 
-    // Handle fallback requests
-    const handleFallbackRequest = (event: CustomEvent) => {
-      const { textHint } = event.detail;
-      generateFallbackAnnotation(textHint);
-    };
-
     // Add event listeners
     window.addEventListener('ai-response-chunk', handleStreamChunk as EventListener);
     window.addEventListener('ai-response-complete', handleCompleteResponse as EventListener);
-    window.addEventListener('ai-annotation-fallback', handleFallbackRequest as EventListener);
 
     return () => {
       window.removeEventListener('ai-response-chunk', handleStreamChunk as EventListener);
       window.removeEventListener('ai-response-complete', handleCompleteResponse as EventListener);
-      window.removeEventListener('ai-annotation-fallback', handleFallbackRequest as EventListener);
     };
-  }, [isActive, processStreamChunk, processCompleteResponse, generateFallbackAnnotation]);
+  }, [isActive, processStreamChunk, processCompleteResponse]);
 
   // Expose methods for manual processing
   useEffect(() => {
@@ -137,11 +120,10 @@ export function SmartAnnotationProcessor({
       (window as any).smartAnnotationProcessor = {
         processChunk: processStreamChunk,
         processComplete: processCompleteResponse,
-        generateFallback: generateFallbackAnnotation,
         isActive
       };
     }
-  }, [processStreamChunk, processCompleteResponse, generateFallbackAnnotation, isActive]);
+  }, [processStreamChunk, processCompleteResponse, isActive]);
 
   // This component doesn't render anything visible
   return null;
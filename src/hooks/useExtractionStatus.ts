@@ -0,0 +1,74 @@
+/**
+ * React hook that polls the server-side extraction status of a PDF
+ */
+
+import { useState, useEffect } from 'react';
+
+export type ExtractionStatus = 'pending' | 'processing' | 'ready' | 'failed' | 'unknown';
+
+export interface ExtractionState {
+  status: ExtractionStatus;
+  pageCount: number;
+  extractedPages: number;
+  readyForTutoring: boolean;
+  error?: string | null;
+}
+
+const POLL_INTERVAL = 2000;
+// Give up after five minutes; the server restarts a lost extraction the next time the status is read
+const MAX_POLLS = 150;
+
+export function useExtractionStatus(pdfId?: string, token?: string | null): ExtractionState {
+  const [state, setState] = useState<ExtractionState>({
+    status: 'unknown',
+    pageCount: 0,
+    extractedPages: 0,
+    readyForTutoring: false,
+  });
+
+  useEffect(() => {
+    if (!pdfId || !token) return;
+
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let polls = 0;
+
+    const poll = async () => {
+      polls++;
+      try {
+        const res = await fetch(`/api/pdf/${pdfId}/status`, {
+          headers: { 'Authorization': `Bearer ${token}` },
+          cache: 'no-store',
+        });
+        if (!res.ok) return;
+
+        const data = await res.json();
+        if (cancelled) return;
+
+        setState({
+          status: data.status,
+          pageCount: data.pageCount,
+          extractedPages: data.extractedPages,
+          readyForTutoring: !!data.readyForTutoring,
+          error: data.error,
+        });
+
+        // Keep polling until the job settles, or for at most MAX_POLLS requests
+        if ((data.status === 'pending' || data.status === 'processing') && polls < MAX_POLLS) {
+          timer = setTimeout(poll, POLL_INTERVAL);
+        }
+      } catch (error) {
+        console.warn('Failed to fetch extraction status', error);
+      }
+    };
+
+    poll();
+
+    return () => {
+      cancelled = true;
+      if (timer) clearTimeout(timer);
+    };
+  }, [pdfId, token]);
+
+  return state;
+}
@@ -0,0 +1,8 @@
+import { getJwtSecret } from '@/lib/edgeAuth';
+
+/**
+ * Runs once when the server starts: fail fast instead of accepting requests that can never authenticate
+ */
+export function register() {
+  getJwtSecret();
+}
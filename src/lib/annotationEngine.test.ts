@@ -253,27 +253,4 @@ describe('AnnotationEngine Parser', () => {
       expect(result.targetPage).toBe(1);
     });
   });
-  
-  // Test fallback generation
-  describe('Fallback annotation', () => {
-    test('should generate fallback annotation for a page', () => {
-      const fallback = annotationEngine.generateFallbackAnnotation(3);
-      
-      expect(fallback).toMatchObject({
-        type: 'highlight',
-        page: 3,
-        label: 'AI Highlight'
-      });
-    });
-    
-    test('should use text hint to improve fallback position', () => {
-      const fallback = annotationEngine.generateFallbackAnnotation(2, 'title section');
-      
-      expect(fallback).toMatchObject({
-        type: 'highlight',
-        page: 2,
-        y: 120 // Should be positioned near top for title hints
-      });
-    });
-  });
 });
\ No newline at end of file
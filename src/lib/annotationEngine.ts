@@ -25,6 +25,42 @@ export interface AnnotationCommand {
   importance?: 'low' | 'medium' | 'high';
 }
 
+export interface AnnotationFields {
+  page: number;
+  x: number;
+  y: number;
+  width?: number;
+  height?: number;
+  radius?: number;
+  x2?: number;
+  y2?: number;
+  text?: string;
+  color?: string;
+  label?: string;
+}
+
+export interface NavigationResult {
+  targetPage: number | null;
+  hasNavigation: boolean;
+  command: string | null;
+}
+
+// One match per command; the body is interpreted by readCommandFields
+const ANNOTATION_COMMAND_PATTERN = /\[\s*(HIGHLIGHT|CIRCLE|ARROW|UNDERLINE|TEXT|RECTANGLE)(?![A-Z])([^\]]*)\]/gi;
+const NAVIGATION_COMMAND_PATTERN = /\[\s*(?:GO TO PAGE\s+\d+|NEXT PAGE|PREV(?:IOUS)? PAGE|FIRST PAGE|LAST PAGE)\s*\]/gi;
+// An opening bracket with no close yet; bounded so stray brackets don't stall the stream
+const INCOMPLETE_COMMAND_PATTERN = /\[[^\]\[]{0,160}$/;
+
+// Positional argument count including the page
+const COMMAND_ARITY: Record<AnnotationCommand['type'], number> = {
+  highlight: 5,
+  circle: 4,
+  arrow: 5,
+  underline: 4,
+  text: 3,
+  rectangle: 5,
+};
+
 export class AnnotationEngine {
   private commandBuffer: string = '';
   private streamId: string | null = null;
@@ -37,12 +73,16 @@ export class AnnotationEngine {
   }
 
   /**
-   * Process streaming text chunks for annotation commands
+   * Process streaming text chunks for annotation commands.
+   * Commands split across chunks are held back until their closing bracket arrives,
+   * so cleanedText never contains partial commands.
    */
-  processStreamChunk(chunk: string, currentStreamId?: string): {
+  processStreamChunk(chunk: string, currentStreamId?: string, currentPage = 1): {
     annotations: Annotation[];
     cleanedText: string;
     hasCommands: boolean;
+    navigation: NavigationResult;
+    textHighlights: Array<{ page: number; text: string }>;
   } {
     // Reset buffer for new streams
     if (currentStreamId && this.streamId !== currentStreamId) {
@@ -50,263 +90,290 @@ export class AnnotationEngine {
       this.streamId = currentStreamId;
     }
 
-    // Add chunk to buffer
-    this.commandBuffer += chunk;
+    const combined = this.commandBuffer + chunk;
+
+    // Keep any unterminated command for the next chunk
+    this.commandBuffer = this.extractIncompleteCommands(combined);
+    const complete = combined.slice(0, combined.length - this.commandBuffer.length);
 
-    // Extract complete commands
-    const result = this.parseAnnotationCommands(this.commandBuffer);
-    
-    // Update buffer with remaining incomplete commands
-    this.commandBuffer = this.extractIncompleteCommands(this.commandBuffer);
+    const result = this.parseAnnotationCommands(complete, currentPage);
 
     return {
       annotations: result.annotations,
-      cleanedText: chunk.replace(/\[(?:HIGHLIGHT|CIRCLE|ARROW|UNDERLINE|TEXT|RECTANGLE)[^\]]*\]/g, ''),
-      hasCommands: result.annotations.length > 0
+      cleanedText: this.stripCommands(complete),
+      hasCommands: result.annotations.length > 0,
+      navigation: this.parseNavigationCommands(complete, currentPage),
+      textHighlights: result.textHighlights
     };
   }
 
   /**
-   * Parse annotation commands from text with enhanced pattern matching
+   * Return whatever is still buffered at the end of a stream and reset
+   */
+  flush(): string {
+    const remaining = this.commandBuffer;
+    this.commandBuffer = '';
+    this.streamId = null;
+    return remaining;
+  }
+
+  /**
+   * Parse annotation commands from text.
+   * This is the single bracket grammar; every command is matched once and read by its argument shape:
+   *   [HIGHLIGHT page x y width height]   [HIGHLIGHT PAGE 1 x y width height]
+   *   [HIGHLIGHT: page, x, y, width, height]   [HIGHLIGHT page=1 x=100 y=200 width=300 height=50]
+   *   [CIRCLE page x y radius]   [ARROW page x1 y1 x2 y2]   [UNDERLINE page x y width]
+   *   [TEXT page x y "content"]   [RECTANGLE page x y width height]
+   *   [HIGHLIGHT TEXT "quote" ON PAGE n]   (returned in textHighlights for the caller to place)
+   * Any command may end with color="...".
    */
   parseAnnotationCommands(text: string, currentPage = 1): {
     annotations: Annotation[];
     cleanedText: string;
+    commandCount: number;
+    textHighlights: Array<{ page: number; text: string }>;
   } {
     const annotations: Annotation[] = [];
-    let cleanedText = text;
-
-    // Enhanced regex patterns for different annotation types
-    const patterns = {
-      highlight: [
-        // Standard format: [HIGHLIGHT page x y width height]
-        /\[\s*HIGHLIGHT\s+(\d+)\s+(\d+)\s+(\d+)\s+(\d+)\s+(\d+)(?:\s+color="([^"]+)")?\s*\]/g,
-        // Page-first format: [HIGHLIGHT PAGE 1 x y width height]
-        /\[\s*HIGHLIGHT\s+(?:PAGE\s+)?(\d+)\s+(\d+)\s+(\d+)\s+(\d+)\s+(\d+)(?:\s+color="([^"]+)")?\s*\]/g,
-        // Colon format: [HIGHLIGHT: page, x, y, width, height]
-        /\[\s*HIGHLIGHT\s*:\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)(?:\s*,\s*color="([^"]+)")?\s*\]/g,
-        // Key-value format: [HIGHLIGHT page=1 x=100 y=200 width=300 height=50]
-        /\[\s*HIGHLIGHT\s+page=(\d+)\s+x=(\d+)\s+y=(\d+)\s+width=(\d+)\s+height=(\d+)(?:\s+color="([^"]+)")?\s*\]/g
-      ],
-      circle: [
-        // Standard format: [CIRCLE page x y radius]
-        /\[\s*CIRCLE\s+(\d+)\s+(\d+)\s+(\d+)\s+(\d+)(?:\s+color="([^"]+)")?\s*\]/g,
-        // Page-first format: [CIRCLE PAGE 1 x y radius]
-        /\[\s*CIRCLE\s+(?:PAGE\s+)?(\d+)\s+(\d+)\s+(\d+)\s+(\d+)(?:\s+color="([^"]+)")?\s*\]/g,
-        // Colon format: [CIRCLE: page, x, y, radius]
-        /\[\s*CIRCLE\s*:\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)(?:\s*,\s*color="([^"]+)")?\s*\]/g
-      ],
-      arrow: [
-        // [ARROW page x1 y1 x2 y2]
-        /\[\s*ARROW\s+(\d+)\s+(\d+)\s+(\d+)\s+(\d+)\s+(\d+)(?:\s+color="([^"]+)")?\s*\]/g
-      ],
-      underline: [
-        // [UNDERLINE page x y width]
-        /\[\s*UNDERLINE\s+(\d+)\s+(\d+)\s+(\d+)\s+(\d+)(?:\s+color="([^"]+)")?\s*\]/g
-      ],
-      text: [
-        // [TEXT page x y "content"]
-        /\[\s*TEXT\s+(\d+)\s+(\d+)\s+(\d+)\s+"([^"]+)"(?:\s+color="([^"]+)")?\s*\]/g
-      ],
-      rectangle: [
-        // [RECTANGLE page x y width height]
-        /\[\s*RECTANGLE\s+(\d+)\s+(\d+)\s+(\d+)\s+(\d+)\s+(\d+)(?:\s+color="([^"]+)")?\s*\]/g
-      ]
-    };
+    const textHighlights: Array<{ page: number; text: string }> = [];
+    let commandCount = 0;
 
-    // Process each annotation type
-    Object.entries(patterns).forEach(([type, regexList]) => {
-      regexList.forEach(regex => {
-        let match;
-        while ((match = regex.exec(text)) !== null) {
-          const annotation = this.createAnnotation(type as any, match, currentPage);
-          if (annotation) {
-            annotations.push(annotation);
-            cleanedText = cleanedText.replace(match[0], '');
-          }
-        }
-      });
-    });
+    const cleanedText = text.replace(ANNOTATION_COMMAND_PATTERN, (raw, keyword: string, body: string) => {
+      commandCount++;
+      const type = keyword.toLowerCase() as AnnotationCommand['type'];
+
+      const quote = body.match(/^\s*TEXT\s+"([^"]+)"\s+ON\s+PAGE\s+(\d+)\s*$/i);
+      if (type === 'highlight' && quote) {
+        textHighlights.push({ text: quote[1].trim(), page: parseInt(quote[2], 10) || currentPage });
+        return '';
+      }
 
-    // Clean up extra whitespace
-    cleanedText = cleanedText.replace(/\s{2,}/g, ' ').trim();
+      const fields = this.readCommandFields(type, body, currentPage);
+      const annotation = fields ? this.buildAnnotation(type, fields) : null;
+      if (annotation) {
+        annotations.push(annotation);
+      } else {
+        console.warn('[annotationEngine] Skipping malformed command', raw);
+      }
+      return '';
+    });
 
-    return { annotations, cleanedText };
+    return { annotations, cleanedText, commandCount, textHighlights };
   }
 
   /**
-   * Create annotation object from regex match
+   * Read the arguments of one bracket command into named fields
    */
-  private createAnnotation(
-    type: string,
-    match: RegExpMatchArray,
+  private readCommandFields(
+    type: AnnotationCommand['type'],
+    body: string,
     currentPage: number
-  ): Annotation | null {
-    try {
-      const page = parseInt(match[1], 10) || currentPage;
-      
-      switch (type) {
-        case 'highlight': {
-          const x = parseInt(match[2], 10);
-          const y = parseInt(match[3], 10);
-          const width = parseInt(match[4], 10);
-          const height = parseInt(match[5], 10);
-          const color = match[6] || 'rgba(255, 255, 0, 0.3)';
-
-          return this.optimizeHighlight({
-            type: 'highlight',
-            page,
-            x: this.clampX(x),
-            y: this.clampY(y),
-            width: this.clampWidth(width, x),
-            height: this.clampHeight(height, y),
-            color,
-            animationEffect: 'pulse',
-            opacity: 0.35
-          });
-        }
+  ): AnnotationFields | null {
+    let rest = body;
+    let color: string | undefined;
+    let content: string | undefined;
+
+    rest = rest.replace(/color\s*=\s*"([^"]+)"/i, (_, value: string) => {
+      color = value;
+      return ' ';
+    });
+    if (type === 'text') {
+      rest = rest.replace(/"([^"]*)"/, (_, value: string) => {
+        content = value;
+        return ' ';
+      });
+      if (!content) return null;
+    }
 
-        case 'circle': {
-          const x = parseInt(match[2], 10);
-          const y = parseInt(match[3], 10);
-          const radius = parseInt(match[4], 10);
-          const color = match[5] || 'rgba(255, 0, 0, 0.7)';
-
-          return {
-            type: 'circle',
-            page,
-            x: this.clampX(x),
-            y: this.clampY(y),
-            radius: Math.max(5, Math.min(radius, 100)),
-            color,
-            animationEffect: 'pulse',
-            opacity: 0.7
-          };
+    // Key-value form
+    if (/\b[a-z0-9]+\s*=/i.test(rest)) {
+      const read = (...keys: string[]) => {
+        for (const key of keys) {
+          const match = rest.match(new RegExp(`\\b${key}\\s*=\\s*(-?\\d+(?:\\.\\d+)?)`, 'i'));
+          if (match) return parseFloat(match[1]);
         }
+        return undefined;
+      };
+      const x = read('x', 'x1');
+      const y = read('y', 'y1');
+      if (x === undefined || y === undefined) return null;
+      return {
+        page: read('page') || currentPage,
+        x,
+        y,
+        width: read('width', 'w'),
+        height: read('height', 'h'),
+        radius: read('radius', 'r'),
+        x2: read('x2'),
+        y2: read('y2'),
+        text: content,
+        color,
+      };
+    }
 
-        case 'arrow': {
-          const x1 = parseInt(match[2], 10);
-          const y1 = parseInt(match[3], 10);
-          const x2 = parseInt(match[4], 10);
-          const y2 = parseInt(match[5], 10);
-          const color = match[6] || 'rgba(255, 0, 0, 0.8)';
-
-          return {
-            type: 'arrow',
-            page,
-            x: this.clampX(x1),
-            y: this.clampY(y1),
-            width: x2 - x1,
-            height: y2 - y1,
-            color,
-            strokeWidth: 2
-          };
-        }
+    // Positional form: optional ':' / PAGE keyword, numbers separated by spaces or commas
+    const numbers = (rest.replace(/^\s*:/, '').replace(/\bPAGE\b/i, '').match(/-?\d+(?:\.\d+)?/g) || []).map(Number);
+    const arity = COMMAND_ARITY[type];
+    let values: number[];
+    if (numbers.length === arity) {
+      values = numbers;
+      // Older prompts asked for [HIGHLIGHT x y w h page]; an implausible first page means coordinates came first
+      if (values[0] > 50 && values[arity - 1] <= 50) {
+        values = [values[arity - 1], ...values.slice(0, arity - 1)];
+      }
+    } else if (numbers.length === arity - 1) {
+      values = [currentPage, ...numbers]; // page omitted
+    } else {
+      return null;
+    }
 
-        case 'underline': {
-          const x = parseInt(match[2], 10);
-          const y = parseInt(match[3], 10);
-          const width = parseInt(match[4], 10);
-          const color = match[5] || 'rgba(0, 0, 255, 0.8)';
-
-          return {
-            type: 'underline',
-            page,
-            x: this.clampX(x),
-            y: this.clampY(y),
-            width: this.clampWidth(width, x),
-            height: 3,
-            color,
-            strokeWidth: 2
-          };
-        }
+    const [page, a, b, c, d] = values;
+    switch (type) {
+      case 'highlight':
+      case 'rectangle':
+        return { page, x: a, y: b, width: c, height: d, color };
+      case 'circle':
+        return { page, x: a, y: b, radius: c, color };
+      case 'arrow':
+        return { page, x: a, y: b, x2: c, y2: d, color };
+      case 'underline':
+        return { page, x: a, y: b, width: c, color };
+      case 'text':
+        return { page, x: a, y: b, text: content, color };
+      default:
+        return null;
+    }
+  }
 
-        case 'text': {
-          const x = parseInt(match[2], 10);
-          const y = parseInt(match[3], 10);
-          const content = match[4];
-          const color = match[5] || 'rgba(0, 0, 0, 0.9)';
-
-          return {
-            type: 'text',
-            page,
-            x: this.clampX(x),
-            y: this.clampY(y),
-            text: content,
-            color,
-            width: Math.min(content.length * 8, this.pageWidth - x - 20),
-            height: 20
-          };
-        }
+  /**
+   * Build a clamped annotation from named fields.
+   * Shared by the bracket grammar and structured tool calls so both produce identical shapes.
+   */
+  buildAnnotation(type: AnnotationCommand['type'], fields: AnnotationFields): Annotation | null {
+    const page = Math.round(fields.page) || 1;
+    const x = fields.x;
+    const y = fields.y;
+    if (page < 1 || !Number.isFinite(x) || !Number.isFinite(y) || x < 0 || y < 0) return null;
+
+    switch (type) {
+      case 'highlight': {
+        if (!fields.width || !fields.height || fields.width <= 0 || fields.height <= 0) return null;
+        return this.optimizeHighlight({
+          type: 'highlight',
+          page,
+          x: this.clampX(x),
+          y: this.clampY(y),
+          width: this.clampWidth(fields.width, x),
+          height: this.clampHeight(fields.height, y),
+          color: fields.color || 'rgba(255, 255, 0, 0.3)',
+          animationEffect: 'pulse',
+          opacity: 0.35,
+          ...(fields.label ? { label: fields.label } : {})
+        });
+      }
 
-        case 'rectangle': {
-          const x = parseInt(match[2], 10);
-          const y = parseInt(match[3], 10);
-          const width = parseInt(match[4], 10);
-          const height = parseInt(match[5], 10);
-          const color = match[6] || 'rgba(0, 0, 255, 0.3)';
-
-          return {
-            type: 'rectangle',
-            page,
-            x: this.clampX(x),
-            y: this.clampY(y),
-            width: this.clampWidth(width, x),
-            height: this.clampHeight(height, y),
-            color,
-            strokeWidth: 2
-          };
-        }
+      case 'circle': {
+        if (!fields.radius || fields.radius <= 0) return null;
+        return {
+          type: 'circle',
+          page,
+          x: this.clampX(x),
+          y: this.clampY(y),
+          radius: Math.max(5, Math.min(fields.radius, 100)),
+          color: fields.color || 'rgba(255, 0, 0, 0.7)',
+          animationEffect: 'pulse',
+          opacity: 0.7,
+          ...(fields.label ? { label: fields.label } : {})
+        };
+      }
+
+      case 'arrow': {
+        if (fields.x2 === undefined || fields.y2 === undefined) return null;
+        return {
+          type: 'arrow',
+          page,
+          x: this.clampX(x),
+          y: this.clampY(y),
+          width: fields.x2 - x,
+          height: fields.y2 - y,
+          color: fields.color || 'rgba(255, 0, 0, 0.8)',
+          strokeWidth: 2
+        };
+      }
 
-        default:
-          return null;
+      case 'underline': {
+        if (!fields.width || fields.width <= 0) return null;
+        return {
+          type: 'underline',
+          page,
+          x: this.clampX(x),
+          y: this.clampY(y),
+          width: this.clampWidth(fields.width, x),
+          height: 3,
+          color: fields.color || 'rgba(0, 0, 255, 0.8)',
+          strokeWidth: 2
+        };
       }
-    } catch (error) {
-      console.error('Error creating annotation:', error);
-      return null;
+
+      case 'text': {
+        if (!fields.text) return null;
+        return {
+          type: 'text',
+          page,
+          x: this.clampX(x),
+          y: this.clampY(y),
+          text: fields.text,
+          color: fields.color || 'rgba(0, 0, 0, 0.9)',
+          width: Math.min(fields.text.length * 8, this.pageWidth - x - 20),
+          height: 20
+        };
+      }
+
+      case 'rectangle': {
+        if (!fields.width || !fields.height || fields.width <= 0 || fields.height <= 0) return null;
+        return {
+          type: 'rectangle',
+          page,
+          x: this.clampX(x),
+          y: this.clampY(y),
+          width: this.clampWidth(fields.width, x),
+          height: this.clampHeight(fields.height, y),
+          color: fields.color || 'rgba(0, 0, 255, 0.3)',
+          strokeWidth: 2
+        };
+      }
+
+      default:
+        return null;
     }
   }
 
   /**
-   * Optimize highlight annotations for better visual appearance
+   * Ensure highlights stay visible
    */
   private optimizeHighlight(annotation: Annotation): Annotation {
-    // Split tall highlights into multiple lines
-    if (annotation.height && annotation.height > 40) {
-      const lineHeight = 22;
-      const lines = Math.ceil(annotation.height / lineHeight);
-      
-      // Return the first line, additional lines would be handled separately
-      return {
-        ...annotation,
-        height: Math.min(lineHeight, annotation.height),
-        label: lines > 1 ? `Line 1 of ${lines}` : undefined
-      };
-    }
-
-    // Ensure minimum visibility
     if (annotation.height && annotation.height < 12) {
       annotation.height = 16;
     }
-
-    // Snap to text grid for better alignment
-    if (annotation.y) {
-      const gridSize = 22;
-      annotation.y = Math.round(annotation.y / gridSize) * gridSize;
-    }
-
     return annotation;
   }
 
   /**
-   * Extract incomplete commands from buffer
+   * Extract an unterminated command from the end of the buffer
    */
   private extractIncompleteCommands(text: string): string {
-    const incompletePattern = /\[(?:HIGHLIGHT|CIRCLE|ARROW|UNDERLINE|TEXT|RECTANGLE)[^\]]*$/;
-    const match = text.match(incompletePattern);
+    const match = text.match(INCOMPLETE_COMMAND_PATTERN);
     return match ? match[0] : '';
   }
 
+  /**
+   * Remove complete annotation and navigation commands without touching surrounding whitespace
+   */
+  private stripCommands(text: string): string {
+    return text
+      .replace(ANNOTATION_COMMAND_PATTERN, '')
+      .replace(NAVIGATION_COMMAND_PATTERN, '');
+  }
+
   /**
    * Coordinate clamping functions
    */
@@ -326,44 +393,16 @@ export class AnnotationEngine {
     return Math.max(10, Math.min(height, this.pageHeight - y - 10));
   }
 
-  /**
-   * Generate fallback annotation when AI doesn't provide specific coordinates
-   */
-  generateFallbackAnnotation(page: number, textHint?: string): Annotation {
-    // Estimate position based on text hint or use default
-    const estimatedY = textHint ? 
-      (textHint.toLowerCase().includes('title') ? 120 : 200) : 200;
-    
-    const estimatedWidth = textHint ? 
-      Math.min(Math.max(textHint.length * 7, 160), 520) : 400;
-
-    return {
-      type: 'highlight',
-      page,
-      x: 80,
-      y: estimatedY,
-      width: estimatedWidth,
-      height: 24,
-      color: 'rgba(255, 255, 0, 0.25)',
-      animationEffect: 'pulse',
-      label: 'AI Highlight'
-    };
-  }
-
   /**
    * Parse navigation commands
    */
-  parseNavigationCommands(text: string, currentPage: number): {
-    targetPage: number | null;
-    hasNavigation: boolean;
-    command: string | null;
-  } {
+  parseNavigationCommands(text: string, currentPage: number): NavigationResult {
     const patterns = [
-      { regex: /\[GO TO PAGE (\d+)\]/i, type: 'goto' },
-      { regex: /\[NEXT PAGE\]/i, type: 'next' },
-      { regex: /\[PREV(?:IOUS)? PAGE\]/i, type: 'prev' },
-      { regex: /\[FIRST PAGE\]/i, type: 'first' },
-      { regex: /\[LAST PAGE\]/i, type: 'last' }
+      { regex: /\[\s*GO TO PAGE\s+(\d+)\s*\]/i, type: 'goto' },
+      { regex: /\[\s*NEXT PAGE\s*\]/i, type: 'next' },
+      { regex: /\[\s*PREV(?:IOUS)? PAGE\s*\]/i, type: 'prev' },
+      { regex: /\[\s*FIRST PAGE\s*\]/i, type: 'first' },
+      { regex: /\[\s*LAST PAGE\s*\]/i, type: 'last' }
     ];
 
     for (const pattern of patterns) {
@@ -408,9 +447,7 @@ export class AnnotationEngine {
    * Clean text by removing annotation and navigation commands
    */
   cleanText(text: string): string {
-    return text
-      .replace(/\[(?:HIGHLIGHT|CIRCLE|ARROW|UNDERLINE|TEXT|RECTANGLE)[^\]]*\]/g, '')
-      .replace(/\[(?:GO TO PAGE \d+|NEXT PAGE|PREV(?:IOUS)? PAGE|FIRST PAGE|LAST PAGE)\]/gi, '')
+    return this.stripCommands(text)
       .replace(/\s{2,}/g, ' ')
       .trim();
   }
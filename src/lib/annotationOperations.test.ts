@@ -0,0 +1,48 @@
+import { describeUpdate, operationUpdate, parseAnnotationChanges } from './annotationOperations';
+
+describe('parseAnnotationChanges', () => {
+  test('should accept moves, resizes, colors, importance and text', () => {
+    const { changes } = parseAnnotationChanges({ x: 10.4, y: 20.6, width: 100, color: '#ff0000', importance: 'high', text: 'note' });
+    expect(changes).toEqual({ x: 10, y: 21, width: 100, color: '#ff0000', importance: 'high', text: 'note' });
+  });
+
+  test('should reject unknown fields and invalid values', () => {
+    expect(parseAnnotationChanges({ pdfId: 'other' }).error).toMatch('Cannot change pdfId');
+    expect(parseAnnotationChanges({ x: 'left' }).error).toMatch('x must be a number');
+    expect(parseAnnotationChanges({ width: -5 }).error).toMatch('width');
+    expect(parseAnnotationChanges({ importance: 'urgent' }).error).toMatch('importance');
+    expect(parseAnnotationChanges({}).error).toBe('No changes given');
+    expect(parseAnnotationChanges(null).error).toBeDefined();
+  });
+});
+
+describe('describeUpdate', () => {
+  const annotation = { x: 72, y: 100, width: 50, height: 12, color: 'yellow', meta: { anchor: { quote: 'hello' }, source: 'ai' } };
+
+  test('should record only the changed fields before and after', () => {
+    expect(describeUpdate(annotation, { color: 'red' })).toEqual({ before: { color: 'yellow' }, after: { color: 'red' } });
+  });
+
+  test('should detach a moved highlight from its quote', () => {
+    const { before, after } = describeUpdate(annotation, { x: 80 });
+    expect(before.meta).toEqual(annotation.meta);
+    expect(after).toEqual({ x: 80, meta: { source: 'ai' } });
+  });
+});
+
+describe('operationUpdate', () => {
+  const now = new Date('2024-01-01T00:00:00Z');
+
+  test('should invert creates, deletes and restores', () => {
+    expect(operationUpdate({ kind: 'create' }, 'undo', now)).toEqual({ deletedAt: now });
+    expect(operationUpdate({ kind: 'create' }, 'redo', now)).toEqual({ deletedAt: null });
+    expect(operationUpdate({ kind: 'delete' }, 'undo', now)).toEqual({ deletedAt: null });
+    expect(operationUpdate({ kind: 'restore' }, 'undo', now)).toEqual({ deletedAt: now });
+  });
+
+  test('should apply the before state on undo and the after state on redo', () => {
+    const operation = { kind: 'update' as const, before: { x: 1, color: 'yellow' }, after: { x: 5, color: 'red' } };
+    expect(operationUpdate(operation, 'undo')).toEqual({ x: 1, color: 'yellow' });
+    expect(operationUpdate(operation, 'redo')).toEqual({ x: 5, color: 'red' });
+  });
+});
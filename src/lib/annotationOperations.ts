@@ -0,0 +1,128 @@
+/**
+ * Annotation edits as reversible operations
+ * Validates client edits and describes how to undo or redo each logged operation.
+ * Pure functions; annotationService applies them to the database.
+ */
+
+export type AnnotationOperationKind = 'create' | 'update' | 'delete' | 'restore';
+
+// Fields a user may change on an existing annotation
+export const EDITABLE_FIELDS = ['x', 'y', 'width', 'height', 'radius', 'color', 'text', 'importance'] as const;
+type EditableField = typeof EDITABLE_FIELDS[number];
+
+export type AnnotationChanges = Partial<{
+  x: number;
+  y: number;
+  width: number | null;
+  height: number | null;
+  radius: number | null;
+  color: string | null;
+  text: string | null;
+  importance: 'low' | 'medium' | 'high' | null;
+  meta: Record<string, any>;
+}>;
+
+export interface LoggedOperation {
+  kind: AnnotationOperationKind;
+  before?: AnnotationChanges | null;
+  after?: AnnotationChanges | null;
+}
+
+const GEOMETRY_FIELDS: EditableField[] = ['x', 'y', 'width', 'height'];
+const MAX_TEXT_LENGTH = 10000;
+const MAX_COLOR_LENGTH = 64;
+
+/**
+ * Validate a PATCH body; unknown fields are rejected rather than ignored
+ */
+export function parseAnnotationChanges(body: unknown): { changes?: AnnotationChanges; error?: string } {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return { error: 'Request body must be an object' };
+  }
+
+  const input = body as Record<string, unknown>;
+  const unknownFields = Object.keys(input).filter(key => !(EDITABLE_FIELDS as readonly string[]).includes(key));
+  if (unknownFields.length > 0) {
+    return { error: `Cannot change ${unknownFields.join(', ')}` };
+  }
+
+  const changes: AnnotationChanges = {};
+  for (const field of ['x', 'y'] as const) {
+    if (input[field] === undefined) continue;
+    if (typeof input[field] !== 'number' || !Number.isFinite(input[field])) return { error: `${field} must be a number` };
+    changes[field] = Math.round(input[field] as number);
+  }
+  for (const field of ['width', 'height', 'radius'] as const) {
+    const value = input[field];
+    if (value === undefined) continue;
+    if (value !== null && (typeof value !== 'number' || !Number.isFinite(value) || value < 0)) {
+      return { error: `${field} must be a non-negative number or null` };
+    }
+    changes[field] = value === null ? null : Math.round(value as number);
+  }
+  if (input.color !== undefined) {
+    if (input.color !== null && (typeof input.color !== 'string' || input.color.length > MAX_COLOR_LENGTH)) {
+      return { error: 'color must be a short string or null' };
+    }
+    changes.color = input.color as string | null;
+  }
+  if (input.text !== undefined) {
+    if (input.text !== null && (typeof input.text !== 'string' || input.text.length > MAX_TEXT_LENGTH)) {
+      return { error: `text must be a string of at most ${MAX_TEXT_LENGTH} characters or null` };
+    }
+    changes.text = input.text as string | null;
+  }
+  if (input.importance !== undefined) {
+    if (input.importance !== null && !['low', 'medium', 'high'].includes(input.importance as string)) {
+      return { error: 'importance must be low, medium, high or null' };
+    }
+    changes.importance = input.importance as AnnotationChanges['importance'];
+  }
+
+  if (Object.keys(changes).length === 0) {
+    return { error: 'No changes given' };
+  }
+  return { changes };
+}
+
+/**
+ * The before/after pair to log for an update. Moving or resizing a text-anchored highlight
+ * detaches it from its quote, so re-extraction does not snap it back.
+ */
+export function describeUpdate(
+  current: Record<string, any>,
+  changes: AnnotationChanges
+): { before: AnnotationChanges; after: AnnotationChanges } {
+  const before: AnnotationChanges = {};
+  const after: AnnotationChanges = {};
+
+  for (const field of Object.keys(changes) as EditableField[]) {
+    (before as any)[field] = current[field] ?? null;
+    (after as any)[field] = changes[field];
+  }
+
+  const moved = GEOMETRY_FIELDS.some(field => changes[field] !== undefined && changes[field] !== current[field]);
+  if (moved && current.meta?.anchor) {
+    // An empty object rather than null, which Prisma does not accept for Json columns
+    const { anchor, ...rest } = current.meta;
+    before.meta = current.meta;
+    after.meta = rest;
+  }
+
+  return { before, after };
+}
+
+/**
+ * The annotation update that undoes or redoes a logged operation
+ */
+export function operationUpdate(operation: LoggedOperation, direction: 'undo' | 'redo', now = new Date()): Record<string, any> {
+  switch (operation.kind) {
+    case 'create':
+    case 'restore':
+      return { deletedAt: direction === 'undo' ? now : null };
+    case 'delete':
+      return { deletedAt: direction === 'undo' ? null : now };
+    case 'update':
+      return { ...((direction === 'undo' ? operation.before : operation.after) || {}) };
+  }
+}
@@ -6,6 +6,15 @@
 import { PrismaClient } from '@prisma/client';
 import prisma from '@/lib/prisma';
 import { Annotation as AnnotationType } from '@/types/types'; // Client-side type
+import { pdfPageService } from '@/lib/pdfPageService';
+import { PageGeometry, resolveQuote } from '@/lib/textAnchor';
+import { MAX_STUDENT_MARKS, StudentMark, describeStudentAnnotations } from '@/lib/studentAnnotations';
+import {
+  AnnotationChanges,
+  AnnotationOperationKind,
+  describeUpdate,
+  operationUpdate,
+} from '@/lib/annotationOperations';
 
 // Add a type cast to work around TypeScript errors with Prisma client
 // This is needed because the model name in Prisma schema (Annotation) doesn't match
@@ -49,7 +58,45 @@ interface CreateAnnotationParams {
   importance?: 'low' | 'medium' | 'high';
   chatMessageId?: string;
   userId?: string; // Either AI-generated (chatMessageId) or user-created (userId)
+  isAutomatic?: boolean; // false for annotations a user drew; defaults to true
   sequence?: number;
+  meta?: Record<string, any>; // e.g. { anchor: { quote, start, end, line } } for text-anchored highlights
+}
+
+interface LogOperationParams {
+  pdfId: string;
+  userId: string;
+  annotationId: string;
+  kind: AnnotationOperationKind;
+  before?: AnnotationChanges;
+  after?: AnnotationChanges;
+}
+
+export interface UndoRedoResult {
+  kind: AnnotationOperationKind;
+  annotation: Annotation;
+}
+
+/**
+ * Queries that log a user's operation; a new operation discards whatever they had undone,
+ * since it can no longer be redone on top of the new state. Run them in the same transaction as the change.
+ */
+function logOperation(params: LogOperationParams, db: any = typedPrisma) {
+  return [
+    db.annotationOperation.deleteMany({
+      where: { pdfId: params.pdfId, userId: params.userId, undoneAt: { not: null } },
+    }),
+    db.annotationOperation.create({
+      data: {
+        pdfId: params.pdfId,
+        userId: params.userId,
+        annotationId: params.annotationId,
+        kind: params.kind,
+        before: params.before,
+        after: params.after,
+      },
+    }),
+  ];
 }
 
 interface GetAnnotationsParams {
@@ -57,6 +104,7 @@ interface GetAnnotationsParams {
   page?: number;
   chatMessageId?: string;
   userId?: string;
+  isAutomatic?: boolean;
   includeDeleted?: boolean;
 }
 
@@ -81,19 +129,31 @@ export const annotationService = {
         importance: params.importance,
         chatMessageId: params.chatMessageId,
         userId: params.userId,
+        isAutomatic: params.isAutomatic,
         sequence: params.sequence || 0,
+        meta: params.meta,
       }
     }) as unknown as Annotation;
   },
 
   /**
-   * Create multiple annotations in a single transaction
+   * Create multiple annotations in a single transaction.
+   * Annotations a user drew themselves (userId without chatMessageId) are logged so they can be undone,
+   * unless logOperations is false (e.g. annotations imported with an upload).
+   * Given tx, the annotations are created as part of that interactive transaction instead.
+   * Returns the created annotations in input order.
    */
-  async createMany(annotations: CreateAnnotationParams[]): Promise<number> {
-    const result = await prisma.$transaction(
-      annotations.map((anno) => 
-        typedPrisma.annotation.create({
+  async createMany(annotations: CreateAnnotationParams[], { logOperations = true, tx }: { logOperations?: boolean; tx?: any } = {}): Promise<Annotation[]> {
+    const db = tx || typedPrisma;
+    const queries: any[] = [];
+    const positions: number[] = []; // where each annotation's create sits among the queries
+    annotations.forEach((anno) => {
+      const id = crypto.randomUUID();
+      positions.push(queries.length);
+      queries.push(
+        db.annotation.create({
           data: {
+            id,
             pdfId: anno.pdfId,
             page: anno.page,
             type: anno.type,
@@ -107,13 +167,28 @@ export const annotationService = {
             importance: anno.importance,
             chatMessageId: anno.chatMessageId,
             userId: anno.userId,
+            isAutomatic: anno.isAutomatic,
             sequence: anno.sequence || 0,
+            meta: anno.meta,
           }
         })
-      )
-    );
-    
-    return result.length;
+      );
+      if (logOperations && anno.userId && !anno.chatMessageId) {
+        queries.push(...logOperation({ pdfId: anno.pdfId, userId: anno.userId, annotationId: id, kind: 'create' }, db));
+      }
+    });
+
+    const results = (tx ? await Promise.all(queries) : await prisma.$transaction(queries)) as unknown[];
+    return positions.map(position => results[position]) as Annotation[];
+  },
+
+  /**
+   * Find an annotation on a PDF, including soft-deleted ones
+   */
+  async getInPdf(pdfId: string, id: string): Promise<Annotation | null> {
+    return await typedPrisma.annotation.findFirst({
+      where: { id, pdfId },
+    }) as unknown as Annotation | null;
   },
 
   /**
@@ -126,6 +201,7 @@ export const annotationService = {
         page: params.page,
         chatMessageId: params.chatMessageId,
         userId: params.userId,
+        isAutomatic: params.isAutomatic,
         deletedAt: params.includeDeleted ? undefined : null,
       },
       orderBy: [
@@ -191,35 +267,138 @@ export const annotationService = {
   },
 
   /**
-   * Undo the last N annotations by a user on a PDF
+   * Edit an annotation (move, resize, recolor, importance or text) as an undoable operation
    */
-  async undoLastN(userId: string, pdfId: string, n: number = 1): Promise<number> {
-    const annotations = await typedPrisma.annotation.findMany({
-      where: {
-        userId,
-        pdfId,
-        deletedAt: null,
-      },
-      orderBy: {
-        createdAt: 'desc',
-      },
-      take: n,
-    }) as unknown as Annotation[];
+  async edit(annotation: Annotation, changes: AnnotationChanges, userId: string): Promise<Annotation> {
+    const { before, after } = describeUpdate(annotation, changes);
+    const [updated] = await prisma.$transaction([
+      typedPrisma.annotation.update({ where: { id: annotation.id }, data: after }),
+      ...logOperation({ pdfId: annotation.pdfId, userId, annotationId: annotation.id, kind: 'update', before, after }),
+    ]);
+    return updated as Annotation;
+  },
 
-    if (annotations.length === 0) return 0;
+  /**
+   * Soft delete an annotation as an undoable operation; deleting twice is a no-op
+   */
+  async remove(annotation: Annotation, userId: string): Promise<Annotation> {
+    if (annotation.deletedAt) return annotation;
+    const [updated] = await prisma.$transaction([
+      typedPrisma.annotation.update({ where: { id: annotation.id }, data: { deletedAt: new Date() } }),
+      ...logOperation({ pdfId: annotation.pdfId, userId, annotationId: annotation.id, kind: 'delete' }),
+    ]);
+    return updated as Annotation;
+  },
 
-    await typedPrisma.annotation.updateMany({
-      where: {
-        id: {
-          in: annotations.map((a: Annotation) => a.id),
-        },
-      },
-      data: {
-        deletedAt: new Date(),
-      },
+  /**
+   * Bring back a soft-deleted annotation as an undoable operation
+   */
+  async restore(annotation: Annotation, userId: string): Promise<Annotation> {
+    if (!annotation.deletedAt) return annotation;
+    const [updated] = await prisma.$transaction([
+      typedPrisma.annotation.update({ where: { id: annotation.id }, data: { deletedAt: null } }),
+      ...logOperation({ pdfId: annotation.pdfId, userId, annotationId: annotation.id, kind: 'restore' }),
+    ]);
+    return updated as Annotation;
+  },
+
+  /**
+   * Reverse the user's most recent operation on a PDF, or return null if there is nothing to undo
+   */
+  async undo(pdfId: string, userId: string): Promise<UndoRedoResult | null> {
+    const operation = await typedPrisma.annotationOperation.findFirst({
+      where: { pdfId, userId, undoneAt: null },
+      orderBy: { createdAt: 'desc' },
     });
+    if (!operation) return null;
+
+    const [annotation] = await prisma.$transaction([
+      typedPrisma.annotation.update({ where: { id: operation.annotationId }, data: operationUpdate(operation, 'undo') }),
+      typedPrisma.annotationOperation.update({ where: { id: operation.id }, data: { undoneAt: new Date() } }),
+    ]);
+    return { kind: operation.kind, annotation: annotation as Annotation };
+  },
+
+  /**
+   * Re-apply the earliest undone operation, or return null if there is nothing to redo
+   */
+  async redo(pdfId: string, userId: string): Promise<UndoRedoResult | null> {
+    const operation = await typedPrisma.annotationOperation.findFirst({
+      where: { pdfId, userId, undoneAt: { not: null } },
+      orderBy: { createdAt: 'asc' },
+    });
+    if (!operation) return null;
+
+    const [annotation] = await prisma.$transaction([
+      typedPrisma.annotation.update({ where: { id: operation.annotationId }, data: operationUpdate(operation, 'redo') }),
+      typedPrisma.annotationOperation.update({ where: { id: operation.id }, data: { undoneAt: null } }),
+    ]);
+    return { kind: operation.kind, annotation: annotation as Annotation };
+  },
+
+  /**
+   * Whether the user has anything to undo or redo on a PDF
+   */
+  async historyState(pdfId: string, userId: string): Promise<{ canUndo: boolean; canRedo: boolean }> {
+    const [undoable, redoable] = await Promise.all([
+      typedPrisma.annotationOperation.count({ where: { pdfId, userId, undoneAt: null } }),
+      typedPrisma.annotationOperation.count({ where: { pdfId, userId, undoneAt: { not: null } } }),
+    ]);
+    return { canUndo: undoable > 0, canRedo: redoable > 0 };
+  },
+
+  /**
+   * Re-resolve text-anchored annotations against the current page geometry.
+   * Run after a PDF is (re-)extracted so highlights follow their quotes when layout changes.
+   * Returns the number of annotations moved.
+   */
+  async reanchor(pdfId: string): Promise<number> {
+    const anchored = (await this.getByPdfId(pdfId)).filter(a => a.meta?.anchor?.quote);
+    if (anchored.length === 0) return 0;
+
+    const geometry = await pdfPageService.getGeometry(pdfId, anchored.map(a => a.page));
+    let moved = 0;
+
+    for (const annotation of anchored) {
+      const pageGeometry = geometry[annotation.page];
+      if (!pageGeometry) continue;
+
+      const anchor = annotation.meta.anchor;
+      const resolved = resolveQuote(pageGeometry, anchor.quote, anchor.start);
+      const rect = resolved?.rects[anchor.line ?? 0];
+      if (!resolved || !rect) continue;
+
+      if (rect.x === annotation.x && rect.y === annotation.y && rect.width === annotation.width && rect.height === annotation.height) {
+        continue;
+      }
+
+      await typedPrisma.annotation.update({
+        where: { id: annotation.id },
+        data: {
+          ...rect,
+          meta: { ...annotation.meta, anchor: { ...anchor, start: resolved.start, end: resolved.end } },
+        },
+      });
+      moved++;
+    }
+
+    return moved;
+  },
+
+  /**
+   * What the student marked on a PDF themselves, described for the tutor with the text under each mark.
+   * Reuses page geometry the caller already loaded and fetches the rest.
+   */
+  async studentMarks(pdfId: string, currentPage: number, geometry: Record<number, PageGeometry> = {}): Promise<StudentMark[]> {
+    const own = (await this.get({ pdfId, isAutomatic: false })).map(annotation => this.toClientAnnotation(annotation));
+    if (own.length === 0) return [];
 
-    return annotations.length;
+    const missingPages = Array.from(new Set(own.map(annotation => annotation.page!)))
+      .filter(page => !geometry[page])
+      .sort((a, b) => Math.abs(a - currentPage) - Math.abs(b - currentPage))
+      .slice(0, MAX_STUDENT_MARKS);
+    const allGeometry = { ...geometry, ...(await pdfPageService.getGeometry(pdfId, missingPages)) };
+    return describeStudentAnnotations(own, allGeometry, currentPage);
   },
 
   /**
@@ -227,6 +406,7 @@ export const annotationService = {
    */
   toClientAnnotation(dbAnnotation: Annotation): AnnotationType {
     return {
+      id: dbAnnotation.id,
       type: dbAnnotation.type as any,
       page: dbAnnotation.page,
       x: dbAnnotation.x,
@@ -237,7 +417,8 @@ export const annotationService = {
       color: dbAnnotation.color || undefined,
       text: dbAnnotation.text || undefined,
       importance: dbAnnotation.importance as any || undefined,
-      isAutomatic: !!dbAnnotation.chatMessageId,
+      isAutomatic: !!dbAnnotation.chatMessageId && dbAnnotation.isAutomatic !== false,
+      ...(dbAnnotation.meta?.anchor ? { anchor: dbAnnotation.meta.anchor } : {}),
     };
   },
 
@@ -259,6 +440,7 @@ export const annotationService = {
       importance: clientAnnotation.importance,
       chatMessageId,
       userId,
+      meta: clientAnnotation.anchor ? { anchor: clientAnnotation.anchor } : undefined,
     };
   }
 };
\ No newline at end of file
@@ -0,0 +1,51 @@
+import jwt from 'jsonwebtoken';
+import { authenticateToken, getRequestUser, isPublicApiRoute, TEST_USER, testAuthHeaders } from './auth';
+import { getJwtSecret, mintStreamTicket } from './edgeAuth';
+
+describe('auth', () => {
+  test('should only let allowlisted routes through without a token', () => {
+    expect(isPublicApiRoute('/api/auth/login', 'POST')).toBe(true);
+    expect(isPublicApiRoute('/api/auth/verify')).toBe(true);
+    expect(isPublicApiRoute('/api/health')).toBe(true);
+    expect(isPublicApiRoute('/api/ping')).toBe(true);
+    expect(isPublicApiRoute('/api/chat/stream/abc', 'GET')).toBe(true);
+
+    expect(isPublicApiRoute('/api/chat/stream/abc', 'POST')).toBe(false);
+    expect(isPublicApiRoute('/api/chat/stream/abc/ticket', 'POST')).toBe(false);
+    expect(isPublicApiRoute('/api/authority')).toBe(false);
+    expect(isPublicApiRoute('/api/pdf/list')).toBe(false);
+  });
+
+  test('should resolve the user from a login token', async () => {
+    const token = jwt.sign({ userId: 'user-1', email: 'a@example.com', sid: 'session-1' }, getJwtSecret(), { expiresIn: '1h' });
+    expect(await authenticateToken(`Bearer ${token}`)).toEqual({ userId: 'user-1', email: 'a@example.com', sessionId: 'session-1' });
+  });
+
+  test('should reject missing, forged, sessionless and ticket tokens', async () => {
+    const forged = jwt.sign({ userId: 'user-1', sid: 'session-1' }, 'other-secret');
+    const sessionless = jwt.sign({ userId: 'user-1' }, getJwtSecret());
+    const ticket = await mintStreamTicket({ userId: 'user-1', streamId: 'stream-1' });
+
+    expect(await authenticateToken(null)).toBeNull();
+    expect(await authenticateToken('Bearer mock-token')).toBeNull();
+    expect(await authenticateToken(`Bearer ${forged}`)).toBeNull();
+    expect(await authenticateToken(`Bearer ${sessionless}`)).toBeNull();
+    expect(await authenticateToken(`Bearer ${ticket}`)).toBeNull();
+  });
+
+  test('should read the test identity from request headers', () => {
+    const request = new Request('http://localhost/api/pdf/list', { headers: testAuthHeaders() });
+    expect(getRequestUser(request)).toEqual(TEST_USER);
+    expect(getRequestUser(new Request('http://localhost/api/pdf/list'))).toBeNull();
+  });
+
+  test('should refuse to work without a configured secret', () => {
+    const secret = process.env.JWT_SECRET;
+    delete process.env.JWT_SECRET;
+    try {
+      expect(() => getJwtSecret()).toThrow('JWT_SECRET is not set');
+    } finally {
+      process.env.JWT_SECRET = secret;
+    }
+  });
+});
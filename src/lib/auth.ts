@@ -1,21 +1,70 @@
-import { NextRequest } from 'next/server';
-import jwt from 'jsonwebtoken';
-
-export async function verifyAuth(request: Request | NextRequest) {
-    try {
-        const token = request.headers.get('Authorization')?.replace('Bearer ', '');
-        
-        if (!token) {
-            return null;
-        }
-
-        const decoded = jwt.verify(token, process.env.JWT_SECRET || 'default-secret') as {
-            userId: string;
-            email: string;
-        };
-
-        return decoded.userId;
-    } catch (error) {
-        return null;
-    }
+/**
+ * Request authentication
+ * src/middleware.ts verifies the bearer token on every /api request and passes the user to routes
+ * in trusted headers; routes read it back with getRequestUser instead of checking tokens themselves.
+ * Edge-compatible: token verification goes through lib/edgeAuth.ts.
+ */
+
+import { getJwtSecret, verifyJwt } from './edgeAuth';
+
+export interface AuthUser {
+  userId: string;
+  email: string;
+  sessionId: string;
+}
+
+// Set by the middleware only; any client-supplied values are stripped first
+export const USER_ID_HEADER = 'x-auth-user-id';
+export const USER_EMAIL_HEADER = 'x-auth-user-email';
+export const USER_SESSION_HEADER = 'x-auth-session-id';
+
+// Reachable without a login token
+const PUBLIC_API_ROUTES: Array<{ pattern: RegExp; methods?: string[] }> = [
+  { pattern: /^\/api\/auth(\/.*)?$/ },
+  { pattern: /^\/api\/health\/?$/ },
+  { pattern: /^\/api\/ping\/?$/ },
+  // EventSource cannot send headers; stream connections carry their own single-use ticket
+  { pattern: /^\/api\/chat\/stream\/[^/]+\/?$/, methods: ['GET'] },
+];
+
+/**
+ * Identity for Jest: route tests build requests with testAuthHeaders() as if the middleware had run
+ */
+export const TEST_USER: AuthUser = { userId: 'test-user', email: 'test-user@example.com', sessionId: 'test-session' };
+
+export function isPublicApiRoute(pathname: string, method = 'GET'): boolean {
+  return PUBLIC_API_ROUTES.some(route =>
+    route.pattern.test(pathname) && (!route.methods || route.methods.includes(method.toUpperCase()))
+  );
+}
+
+/**
+ * Resolve the user behind an Authorization header, or null if it is missing or not a valid login token
+ */
+export async function authenticateToken(authorization: string | null, secret = getJwtSecret()): Promise<AuthUser | null> {
+  const token = authorization?.replace(/^Bearer\s+/i, '').trim();
+  if (!token) return null;
+
+  const claims = await verifyJwt(token, secret);
+  // Stream tickets are signed with the same secret but carry no userId; tokens without a session cannot be revoked
+  if (!claims || typeof claims.userId !== 'string' || !claims.userId) return null;
+  if (typeof claims.sid !== 'string' || !claims.sid) return null;
+  return { userId: claims.userId, email: typeof claims.email === 'string' ? claims.email : '', sessionId: claims.sid };
+}
+
+/**
+ * The user the middleware attached to this request, or null on public routes without a token
+ */
+export function getRequestUser(request: Request): AuthUser | null {
+  const userId = request.headers.get(USER_ID_HEADER);
+  if (!userId) return null;
+  return {
+    userId,
+    email: request.headers.get(USER_EMAIL_HEADER) || '',
+    sessionId: request.headers.get(USER_SESSION_HEADER) || '',
+  };
+}
+
+export function testAuthHeaders(user: AuthUser = TEST_USER): Record<string, string> {
+  return { [USER_ID_HEADER]: user.userId, [USER_EMAIL_HEADER]: user.email, [USER_SESSION_HEADER]: user.sessionId };
 }
@@ -0,0 +1,95 @@
+/**
+ * Client-side session handling
+ * The access token lives in localStorage (as 'token') and expires quickly; the refresh token is an
+ * httpOnly cookie the browser sends to /api/auth/refresh. Components read the token when they need it
+ * and listen for AUTH_TOKEN_EVENT if they keep a copy.
+ */
+
+const TOKEN_KEY = 'token';
+const USER_KEY = 'user';
+const EXPIRES_AT_KEY = 'token_expires_at';
+
+// Refresh this long before the access token expires
+export const REFRESH_MARGIN_MS = 60 * 1000;
+
+// Dispatched on window with the new token (or null after logout) as CustomEvent detail
+export const AUTH_TOKEN_EVENT = 'auth-token';
+
+let pendingRefresh: Promise<string | null> | null = null;
+
+export function storeSession(token: string, expiresIn: number, user?: unknown) {
+  localStorage.setItem(TOKEN_KEY, token);
+  localStorage.setItem(EXPIRES_AT_KEY, String(Date.now() + expiresIn * 1000));
+  if (user !== undefined) localStorage.setItem(USER_KEY, JSON.stringify(user));
+  window.dispatchEvent(new CustomEvent(AUTH_TOKEN_EVENT, { detail: token }));
+}
+
+export function clearSession() {
+  localStorage.removeItem(TOKEN_KEY);
+  localStorage.removeItem(EXPIRES_AT_KEY);
+  localStorage.removeItem(USER_KEY);
+  window.dispatchEvent(new CustomEvent(AUTH_TOKEN_EVENT, { detail: null }));
+}
+
+export function accessTokenExpiresAt(): number {
+  return Number(localStorage.getItem(EXPIRES_AT_KEY)) || 0;
+}
+
+/**
+ * Get a new access token using the refresh cookie; concurrent callers share one request.
+ * Clears the stored session when the server says it is over.
+ */
+export function refreshAccessToken(): Promise<string | null> {
+  if (!pendingRefresh) {
+    pendingRefresh = (async () => {
+      try {
+        const res = await fetch('/api/auth/refresh', { method: 'POST', credentials: 'same-origin' });
+        if (res.status === 401) {
+          clearSession();
+          return null;
+        }
+        if (!res.ok) return null;
+        const data = await res.json();
+        storeSession(data.token, data.expiresIn);
+        return data.token as string;
+      } catch (error) {
+        console.warn('Session refresh failed:', error);
+        return null;
+      } finally {
+        pendingRefresh = null;
+      }
+    })();
+  }
+  return pendingRefresh;
+}
+
+/**
+ * The stored access token, refreshed first if it is about to expire
+ */
+export async function getValidAccessToken(): Promise<string | null> {
+  const token = localStorage.getItem(TOKEN_KEY);
+  if (token && accessTokenExpiresAt() - Date.now() > REFRESH_MARGIN_MS) return token;
+  return refreshAccessToken();
+}
+
+/**
+ * Sign out this device, or every device the user is signed in on
+ */
+export async function logout(allDevices = false) {
+  const token = localStorage.getItem(TOKEN_KEY);
+  try {
+    await fetch('/api/auth/logout', {
+      method: 'POST',
+      credentials: 'same-origin',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token ? { 'Authorization': `Bearer ${token}` } : {}),
+      },
+      body: JSON.stringify({ allDevices }),
+    });
+  } catch (error) {
+    console.warn('Logout request failed:', error);
+  } finally {
+    clearSession();
+  }
+}
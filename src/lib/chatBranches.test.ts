@@ -0,0 +1,48 @@
+/**
+ * Unit tests for the message tree behind regenerate and edit
+ */
+
+import { activeBranch, buildThread, pathTo, siblingIds } from './chatBranches';
+
+const at = (seconds: number) => new Date(seconds * 1000);
+
+// q1 → a1, regenerated as a1b; q1 edited as q1b → a2
+const rows = [
+  { id: 'q1', parentId: null, createdAt: at(1) },
+  { id: 'a1', parentId: 'q1', createdAt: at(2) },
+  { id: 'a1b', parentId: 'q1', createdAt: at(3) },
+  { id: 'q1b', parentId: null, createdAt: at(4), meta: { branchOf: 'q1' } },
+  { id: 'a2', parentId: 'q1b', createdAt: at(5) },
+];
+
+describe('chatBranches', () => {
+  test('should follow the newest branch by default', () => {
+    expect(activeBranch(buildThread(rows))).toEqual(['q1b', 'a2']);
+  });
+
+  test('should follow the branch through a chosen message to its newest reply', () => {
+    const thread = buildThread(rows);
+
+    expect(activeBranch(thread, 'q1')).toEqual(['q1', 'a1b']);
+    expect(activeBranch(thread, 'a1')).toEqual(['q1', 'a1']);
+  });
+
+  test('should list alternatives, edited first questions included', () => {
+    const thread = buildThread(rows);
+
+    expect(siblingIds(thread, 'a1')).toEqual(['a1', 'a1b']);
+    expect(siblingIds(thread, 'q1b')).toEqual(['q1', 'q1b']);
+  });
+
+  test('should chain messages stored before branching in order', () => {
+    const thread = buildThread([
+      { id: 'm1', createdAt: at(1) },
+      { id: 'm2', createdAt: at(2) },
+      { id: 'm3', createdAt: at(3) },
+      { id: 'm4', parentId: 'm2', createdAt: at(4) },
+    ]);
+
+    expect(pathTo(thread, 'm3')).toEqual(['m1', 'm2', 'm3']);
+    expect(siblingIds(thread, 'm4')).toEqual(['m3', 'm4']);
+  });
+});
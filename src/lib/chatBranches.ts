@@ -0,0 +1,92 @@
+/**
+ * Chat branches
+ * Messages form a tree through parentId: regenerating an answer or editing a question adds a
+ * sibling instead of overwriting. The branch shown and sent to the tutor is one path from a root
+ * to a leaf. Messages stored before branching had no parentId and follow the one before them.
+ */
+
+export interface ThreadRow {
+  id: string;
+  parentId?: string | null;
+  sessionId?: string | null;
+  createdAt: Date | string;
+  meta?: any;
+}
+
+export interface Thread {
+  rows: ThreadRow[]; // oldest first
+  parentOf: Map<string, string | null>;
+  childrenOf: Map<string | null, ThreadRow[]>; // null holds the roots
+}
+
+const time = (row: ThreadRow) => new Date(row.createdAt).getTime();
+
+/**
+ * Build the tree of one conversation's messages
+ */
+export function buildThread(rows: ThreadRow[]): Thread {
+  const sorted = [...rows].sort((a, b) => time(a) - time(b) || a.id.localeCompare(b.id));
+  const parentOf = new Map<string, string | null>();
+  const previousInSession = new Map<string, string>();
+
+  for (const row of sorted) {
+    let parentId = row.parentId || null;
+    // A root made by editing a first question says so; any other message without a parent predates branching
+    if (!parentId && !row.meta?.branchOf) {
+      parentId = previousInSession.get(row.sessionId || '') || null;
+    }
+    parentOf.set(row.id, parentId);
+    previousInSession.set(row.sessionId || '', row.id);
+  }
+
+  const childrenOf = new Map<string | null, ThreadRow[]>();
+  for (const row of sorted) {
+    const parentId = parentOf.get(row.id) ?? null;
+    if (!childrenOf.has(parentId)) childrenOf.set(parentId, []);
+    childrenOf.get(parentId)!.push(row);
+  }
+  return { rows: sorted, parentOf, childrenOf };
+}
+
+/**
+ * Ids from the root down to id
+ */
+export function pathTo(thread: Thread, id: string): string[] {
+  const path: string[] = [];
+  for (let current: string | null = id; current && thread.parentOf.has(current); current = thread.parentOf.get(current) ?? null) {
+    if (path.includes(current)) break; // a broken parent chain must not loop
+    path.unshift(current);
+  }
+  return path;
+}
+
+/**
+ * The newest message at or below id; it has no replies yet, so it ends the branch id was last continued on
+ */
+export function latestLeafUnder(thread: Thread, id: string): string {
+  let latest = thread.rows.find(row => row.id === id);
+  const pending = [...(thread.childrenOf.get(id) || [])];
+  while (pending.length) {
+    const row = pending.pop()!;
+    if (!latest || time(row) >= time(latest)) latest = row;
+    pending.push(...(thread.childrenOf.get(row.id) || []));
+  }
+  return latest?.id || id;
+}
+
+/**
+ * The active branch: through id when given, otherwise ending at the newest message
+ */
+export function activeBranch(thread: Thread, id?: string | null): string[] {
+  if (thread.rows.length === 0) return [];
+  const leaf = id && thread.parentOf.has(id) ? latestLeafUnder(thread, id) : thread.rows[thread.rows.length - 1].id;
+  return pathTo(thread, leaf);
+}
+
+/**
+ * Ids of id and its alternatives, oldest first
+ */
+export function siblingIds(thread: Thread, id: string): string[] {
+  const parentId = thread.parentOf.get(id) ?? null;
+  return (thread.childrenOf.get(parentId) || []).map(row => row.id);
+}
@@ -5,7 +5,10 @@
 
 import { PrismaClient } from '@prisma/client';
 import prisma from '@/lib/prisma';
-import { ChatMessage as ChatMessageType } from '@/types/types'; // Client-side type
+import { Annotation as AnnotationType, ChatMessage as ChatMessageType } from '@/types/types'; // Client-side type
+import { annotationService } from '@/lib/annotationService';
+import { unsavedMessages } from '@/lib/chatUtils';
+import { Thread, activeBranch, buildThread, pathTo, siblingIds } from '@/lib/chatBranches';
 
 // Add a type cast to work around TypeScript errors with Prisma client
 // This is needed because the model name in Prisma schema (ChatMessage) doesn't match
@@ -22,11 +25,13 @@ type ChatMessage = {
   content: string;
   pageContext?: number | null;
   sessionId?: string | null;
+  parentId?: string | null;
   tokenCount?: number | null;
   error: boolean;
   meta?: any | null;
   createdAt: Date;
   annotations?: any[];
+  siblingIds?: string[]; // this message and its alternatives, on branch pages
 };
 
 // Type definitions for the service
@@ -40,6 +45,7 @@ interface CreateChatMessageParams {
   content: string;
   pageContext?: number;
   sessionId?: string | null;
+  parentId?: string | null; // defaults to the conversation's newest message
   tokenCount?: number;
   error?: boolean;
   meta?: Record<string, any>;
@@ -55,6 +61,50 @@ interface GetChatMessagesParams {
   sessionId?: string | null;
 }
 
+// A message to store, with the annotations the tutor drew while answering
+interface NewMessage {
+  id?: string; // generated when not given
+  role: MessageRole;
+  content: string;
+  annotations?: AnnotationType[];
+  pageContext?: number;
+  tokenCount?: number;
+  error?: boolean;
+  meta?: Record<string, any>;
+}
+
+interface AppendMessagesParams {
+  pdfId: string;
+  userId: string;
+  sessionId?: string | null;
+  parentId?: string | null; // the message the first one follows; defaults to the conversation's newest, null starts a new root
+  messages: NewMessage[];
+  chatId?: string; // the legacy Chat row the messages were migrated from
+  startAt?: Date; // createdAt of the first message; later ones follow a millisecond apart
+}
+
+interface GetPageParams {
+  pdfId: string;
+  userId: string;
+  sessionId?: string | null; // undefined reads every session, in order and without branches
+  branch?: string | null; // a message on the branch to read; the newest branch when omitted
+  cursor?: string | null; // id of the oldest message already loaded
+  limit?: number;
+}
+
+export interface ChatMessagePage {
+  messages: ChatMessage[]; // oldest first
+  nextCursor: string | null; // pass back to load earlier messages; null at the start of the conversation
+}
+
+export const MAX_PAGE_SIZE = 200;
+
+interface ConversationScope {
+  pdfId?: string | null;
+  userId?: string | null;
+  sessionId?: string | null;
+}
+
 interface UpdateChatMessageParams {
   id: string;
   content?: string;
@@ -83,6 +133,9 @@ export const chatMessageService = {
     if (!chatId && !pdfId) {
       throw new Error('Either chatId or pdfId is required');
     }
+    const parentId = params.parentId !== undefined || !pdfId
+      ? params.parentId
+      : (await this.newest({ pdfId, userId, sessionId }))?.id;
     
     return await typedPrisma.chatMessage.create({
       data: {
@@ -93,6 +146,7 @@ export const chatMessageService = {
         content,
         pageContext,
         sessionId,
+        parentId,
         tokenCount,
         error: error || false,
         meta: meta || {},
@@ -128,7 +182,8 @@ export const chatMessageService = {
       where: {
         pdfId,
         userId,
-        sessionId: sessionId || null,
+        // undefined reads every session; null only messages outside any session
+        ...(sessionId === undefined ? {} : { sessionId: sessionId || null }),
       },
       orderBy: {
         createdAt: 'asc',
@@ -141,6 +196,173 @@ export const chatMessageService = {
     }) as ChatMessage[];
   },
 
+  /**
+   * One page of a conversation, newest page first, with each message's live annotations.
+   * Within a session the page follows one branch and each message lists its alternatives;
+   * across sessions messages are ordered by createdAt then id.
+   */
+  async getPage({ pdfId, userId, sessionId, branch, cursor, limit = 50 }: GetPageParams): Promise<ChatMessagePage> {
+    const take = Math.min(Math.max(limit, 1), MAX_PAGE_SIZE);
+    const include = { annotations: { where: { deletedAt: null }, orderBy: { sequence: 'asc' } } };
+
+    if (sessionId === undefined) {
+      const rows = await typedPrisma.chatMessage.findMany({
+        where: { pdfId, userId },
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        take: take + 1,
+        ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+        include,
+      }) as ChatMessage[];
+
+      const messages = rows.slice(0, take).reverse();
+      return { messages, nextCursor: rows.length > take && messages.length > 0 ? messages[0].id : null };
+    }
+
+    const thread = await this.loadThread({ pdfId, userId, sessionId });
+    const path = activeBranch(thread, branch);
+    const end = cursor ? Math.max(path.indexOf(cursor), 0) : path.length;
+    const ids = path.slice(Math.max(end - take, 0), end);
+    const rows = ids.length
+      ? await typedPrisma.chatMessage.findMany({ where: { id: { in: ids } }, include }) as ChatMessage[]
+      : [];
+    const byId = new Map(rows.map(row => [row.id, row]));
+    const messages = ids
+      .filter(id => byId.has(id))
+      .map(id => ({ ...byId.get(id)!, siblingIds: siblingIds(thread, id) }));
+    return { messages, nextCursor: end - take > 0 && messages.length > 0 ? messages[0].id : null };
+  },
+
+  /**
+   * The tree of one conversation's messages (ids and links only)
+   */
+  async loadThread({ pdfId, userId, sessionId }: ConversationScope): Promise<Thread> {
+    return buildThread(await typedPrisma.chatMessage.findMany({
+      where: { pdfId, userId, sessionId: sessionId || null },
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+      select: { id: true, parentId: true, sessionId: true, createdAt: true, meta: true },
+    }));
+  },
+
+  /**
+   * The messages from the start of the conversation down to id, for the tutor's context
+   */
+  async getBranch(message: Pick<ChatMessage, 'id' | 'pdfId' | 'userId' | 'sessionId'>): Promise<ChatMessage[]> {
+    const thread = await this.loadThread(message);
+    const ids = pathTo(thread, message.id);
+    const rows = await typedPrisma.chatMessage.findMany({ where: { id: { in: ids } } }) as ChatMessage[];
+    const byId = new Map(rows.map(row => [row.id, row]));
+    return ids.filter(id => byId.has(id)).map(id => byId.get(id)!);
+  },
+
+  /**
+   * The message this one follows, including the implicit parent of one stored before branching
+   */
+  async findParent(message: Pick<ChatMessage, 'id' | 'pdfId' | 'userId' | 'sessionId'>): Promise<ChatMessage | null> {
+    const parentId = (await this.loadThread(message)).parentOf.get(message.id);
+    return parentId ? await typedPrisma.chatMessage.findUnique({ where: { id: parentId } }) as ChatMessage : null;
+  },
+
+  /**
+   * What the tutor sees for a question asked after parent: parent's branch, then the latest question in messages
+   */
+  async branchContext(parent: ChatMessage, messages: Array<{ role: string; content: string }>): Promise<Array<{ role: string; content: string }>> {
+    const question = [...(messages || [])].reverse().find(m => m.role === 'user');
+    const branch = (await this.getBranch(parent)).map(({ role, content }) => ({ role, content }));
+    return question ? [...branch, { role: 'user', content: question.content }] : branch;
+  },
+
+  /**
+   * The stored branch a new question follows: parentId's, or the newest message's
+   */
+  async historyBefore({ pdfId, userId, sessionId, parentId }: ConversationScope & { parentId?: string | null }): Promise<ChatMessage[]> {
+    const id = parentId || (await this.newest({ pdfId, userId, sessionId }))?.id;
+    return id ? await this.getBranch({ id, pdfId, userId, sessionId }) : [];
+  },
+
+  /**
+   * The message a new one follows by default: the newest in the conversation
+   */
+  async newest({ pdfId, userId, sessionId }: ConversationScope): Promise<Pick<ChatMessage, 'id'> | null> {
+    return await typedPrisma.chatMessage.findFirst({
+      where: { pdfId, userId, sessionId: sessionId || null },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      select: { id: true },
+    });
+  },
+
+  /**
+   * A message if it belongs to userId; otherwise null (routes answer 404)
+   */
+  async findOwned(id: string, userId: string): Promise<ChatMessage | null> {
+    return await typedPrisma.chatMessage.findFirst({ where: { id, userId } });
+  },
+
+  /**
+   * Store messages in order, linking each answer's annotations to it; given tx, as part of that transaction
+   */
+  async appendMessages({ pdfId, userId, sessionId, parentId, messages, chatId, startAt = new Date() }: AppendMessagesParams, tx?: any): Promise<ChatMessage[]> {
+    const created: ChatMessage[] = [];
+    if (parentId === undefined && messages.length > 0) {
+      parentId = (await this.newest({ pdfId, userId, sessionId }))?.id || null;
+    }
+    for (const [index, message] of messages.entries()) {
+      const row = await (tx || typedPrisma).chatMessage.create({
+        data: {
+          ...(message.id ? { id: message.id } : {}),
+          chatId,
+          pdfId,
+          userId,
+          sessionId: sessionId || null,
+          // Each message follows the one before it
+          parentId: created.length ? created[created.length - 1].id : parentId,
+          role: message.role,
+          content: message.content,
+          pageContext: message.pageContext,
+          tokenCount: message.tokenCount,
+          error: message.error || false,
+          meta: message.meta || {},
+          createdAt: new Date(startAt.getTime() + index),
+        },
+      }) as ChatMessage;
+      if (message.role === 'assistant' && message.annotations?.length) {
+        row.annotations = await this.attachAnnotations(row.id, pdfId, message.annotations, tx);
+      }
+      created.push(row);
+    }
+    return created;
+  },
+
+  /**
+   * Store the messages a branch does not already end with (see unsavedMessages), so a client
+   * that resends the whole conversation, or retries a save, does not duplicate it
+   */
+  async appendUnsaved(params: AppendMessagesParams): Promise<ChatMessage[]> {
+    const { pdfId, userId, sessionId, messages } = params;
+    if (messages.length === 0) return [];
+    const parentId = params.parentId === undefined ? (await this.newest({ pdfId, userId, sessionId }))?.id || null : params.parentId;
+    const ids = parentId ? pathTo(await this.loadThread({ pdfId, userId, sessionId }), parentId).slice(-messages.length) : [];
+    const rows = ids.length
+      ? await typedPrisma.chatMessage.findMany({ where: { id: { in: ids } }, select: { id: true, role: true, content: true } }) as Array<Pick<ChatMessage, 'id' | 'role' | 'content'>>
+      : [];
+    const tail = ids.map(id => rows.find(row => row.id === id)).filter((row): row is Pick<ChatMessage, 'id' | 'role' | 'content'> => !!row);
+    return await this.appendMessages({ ...params, parentId, messages: unsavedMessages(tail, messages) });
+  },
+
+  /**
+   * Save the tutor's annotations as rows linked to the message that made them
+   */
+  async attachAnnotations(chatMessageId: string, pdfId: string, annotations: AnnotationType[], tx?: any) {
+    return await annotationService.createMany(
+      annotations.map((annotation, index) => ({
+        ...annotationService.fromClientAnnotation(annotation, pdfId, chatMessageId),
+        isAutomatic: true,
+        sequence: index,
+      })),
+      // The tutor's annotations are not the student's edits to undo
+      { logOperations: false, tx }
+    );
+  },
+
   /**
    * Update a chat message (for streaming tokens)
    */
@@ -188,20 +410,33 @@ export const chatMessageService = {
   },
   
   /**
-   * Delete messages by PDF ID
+   * The subset of ids that are this user's messages about a PDF (for checking ids from imported files)
+   */
+  async findOwnedIds(ids: string[], pdfId: string, userId: string): Promise<Set<string>> {
+    if (ids.length === 0) return new Set();
+    const messages = await typedPrisma.chatMessage.findMany({
+      where: { id: { in: ids }, pdfId, userId },
+      select: { id: true },
+    }) as Pick<ChatMessage, 'id'>[];
+    return new Set(messages.map(message => message.id));
+  },
+
+  /**
+   * Delete messages by PDF ID, with the annotations linked to them
    */
   async deleteByPdf({ pdfId, userId, sessionId }: DeleteMessagesParams) {
     if (!pdfId) {
       throw new Error('PDF ID is required');
     }
     
-    const result = await typedPrisma.chatMessage.deleteMany({
-      where: {
-        pdfId,
-        userId,
-        sessionId: sessionId || null,
-      },
-    });
+    // undefined clears every session; legacy rows go too so the migration cannot bring them back
+    const where = { pdfId, userId, ...(sessionId === undefined ? {} : { sessionId: sessionId || null }) };
+    const [, result] = await typedPrisma.$transaction([
+      // The tutor's highlights go with the answers that made them, rather than outliving them unlinked
+      typedPrisma.annotation.deleteMany({ where: { pdfId, chatMessage: where } }),
+      typedPrisma.chatMessage.deleteMany({ where }),
+      typedPrisma.chat.deleteMany({ where }),
+    ]);
     
     return { count: result.count };
   },
@@ -211,22 +446,14 @@ export const chatMessageService = {
    */
   toClientMessages(dbMessages: any[]): ChatMessageType[] {
     return dbMessages.map(msg => ({
+      id: msg.id,
       role: msg.role as 'user' | 'assistant',
       content: msg.content,
-      annotations: msg.annotations?.map((a: any) => ({
-        type: a.type as any,
-        page: a.page,
-        x: a.x,
-        y: a.y,
-        width: a.width || undefined,
-        height: a.height || undefined,
-        radius: a.radius || undefined,
-        color: a.color || undefined,
-        text: a.text || undefined,
-        importance: a.importance as any || undefined,
-      })) || [],
+      annotations: msg.annotations?.map((a: any) => annotationService.toClientAnnotation(a)) || [],
       timestamp: msg.createdAt,
       error: msg.error || false,
+      // Only messages with alternatives get branch arrows
+      ...(msg.siblingIds?.length > 1 ? { siblingIds: msg.siblingIds } : {}),
     }));
   },
 };
\ No newline at end of file
@@ -0,0 +1,169 @@
+/**
+ * Unit tests for chat sessions, against in-memory session, chat and message tables
+ */
+
+import { MAX_SESSION_TITLE_LENGTH, chatSessionService, titleFromQuestion } from './chatSessionService';
+
+const mockTables: Record<string, any[]> = { chatSession: [], chat: [], chatMessage: [], annotation: [] };
+let mockNextId = 0;
+
+const matches = (row: any, where: any = {}) => Object.entries(where).every(([key, value]) => row[key] === value);
+
+function mockTable(name: string) {
+  const rows = () => mockTables[name];
+  return {
+    create: async ({ data }: any) => {
+      const row = { id: `${name}-${++mockNextId}`, createdAt: new Date(), updatedAt: new Date(mockNextId), archivedAt: null, ...data };
+      rows().push(row);
+      return { ...row };
+    },
+    findFirst: async ({ where, orderBy }: any) => {
+      const found = rows().filter(row => matches(row, where));
+      if (orderBy?.createdAt === 'asc') found.sort((a, b) => a.createdAt - b.createdAt);
+      return found[0] ? { ...found[0] } : null;
+    },
+    findMany: async ({ where }: any) => rows()
+      .filter(row => matches(row, where))
+      .sort((a, b) => b.updatedAt - a.updatedAt)
+      .map(row => ({ ...row })),
+    count: async ({ where }: any) => rows().filter(row => matches(row, where)).length,
+    update: async ({ where, data }: any) => {
+      const row = rows().find(r => r.id === where.id);
+      Object.assign(row, data, { updatedAt: data.updatedAt || new Date(++mockNextId) });
+      return { ...row };
+    },
+    updateMany: async ({ where, data }: any) => {
+      const found = rows().filter(row => matches(row, where));
+      found.forEach(row => Object.assign(row, data));
+      return { count: found.length };
+    },
+    delete: async ({ where }: any) => {
+      const [row] = rows().splice(rows().findIndex(r => r.id === where.id), 1);
+      // Like the schema: messages and chats cascade, annotations lose their link
+      if (name === 'chatSession') {
+        ['chat', 'chatMessage'].forEach(table => { mockTables[table] = mockTables[table].filter(r => r.sessionId !== row.id); });
+        mockTables.annotation
+          .filter(a => !mockTables.chatMessage.some(m => m.id === a.chatMessageId))
+          .forEach(a => { a.chatMessageId = null; });
+      }
+      return row;
+    },
+    deleteMany: async ({ where: { chatMessage } }: any) => {
+      const messageIds = mockTables.chatMessage.filter(m => matches(m, chatMessage)).map(m => m.id);
+      const before = rows().length;
+      mockTables[name] = rows().filter(row => !messageIds.includes(row.chatMessageId));
+      return { count: before - rows().length };
+    },
+  };
+}
+
+jest.mock('@/lib/prisma', () => {
+  const client: any = {
+    chatSession: mockTable('chatSession'),
+    chat: mockTable('chat'),
+    chatMessage: mockTable('chatMessage'),
+    annotation: mockTable('annotation'),
+  };
+  client.$transaction = async (work: any) => {
+    if (typeof work !== 'function') return Promise.all(work);
+    // Rolling back removes the rows the transaction created; its updates matched nothing when it gives up
+    const created: Array<[string, string]> = [];
+    const tx = Object.fromEntries(Object.keys(mockTables).map(name => [name, {
+      ...client[name],
+      create: async (args: any) => {
+        const row = await client[name].create(args);
+        created.push([name, row.id]);
+        return row;
+      },
+    }]));
+    try {
+      return await work(tx);
+    } catch (error) {
+      created.forEach(([name, id]) => mockTables[name].splice(mockTables[name].findIndex(row => row.id === id), 1));
+      throw error;
+    }
+  };
+  return client;
+});
+
+describe('titleFromQuestion', () => {
+  test('should keep short questions on one line', () => {
+    expect(titleFromQuestion('  What is\n entropy? ')).toBe('What is entropy?');
+    expect(titleFromQuestion('   ')).toBeNull();
+  });
+
+  test('should cut long questions at a word boundary', () => {
+    const title = titleFromQuestion('Can you explain why the entropy of an isolated system never decreases over time, with an example?')!;
+
+    expect(title.length).toBeLessThanOrEqual(MAX_SESSION_TITLE_LENGTH);
+    expect(title).toBe('Can you explain why the entropy of an isolated system never…');
+  });
+});
+
+describe('chatSessionService', () => {
+  beforeEach(() => {
+    Object.values(mockTables).forEach(rows => rows.splice(0));
+  });
+
+  test('should name an untitled session after its first question only', async () => {
+    const session = await chatSessionService.create('pdf-1', 'user-1');
+    await chatSessionService.recordQuestion(session.id, 'What is entropy?');
+    await chatSessionService.recordQuestion(session.id, 'And enthalpy?');
+
+    expect((await chatSessionService.findOwned(session.id, 'user-1', 'pdf-1'))?.title).toBe('What is entropy?');
+    expect(await chatSessionService.findOwned(session.id, 'user-2')).toBeNull();
+  });
+
+  test('should move history from before sessions into one session', async () => {
+    mockTables.chat.push({ id: 'chat-1', pdfId: 'pdf-1', userId: 'user-1', sessionId: null });
+    mockTables.chatMessage.push({ id: 'message-1', pdfId: 'pdf-1', userId: 'user-1', sessionId: null, role: 'user', content: 'Summarize page 2', createdAt: new Date(0) });
+
+    const sessions = await chatSessionService.list('pdf-1', 'user-1');
+
+    expect(sessions).toHaveLength(1);
+    expect(sessions[0].title).toBe('Summarize page 2');
+    expect(mockTables.chat[0].sessionId).toBe(sessions[0].id);
+    expect(mockTables.chatMessage[0].sessionId).toBe(sessions[0].id);
+  });
+
+  test('should adopt history into one session when two first reads race', async () => {
+    mockTables.chatMessage.push({ id: 'message-1', pdfId: 'pdf-1', userId: 'user-1', sessionId: null, role: 'user', content: 'Summarize page 2', createdAt: new Date(0) });
+
+    const [first, second] = await Promise.all([
+      chatSessionService.list('pdf-1', 'user-1'),
+      chatSessionService.list('pdf-1', 'user-1'),
+    ]);
+
+    expect(mockTables.chatSession).toHaveLength(1);
+    expect(first.map(s => s.id)).toEqual([mockTables.chatSession[0].id]);
+    expect(second).toEqual(first);
+  });
+
+  test('should delete a session\'s messages with the annotations linked to them', async () => {
+    const session = await chatSessionService.create('pdf-1', 'user-1');
+    const kept = await chatSessionService.create('pdf-1', 'user-1');
+    mockTables.chatMessage.push(
+      { id: 'message-1', pdfId: 'pdf-1', userId: 'user-1', sessionId: session.id, role: 'assistant', content: 'See the highlight.' },
+      { id: 'message-2', pdfId: 'pdf-1', userId: 'user-1', sessionId: kept.id, role: 'assistant', content: 'And this one.' }
+    );
+    mockTables.annotation.push(
+      { id: 'annotation-1', pdfId: 'pdf-1', chatMessageId: 'message-1', isAutomatic: true },
+      { id: 'annotation-2', pdfId: 'pdf-1', chatMessageId: 'message-2', isAutomatic: true },
+      { id: 'annotation-3', pdfId: 'pdf-1', chatMessageId: null, userId: 'user-1' }
+    );
+
+    await chatSessionService.delete(session.id);
+
+    expect(mockTables.chatMessage.map(m => m.id)).toEqual(['message-2']);
+    expect(mockTables.annotation.map(a => a.id)).toEqual(['annotation-2', 'annotation-3']);
+  });
+
+  test('should leave archived sessions out of the list unless asked', async () => {
+    const kept = await chatSessionService.create('pdf-1', 'user-1', 'Kept');
+    const archived = await chatSessionService.create('pdf-1', 'user-1', 'Old');
+    await chatSessionService.update(archived.id, { archived: true });
+
+    expect((await chatSessionService.list('pdf-1', 'user-1')).map(s => s.id)).toEqual([kept.id]);
+    expect((await chatSessionService.list('pdf-1', 'user-1', { includeArchived: true }))).toHaveLength(2);
+  });
+});
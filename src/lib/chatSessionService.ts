@@ -0,0 +1,143 @@
+/**
+ * Chat session service
+ * A session is one conversation thread about a PDF. Messages and saved history carry its id,
+ * so switching sessions switches which history is loaded and sent to the tutor.
+ */
+
+import prisma from '@/lib/prisma';
+
+// Work around the Prisma client typings, as the other services do
+const typedPrisma = prisma as any;
+
+export const MAX_SESSION_TITLE_LENGTH = 60;
+
+export interface ChatSession {
+  id: string;
+  userId: string;
+  pdfId: string;
+  title: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+  archivedAt: Date | null;
+}
+
+interface SessionChanges {
+  title?: string;
+  archived?: boolean;
+}
+
+/**
+ * A short title from the first question: one line, cut at a word boundary
+ */
+export function titleFromQuestion(question: string): string | null {
+  const line = question.replace(/\s+/g, ' ').trim();
+  if (!line) return null;
+  if (line.length <= MAX_SESSION_TITLE_LENGTH) return line;
+
+  // One character is left for the ellipsis; a space right after the limit still ends a whole word
+  const lastSpace = line.slice(0, MAX_SESSION_TITLE_LENGTH).lastIndexOf(' ');
+  const cut = lastSpace > MAX_SESSION_TITLE_LENGTH / 2 ? line.slice(0, lastSpace) : line.slice(0, MAX_SESSION_TITLE_LENGTH - 1);
+  return `${cut.replace(/[\s,.;:!?-]+$/, '')}…`;
+}
+
+// Rolls back a session created for history that a concurrent request already adopted
+class HistoryAlreadyAdopted extends Error {}
+
+export const chatSessionService = {
+  async create(pdfId: string, userId: string, title?: string): Promise<ChatSession> {
+    return await typedPrisma.chatSession.create({
+      data: { pdfId, userId, title: title?.trim() || null },
+    });
+  },
+
+  /**
+   * The session if it belongs to userId (and to pdfId when given); otherwise null (routes answer 404)
+   */
+  async findOwned(id: string, userId: string, pdfId?: string): Promise<ChatSession | null> {
+    return await typedPrisma.chatSession.findFirst({
+      where: { id, userId, ...(pdfId ? { pdfId } : {}) },
+    });
+  },
+
+  /**
+   * A user's sessions on a PDF, most recently active first.
+   * History saved before sessions existed is moved into a session the first time the list is read.
+   */
+  async list(pdfId: string, userId: string, { includeArchived = false } = {}): Promise<ChatSession[]> {
+    const where = { pdfId, userId, ...(includeArchived ? {} : { archivedAt: null }) };
+    let sessions: ChatSession[] = await typedPrisma.chatSession.findMany({ where, orderBy: { updatedAt: 'desc' } });
+
+    if (sessions.length === 0 && (await this.adoptUnsortedHistory(pdfId, userId))) {
+      sessions = await typedPrisma.chatSession.findMany({ where, orderBy: { updatedAt: 'desc' } });
+    }
+    return sessions;
+  },
+
+  /**
+   * Put history without a session into a new one titled from its first question; false if there was none.
+   * The session is created and the history moved in one transaction: when two first reads race, the
+   * second finds nothing left to move (the first held the rows until it committed) and rolls back.
+   */
+  async adoptUnsortedHistory(pdfId: string, userId: string): Promise<boolean> {
+    const [chatCount, messageCount] = await Promise.all([
+      typedPrisma.chat.count({ where: { pdfId, userId, sessionId: null } }),
+      typedPrisma.chatMessage.count({ where: { pdfId, userId, sessionId: null } }),
+    ]);
+    if (chatCount === 0 && messageCount === 0) return false;
+
+    const firstQuestion = await typedPrisma.chatMessage.findFirst({
+      where: { pdfId, userId, sessionId: null, role: 'user' },
+      orderBy: { createdAt: 'asc' },
+      select: { content: true },
+    });
+    const title = titleFromQuestion(firstQuestion?.content || '') || 'Earlier conversation';
+    try {
+      await typedPrisma.$transaction(async (tx: any) => {
+        const session = await tx.chatSession.create({ data: { pdfId, userId, title } });
+        const chats = await tx.chat.updateMany({ where: { pdfId, userId, sessionId: null }, data: { sessionId: session.id } });
+        const messages = await tx.chatMessage.updateMany({ where: { pdfId, userId, sessionId: null }, data: { sessionId: session.id } });
+        if (chats.count === 0 && messages.count === 0) throw new HistoryAlreadyAdopted();
+      });
+    } catch (error) {
+      if (!(error instanceof HistoryAlreadyAdopted)) throw error;
+    }
+    return true;
+  },
+
+  /**
+   * Rename, archive or unarchive
+   */
+  async update(id: string, changes: SessionChanges): Promise<ChatSession> {
+    return await typedPrisma.chatSession.update({
+      where: { id },
+      data: {
+        ...(changes.title !== undefined ? { title: changes.title.trim() || null } : {}),
+        ...(changes.archived !== undefined ? { archivedAt: changes.archived ? new Date() : null } : {}),
+      },
+    });
+  },
+
+  /**
+   * Delete a session with its messages, their annotations and saved history
+   */
+  async delete(id: string): Promise<void> {
+    // Messages and legacy rows cascade; the tutor's highlights would only lose their link
+    await typedPrisma.$transaction([
+      typedPrisma.annotation.deleteMany({ where: { chatMessage: { sessionId: id } } }),
+      typedPrisma.chatSession.delete({ where: { id } }),
+    ]);
+  },
+
+  /**
+   * Mark a session active when a question is asked in it; the first question names an untitled session
+   */
+  async recordQuestion(id: string, question: string): Promise<void> {
+    const title = titleFromQuestion(question);
+    const named = title
+      ? await typedPrisma.chatSession.updateMany({ where: { id, title: null }, data: { title } })
+      : { count: 0 };
+    if (named.count === 0) {
+      await typedPrisma.chatSession.update({ where: { id }, data: { updatedAt: new Date() } });
+    }
+  },
+};
@@ -1,4 +1,5 @@
 import { Annotation } from '@/types/types';
+import { annotationEngine } from '@/lib/annotationEngine';
 
 interface Message {
   role: string;
@@ -12,11 +13,6 @@ interface ChatMessage {
   annotations?: Annotation[];
 }
 
-interface ChatMessageStorage {
-  messages: Message[];
-  annotations?: Annotation[];
-}
-
 interface NavigationCommand {
   targetPage: number;
   hasNavigation: boolean;
@@ -28,32 +24,21 @@ export interface NavigationCue {
 }
 
 /**
- * Serializes chat messages for storage
+ * The messages at the end of incoming that stored does not already end with.
+ * Clients may send a whole conversation or only the latest exchange; only the new part is kept.
  */
-export function serializeChatMessages(messages: ChatMessage[]): ChatMessageStorage {
-  const storageObject: ChatMessageStorage = {
-    messages: messages.map(msg => ({
-      role: msg.role,
-      content: msg.content
-    })),
-    annotations: []
-  };
-  
-  // Collect all annotations
-  messages.forEach(msg => {
-    if (msg.annotations && msg.annotations.length > 0) {
-      if (!storageObject.annotations) {
-        storageObject.annotations = [];
-      }
-      storageObject.annotations.push(...msg.annotations);
+export function unsavedMessages<T extends Message>(stored: Message[], incoming: T[]): T[] {
+  for (let overlap = Math.min(stored.length, incoming.length); overlap > 0; overlap--) {
+    const tail = stored.slice(stored.length - overlap);
+    if (tail.every((message, i) => message.role === incoming[i].role && message.content === incoming[i].content)) {
+      return incoming.slice(overlap);
     }
-  });
-  
-  return storageObject;
+  }
+  return incoming;
 }
 
 /**
- * Deserializes chat messages from storage
+ * Deserializes a legacy Chat.messages blob ({ messages, annotations }); only the legacy migration reads them now
  */
 export function deserializeChatMessages(data: any): ChatMessage[] {
   if (!data || !data.messages) {
@@ -133,36 +118,16 @@ export function extractAnnotationsFromMessages(messages: ChatMessage[]): Annotat
  * @returns Object with navigation information
  */
 export function extractNavigationCommands(text: string, currentPage: number, totalPages: number): NavigationCommand {
-  // Define regex patterns for navigation commands
-  const goToPageRegex = /\[GO TO PAGE (\d+)\]/;
-  const nextPageRegex = /\[NEXT PAGE\]/;
-  const prevPageRegex = /\[PREV PAGE\]/;
-  const firstPageRegex = /\[FIRST PAGE\]/;
-  const lastPageRegex = /\[LAST PAGE\]/;
+  const navigation = annotationEngine.parseNavigationCommands(text, currentPage);
   
-  // Extract commands
-  const goToPageMatch = text.match(goToPageRegex);
-  const hasNextPage = nextPageRegex.test(text);
-  const hasPrevPage = prevPageRegex.test(text);
-  const hasFirstPage = firstPageRegex.test(text);
-  const hasLastPage = lastPageRegex.test(text);
-  
-  // Calculate target page
   let targetPage = currentPage;
-  
-  if (goToPageMatch) {
-    const requestedPage = parseInt(goToPageMatch[1], 10);
-    if (requestedPage >= 1 && requestedPage <= totalPages) {
-      targetPage = requestedPage;
+  if (navigation.hasNavigation && navigation.targetPage !== null) {
+    const clamped = Math.max(1, Math.min(navigation.targetPage, totalPages));
+    // Out-of-range [GO TO PAGE n] is ignored rather than clamped
+    const isGoTo = /GO TO PAGE/i.test(navigation.command || '');
+    if (!isGoTo || navigation.targetPage === clamped) {
+      targetPage = clamped;
     }
-  } else if (hasNextPage && currentPage < totalPages) {
-    targetPage = currentPage + 1;
-  } else if (hasPrevPage && currentPage > 1) {
-    targetPage = currentPage - 1;
-  } else if (hasFirstPage) {
-    targetPage = 1;
-  } else if (hasLastPage) {
-    targetPage = totalPages;
   }
   
   return {
@@ -200,22 +165,8 @@ export function parseAutoNavigationCues(content: string): NavigationCue[] {
  * @returns Cleaned text
  */
 export function cleanResponseText(text: string): string {
-  return text
-    // Remove navigation commands
-    .replace(/\[GO TO PAGE \d+\]/g, '')
-    .replace(/\[NEXT PAGE\]/g, '')
-    .replace(/\[PREV PAGE\]/g, '')
-    .replace(/\[FIRST PAGE\]/g, '')
-    .replace(/\[LAST PAGE\]/g, '')
-    // Remove auto-navigation cues
-    .replace(/\[AUTO_NAV:\d+:\d+\]/g, '')
-    // Remove annotation commands
-    .replace(/\[HIGHLIGHT \d+ \d+ \d+ \d+ \d+(?:\s+color="[^"]+")?]/g, '')
-    .replace(/\[CIRCLE \d+ \d+ \d+ \d+(?:\s+color="[^"]+")?]/g, '')
-    .replace(/\[HIGHLIGHT TEXT "[^"]+" ON PAGE \d+]/g, '')
-    // Clean up extra whitespace
-    .replace(/\s{2,}/g, ' ')
-    .trim();
+  // Remove auto-navigation cues, then annotation and navigation commands
+  return annotationEngine.cleanText(text.replace(/\[AUTO_NAV:\d+:\d+\]/g, ''));
 }
 
 /**
@@ -0,0 +1,90 @@
+/**
+ * Unit tests for the tutor's rolling conversation memory
+ */
+
+import { HISTORY_BUDGET_TOKENS, MemoryMessage, RECENT_BUDGET_TOKENS, conversationMemory, formatMemoryForPrompt, takeRecent } from './conversationMemory';
+import { FakeProvider } from './llm/fakeProvider';
+import { estimateTokens } from './llm/tokenCount';
+import { chatMessageService } from '@/lib/chatMessageService';
+import { usageService } from '@/lib/usageService';
+
+jest.mock('@/lib/chatMessageService', () => ({
+  chatMessageService: { update: jest.fn(async () => ({})) },
+}));
+jest.mock('@/lib/usageService', () => ({
+  usageService: { record: jest.fn(async () => {}) },
+}));
+
+const update = chatMessageService.update as jest.Mock;
+const record = usageService.record as jest.Mock;
+
+// Each exchange is about 250 tokens
+function exchanges(count: number, from = 1): MemoryMessage[] {
+  return Array.from({ length: count }, (_, i) => [
+    { id: `q${from + i}`, role: 'user', content: `Question ${from + i} ${'word '.repeat(100)}` },
+    { id: `a${from + i}`, role: 'assistant', content: `Answer ${from + i} ${'word '.repeat(100)}` },
+  ]).flat();
+}
+
+describe('conversationMemory', () => {
+  beforeEach(() => {
+    update.mockClear();
+    record.mockClear();
+  });
+
+  test('should send short histories in full without summarizing', async () => {
+    const llm = new FakeProvider({ script: ['unused'] });
+    const history = exchanges(2);
+
+    const memory = await conversationMemory.recall(history, llm);
+
+    expect(memory.summary).toBeNull();
+    expect(memory.recent.map(m => m.content)).toEqual(history.map(m => m.content));
+    expect(update).not.toHaveBeenCalled();
+  });
+
+  test('should summarize older messages once history outgrows the budget', async () => {
+    const llm = new FakeProvider({ script: ['The student asked about entropy on page 2.'] });
+    const history = exchanges(12);
+    expect(estimateTokens(history.map(m => ({ role: 'user' as const, content: m.content })))).toBeGreaterThan(HISTORY_BUDGET_TOKENS);
+
+    const memory = await conversationMemory.recall(history, llm, { userId: 'user-1', pdfId: 'pdf-1' });
+
+    expect(memory.summary).toBe('The student asked about entropy on page 2.');
+    expect(llm.countTokens(memory.recent)).toBeLessThanOrEqual(RECENT_BUDGET_TOKENS + 10);
+    expect(memory.recent[memory.recent.length - 1].content).toBe(history[history.length - 1].content);
+    // Stored on the last summarized message, right before the recent ones
+    const [{ id, meta }] = update.mock.calls[0];
+    expect(history[history.length - memory.recent.length - 1].id).toBe(id);
+    expect(meta.memory.summary).toBe(memory.summary);
+    // Charged to the student like an answer
+    expect(record).toHaveBeenCalledWith(expect.objectContaining({
+      userId: 'user-1',
+      pdfId: 'pdf-1',
+      route: 'summary',
+      completionTokens: llm.countTokens('The student asked about entropy on page 2.'),
+    }));
+  });
+
+  test('should reuse a stored summary and only send what follows it', async () => {
+    const llm = new FakeProvider({ script: [new Error('should not summarize')] });
+    const history = exchanges(6);
+    history[7].meta = { memory: { summary: 'Earlier: entropy.' } };
+
+    const memory = await conversationMemory.recall(history, llm);
+
+    expect(memory.summary).toBe('Earlier: entropy.');
+    expect(memory.recent).toHaveLength(4);
+  });
+
+  test('should only trim unstored history', async () => {
+    const llm = new FakeProvider({ script: [new Error('should not summarize')] });
+    const history = exchanges(12).map(({ role, content }) => ({ role, content }));
+
+    const memory = await conversationMemory.recall(history, llm);
+
+    expect(memory.summary).toBeNull();
+    expect(memory.recent).toEqual(takeRecent(history, RECENT_BUDGET_TOKENS, llm).map(({ role, content }) => ({ role, content })));
+    expect(formatMemoryForPrompt(null)).toBe('');
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Conversation memory
+ * The tutor sees the latest messages in full and everything earlier as a running summary.
+ * Once the unsummarized history outgrows a token budget, the older part is folded into the
+ * summary, which is stored in the meta of the last message it covers. A summary therefore
+ * belongs to the branch through that message and is reused until the history outgrows it again.
+ */
+
+import { CompletionRequest, LLMMessage, LLMProvider } from '@/lib/llm/types';
+import { chatMessageService } from '@/lib/chatMessageService';
+import { getRoutingPolicy } from '@/lib/llm/modelRouter';
+import { UsageEntry, usageService } from '@/lib/usageService';
+
+// Whose quota a summary is charged to
+type UsageOwner = Pick<UsageEntry, 'userId' | 'pdfId'>;
+
+// Unsummarized history up to this size is sent in full
+export const HISTORY_BUDGET_TOKENS = 2000;
+// After summarizing, this much of the latest history is still sent in full
+export const RECENT_BUDGET_TOKENS = 800;
+const SUMMARY_MAX_TOKENS = 350;
+
+export interface MemoryMessage {
+  id?: string; // stored messages can carry a summary; others are only trimmed
+  role: string;
+  content: string;
+  meta?: any;
+}
+
+export interface ConversationMemory {
+  summary: string | null; // everything before recent
+  recent: LLMMessage[]; // oldest first
+}
+
+const toLLMMessages = (messages: MemoryMessage[]): LLMMessage[] =>
+  messages.map(m => ({ role: m.role === 'assistant' ? 'assistant' : 'user', content: m.content || '' }));
+
+/**
+ * The latest messages that fit in budget, always at least the last one
+ */
+export function takeRecent(messages: MemoryMessage[], budget: number, llm: Pick<LLMProvider, 'countTokens'>): MemoryMessage[] {
+  let start = messages.length;
+  let tokens = 0;
+  while (start > 0) {
+    const size = llm.countTokens(toLLMMessages([messages[start - 1]]));
+    if (start < messages.length && tokens + size > budget) break;
+    tokens += size;
+    start--;
+  }
+  return messages.slice(start);
+}
+
+/**
+ * The summary section for the tutor's system prompt; empty without a summary
+ */
+export function formatMemoryForPrompt(summary: string | null): string {
+  return summary
+    ? `\nEARLIER IN THIS CONVERSATION (a summary; the latest messages follow in full):\n${summary}\n`
+    : '';
+}
+
+export const conversationMemory = {
+  /**
+   * What the tutor remembers of history (the messages before the question, oldest first);
+   * a summary written on the way is recorded against owner's usage
+   */
+  async recall(history: MemoryMessage[], llm: LLMProvider, owner?: UsageOwner): Promise<ConversationMemory> {
+    let covered = -1;
+    for (let i = history.length - 1; i >= 0; i--) {
+      if (typeof history[i].meta?.memory?.summary === 'string') {
+        covered = i;
+        break;
+      }
+    }
+    let summary: string | null = covered >= 0 ? history[covered].meta.memory.summary : null;
+    const uncovered = history.slice(covered + 1);
+
+    if (llm.countTokens(toLLMMessages(uncovered)) <= HISTORY_BUDGET_TOKENS) {
+      return { summary, recent: toLLMMessages(uncovered) };
+    }
+
+    const recent = takeRecent(uncovered, RECENT_BUDGET_TOKENS, llm);
+    const older = uncovered.slice(0, uncovered.length - recent.length);
+    const last = older[older.length - 1];
+    // Unstored history is only trimmed: a summary that cannot be kept would be rewritten on every question
+    if (last?.id) {
+      try {
+        summary = await this.summarize(summary, older, llm, owner);
+        await chatMessageService.update({
+          id: last.id,
+          meta: { ...(last.meta || {}), memory: { summary, tokens: llm.countTokens(summary) } },
+        });
+      } catch (error) {
+        console.error('Conversation memory: Could not update the summary:', error);
+      }
+    }
+    return { summary, recent: toLLMMessages(recent) };
+  },
+
+  /**
+   * Fold messages into the running summary
+   */
+  async summarize(previous: string | null, messages: MemoryMessage[], llm: LLMProvider, owner?: UsageOwner): Promise<string> {
+    const transcript = messages
+      .map(m => `${m.role === 'assistant' ? 'Tutor' : 'Student'}: ${m.content}`)
+      .join('\n\n');
+    const request: CompletionRequest = {
+      model: getRoutingPolicy().fastModel,
+      messages: [
+        {
+          role: 'system',
+          content: 'You keep the running summary of a tutoring conversation about a PDF. Rewrite the summary to include the new messages. '
+            + 'Keep what the student asked, what was explained and on which pages, what they found difficult and anything left open. '
+            + 'Write plain prose of at most 200 words; no commands or brackets.',
+        },
+        {
+          role: 'user',
+          content: `Summary so far:\n${previous || '(none yet)'}\n\nNew messages:\n${transcript}`,
+        },
+      ],
+      temperature: 0.2,
+      maxTokens: SUMMARY_MAX_TOKENS,
+    };
+    const result = await llm.complete(request);
+    if (owner) {
+      await usageService.record({
+        ...owner,
+        model: result.model,
+        promptTokens: result.usage?.promptTokens ?? llm.countTokens(request.messages, result.model),
+        completionTokens: result.usage?.completionTokens ?? llm.countTokens(result.content, result.model),
+        route: 'summary',
+        reason: 'conversation summary',
+      });
+    }
+    const summary = result.content.trim();
+    if (!summary) throw new Error('Empty summary');
+    return summary;
+  },
+};
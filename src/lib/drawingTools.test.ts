@@ -0,0 +1,60 @@
+import { dragToAnnotation, freeformPoints, pathCommandsToPoints, strokeToAnnotation, transformToChanges, withAlpha } from './drawingTools';
+
+describe('dragToAnnotation', () => {
+  test('should draw boxes whichever way the drag goes', () => {
+    const rectangle = dragToAnnotation('rectangle', { x: 120, y: 80 }, { x: 20, y: 30 }, 2, '#ff0000');
+    expect(rectangle).toEqual({ type: 'rectangle', page: 2, x: 20, y: 30, width: 100, height: 50, color: '#ff0000', isAutomatic: false });
+  });
+
+  test('should draw translucent highlights and circles centered on the start', () => {
+    expect(dragToAnnotation('highlight', { x: 0, y: 0 }, { x: 50, y: 2 }, 1, '#ffff00')).toMatchObject({
+      height: 10,
+      color: 'rgba(255, 255, 0, 0.3)',
+    });
+    expect(dragToAnnotation('circle', { x: 100, y: 100 }, { x: 130, y: 140 }, 1, 'red')).toMatchObject({
+      x: 50, y: 50, radius: 50,
+    });
+  });
+
+  test('should keep the arrow direction and ignore clicks', () => {
+    expect(dragToAnnotation('arrow', { x: 100, y: 100 }, { x: 40, y: 100 }, 1, 'red')).toMatchObject({ x: 100, y: 100, width: -60, height: 0 });
+    expect(dragToAnnotation('rectangle', { x: 10, y: 10 }, { x: 11, y: 12 }, 1, 'red')).toBeNull();
+    expect(dragToAnnotation('select', { x: 0, y: 0 }, { x: 50, y: 50 }, 1, 'red')).toBeNull();
+  });
+});
+
+describe('pen strokes', () => {
+  test('should store the points and their bounding box', () => {
+    const stroke = strokeToAnnotation([{ x: 10.2, y: 40 }, { x: 30, y: 20.7 }, { x: 50, y: 60 }], 3, 'blue');
+    expect(stroke).toMatchObject({ type: 'freeform', page: 3, x: 10, y: 21, width: 40, height: 39 });
+    expect(freeformPoints(stroke!)).toEqual([{ x: 10, y: 40 }, { x: 30, y: 21 }, { x: 50, y: 60 }]);
+    expect(strokeToAnnotation([{ x: 1, y: 1 }], 1, 'blue')).toBeNull();
+  });
+
+  test('should read the end point of each Fabric path command', () => {
+    expect(pathCommandsToPoints([['M', 1, 2], ['Q', 5, 5, 3, 4], ['L', 6, 7], ['Z']])).toEqual([
+      { x: 1, y: 2 }, { x: 3, y: 4 }, { x: 6, y: 7 },
+    ]);
+    expect(freeformPoints({ type: 'freeform', x: 0, y: 0, text: 'not json' })).toEqual([]);
+  });
+});
+
+describe('transformToChanges', () => {
+  test('should move and resize boxes and circles', () => {
+    const transform = { dx: 10, dy: -5, scaleX: 2, scaleY: 1.5 };
+    expect(transformToChanges({ type: 'rectangle', x: 0, y: 20, width: 50, height: 40 }, transform)).toEqual({ x: 10, y: 15, width: 100, height: 60 });
+    expect(transformToChanges({ type: 'circle', x: 0, y: 0, radius: 10 }, transform)).toEqual({ x: 10, y: -5, radius: 20 });
+  });
+
+  test('should only move arrows and shift pen strokes point by point', () => {
+    const transform = { dx: 5, dy: 5, scaleX: 3, scaleY: 3 };
+    expect(transformToChanges({ type: 'arrow', x: 0, y: 0, width: 20, height: 0 }, transform)).toEqual({ x: 5, y: 5 });
+    expect(transformToChanges({ type: 'freeform', x: 0, y: 0, text: '[[0,0],[10,10]]' }, transform)).toEqual({
+      x: 5, y: 5, text: '[[5,5],[15,15]]',
+    });
+  });
+
+  test('should leave named colors alone', () => {
+    expect(withAlpha('yellow', 0.3)).toBe('yellow');
+  });
+});
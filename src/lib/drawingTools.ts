@@ -0,0 +1,161 @@
+/**
+ * Manual drawing tools for the annotation canvas
+ * Turns pointer gestures into annotations and edits of existing ones, in PDF page coordinates.
+ * Fabric-free so the geometry can be tested; the canvas component handles the pointer events.
+ */
+
+import { Annotation } from '@/types/types';
+
+export type DrawingTool =
+  | 'none'      // PDF interaction as usual
+  | 'select'    // select, move and resize saved annotations
+  | 'highlight'
+  | 'underline'
+  | 'rectangle'
+  | 'circle'
+  | 'arrow'
+  | 'pen'
+  | 'text'
+  | 'eraser';
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export const DEFAULT_TOOL_COLOR = '#2563eb';
+
+// Drags shorter than this are treated as accidental clicks
+const MIN_DRAG = 3;
+const UNDERLINE_OFFSET = 5;
+export const STICKY_NOTE_WIDTH = 200;
+
+/**
+ * '#rrggbb' to 'rgba(r, g, b, alpha)'; other color strings are returned unchanged
+ */
+export function withAlpha(color: string, alpha: number): string {
+  const match = /^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(color);
+  if (!match) return color;
+  const [r, g, b] = match.slice(1).map(hex => parseInt(hex, 16));
+  return `rgba(${r}, ${g}, ${b}, ${alpha})`;
+}
+
+const round = (value: number) => Math.round(value);
+
+/**
+ * The annotation a drag from start to end draws with a shape tool, or null for a click
+ */
+export function dragToAnnotation(tool: DrawingTool, start: Point, end: Point, page: number, color: string): Annotation | null {
+  const dx = end.x - start.x;
+  const dy = end.y - start.y;
+  if (Math.abs(dx) < MIN_DRAG && Math.abs(dy) < MIN_DRAG) return null;
+
+  const box = {
+    x: round(Math.min(start.x, end.x)),
+    y: round(Math.min(start.y, end.y)),
+    width: round(Math.abs(dx)),
+    height: round(Math.abs(dy)),
+  };
+  const base = { page, isAutomatic: false };
+
+  switch (tool) {
+    case 'highlight':
+      return { ...base, type: 'highlight', ...box, height: Math.max(box.height, 10), color: withAlpha(color, 0.3) };
+    case 'rectangle':
+      return { ...base, type: 'rectangle', ...box, color };
+    case 'underline':
+      // The canvas draws underlines height below y, so keep the line where the drag started
+      return { ...base, type: 'underline', x: box.x, y: round(start.y) - UNDERLINE_OFFSET, width: box.width, height: UNDERLINE_OFFSET, color };
+    case 'circle': {
+      // Centered on the drag start; x/y is the top-left of the bounding box
+      const radius = round(Math.hypot(dx, dy));
+      return { ...base, type: 'circle', x: round(start.x) - radius, y: round(start.y) - radius, radius, color };
+    }
+    case 'arrow':
+      return { ...base, type: 'arrow', x: round(start.x), y: round(start.y), width: round(dx), height: round(dy), color };
+    default:
+      return null;
+  }
+}
+
+/**
+ * A pen stroke as a freeform annotation; the points are stored as JSON in text, like other freeform paths
+ */
+export function strokeToAnnotation(points: Point[], page: number, color: string): Annotation | null {
+  if (points.length < 2) return null;
+  const xs = points.map(p => p.x);
+  const ys = points.map(p => p.y);
+  const x = round(Math.min(...xs));
+  const y = round(Math.min(...ys));
+
+  return {
+    type: 'freeform',
+    page,
+    x,
+    y,
+    width: round(Math.max(...xs)) - x,
+    height: round(Math.max(...ys)) - y,
+    color,
+    text: JSON.stringify(points.map(p => [round(p.x), round(p.y)])),
+    isAutomatic: false,
+  };
+}
+
+/**
+ * Points of a Fabric path (['M', x, y], ['Q', cx, cy, x, y], ['L', x, y] ...); each command ends at its point
+ */
+export function pathCommandsToPoints(commands: Array<Array<string | number>>): Point[] {
+  return commands
+    .filter(command => command.length >= 3)
+    .map(command => ({ x: Number(command[command.length - 2]), y: Number(command[command.length - 1]) }))
+    .filter(point => Number.isFinite(point.x) && Number.isFinite(point.y));
+}
+
+/**
+ * The points of a freeform annotation, or [] if its path data is unreadable
+ */
+export function freeformPoints(annotation: Annotation): Point[] {
+  try {
+    const parsed = JSON.parse(annotation.text || '[]');
+    return Array.isArray(parsed) ? parsed.map(([x, y]: [number, number]) => ({ x, y })) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * The edits that moving an annotation by (dx, dy) and scaling it by (scaleX, scaleY) amount to.
+ * Shapes with a size are resized; lines, arrows and pen strokes only move.
+ */
+export function transformToChanges(
+  annotation: Annotation,
+  transform: { dx: number; dy: number; scaleX: number; scaleY: number }
+): Partial<Annotation> {
+  const changes: Partial<Annotation> = {
+    x: round(annotation.x + transform.dx),
+    y: round(annotation.y + transform.dy),
+  };
+
+  switch (annotation.type) {
+    case 'highlight':
+    case 'rectangle':
+      if (annotation.width) changes.width = round(annotation.width * transform.scaleX);
+      if (annotation.height) changes.height = round(annotation.height * transform.scaleY);
+      break;
+    case 'circle':
+      if (annotation.radius) changes.radius = round(annotation.radius * Math.max(transform.scaleX, transform.scaleY));
+      break;
+    case 'text':
+      changes.width = round((annotation.width || STICKY_NOTE_WIDTH) * transform.scaleX);
+      break;
+    case 'freeform': {
+      const points = freeformPoints(annotation);
+      if (points.length > 0) {
+        changes.text = JSON.stringify(points.map(p => [round(p.x + transform.dx), round(p.y + transform.dy)]));
+      }
+      break;
+    }
+  }
+
+  return changes;
+}
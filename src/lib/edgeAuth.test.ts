@@ -0,0 +1,46 @@
+import jwt from 'jsonwebtoken';
+import { mintStreamTicket, signJwt, verifyJwt, verifyStreamTicket } from './edgeAuth';
+
+const SECRET = 'test-secret';
+
+describe('edgeAuth', () => {
+  test('should verify login tokens signed by jsonwebtoken', async () => {
+    const token = jwt.sign({ userId: 'user-1' }, SECRET, { expiresIn: '1h' });
+    const claims = await verifyJwt(token, SECRET);
+    expect(claims?.userId).toBe('user-1');
+  });
+
+  test('should produce tokens jsonwebtoken accepts', async () => {
+    const token = await signJwt({ userId: 'user-1' }, SECRET, 60);
+    expect((jwt.verify(token, SECRET) as any).userId).toBe('user-1');
+  });
+
+  test('should reject forged, unsigned and expired tokens', async () => {
+    const token = await signJwt({ userId: 'user-1' }, SECRET, 60);
+    const [header, , signature] = token.split('.');
+    const forgedBody = Buffer.from(JSON.stringify({ userId: 'admin' })).toString('base64url');
+    const noneHeader = Buffer.from(JSON.stringify({ alg: 'none', typ: 'JWT' })).toString('base64url');
+
+    expect(await verifyJwt(`${header}.${forgedBody}.${signature}`, SECRET)).toBeNull();
+    expect(await verifyJwt(`${noneHeader}.${forgedBody}.`, SECRET)).toBeNull();
+    expect(await verifyJwt(token, 'other-secret')).toBeNull();
+    expect(await verifyJwt(token, SECRET, Date.now() + 61 * 1000)).toBeNull();
+    expect(await verifyJwt('not-a-token', SECRET)).toBeNull();
+  });
+
+  test('should only accept a stream ticket for the stream it was minted for', async () => {
+    const ticket = await mintStreamTicket({ userId: 'user-1', streamId: 'stream-1', pdfId: 'pdf-1' }, SECRET);
+
+    const claims = await verifyStreamTicket(ticket, 'stream-1', SECRET);
+    expect(claims).toMatchObject({ typ: 'stream', sub: 'user-1', sid: 'stream-1', pdf: 'pdf-1' });
+    expect(claims?.jti).toBeTruthy();
+
+    expect(await verifyStreamTicket(ticket, 'stream-2', SECRET)).toBeNull();
+    expect(await verifyStreamTicket(ticket, 'stream-1', SECRET, Date.now() + 61 * 1000)).toBeNull();
+  });
+
+  test('should not accept a login token as a stream ticket', async () => {
+    const token = jwt.sign({ userId: 'user-1', sid: 'stream-1' }, SECRET, { expiresIn: '1h' });
+    expect(await verifyStreamTicket(token, 'stream-1', SECRET)).toBeNull();
+  });
+});
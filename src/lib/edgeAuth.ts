@@ -0,0 +1,145 @@
+/**
+ * Edge-compatible token handling
+ * HS256 JWTs signed and verified with WebCrypto, so they work in the Edge runtime and middleware
+ * as well as Node. Verifies the same tokens the login route issues with jsonwebtoken.
+ * Also mints the short-lived, single-use tickets that authorize one chat stream connection.
+ */
+
+export interface JwtClaims {
+  exp?: number; // seconds since the epoch
+  nbf?: number;
+  iat?: number;
+  [claim: string]: unknown;
+}
+
+// Claims carried by a stream ticket
+export interface StreamTicketClaims extends JwtClaims {
+  typ: 'stream';
+  sub: string; // user id
+  sid: string; // stream id
+  pdf: string; // pdf id, '' when the chat has no PDF
+  jti: string; // unique id so each ticket can be redeemed once
+  exp: number;
+}
+
+export const STREAM_TICKET_TTL_SECONDS = 60;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+const keys = new Map<string, Promise<CryptoKey>>();
+
+export class AuthConfigurationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuthConfigurationError';
+  }
+}
+
+/**
+ * The secret login tokens and stream tickets are signed with; there is no fallback
+ */
+export function getJwtSecret(): string {
+  const secret = process.env.JWT_SECRET;
+  if (!secret) {
+    throw new AuthConfigurationError('JWT_SECRET is not set; refusing to sign or verify tokens');
+  }
+  return secret;
+}
+
+function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function base64UrlDecode(text: string): Uint8Array<ArrayBuffer> {
+  if (!/^[A-Za-z0-9_-]*$/.test(text)) throw new Error('Invalid base64url');
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/') + '='.repeat((4 - (text.length % 4)) % 4);
+  return Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+}
+
+function hmacKey(secret: string): Promise<CryptoKey> {
+  let key = keys.get(secret);
+  if (!key) {
+    key = crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+    keys.set(secret, key);
+  }
+  return key;
+}
+
+/**
+ * Sign claims as an HS256 JWT; iat and exp are added from expiresInSeconds
+ */
+export async function signJwt(claims: JwtClaims, secret: string, expiresInSeconds: number, now = Date.now()): Promise<string> {
+  const iat = Math.floor(now / 1000);
+  const header = base64UrlEncode(encoder.encode(JSON.stringify({ alg: 'HS256', typ: 'JWT' })));
+  const body = base64UrlEncode(encoder.encode(JSON.stringify({ ...claims, iat, exp: iat + expiresInSeconds })));
+  const signature = await crypto.subtle.sign('HMAC', await hmacKey(secret), encoder.encode(`${header}.${body}`));
+  return `${header}.${body}.${base64UrlEncode(new Uint8Array(signature))}`;
+}
+
+/**
+ * Verify an HS256 JWT and return its claims, or null if it is malformed, forged, expired or not yet valid.
+ * Only HS256 is accepted, so "alg": "none" and algorithm confusion are rejected.
+ */
+export async function verifyJwt<T extends JwtClaims = JwtClaims>(token: string, secret: string, now = Date.now()): Promise<T | null> {
+  const parts = (token || '').split('.');
+  if (parts.length !== 3) return null;
+
+  try {
+    const header = JSON.parse(decoder.decode(base64UrlDecode(parts[0])));
+    if (header?.alg !== 'HS256') return null;
+
+    const valid = await crypto.subtle.verify(
+      'HMAC',
+      await hmacKey(secret),
+      base64UrlDecode(parts[2]),
+      encoder.encode(`${parts[0]}.${parts[1]}`)
+    );
+    if (!valid) return null;
+
+    const claims = JSON.parse(decoder.decode(base64UrlDecode(parts[1])));
+    if (typeof claims !== 'object' || claims === null) return null;
+
+    const seconds = now / 1000;
+    if (typeof claims.exp === 'number' && seconds >= claims.exp) return null;
+    if (typeof claims.nbf === 'number' && seconds < claims.nbf) return null;
+    return claims as T;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Mint a ticket that lets userId open streamId (for pdfId) once, within STREAM_TICKET_TTL_SECONDS
+ */
+export function mintStreamTicket(
+  binding: { userId: string; streamId: string; pdfId?: string | null },
+  secret = getJwtSecret(),
+  now = Date.now()
+): Promise<string> {
+  return signJwt(
+    { typ: 'stream', sub: binding.userId, sid: binding.streamId, pdf: binding.pdfId || '', jti: crypto.randomUUID() },
+    secret,
+    STREAM_TICKET_TTL_SECONDS,
+    now
+  );
+}
+
+/**
+ * Verify a stream ticket and that it was minted for this stream.
+ * Single use is enforced by the caller, which records the jti.
+ */
+export async function verifyStreamTicket(
+  ticket: string,
+  streamId: string,
+  secret = getJwtSecret(),
+  now = Date.now()
+): Promise<StreamTicketClaims | null> {
+  const claims = await verifyJwt<StreamTicketClaims>(ticket, secret, now);
+  if (!claims || claims.typ !== 'stream' || claims.sid !== streamId) return null;
+  if (typeof claims.sub !== 'string' || !claims.sub || typeof claims.jti !== 'string' || typeof claims.exp !== 'number') return null;
+  return claims;
+}
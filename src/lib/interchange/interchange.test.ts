@@ -0,0 +1,137 @@
+import { InterchangeAnnotation, InterchangeFormatError, PageBox } from './types';
+import { fromWebAnnotations, toWebAnnotations } from './webAnnotation';
+import { fromXfdf, toXfdf } from './xfdf';
+import { parseXml } from './xml';
+
+const items: InterchangeAnnotation[] = [
+  {
+    annotation: { type: 'highlight', page: 1, x: 72, y: 100, width: 180, height: 12, color: 'rgba(255, 255, 0, 0.3)', importance: 'high', text: 'Key idea', isAutomatic: true },
+    chatMessageId: 'message-1',
+  },
+  { annotation: { type: 'underline', page: 1, x: 72, y: 127, width: 48, height: 5, color: '#0000ff', isAutomatic: false } },
+  { annotation: { type: 'rectangle', page: 2, x: 40, y: 60, width: 120, height: 80, color: '#ff0000', isAutomatic: false } },
+  { annotation: { type: 'circle', page: 2, x: 200, y: 200, radius: 30, color: '#00ff00', importance: 'low', isAutomatic: false } },
+  { annotation: { type: 'arrow', page: 2, x: 300, y: 300, width: -50, height: 40, color: '#ff00ff', isAutomatic: false } },
+  { annotation: { type: 'freeform', page: 1, x: 10, y: 10, width: 30, height: 30, color: '#0000ff', text: '[[10,10],[25,40],[40,20]]', isAutomatic: false } },
+  { annotation: { type: 'text', page: 1, x: 300, y: 400, width: 150, text: 'Ask about <this> & that', color: '#333333', isAutomatic: false } },
+];
+
+// A cropped first page checks that geometry is measured from the crop box
+const pages: PageBox[] = [{ x: 20, y: 10, width: 560, height: 750 }, { x: 0, y: 0, width: 612, height: 792 }];
+
+describe('Web Annotation round trip', () => {
+  test('should keep type, page, geometry, color, importance, text and chat message', () => {
+    const document = JSON.parse(JSON.stringify(toWebAnnotations(items, { source: 'https://example.com/notes.pdf' })));
+    const parsed = fromWebAnnotations(document);
+
+    expect(parsed.skipped).toBe(0);
+    expect(parsed.annotations).toEqual(items);
+  });
+
+  test('should write a FragmentSelector and a TextQuoteSelector for marked text', () => {
+    const document = toWebAnnotations(items.slice(0, 1), {
+      source: 'https://example.com/notes.pdf',
+      quoteFor: () => 'Entropy always increases',
+    });
+
+    expect(document.first.items[0]).toMatchObject({
+      type: 'Annotation',
+      motivation: 'highlighting',
+      target: {
+        source: 'https://example.com/notes.pdf',
+        selector: [
+          { type: 'FragmentSelector', conformsTo: 'http://tools.ietf.org/rfc/rfc3778', value: 'page=1&viewrect=72,100,180,12' },
+          { type: 'TextQuoteSelector', exact: 'Entropy always increases' },
+        ],
+      },
+    });
+  });
+
+  test('should anchor a quote-only highlight from another tool by its text', () => {
+    const parsed = fromWebAnnotations({
+      type: 'Annotation',
+      body: 'Exam topic',
+      target: {
+        source: 'https://example.com/notes.pdf',
+        selector: [
+          { type: 'FragmentSelector', value: 'page=3' },
+          { type: 'TextQuoteSelector', exact: 'isolated system' },
+        ],
+      },
+    });
+
+    expect(parsed.annotations).toEqual([{
+      annotation: { type: 'highlight', page: 3, x: 0, y: 0, width: 0, height: 0, text: 'Exam topic', isAutomatic: false, anchor: { quote: 'isolated system', start: 0, end: 0 } },
+    }]);
+  });
+
+  test('should skip entries without a page and refuse documents that are not annotations', () => {
+    expect(fromWebAnnotations([{ type: 'Annotation', target: 'https://example.com/notes.pdf' }])).toEqual({ annotations: [], skipped: 1 });
+    const document = toWebAnnotations(items, { source: 'https://example.com/notes.pdf' });
+    expect(fromWebAnnotations(document, 1).skipped).toBe(3); // the three marks on page 2
+    expect(() => fromWebAnnotations({ type: 'Person' })).toThrow(InterchangeFormatError);
+  });
+});
+
+describe('XFDF round trip', () => {
+  test('should keep type, page, geometry, color, importance, text and chat message', () => {
+    const parsed = fromXfdf(toXfdf(items, pages, { filename: 'notes.pdf' }), pages);
+
+    expect(parsed.skipped).toBe(0);
+    expect(parsed.annotations).toEqual(items);
+  });
+
+  test('should write geometry in PDF space against the crop box', () => {
+    const root = parseXml(toXfdf(items.slice(2, 3), pages));
+    const square = root.children.find(c => c.name === 'annots')!.children[0];
+
+    expect(square.name).toBe('square');
+    expect(square.attributes).toMatchObject({ page: '1', rect: '40,652,160,732', color: '#ff0000', 'sf:color': '#ff0000' });
+  });
+
+  test('should read another reader\'s markup and skip what it cannot place', () => {
+    const xfdf = `<?xml version="1.0" encoding="UTF-8"?>
+      <xfdf xmlns="http://ns.adobe.com/xfdf/">
+        <annots>
+          <highlight page="0" rect="100,650,300,700" color="#FFFF00" coords="100,700,300,700,100,688,300,688"><contents>Exam &amp; quiz</contents></highlight>
+          <freetext page="0" rect="100,500,300,540"><contents>Note</contents><defaultappearance>0 0 1 rg /Helv 12 Tf</defaultappearance></freetext>
+          <stamp page="0" rect="0,0,10,10"/>
+          <square page="7" rect="0,0,10,10"/>
+        </annots>
+      </xfdf>`;
+
+    expect(fromXfdf(xfdf, [{ x: 0, y: 0, width: 600, height: 800 }])).toEqual({
+      annotations: [
+        { annotation: { type: 'highlight', page: 1, x: 100, y: 100, width: 200, height: 12, color: 'rgba(255, 255, 0, 0.3)', text: 'Exam & quiz', isAutomatic: false } },
+        { annotation: { type: 'text', page: 1, x: 100, y: 260, width: 200, color: '#0000ff', text: 'Note', isAutomatic: false } },
+      ],
+      skipped: 2,
+    });
+  });
+});
+
+describe('parseXml', () => {
+  test('should read attributes, entities, CDATA and skip comments', () => {
+    const root = parseXml('<?xml version="1.0"?><!-- note --><a x=\'1 &lt; 2\'><b>&#x41;<![CDATA[<raw>]]></b><c/></a>');
+
+    expect(root).toEqual({
+      name: 'a',
+      attributes: { x: '1 < 2' },
+      text: '',
+      children: [
+        { name: 'b', attributes: {}, text: 'A<raw>', children: [] },
+        { name: 'c', attributes: {}, text: '', children: [] },
+      ],
+    });
+  });
+
+  test('should reject mismatched and unclosed tags', () => {
+    expect(() => parseXml('<a><b></a>')).toThrow(InterchangeFormatError);
+    expect(() => parseXml('<a>')).toThrow(InterchangeFormatError);
+  });
+
+  test('should reject character references outside Unicode', () => {
+    expect(() => parseXml('<a>&#x110000;</a>')).toThrow(InterchangeFormatError);
+    expect(() => parseXml('<a x="&#99999999999;"/>')).toThrow(InterchangeFormatError);
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Annotation import and export in standard formats, for moving notes to and from other readers
+ */
+
+import { PDFDocument } from 'pdf-lib';
+import { annotationService } from '@/lib/annotationService';
+import { chatMessageService } from '@/lib/chatMessageService';
+import { pdfPageService } from '@/lib/pdfPageService';
+import { markedArea } from '@/lib/studentAnnotations';
+import { textInRect } from '@/lib/textAnchor';
+import { Annotation } from '@/types/types';
+import { InterchangeAnnotation, InterchangeFormat, InterchangeFormatError, PageBox, ParsedInterchange } from './types';
+import { WEB_ANNOTATION_MEDIA_TYPE, fromWebAnnotations, toWebAnnotations } from './webAnnotation';
+import { XFDF_MEDIA_TYPE, fromXfdf, toXfdf } from './xfdf';
+
+export const INTERCHANGE_FORMATS: InterchangeFormat[] = ['w3c', 'xfdf'];
+
+interface ExportParams {
+  pdf: { id: string; title: string };
+  format: InterchangeFormat;
+  source: string; // absolute URL of the PDF file
+  file: Buffer | null; // the PDF bytes; XFDF needs the page boxes
+}
+
+interface ImportParams {
+  pdfId: string;
+  userId: string;
+  body: string;
+  format?: InterchangeFormat;
+  file: Buffer | null;
+}
+
+/**
+ * Each page's crop box, first page first
+ */
+export async function readPageBoxes(file: Buffer): Promise<PageBox[]> {
+  const doc = await PDFDocument.load(file, { updateMetadata: false });
+  return doc.getPages().map(page => page.getCropBox());
+}
+
+/**
+ * The format of an uploaded document from its first character
+ */
+export function detectFormat(body: string): InterchangeFormat | null {
+  const start = body.trimStart()[0];
+  if (start === '<') return 'xfdf';
+  if (start === '{' || start === '[') return 'w3c';
+  return null;
+}
+
+export const interchangeService = {
+  /**
+   * Every annotation on a PDF as a downloadable document
+   */
+  async export({ pdf, format, source, file }: ExportParams): Promise<{ body: string; contentType: string; filename: string }> {
+    const annotations = await annotationService.getByPdfId(pdf.id);
+    const items: InterchangeAnnotation[] = annotations.map(annotation => ({
+      annotation: annotationService.toClientAnnotation(annotation) as InterchangeAnnotation['annotation'],
+      ...(annotation.chatMessageId ? { chatMessageId: annotation.chatMessageId } : {}),
+    }));
+    const basename = pdf.title.replace(/\.pdf$/i, '').replace(/[^a-zA-Z0-9._-]/g, '_');
+
+    if (format === 'xfdf') {
+      if (!file) throw new InterchangeFormatError('XFDF export needs the PDF file');
+      return {
+        body: toXfdf(items, await readPageBoxes(file), { filename: pdf.title }),
+        contentType: XFDF_MEDIA_TYPE,
+        filename: `${basename}.xfdf`,
+      };
+    }
+
+    // Quote the text under each mark so other tools can anchor it to their own rendering
+    const geometry = await pdfPageService.getGeometry(pdf.id, Array.from(new Set(items.map(item => item.annotation.page))));
+    const quoteFor = (annotation: Annotation) => {
+      if (annotation.anchor?.quote) return annotation.anchor.quote;
+      const area = markedArea(annotation);
+      const pageGeometry = annotation.page ? geometry[annotation.page] : undefined;
+      return area && pageGeometry ? textInRect(pageGeometry, area) || undefined : undefined;
+    };
+
+    return {
+      body: JSON.stringify(toWebAnnotations(items, { source, label: pdf.title, quoteFor }), null, 2),
+      contentType: WEB_ANNOTATION_MEDIA_TYPE,
+      filename: `${basename}.jsonld`,
+    };
+  },
+
+  /**
+   * Add the annotations in a document to a PDF. Links to chat messages that are not this user's
+   * messages about this PDF are dropped, so the annotation is kept as the student's own.
+   */
+  async import({ pdfId, userId, body, format, file }: ImportParams): Promise<{ created: number; skipped: number }> {
+    const detected = format || detectFormat(body);
+    if (!detected) throw new InterchangeFormatError('Expected a Web Annotation JSON-LD or XFDF document');
+
+    let parsed: ParsedInterchange;
+    if (detected === 'xfdf') {
+      if (!file) throw new InterchangeFormatError('XFDF import needs the PDF file');
+      parsed = fromXfdf(body, await readPageBoxes(file));
+    } else {
+      let json: unknown;
+      try {
+        json = JSON.parse(body);
+      } catch {
+        throw new InterchangeFormatError('The document is not valid JSON');
+      }
+      parsed = fromWebAnnotations(json, file ? (await readPageBoxes(file)).length : undefined);
+    }
+    if (parsed.annotations.length === 0) return { created: 0, skipped: parsed.skipped };
+
+    const linked = parsed.annotations.map(item => item.chatMessageId).filter((id): id is string => !!id);
+    const ownedMessages = await chatMessageService.findOwnedIds(Array.from(new Set(linked)), pdfId, userId);
+
+    const records = parsed.annotations.map(({ annotation, chatMessageId }, index) => {
+      const messageId = chatMessageId && ownedMessages.has(chatMessageId) ? chatMessageId : undefined;
+      return {
+        ...annotationService.fromClientAnnotation(annotation, pdfId, messageId, messageId ? undefined : userId),
+        isAutomatic: !!messageId,
+        sequence: index,
+      };
+    });
+
+    // Like annotations found in an uploaded PDF, an import is not an edit to undo
+    const created = await annotationService.createMany(records, { logOperations: false });
+    if (parsed.annotations.some(({ annotation }) => annotation.anchor?.quote)) {
+      await annotationService.reanchor(pdfId);
+    }
+
+    return { created: created.length, skipped: parsed.skipped };
+  },
+};
@@ -0,0 +1,42 @@
+/**
+ * Shared types for exchanging annotations with other tools
+ */
+
+import { Annotation } from '@/types/types';
+
+export type InterchangeFormat = 'w3c' | 'xfdf';
+
+// An annotation with the chat message that created it, if any
+export interface InterchangeAnnotation {
+  annotation: Annotation & { page: number };
+  chatMessageId?: string;
+}
+
+export interface ParsedInterchange {
+  annotations: InterchangeAnnotation[];
+  skipped: number; // entries that could not be mapped to an annotation the viewer can draw
+}
+
+// A page's crop box in PDF user space (bottom-left origin), for formats that use it
+export interface PageBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Names this app's own terms (exact shape, CSS color, importance, chat message) in both formats
+export const ANNOTATION_NAMESPACE = 'tag:studyfetch.com,2024:annotation#';
+
+// More than any study session produces; guards the database against oversized imports
+export const MAX_INTERCHANGE_ANNOTATIONS = 5000;
+
+/**
+ * Thrown when a document is not valid JSON-LD / XFDF at all (individual bad entries are skipped instead)
+ */
+export class InterchangeFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InterchangeFormatError';
+  }
+}
@@ -0,0 +1,262 @@
+/**
+ * W3C Web Annotation (JSON-LD) export and import
+ * Targets carry a FragmentSelector (RFC 3778 page and viewrect, in the viewer's top-left points)
+ * and, for marked text, a TextQuoteSelector. Color travels as a CSS stylesheet; the exact shape,
+ * importance and originating chat message use this app's own terms.
+ */
+
+import { Annotation } from '@/types/types';
+import { STICKY_NOTE_WIDTH, strokeToAnnotation } from '@/lib/drawingTools';
+import {
+  ANNOTATION_NAMESPACE,
+  InterchangeAnnotation,
+  InterchangeFormatError,
+  MAX_INTERCHANGE_ANNOTATIONS,
+  ParsedInterchange,
+} from './types';
+
+export const WEB_ANNOTATION_CONTEXT = [
+  'http://www.w3.org/ns/anno.jsonld',
+  {
+    sf: ANNOTATION_NAMESPACE,
+    annotationType: 'sf:annotationType',
+    points: 'sf:points', // 'x,y x,y ...' for pen strokes, and an arrow's start and end
+    importance: 'sf:importance',
+    chatMessage: 'sf:chatMessage',
+  },
+];
+
+export const WEB_ANNOTATION_MEDIA_TYPE = 'application/ld+json; profile="http://www.w3.org/ns/anno.jsonld"';
+
+const PDF_FRAGMENT_SPEC = 'http://tools.ietf.org/rfc/rfc3778';
+const STYLE_CLASS = 'annotation-color';
+const ANNOTATION_TYPES: Annotation['type'][] = ['highlight', 'circle', 'underline', 'arrow', 'text', 'rectangle', 'freeform'];
+const IMPORTANCE_LEVELS = ['low', 'medium', 'high'];
+
+export interface WebAnnotationExportOptions {
+  source: string; // IRI of the PDF the annotations target
+  label?: string;
+  quoteFor?: (annotation: Annotation) => string | undefined; // the text an annotation marks, if known
+}
+
+type Point = [number, number];
+
+// The rectangle an annotation covers, as RFC 3778 viewrect (left, top, width, height)
+function viewRect(annotation: Annotation): [number, number, number, number] {
+  switch (annotation.type) {
+    case 'circle': {
+      const diameter = (annotation.radius || 0) * 2;
+      return [annotation.x, annotation.y, diameter, diameter];
+    }
+    case 'arrow': {
+      const endX = annotation.x + (annotation.width || 0);
+      const endY = annotation.y + (annotation.height || 0);
+      return [Math.min(annotation.x, endX), Math.min(annotation.y, endY), Math.abs(endX - annotation.x), Math.abs(endY - annotation.y)];
+    }
+    default:
+      return [annotation.x, annotation.y, annotation.width || 0, annotation.height || 0];
+  }
+}
+
+function shapePoints(annotation: Annotation): Point[] | undefined {
+  if (annotation.type === 'arrow') {
+    return [[annotation.x, annotation.y], [annotation.x + (annotation.width || 0), annotation.y + (annotation.height || 0)]];
+  }
+  if (annotation.type === 'freeform') {
+    try {
+      const points = JSON.parse(annotation.text || '[]');
+      return Array.isArray(points) ? points : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+  return undefined;
+}
+
+function toWebAnnotation({ annotation, chatMessageId }: InterchangeAnnotation, options: WebAnnotationExportOptions) {
+  const selectors: Record<string, any>[] = [
+    { type: 'FragmentSelector', conformsTo: PDF_FRAGMENT_SPEC, value: `page=${annotation.page}&viewrect=${viewRect(annotation).join(',')}` },
+  ];
+  const quote = options.quoteFor?.(annotation);
+  if (quote) selectors.push({ type: 'TextQuoteSelector', exact: quote });
+
+  // Pen strokes keep their points in text
+  const note = annotation.type === 'freeform' ? undefined : annotation.text;
+  const points = shapePoints(annotation);
+
+  return {
+    ...(annotation.id ? { id: `urn:uuid:${annotation.id}` } : {}),
+    type: 'Annotation',
+    motivation: annotation.type === 'text' ? 'commenting' : 'highlighting',
+    ...(note ? { body: { type: 'TextualBody', value: note, format: 'text/plain', purpose: 'commenting' } } : {}),
+    target: {
+      source: options.source,
+      // Several selectors on one target are alternatives describing the same segment
+      selector: selectors.length === 1 ? selectors[0] : selectors,
+      ...(annotation.color ? { styleClass: STYLE_CLASS } : {}),
+    },
+    ...(annotation.color ? { stylesheet: { type: 'CssStylesheet', value: `.${STYLE_CLASS} { color: ${annotation.color}; }` } } : {}),
+    annotationType: annotation.type,
+    ...(points ? { points: points.map(point => point.join(',')).join(' ') } : {}),
+    ...(annotation.importance ? { importance: annotation.importance } : {}),
+    ...(chatMessageId ? { chatMessage: chatMessageId } : {}),
+  };
+}
+
+/**
+ * An AnnotationCollection holding every annotation on one page of results
+ */
+export function toWebAnnotations(items: InterchangeAnnotation[], options: WebAnnotationExportOptions) {
+  return {
+    '@context': WEB_ANNOTATION_CONTEXT,
+    type: 'AnnotationCollection',
+    ...(options.label ? { label: options.label } : {}),
+    total: items.length,
+    first: {
+      type: 'AnnotationPage',
+      startIndex: 0,
+      items: items.map(item => toWebAnnotation(item, options)),
+    },
+  };
+}
+
+const asArray = (value: unknown): any[] => (value === undefined || value === null ? [] : Array.isArray(value) ? value : [value]);
+
+function parsePoints(value: unknown): Point[] | undefined {
+  if (typeof value !== 'string') return undefined;
+  const points = value.trim().split(/\s+/).map(pair => pair.split(',').map(Number));
+  return points.every(point => point.length === 2 && point.every(Number.isFinite)) ? points as Point[] : undefined;
+}
+
+function bodyText(item: Record<string, any>): string | undefined {
+  if (typeof item.bodyValue === 'string') return item.bodyValue;
+  const body = asArray(item.body).find(b => typeof b === 'string' || (b?.type === 'TextualBody' && typeof b.value === 'string'));
+  return typeof body === 'string' ? body : body?.value;
+}
+
+function stylesheetColor(item: Record<string, any>): string | undefined {
+  const css = typeof item.stylesheet?.value === 'string' ? item.stylesheet.value : undefined;
+  return css ? /color:\s*([^;}]+)/.exec(css)?.[1].trim() : undefined;
+}
+
+/**
+ * One Web Annotation to an annotation, or null if it has no page (of the PDF's pageCount, when known)
+ * or nothing the viewer can draw
+ */
+function fromWebAnnotation(item: unknown, pageCount?: number): InterchangeAnnotation | null {
+  if (!item || typeof item !== 'object') return null;
+  const annotation = item as Record<string, any>;
+  const target = asArray(annotation.target)[0];
+  if (!target || typeof target !== 'object') return null;
+
+  const selectors = asArray(target.selector);
+  const fragment = selectors.find(s => s?.type === 'FragmentSelector' && typeof s.value === 'string');
+  const quote: string | undefined = selectors.find(s => s?.type === 'TextQuoteSelector' && typeof s.exact === 'string')?.exact;
+  const params = new URLSearchParams((fragment?.value || '').replace(/^#/, ''));
+  const page = Number(params.get('page'));
+  if (!Number.isInteger(page) || page < 1 || (pageCount !== undefined && page > pageCount)) return null;
+
+  const rect = params.get('viewrect')?.split(',').map(Number);
+  const box = rect && rect.length === 4 && rect.every(Number.isFinite)
+    ? { x: Math.round(rect[0]), y: Math.round(rect[1]), width: Math.round(rect[2]), height: Math.round(rect[3]) }
+    : null;
+  // Zero sizes in the viewrect stand for sizes the annotation did not have (e.g. a note's height)
+  const sized = box && {
+    x: box.x,
+    y: box.y,
+    ...(box.width ? { width: box.width } : {}),
+    ...(box.height ? { height: box.height } : {}),
+  };
+
+  const text = bodyText(annotation);
+  const type: Annotation['type'] = ANNOTATION_TYPES.includes(annotation.annotationType)
+    ? annotation.annotationType
+    : annotation.motivation === 'commenting' && !quote ? 'text' : 'highlight';
+  const points = parsePoints(annotation.points);
+  const chatMessageId = typeof annotation.chatMessage === 'string' ? annotation.chatMessage : undefined;
+  const color = stylesheetColor(annotation);
+
+  const base = {
+    page,
+    isAutomatic: !!chatMessageId,
+    ...(color ? { color } : {}),
+    ...(IMPORTANCE_LEVELS.includes(annotation.importance) ? { importance: annotation.importance } : {}),
+  };
+  const withText = text ? { ...base, text } : base;
+
+  let result: Annotation | null = null;
+  switch (type) {
+    case 'highlight':
+    case 'rectangle':
+    case 'underline':
+      if (sized) {
+        result = { ...withText, type, ...sized };
+      } else if (quote && type === 'highlight') {
+        // Placed once the quote is found on the page (see annotationService.reanchor)
+        result = { ...withText, type, x: 0, y: 0, width: 0, height: 0, text: text || quote, anchor: { quote, start: 0, end: 0 } };
+      }
+      break;
+    case 'circle':
+      if (box && (box.width || box.height)) {
+        const radius = Math.round(Math.max(box.width, box.height) / 2);
+        result = { ...withText, type, x: Math.round(box.x + box.width / 2) - radius, y: Math.round(box.y + box.height / 2) - radius, radius };
+      }
+      break;
+    case 'arrow':
+      if (points && points.length === 2) {
+        const [[x, y], [endX, endY]] = points.map(([px, py]) => [Math.round(px), Math.round(py)]);
+        result = { ...withText, type, x, y, width: endX - x, height: endY - y };
+      } else if (sized) {
+        result = { ...withText, type, ...sized };
+      }
+      break;
+    case 'freeform':
+      if (points) {
+        const stroke = strokeToAnnotation(points.map(([x, y]) => ({ x, y })), page, color || '');
+        if (stroke) result = { ...stroke, ...base, color };
+      }
+      break;
+    case 'text':
+      if (text && sized) {
+        result = { ...withText, type, width: STICKY_NOTE_WIDTH, ...sized };
+      }
+      break;
+  }
+
+  if (!result) return null;
+  return { annotation: result as InterchangeAnnotation['annotation'], ...(chatMessageId ? { chatMessageId } : {}) };
+}
+
+/**
+ * Read an AnnotationCollection, AnnotationPage, single Annotation or array of annotations.
+ * Collections must be embedded (first.items); paged collections by reference are not fetched.
+ * Annotations on pages past pageCount count as skipped.
+ */
+export function fromWebAnnotations(json: unknown, pageCount?: number): ParsedInterchange {
+  if (!json || typeof json !== 'object') {
+    throw new InterchangeFormatError('Expected a Web Annotation JSON-LD document');
+  }
+
+  const document = json as Record<string, any>;
+  let items: unknown[];
+  if (Array.isArray(json)) {
+    items = json;
+  } else if (document.type === 'AnnotationCollection') {
+    items = asArray(document.first?.items);
+  } else if (document.type === 'AnnotationPage') {
+    items = asArray(document.items);
+  } else if (document.type === 'Annotation') {
+    items = [document];
+  } else {
+    throw new InterchangeFormatError('Expected an AnnotationCollection, AnnotationPage or Annotation');
+  }
+
+  const annotations: InterchangeAnnotation[] = [];
+  let skipped = 0;
+  for (const item of items.slice(0, MAX_INTERCHANGE_ANNOTATIONS)) {
+    const parsed = fromWebAnnotation(item, pageCount);
+    if (parsed) annotations.push(parsed);
+    else skipped++;
+  }
+  return { annotations, skipped: skipped + Math.max(0, items.length - MAX_INTERCHANGE_ANNOTATIONS) };
+}
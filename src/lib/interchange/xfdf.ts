@@ -0,0 +1,307 @@
+/**
+ * XFDF (ISO 19444-1) export and import
+ * Geometry is written in PDF user space (bottom-left origin) against each page's crop box, the
+ * way Acrobat and other readers expect it. The CSS color, importance and originating chat
+ * message ride along as attributes in this app's namespace so a round trip loses nothing.
+ */
+
+import { Annotation } from '@/types/types';
+import { DEFAULT_TOOL_COLOR, STICKY_NOTE_WIDTH, strokeToAnnotation, withAlpha } from '@/lib/drawingTools';
+import { appearanceColor, topLeftBox } from '@/lib/pdfAnnotationImport';
+import { parseColor } from '@/lib/pdfExport';
+import {
+  ANNOTATION_NAMESPACE,
+  InterchangeAnnotation,
+  InterchangeFormatError,
+  MAX_INTERCHANGE_ANNOTATIONS,
+  PageBox,
+  ParsedInterchange,
+} from './types';
+import { XmlElement, escapeXml, parseXml } from './xml';
+
+export const XFDF_NAMESPACE = 'http://ns.adobe.com/xfdf/';
+export const XFDF_MEDIA_TYPE = 'application/vnd.adobe.xfdf';
+
+// XFDF notes need a height; the viewer sizes notes to their text, so this is only what other readers show
+const NOTE_HEIGHT = 60;
+const UNDERLINE_HEIGHT = 5;
+const IMPORTANCE_LEVELS = ['low', 'medium', 'high'];
+
+type Point = [number, number];
+
+const format = (value: number) => String(Math.round(value * 100) / 100);
+
+const toHex = (channel: number) => Math.round(channel * 255).toString(16).padStart(2, '0');
+
+function attributes(values: Record<string, string | undefined>): string {
+  return Object.entries(values)
+    .filter(([, value]) => value !== undefined)
+    .map(([name, value]) => ` ${name}="${escapeXml(value!)}"`)
+    .join('');
+}
+
+function element(name: string, attrs: Record<string, string | undefined>, children: string[] = []): string {
+  return children.length
+    ? `<${name}${attributes(attrs)}>${children.join('')}</${name}>`
+    : `<${name}${attributes(attrs)}/>`;
+}
+
+// Top-left page points to PDF user space
+function toPdf(box: PageBox, x: number, y: number): Point {
+  return [box.x + x, box.y + box.height - y];
+}
+
+function rectAttribute(box: PageBox, x: number, y: number, width: number, height: number): string {
+  const [left, top] = toPdf(box, x, y);
+  return [left, top - height, left + width, top].map(format).join(',');
+}
+
+function points(annotation: Annotation): Point[] | undefined {
+  try {
+    const parsed = JSON.parse(annotation.text || '[]');
+    return Array.isArray(parsed) && parsed.length ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * One annotation as an XFDF element, or null when the annotation has nothing to draw
+ */
+function toXfdfElement({ annotation, chatMessageId }: InterchangeAnnotation, box: PageBox): string | null {
+  const { x, y } = annotation;
+  const width = annotation.width || 0;
+  const height = annotation.height || 0;
+  const color = parseColor(annotation.color, DEFAULT_TOOL_COLOR);
+  const note = annotation.type === 'freeform' ? undefined : annotation.text;
+  const common = {
+    page: String(annotation.page - 1),
+    ...(annotation.id ? { name: annotation.id } : {}),
+    color: `#${toHex(color.r)}${toHex(color.g)}${toHex(color.b)}`,
+    ...(color.alpha < 1 ? { opacity: format(color.alpha) } : {}),
+    flags: 'print',
+    'sf:color': annotation.color,
+    'sf:importance': annotation.importance,
+    'sf:chat-message': chatMessageId,
+  };
+  const contents = note && annotation.type !== 'text' ? [`<contents>${escapeXml(note)}</contents>`] : [];
+
+  switch (annotation.type) {
+    case 'highlight':
+    case 'underline': {
+      const lineHeight = annotation.type === 'underline' ? height || UNDERLINE_HEIGHT : height;
+      if (!width || !lineHeight) return null;
+      const [left, top] = toPdf(box, x, y);
+      const coords = [left, top, left + width, top, left, top - lineHeight, left + width, top - lineHeight].map(format).join(',');
+      return element(annotation.type, { ...common, rect: rectAttribute(box, x, y, width, lineHeight), coords }, contents);
+    }
+    case 'rectangle':
+      if (!width || !height) return null;
+      return element('square', { ...common, rect: rectAttribute(box, x, y, width, height), width: '2' }, contents);
+    case 'circle': {
+      const diameter = (annotation.radius || 0) * 2;
+      if (!diameter) return null;
+      return element('circle', { ...common, rect: rectAttribute(box, x, y, diameter, diameter), width: '2' }, contents);
+    }
+    case 'arrow': {
+      const start = toPdf(box, x, y);
+      const end = toPdf(box, x + width, y + height);
+      return element('line', {
+        ...common,
+        rect: [Math.min(start[0], end[0]), Math.min(start[1], end[1]), Math.max(start[0], end[0]), Math.max(start[1], end[1])].map(format).join(','),
+        start: start.map(format).join(','),
+        end: end.map(format).join(','),
+        tail: 'OpenArrow',
+        width: '2',
+      }, contents);
+    }
+    case 'freeform': {
+      const stroke = points(annotation);
+      if (!stroke) return null;
+      const gesture = stroke.map(([px, py]) => toPdf(box, px, py).map(format).join(',')).join(';');
+      return element('ink', { ...common, rect: rectAttribute(box, x, y, width, height), width: '2' }, [
+        `<inklist><gesture>${gesture}</gesture></inklist>`,
+      ]);
+    }
+    case 'text': {
+      if (!note) return null;
+      const noteWidth = width || STICKY_NOTE_WIDTH;
+      return element('freetext', { ...common, rect: rectAttribute(box, x, y, noteWidth, height || NOTE_HEIGHT) }, [
+        `<contents>${escapeXml(note)}</contents>`,
+        `<defaultappearance>${format(color.r)} ${format(color.g)} ${format(color.b)} rg /Helv 12 Tf</defaultappearance>`,
+      ]);
+    }
+  }
+}
+
+/**
+ * An XFDF document for the annotations; pages holds each page's crop box, first page first.
+ * Annotations on pages the PDF does not have are left out.
+ */
+export function toXfdf(items: InterchangeAnnotation[], pages: PageBox[], options: { filename?: string } = {}): string {
+  const annots = items
+    .map(item => (pages[item.annotation.page - 1] ? toXfdfElement(item, pages[item.annotation.page - 1]) : null))
+    .filter((annot): annot is string => !!annot);
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<xfdf xmlns="${XFDF_NAMESPACE}" xmlns:sf="${ANNOTATION_NAMESPACE}" xml:space="preserve">`,
+    ...(options.filename ? [`<f href="${escapeXml(options.filename)}"/>`] : []),
+    `<annots>${annots.join('')}</annots>`,
+    '</xfdf>',
+    '',
+  ].join('\n');
+}
+
+function numberList(value: string | undefined, separator: RegExp = /[\s,]+/): number[] | undefined {
+  if (!value) return undefined;
+  const list = value.trim().split(separator).map(Number);
+  return list.every(Number.isFinite) ? list : undefined;
+}
+
+function child(parent: XmlElement, name: string): XmlElement | undefined {
+  return parent.children.find(c => c.name === name);
+}
+
+// Rich text contents hold XHTML; its character data is the note
+function contentsText(annot: XmlElement): string | undefined {
+  const contents = child(annot, 'contents');
+  if (contents) return contents.text.trim() || undefined;
+  const rich = child(annot, 'contents-richtext');
+  const collect = (node: XmlElement): string => node.text + node.children.map(collect).join('');
+  return rich ? collect(rich).trim() || undefined : undefined;
+}
+
+function annotColor(annot: XmlElement, isHighlight: boolean): string | undefined {
+  const own = annot.attributes['sf:color'];
+  if (own) return own;
+  const hex = /^#[0-9a-f]{6}$/i.test(annot.attributes.color || '') ? annot.attributes.color.toLowerCase() : undefined;
+  if (!hex) return undefined;
+  const opacity = Number(annot.attributes.opacity ?? (isHighlight ? 0.3 : 1));
+  return Number.isFinite(opacity) && opacity < 1 ? withAlpha(hex, opacity) : hex;
+}
+
+/**
+ * One XFDF element to annotations (a multi-line highlight gives one per line)
+ */
+function fromXfdfElement(annot: XmlElement, pages: PageBox[]): InterchangeAnnotation[] {
+  const pageIndex = Number(annot.attributes.page);
+  const crop = Number.isInteger(pageIndex) ? pages[pageIndex] : undefined;
+  const rect = numberList(annot.attributes.rect);
+  if (!crop || !rect || rect.length !== 4) return [];
+
+  const page = pageIndex + 1;
+  const chatMessageId = annot.attributes['sf:chat-message'] || undefined;
+  const importance = annot.attributes['sf:importance'];
+  const note = contentsText(annot);
+  const color = annotColor(annot, annot.name === 'highlight');
+  const base = {
+    page,
+    isAutomatic: !!chatMessageId,
+    ...(color ? { color } : {}),
+    ...(IMPORTANCE_LEVELS.includes(importance) ? { importance: importance as Annotation['importance'] } : {}),
+  };
+  const withText = note ? { ...base, text: note } : base;
+  const rectBox = topLeftBox(crop, [rect[0], rect[2]], [rect[1], rect[3]]);
+  const results: Annotation[] = [];
+
+  switch (annot.name) {
+    case 'highlight':
+    case 'underline': {
+      const coords = numberList(annot.attributes.coords);
+      const boxes = coords && coords.length >= 8 && coords.length % 8 === 0
+        ? Array.from({ length: coords.length / 8 }, (_, i) => {
+          const quad = coords.slice(i * 8, i * 8 + 8);
+          return topLeftBox(crop, [quad[0], quad[2], quad[4], quad[6]], [quad[1], quad[3], quad[5], quad[7]]);
+        })
+        : [rectBox];
+      boxes
+        .filter(box => box.width > 0 && box.height > 0)
+        .forEach(box => results.push({ ...withText, type: annot.name as 'highlight' | 'underline', ...box }));
+      break;
+    }
+    case 'square':
+      if (rectBox.width && rectBox.height) results.push({ ...withText, type: 'rectangle', ...rectBox });
+      break;
+    case 'circle': {
+      const radius = Math.round(Math.max(rectBox.width, rectBox.height) / 2);
+      if (radius) {
+        results.push({
+          ...withText,
+          type: 'circle',
+          x: Math.round(rectBox.x + rectBox.width / 2) - radius,
+          y: Math.round(rectBox.y + rectBox.height / 2) - radius,
+          radius,
+        });
+      }
+      break;
+    }
+    case 'line': {
+      const start = numberList(annot.attributes.start);
+      const end = numberList(annot.attributes.end);
+      if (!start || !end || start.length !== 2 || end.length !== 2) break;
+      const from = topLeftBox(crop, [start[0]], [start[1]]);
+      const to = topLeftBox(crop, [end[0]], [end[1]]);
+      results.push({ ...withText, type: 'arrow', x: from.x, y: from.y, width: to.x - from.x, height: to.y - from.y });
+      break;
+    }
+    case 'ink': {
+      // Pen strokes keep their points in text, so the stroke's note is not carried over
+      const gestures = child(annot, 'inklist')?.children.filter(c => c.name === 'gesture') || [];
+      for (const gesture of gestures) {
+        const stroke = gesture.text.trim().split(';').map(pair => numberList(pair, /,/)).filter(p => p?.length === 2) as number[][];
+        const annotation = strokeToAnnotation(
+          stroke.map(([px, py]) => ({ x: px - crop.x, y: crop.y + crop.height - py })),
+          page,
+          color || DEFAULT_TOOL_COLOR
+        );
+        if (annotation) results.push({ ...annotation, ...base, color: color || DEFAULT_TOOL_COLOR });
+      }
+      break;
+    }
+    case 'freetext': {
+      if (!note) break;
+      // sf:color is the note's CSS color; otherwise the text color is in the default appearance
+      const textColor = annot.attributes['sf:color'] || appearanceColor(child(annot, 'defaultappearance')?.text);
+      results.push({
+        ...withText,
+        ...(textColor ? { color: textColor } : {}),
+        type: 'text',
+        x: rectBox.x,
+        y: rectBox.y,
+        width: rectBox.width || STICKY_NOTE_WIDTH,
+      });
+      break;
+    }
+    case 'text':
+      // A sticky-note icon; the note opens where the icon sits
+      if (note) results.push({ ...base, text: note, type: 'text', x: rectBox.x, y: rectBox.y, width: STICKY_NOTE_WIDTH });
+      break;
+  }
+
+  return results.map(annotation => ({
+    annotation: annotation as InterchangeAnnotation['annotation'],
+    ...(chatMessageId ? { chatMessageId } : {}),
+  }));
+}
+
+/**
+ * Read an XFDF document against the target PDF's crop boxes (first page first).
+ * Elements on pages the PDF does not have, and kinds the viewer cannot draw, count as skipped.
+ */
+export function fromXfdf(xml: string, pages: PageBox[]): ParsedInterchange {
+  const root = parseXml(xml);
+  if (root.name !== 'xfdf') {
+    throw new InterchangeFormatError(`Expected an <xfdf> document, got <${root.name}>`);
+  }
+
+  const elements = child(root, 'annots')?.children || [];
+  const annotations: InterchangeAnnotation[] = [];
+  let skipped = 0;
+  for (const annot of elements.slice(0, MAX_INTERCHANGE_ANNOTATIONS)) {
+    const parsed = fromXfdfElement(annot, pages);
+    if (parsed.length) annotations.push(...parsed);
+    else skipped++;
+  }
+  return { annotations, skipped: skipped + Math.max(0, elements.length - MAX_INTERCHANGE_ANNOTATIONS) };
+}
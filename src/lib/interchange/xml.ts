@@ -0,0 +1,101 @@
+/**
+ * Minimal XML reading and escaping for XFDF
+ * Elements, attributes, text, CDATA and entities; comments, processing instructions and
+ * doctypes are skipped. Namespace prefixes are kept as written (e.g. 'sf:color').
+ */
+
+import { InterchangeFormatError } from './types';
+
+export interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string; // concatenated character data directly inside the element
+}
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+const TAG = /<(\/?)([^\s/>]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/y;
+const ATTRIBUTE = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (_, entity: string) => {
+    if (entity[0] !== '#') return ENTITIES[entity.toLowerCase()];
+    const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+    if (!(code >= 0 && code <= 0x10ffff)) {
+      throw new InterchangeFormatError(`Invalid character reference &${entity};`);
+    }
+    return String.fromCodePoint(code);
+  });
+}
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function skipPast(xml: string, marker: string, from: number): number {
+  const end = xml.indexOf(marker, from);
+  if (end === -1) throw new InterchangeFormatError(`Unterminated markup at offset ${from}`);
+  return end + marker.length;
+}
+
+/**
+ * Parse a document into its root element
+ */
+export function parseXml(xml: string): XmlElement {
+  const document: XmlElement = { name: '#document', attributes: {}, children: [], text: '' };
+  const stack = [document];
+  let position = 0;
+
+  while (position < xml.length) {
+    const open = xml.indexOf('<', position);
+    const current = stack[stack.length - 1];
+    const textEnd = open === -1 ? xml.length : open;
+    if (textEnd > position) current.text += decodeEntities(xml.slice(position, textEnd));
+    if (open === -1) break;
+
+    if (xml.startsWith('<!--', open)) {
+      position = skipPast(xml, '-->', open);
+    } else if (xml.startsWith('<![CDATA[', open)) {
+      const end = skipPast(xml, ']]>', open);
+      current.text += xml.slice(open + 9, end - 3);
+      position = end;
+    } else if (xml.startsWith('<?', open) || xml.startsWith('<!', open)) {
+      position = skipPast(xml, '>', open);
+    } else {
+      TAG.lastIndex = open;
+      const tag = TAG.exec(xml);
+      if (!tag) throw new InterchangeFormatError(`Malformed tag at offset ${open}`);
+      const [whole, closing, name, rawAttributes, selfClosing] = tag;
+      position = open + whole.length;
+
+      if (closing) {
+        if (stack.length === 1 || current.name !== name) {
+          throw new InterchangeFormatError(`Unexpected </${name}> at offset ${open}`);
+        }
+        stack.pop();
+        continue;
+      }
+
+      const attributes: Record<string, string> = {};
+      for (const match of Array.from(rawAttributes.matchAll(ATTRIBUTE))) {
+        attributes[match[1]] = decodeEntities(match[2] ?? match[3]);
+      }
+      const element: XmlElement = { name, attributes, children: [], text: '' };
+      current.children.push(element);
+      if (!selfClosing) stack.push(element);
+    }
+  }
+
+  if (stack.length !== 1) {
+    throw new InterchangeFormatError(`Unclosed <${stack[stack.length - 1].name}>`);
+  }
+  if (document.children.length !== 1) {
+    throw new InterchangeFormatError('Expected a single root element');
+  }
+  return document.children[0];
+}
@@ -0,0 +1,133 @@
+/**
+ * Unit tests for copying legacy chat blobs into messages, against in-memory tables
+ */
+
+import { migrateLegacyChats } from './legacyChatMigration';
+import { unsavedMessages } from './chatUtils';
+
+const mockTables: Record<string, any[]> = { chat: [], chatMessage: [], annotation: [] };
+let mockNextId = 0;
+
+const matches = (row: any, where: any = {}) => Object.entries(where).every(([key, value]: [string, any]) =>
+  value && Array.isArray(value.in) ? value.in.includes(row[key]) : (row[key] ?? null) === value);
+
+function mockTable(name: string) {
+  const rows = () => mockTables[name];
+  return {
+    create: async ({ data }: any) => {
+      const row = { id: data.id || `${name}-${++mockNextId}`, createdAt: new Date(), ...data };
+      rows().push(row);
+      return { ...row };
+    },
+    findMany: async ({ where, take }: any) => rows()
+      .filter(row => matches(row, where))
+      .sort((a, b) => a.createdAt - b.createdAt)
+      .slice(0, take)
+      .map(row => ({ ...row })),
+    update: async ({ where, data }: any) => {
+      const row = rows().find(r => r.id === where.id);
+      Object.assign(row, data);
+      return { ...row };
+    },
+    updateMany: async ({ where, data }: any) => {
+      const found = rows().filter(row => matches(row, where));
+      found.forEach(row => Object.assign(row, data));
+      return { count: found.length };
+    },
+  };
+}
+
+jest.mock('@/lib/prisma', () => {
+  const client: any = {
+    chat: mockTable('chat'),
+    chatMessage: mockTable('chatMessage'),
+    annotation: mockTable('annotation'),
+  };
+  client.$transaction = async (work: any) => {
+    if (typeof work !== 'function') return Promise.all(work);
+    // Rolling back removes the rows the transaction created; its updates matched nothing when it gives up
+    const created: Array<[string, string]> = [];
+    const tx = Object.fromEntries(Object.keys(mockTables).map(name => [name, {
+      ...client[name],
+      create: async (args: any) => {
+        const row = await client[name].create(args);
+        created.push([name, row.id]);
+        return row;
+      },
+    }]));
+    try {
+      return await work(tx);
+    } catch (error) {
+      created.forEach(([name, id]) => mockTables[name].splice(mockTables[name].findIndex(row => row.id === id), 1));
+      throw error;
+    }
+  };
+  return client;
+});
+
+const highlight = { type: 'highlight', page: 1, x: 10, y: 20, width: 100, height: 12, color: 'yellow' };
+
+function addChat(id: string, messages: any[], annotations: any[] = [], createdAt = mockTables.chat.length * 1000) {
+  mockTables.chat.push({ id, pdfId: 'pdf-1', userId: 'user-1', sessionId: null, messages: { messages, annotations }, createdAt: new Date(createdAt), migratedAt: null });
+}
+
+describe('unsavedMessages', () => {
+  test('should keep only what the stored conversation does not end with', () => {
+    const stored = [{ role: 'user', content: 'Q1' }, { role: 'assistant', content: 'A1' }];
+
+    expect(unsavedMessages(stored, [...stored, { role: 'user', content: 'Q2' }])).toEqual([{ role: 'user', content: 'Q2' }]);
+    expect(unsavedMessages(stored, stored)).toEqual([]);
+    expect(unsavedMessages(stored, [{ role: 'user', content: 'Q1' }])).toEqual([{ role: 'user', content: 'Q1' }]);
+  });
+});
+
+describe('migrateLegacyChats', () => {
+  beforeEach(() => {
+    Object.values(mockTables).forEach(rows => rows.splice(0));
+  });
+
+  test('should not repeat messages that cumulative blobs repeat', async () => {
+    addChat('chat-1', [{ role: 'user', content: 'Q1' }, { role: 'assistant', content: 'A1' }]);
+    addChat('chat-2', [{ role: 'user', content: 'Q1' }, { role: 'assistant', content: 'A1' }, { role: 'user', content: 'Q2' }, { role: 'assistant', content: 'A2' }]);
+    addChat('chat-3', [{ role: 'user', content: 'Q3' }, { role: 'assistant', content: 'A3' }]);
+
+    const result = await migrateLegacyChats({ pdfId: 'pdf-1' });
+
+    expect(result).toEqual({ chats: 3, messages: 6, annotations: 0 });
+    expect(mockTables.chatMessage.map(m => m.content)).toEqual(['Q1', 'A1', 'Q2', 'A2', 'Q3', 'A3']);
+    expect(mockTables.chatMessage[2].chatId).toBe('chat-2');
+  });
+
+  test('should link annotations to the answer they came with, once', async () => {
+    addChat('chat-1', [{ role: 'user', content: 'Q1' }, { role: 'assistant', content: 'A1' }], [highlight]);
+    addChat('chat-2', [{ role: 'user', content: 'Q1' }, { role: 'assistant', content: 'A1' }, { role: 'user', content: 'Q2' }, { role: 'assistant', content: 'A2' }], [highlight, { ...highlight, y: 60 }]);
+
+    await migrateLegacyChats();
+
+    const answers = mockTables.chatMessage.filter(m => m.role === 'assistant');
+    expect(mockTables.annotation.map(a => [a.chatMessageId, a.y])).toEqual([[answers[0].id, 20], [answers[1].id, 60]]);
+    expect(mockTables.annotation.every(a => a.isAutomatic)).toBe(true);
+  });
+
+  test('should do nothing when run again', async () => {
+    addChat('chat-1', [{ role: 'user', content: 'Q1' }, { role: 'assistant', content: 'A1' }], [highlight]);
+    await migrateLegacyChats();
+
+    const again = await migrateLegacyChats();
+
+    expect(again).toEqual({ chats: 0, messages: 0, annotations: 0 });
+    expect(mockTables.chatMessage).toHaveLength(2);
+    expect(mockTables.annotation).toHaveLength(1);
+  });
+
+  test('should copy each row once when two runs overlap', async () => {
+    addChat('chat-1', [{ role: 'user', content: 'Q1' }, { role: 'assistant', content: 'A1' }], [highlight]);
+    addChat('chat-2', [{ role: 'user', content: 'Q1' }, { role: 'assistant', content: 'A1' }, { role: 'user', content: 'Q2' }, { role: 'assistant', content: 'A2' }]);
+
+    const [first, second] = await Promise.all([migrateLegacyChats(), migrateLegacyChats()]);
+
+    expect(first.chats + second.chats).toBe(2);
+    expect(mockTables.chatMessage.map(m => m.content)).toEqual(['Q1', 'A1', 'Q2', 'A2']);
+    expect(mockTables.annotation).toHaveLength(1);
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Legacy chat migration
+ * History used to be saved as JSON blobs in Chat.messages, one row per save, each holding either
+ * the whole conversation so far or just the latest exchange. This copies them into ChatMessage
+ * rows (annotations into Annotation rows linked by chatMessageId) without duplicating what
+ * overlapping blobs repeat. Migrated rows get migratedAt, so running it again does nothing.
+ * Each row is claimed in the transaction that copies it, so overlapping runs copy it once.
+ */
+
+import prisma from '@/lib/prisma';
+import { Annotation } from '@/types/types';
+import { chatMessageService } from '@/lib/chatMessageService';
+import { deserializeChatMessages, unsavedMessages } from '@/lib/chatUtils';
+
+const typedPrisma = prisma as any;
+
+// Thrown inside the copying transaction when another run already claimed the row, to roll it back
+class ChatAlreadyMigrated extends Error {}
+
+// Rows read per query; a user's history on one PDF is usually a handful
+const BATCH_SIZE = 100;
+
+export interface LegacyMigrationResult {
+  chats: number;
+  messages: number;
+  annotations: number;
+}
+
+interface StoredMessage {
+  id: string;
+  role: string;
+  content: string;
+}
+
+// What the history of one PDF, user and session already holds
+interface Conversation {
+  messages: StoredMessage[];
+  annotationKeys: Set<string>;
+}
+
+/**
+ * Identifies an annotation across blobs, which repeat earlier annotations when they repeat the conversation
+ */
+export function annotationKey(annotation: Pick<Annotation, 'page' | 'type' | 'x' | 'y' | 'width' | 'height' | 'radius' | 'text'>): string {
+  return [annotation.page || 1, annotation.type, annotation.x, annotation.y, annotation.width, annotation.height, annotation.radius, annotation.text]
+    .map(value => (typeof value === 'number' ? Math.round(value) : value ?? ''))
+    .join('|');
+}
+
+async function loadConversation(pdfId: string, userId: string, sessionId: string | null): Promise<Conversation> {
+  const messages = await typedPrisma.chatMessage.findMany({
+    where: { pdfId, userId, sessionId },
+    orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+    select: { id: true, role: true, content: true },
+  }) as StoredMessage[];
+  const annotations = messages.length
+    ? await typedPrisma.annotation.findMany({ where: { chatMessageId: { in: messages.map(m => m.id) } } })
+    : [];
+  return { messages, annotationKeys: new Set(annotations.map(annotationKey)) };
+}
+
+/**
+ * Migrate unmigrated Chat rows, optionally only one user's or one PDF's
+ */
+export async function migrateLegacyChats(scope: { pdfId?: string; userId?: string } = {}): Promise<LegacyMigrationResult> {
+  const result: LegacyMigrationResult = { chats: 0, messages: 0, annotations: 0 };
+  const conversations = new Map<string, Conversation>();
+
+  for (;;) {
+    const chats = await typedPrisma.chat.findMany({
+      where: { ...scope, migratedAt: null },
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+      take: BATCH_SIZE,
+    });
+    if (chats.length === 0) break;
+
+    for (const chat of chats) {
+      const key = `${chat.pdfId}|${chat.userId}|${chat.sessionId || ''}`;
+      if (!conversations.has(key)) {
+        conversations.set(key, await loadConversation(chat.pdfId, chat.userId, chat.sessionId || null));
+      }
+      const conversation = conversations.get(key)!;
+
+      let blob: any = chat.messages;
+      try {
+        if (typeof blob === 'string') blob = JSON.parse(blob);
+      } catch {
+        blob = null;
+      }
+      const legacy = deserializeChatMessages(blob)
+        .filter(m => (m.role === 'user' || m.role === 'assistant') && typeof m.content === 'string' && m.content);
+
+      // deserializeChatMessages puts a blob's annotations on its last answer; keep the ones not seen before
+      const annotationKeys = new Set(conversation.annotationKeys);
+      const annotations = legacy.flatMap(m => m.annotations || [])
+        .filter(a => a && typeof a.type === 'string' && Number.isFinite(a.x) && Number.isFinite(a.y))
+        .filter(a => {
+          const seen = annotationKeys.has(annotationKey(a));
+          annotationKeys.add(annotationKey(a));
+          return !seen;
+        });
+
+      let created: StoredMessage[] = [];
+      let attached = 0;
+      try {
+        await typedPrisma.$transaction(async (tx: any) => {
+          const claimed = await tx.chat.updateMany({ where: { id: chat.id, migratedAt: null }, data: { migratedAt: new Date() } });
+          if (claimed.count === 0) throw new ChatAlreadyMigrated();
+
+          created = await chatMessageService.appendMessages({
+            pdfId: chat.pdfId,
+            userId: chat.userId,
+            sessionId: chat.sessionId || null,
+            chatId: chat.id,
+            parentId: conversation.messages[conversation.messages.length - 1]?.id || null,
+            startAt: new Date(chat.createdAt),
+            messages: unsavedMessages(conversation.messages, legacy).map(({ role, content }) => ({ role, content })),
+          }, tx);
+
+          const answer = [...conversation.messages, ...created].reverse().find(m => m.role === 'assistant');
+          if (answer && annotations.length) {
+            await chatMessageService.attachAnnotations(answer.id, chat.pdfId, annotations, tx);
+            attached = annotations.length;
+          }
+        });
+      } catch (error) {
+        if (!(error instanceof ChatAlreadyMigrated)) throw error;
+        // Another run added to this conversation; read it again before copying its next row
+        conversations.delete(key);
+        continue;
+      }
+
+      conversation.messages.push(...created);
+      if (attached) conversation.annotationKeys = annotationKeys;
+      result.chats++;
+      result.messages += created.length;
+      result.annotations += attached;
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,99 @@
+/**
+ * Unit tests for the offline fake provider and provider selection
+ */
+
+import { FakeProvider } from './fakeProvider';
+import { createLLMProvider } from './providerFactory';
+import { LLMConfigurationError, LLMMessage } from './types';
+
+const conversation = (question: string): LLMMessage[] => [
+  { role: 'system', content: 'You are currently viewing Page 3 of 50.' },
+  { role: 'user', content: question },
+];
+
+async function collect(provider: FakeProvider, messages: LLMMessage[]) {
+  let text = '';
+  let done: any = null;
+  for await (const chunk of provider.stream({ messages })) {
+    if (chunk.type === 'content') text += chunk.content;
+    else done = chunk;
+  }
+  return { text, done };
+}
+
+describe('FakeProvider', () => {
+  test('should highlight on the current page by default', async () => {
+    const provider = new FakeProvider();
+    const result = await provider.complete({ messages: conversation('What is DMAIC?') });
+
+    expect(result.content).toContain('[HIGHLIGHT 3 80 200 400 22]');
+    expect(result.content).not.toContain('[GO TO PAGE');
+    expect(result.model).toBe('fake-tutor');
+    expect(result.usage?.totalTokens).toBeGreaterThan(0);
+  });
+
+  test('should navigate when the student names another page', async () => {
+    const provider = new FakeProvider();
+    const result = await provider.complete({ messages: conversation('Explain the chart on page 40') });
+
+    expect(result.content).toContain('[GO TO PAGE 40]');
+    expect(result.content).toContain('[HIGHLIGHT 40 80 200 400 22]');
+  });
+
+  test('should stream the same text it would complete', async () => {
+    const messages = conversation('Summarize this page');
+    const completed = await new FakeProvider().complete({ messages });
+    const streamed = await collect(new FakeProvider({ chunkSize: 5 }), messages);
+
+    expect(streamed.text).toBe(completed.content);
+    expect(streamed.done).toMatchObject({ type: 'done', model: 'fake-tutor', finishReason: 'stop' });
+  });
+
+  test('should cycle through a scripted conversation and throw scripted errors', async () => {
+    const provider = new FakeProvider({ script: ['first', new Error('boom'), 'third'] });
+    const messages = conversation('hi');
+
+    expect((await provider.complete({ messages })).content).toBe('first');
+    await expect(provider.complete({ messages })).rejects.toThrow('boom');
+    expect((await provider.complete({ messages })).content).toBe('third');
+    expect((await provider.complete({ messages })).content).toBe('first');
+    expect(provider.callCount).toBe(4);
+  });
+
+  test('should answer with tool calls only when tools are offered', async () => {
+    const provider = new FakeProvider({ supportsTools: true });
+    const messages = conversation('Explain the chart on page 40');
+    const tools = [{ name: 'navigate_to_page', description: 'Go to a page', parameters: { type: 'object' as const } }];
+
+    const withTools = await provider.complete({ messages, tools });
+    expect(withTools.content).not.toContain('[GO TO PAGE');
+    expect(withTools.toolCalls?.map(call => call.name)).toEqual(['navigate_to_page', 'highlight_text']);
+    expect(JSON.parse(withTools.toolCalls![0].arguments)).toEqual({ page: 40 });
+
+    const withoutTools = await provider.complete({ messages });
+    expect(withoutTools.content).toContain('[GO TO PAGE 40]');
+    expect(withoutTools.toolCalls).toBeUndefined();
+  });
+});
+
+describe('createLLMProvider', () => {
+  test('should select the fake provider without an API key', () => {
+    expect(createLLMProvider({ LLM_PROVIDER: 'fake' }).name).toBe('fake');
+  });
+
+  test('should require a well-formed OpenAI key', () => {
+    expect(() => createLLMProvider({})).toThrow(LLMConfigurationError);
+    expect(() => createLLMProvider({ OPENAI_API_KEY: 'not-a-key' })).toThrow('malformed');
+  });
+
+  test('should pin the configured model for OpenAI-compatible servers', () => {
+    const provider = createLLMProvider({
+      LLM_PROVIDER: 'openai-compatible',
+      LLM_BASE_URL: 'http://localhost:11434/v1',
+      LLM_MODEL: 'llama3',
+    });
+
+    expect(provider.name).toBe('openai-compatible');
+    expect(provider.resolveModel('gpt-4o')).toBe('llama3');
+  });
+});
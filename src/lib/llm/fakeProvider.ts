@@ -0,0 +1,189 @@
+/**
+ * Deterministic scripted provider for offline development and tests
+ * Emits canned tutor replies containing annotation and navigation commands - no network, no API key
+ */
+
+import { estimateTokens } from './tokenCount';
+import {
+  CompletionRequest,
+  CompletionResult,
+  LLMMessage,
+  LLMProvider,
+  StreamChunk,
+  ToolCall,
+} from './types';
+
+// A reply that also requests tool calls (only returned when the request offers tools)
+export interface FakeReply {
+  content: string;
+  toolCalls?: Array<{ name: string; arguments: Record<string, unknown> }>;
+}
+
+// A script entry is either a reply or an error to throw for that call
+export type FakeScriptEntry = string | FakeReply | Error;
+export type FakeScript = FakeScriptEntry[] | ((request: CompletionRequest, callIndex: number) => FakeScriptEntry);
+
+export interface FakeProviderOptions {
+  script?: FakeScript;
+  model?: string;
+  chunkSize?: number; // characters per streamed chunk
+  chunkDelayMs?: number;
+  supportsTools?: boolean; // answer with tool calls instead of bracket commands when tools are offered
+}
+
+/**
+ * Build the default canned reply from the prompt.
+ * Reads the current page from the system prompt and navigates when the student names another page.
+ */
+export function defaultFakeReply(request: CompletionRequest): string {
+  const plan = planFakeReply(request);
+  const parts = [plan.intro];
+
+  if (plan.targetPage !== plan.currentPage) {
+    parts.push(`The relevant material is on page ${plan.targetPage}, so let's go there. [GO TO PAGE ${plan.targetPage}]`);
+  }
+
+  parts.push(`I've highlighted the key passage for you. [HIGHLIGHT ${plan.targetPage} 80 200 400 22]`);
+  parts.push('Does that help? Try explaining it back in your own words.');
+
+  return parts.join('\n\n');
+}
+
+/**
+ * The default canned reply expressed as tool calls rather than bracket commands
+ */
+export function defaultFakeToolReply(request: CompletionRequest): FakeReply {
+  const plan = planFakeReply(request);
+  const parts = [plan.intro];
+  const toolCalls: NonNullable<FakeReply['toolCalls']> = [];
+
+  if (plan.targetPage !== plan.currentPage) {
+    parts.push(`The relevant material is on page ${plan.targetPage}, so let's go there.`);
+    toolCalls.push({ name: 'navigate_to_page', arguments: { page: plan.targetPage } });
+  }
+
+  parts.push("I've highlighted the key passage for you.");
+  toolCalls.push({
+    name: 'highlight_text',
+    arguments: { page: plan.targetPage, x: 80, y: 200, width: 400, height: 22 },
+  });
+  parts.push('Does that help? Try explaining it back in your own words.');
+
+  return { content: parts.join('\n\n'), toolCalls };
+}
+
+function planFakeReply(request: CompletionRequest) {
+  const system = request.messages.find(m => m.role === 'system')?.content || '';
+  const question = [...request.messages].reverse().find(m => m.role === 'user')?.content || '';
+
+  const pageMatch = system.match(/Page (\d+) of (\d+)/i);
+  const currentPage = pageMatch ? parseInt(pageMatch[1], 10) : 1;
+  const totalPages = pageMatch ? parseInt(pageMatch[2], 10) : currentPage;
+
+  const askedMatch = question.match(/\bpage\s+(\d+)/i);
+  const askedPage = askedMatch ? parseInt(askedMatch[1], 10) : null;
+  const targetPage = askedPage && askedPage >= 1 && askedPage <= totalPages ? askedPage : currentPage;
+
+  const quoted = question.length > 80 ? `${question.slice(0, 77)}...` : question;
+  const intro = `This is a scripted answer from the offline tutor to: "${quoted}".`;
+
+  return { currentPage, targetPage, intro };
+}
+
+export class FakeProvider implements LLMProvider {
+  readonly name = 'fake';
+  readonly defaultModel: string;
+  readonly supportsTools: boolean;
+  private script?: FakeScript;
+  private chunkSize: number;
+  private chunkDelayMs: number;
+  private calls = 0;
+
+  constructor(options: FakeProviderOptions = {}) {
+    this.script = options.script;
+    this.defaultModel = options.model || 'fake-tutor';
+    this.chunkSize = Math.max(1, options.chunkSize ?? 12);
+    this.chunkDelayMs = options.chunkDelayMs ?? 0;
+    this.supportsTools = !!options.supportsTools;
+  }
+
+  /** Number of completions served so far */
+  get callCount(): number {
+    return this.calls;
+  }
+
+  // The fake serves every request itself, whatever model a route asks for
+  resolveModel(): string {
+    return this.defaultModel;
+  }
+
+  private nextReply(request: CompletionRequest): { content: string; toolCalls: ToolCall[] } {
+    const callIndex = this.calls++;
+    const offerTools = this.supportsTools && !!request.tools?.length;
+    let entry: FakeScriptEntry;
+
+    if (typeof this.script === 'function') {
+      entry = this.script(request, callIndex);
+    } else if (Array.isArray(this.script) && this.script.length > 0) {
+      // Cycle through the script so long conversations keep working
+      entry = this.script[callIndex % this.script.length];
+    } else {
+      entry = offerTools ? defaultFakeToolReply(request) : defaultFakeReply(request);
+    }
+
+    if (entry instanceof Error) throw entry;
+    if (typeof entry === 'string') return { content: entry, toolCalls: [] };
+
+    const toolCalls = offerTools
+      ? (entry.toolCalls || []).map((call, i) => ({
+          id: `fake_call_${callIndex}_${i}`,
+          name: call.name,
+          arguments: JSON.stringify(call.arguments),
+        }))
+      : [];
+    return { content: entry.content, toolCalls };
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const { content, toolCalls } = this.nextReply(request);
+    const promptTokens = this.countTokens(request.messages);
+    const completionTokens = this.countTokens(content);
+
+    return {
+      content,
+      model: this.defaultModel,
+      finishReason: 'stop',
+      usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens },
+      ...(toolCalls.length > 0 ? { toolCalls } : {}),
+    };
+  }
+
+  async *stream(request: CompletionRequest): AsyncIterable<StreamChunk> {
+    const { content, toolCalls } = this.nextReply(request);
+
+    for (let i = 0; i < content.length; i += this.chunkSize) {
+      if (request.signal?.aborted) return;
+      if (this.chunkDelayMs > 0) {
+        await new Promise(resolve => setTimeout(resolve, this.chunkDelayMs));
+      }
+      yield { type: 'content', content: content.slice(i, i + this.chunkSize) };
+    }
+
+    for (const call of toolCalls) {
+      yield { type: 'tool_call', call };
+    }
+
+    const promptTokens = this.countTokens(request.messages);
+    const completionTokens = this.countTokens(content);
+    yield {
+      type: 'done',
+      model: this.defaultModel,
+      finishReason: 'stop',
+      usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens },
+    };
+  }
+
+  countTokens(input: string | LLMMessage[]): number {
+    return estimateTokens(input);
+  }
+}
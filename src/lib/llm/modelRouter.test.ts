@@ -0,0 +1,154 @@
+/**
+ * Unit tests for the model routing policy and fallback chain
+ */
+
+import { FakeProvider } from './fakeProvider';
+import { GenerationCancelledError, ModelChainError, StreamedAnswerOutput, completeWithFallback, loadRoutingPolicy, routeModel, routingDecision, streamWithFallback } from './modelRouter';
+import { StreamChunk } from './types';
+
+const policy = loadRoutingPolicy({});
+const request = { messages: [{ role: 'user' as const, content: 'What is entropy?' }] };
+
+describe('modelRouter', () => {
+  test('should route by budget, tier, answer style and document length in that order', () => {
+    expect(routeModel({ documentTokens: 200 }, policy)).toMatchObject({ reason: 'default', steps: [{ model: 'gpt-3.5-turbo' }, { model: 'gpt-3.5-turbo', maxTokens: 300 }] });
+    expect(routeModel({ tier: 'pro', documentTokens: 200 }, policy)).toMatchObject({ reason: 'pro tier', steps: [{ model: 'gpt-4o', maxTokens: 800 }, { model: 'gpt-3.5-turbo' }] });
+    expect(routeModel({ task: 'socratic', documentTokens: 200 }, policy).steps[0].model).toBe('gpt-4o');
+    expect(routeModel({ documentTokens: 2000 }, policy).reason).toBe('long document (2000 tokens)');
+    expect(routeModel({ tier: 'pro', task: 'socratic', documentTokens: 2000, budgetRemaining: 1200 }, policy))
+      .toMatchObject({ reason: '1200 tokens left today', steps: [{ model: 'gpt-3.5-turbo' }, { model: 'gpt-3.5-turbo' }] });
+    expect(routeModel({ documentTokens: 200, budgetRemaining: 500 }, policy).steps.map(s => s.maxTokens)).toEqual([500, 300]);
+  });
+
+  test('should treat unknown tiers as free and read model overrides from the environment', () => {
+    expect(routeModel({ tier: 'enterprise', documentTokens: 200 }, policy).reason).toBe('default');
+
+    const custom = loadRoutingPolicy({ ROUTING_FAST_MODEL: 'gpt-4o-mini\n', ROUTING_STRONG_MODEL: 'gpt-4.1', ROUTING_LONG_DOCUMENT_TOKENS: '500' });
+    expect(routeModel({ documentTokens: 600 }, custom).steps.map(s => s.model)).toEqual(['gpt-4.1', 'gpt-4o-mini']);
+  });
+
+  test('should fall back to the next model when one fails', async () => {
+    const llm = new FakeProvider({
+      script: req => (req.model === 'gpt-4o' ? new Error('rate limited') : 'Short answer.'),
+    });
+    const route = routeModel({ tier: 'pro', documentTokens: 200 }, policy);
+
+    const { result, step } = await completeWithFallback(llm, route.steps, request);
+
+    expect(result.content).toBe('Short answer.');
+    expect(step).toBe(1);
+    expect(routingDecision(route, step, 'gpt-3.5-turbo')).toEqual({ model: 'gpt-3.5-turbo', reason: 'pro tier; gpt-4o failed', fallback: 1 });
+    expect(routingDecision(route, 0)).toEqual({ model: 'gpt-4o', reason: 'pro tier' });
+  });
+
+  test('should give up with every attempt when the whole chain fails or times out', async () => {
+    const llm = new FakeProvider();
+    llm.complete = jest.fn()
+      .mockRejectedValueOnce(new Error('server error'))
+      .mockImplementationOnce(() => new Promise(() => {}));
+
+    const steps = [
+      { model: 'gpt-4o', maxTokens: 800, timeoutMs: 1000 },
+      { model: 'gpt-3.5-turbo', maxTokens: 300, timeoutMs: 10 },
+    ];
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const error = await completeWithFallback(llm, steps, request).catch(e => e);
+    warn.mockRestore();
+
+    expect(error).toBeInstanceOf(ModelChainError);
+    expect(error.attempts).toEqual([
+      { model: 'gpt-4o', error: 'server error' },
+      { model: 'gpt-3.5-turbo', error: 'gpt-3.5-turbo timed out' },
+    ]);
+  });
+
+  describe('streamWithFallback', () => {
+    const steps = [
+      { model: 'gpt-4o', maxTokens: 800, timeoutMs: 1000 },
+      { model: 'gpt-3.5-turbo', maxTokens: 300, timeoutMs: 1000 },
+    ];
+
+    // What a client would show: chunks as they come, cleared when the primary is abandoned
+    const recorder = () => {
+      const shown: string[] = [];
+      const abandoned: Array<[string, string]> = [];
+      const output: StreamedAnswerOutput = {
+        chunk: async chunk => {
+          shown.push(chunk.type === 'content' ? chunk.content : `<${chunk.call.name}>`);
+        },
+        abandon: async (model, generated) => {
+          abandoned.push([model, generated]);
+          shown.length = 0;
+        },
+      };
+      return { shown, abandoned, output };
+    };
+
+    test('should stream the primary model\'s answer', async () => {
+      const llm = new FakeProvider({ script: ['Entropy measures disorder.'], chunkSize: 8 });
+      const { shown, abandoned, output } = recorder();
+
+      const answer = await streamWithFallback(llm, steps, request, output, 1000);
+
+      expect(answer).toMatchObject({ content: 'Entropy measures disorder.', step: 0, usage: { completionTokens: expect.any(Number) } });
+      expect(shown.length).toBeGreaterThan(1);
+      expect(abandoned).toEqual([]);
+    });
+
+    test('should discard a stream that fails after its first chunk and answer with the fallback', async () => {
+      const llm = new FakeProvider({ script: ['Short answer.'] });
+      llm.stream = async function* (): AsyncGenerator<StreamChunk> {
+        yield { type: 'content', content: 'Entropy is [HIGHLIGHT:' };
+        throw new Error('connection reset');
+      };
+      const { shown, abandoned, output } = recorder();
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+      const answer = await streamWithFallback(llm, steps, request, output, 1000);
+      warn.mockRestore();
+
+      expect(abandoned).toEqual([['gpt-4o', 'Entropy is [HIGHLIGHT:']]);
+      expect(shown).toEqual(['Short answer.']);
+      expect(answer).toMatchObject({ content: 'Short answer.', step: 1 });
+    });
+
+    test('should abandon a primary that stalls after it starts, and report every failed model', async () => {
+      const llm = new FakeProvider();
+      llm.stream = async function* (): AsyncGenerator<StreamChunk> {
+        yield { type: 'content', content: 'Entropy' };
+        await new Promise(() => {});
+      };
+      llm.complete = jest.fn().mockRejectedValue(new Error('rate limited'));
+      const { abandoned, output } = recorder();
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+      const error = await streamWithFallback(llm, [{ ...steps[0], timeoutMs: 20 }, steps[1]], request, output, 1000).catch(e => e);
+      warn.mockRestore();
+
+      expect(abandoned).toEqual([['gpt-4o', 'Entropy']]);
+      expect(error).toBeInstanceOf(ModelChainError);
+      expect(error.attempts).toEqual([
+        { model: 'gpt-4o', error: 'gpt-4o timed out' },
+        { model: 'gpt-3.5-turbo', error: 'rate limited' },
+      ]);
+    });
+
+    test('should stop at once when the caller aborts, without falling back', async () => {
+      const llm = new FakeProvider();
+      llm.stream = async function* (): AsyncGenerator<StreamChunk> {
+        yield { type: 'content', content: 'Entropy' };
+        await new Promise(() => {});
+      };
+      llm.complete = jest.fn();
+      const controller = new AbortController();
+      const { abandoned, output } = recorder();
+      output.chunk = async () => controller.abort();
+
+      const error = await streamWithFallback(llm, steps, { ...request, signal: controller.signal }, output, 1000).catch(e => e);
+
+      expect(error).toBeInstanceOf(GenerationCancelledError);
+      expect(abandoned).toEqual([['gpt-4o', 'Entropy']]);
+      expect(llm.complete).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,287 @@
+/**
+ * Model routing policy
+ * Decides which model answers a question, and what to fall back to when it fails or stalls,
+ * from the user's tier, the kind of answer asked for, the document size and the token budget
+ * the user has left. Every decision carries a reason that is stored with the answer.
+ *
+ * ROUTING_FAST_MODEL / ROUTING_STRONG_MODEL override the two models (gpt-3.5-turbo and gpt-4o);
+ * ROUTING_LONG_DOCUMENT_TOKENS sets the page size that calls for the strong model (1500).
+ */
+
+import type { TemplateName } from '@/lib/prompts/types';
+import { CompletionRequest, CompletionResult, LLMProvider, LLMUsage, StreamChunk } from './types';
+
+type Env = Record<string, string | undefined>;
+
+export const USER_TIERS = ['free', 'pro'] as const;
+
+export type UserTier = typeof USER_TIERS[number];
+
+export interface RoutingPolicy {
+  fastModel: string;
+  strongModel: string;
+  strongTiers: UserTier[]; // tiers answered by the strong model unless the budget runs low
+  strongTasks: TemplateName[]; // answer styles that need the strong model's reasoning
+  longDocumentTokens: number; // page text (and passages) above this size goes to the strong model
+  lowBudgetTokens: number; // with less than this left today, only the fast model answers
+  replyTokens: number;
+  timeoutMs: number; // a whole answer from the primary model
+  firstTokenTimeoutMs: number; // a streamed answer that has not started by then is abandoned
+  fallback: Array<{ model: 'fast' | 'strong'; maxTokens: number; timeoutMs: number }>;
+}
+
+export interface RoutingRequest {
+  tier?: string | null; // unknown tiers are treated as free
+  task?: TemplateName;
+  documentTokens: number;
+  budgetRemaining?: number | null; // tokens left today, which also caps the reply; unlimited when not known
+}
+
+// One attempt in the chain; the stream route streams the first and completes the rest in one call
+export interface RouteStep {
+  model: string;
+  maxTokens: number;
+  timeoutMs: number;
+}
+
+export interface ModelRoute {
+  steps: RouteStep[]; // the primary model first, then fallbacks in order
+  reason: string;
+}
+
+// Stored in ChatMessage.meta.routing
+export interface RoutingDecision {
+  model: string; // the model that answered
+  reason: string;
+  fallback?: number; // the step that answered (1 is the first fallback), when the primary failed
+}
+
+/**
+ * Thrown when every step of a route failed; carries the last error
+ */
+export class ModelChainError extends Error {
+  constructor(readonly attempts: Array<{ model: string; error: string }>, readonly lastError: unknown) {
+    super(`Every model in the chain failed: ${attempts.map(a => `${a.model} (${a.error})`).join(', ')}`);
+    this.name = 'ModelChainError';
+  }
+}
+
+/**
+ * Thrown when the caller aborted the request's signal; no further model is tried
+ */
+export class GenerationCancelledError extends Error {
+  constructor() {
+    super('Generation was cancelled');
+    this.name = 'GenerationCancelledError';
+  }
+}
+
+function clean(value?: string): string {
+  return (value || '').replace(/\r?\n|\r/g, '').trim();
+}
+
+export function loadRoutingPolicy(env: Env = process.env): RoutingPolicy {
+  return {
+    fastModel: clean(env.ROUTING_FAST_MODEL) || 'gpt-3.5-turbo',
+    strongModel: clean(env.ROUTING_STRONG_MODEL) || 'gpt-4o',
+    strongTiers: ['pro'],
+    strongTasks: ['socratic'],
+    longDocumentTokens: Number(clean(env.ROUTING_LONG_DOCUMENT_TOKENS)) || 1500,
+    lowBudgetTokens: 5000,
+    replyTokens: 800,
+    timeoutMs: 45000,
+    firstTokenTimeoutMs: 15000,
+    // Shorter answers from the fast model get something to the student quickly
+    fallback: [{ model: 'fast', maxTokens: 300, timeoutMs: 20000 }],
+  };
+}
+
+let cachedPolicy: RoutingPolicy | null = null;
+
+/**
+ * The process-wide policy, read from the environment on first use
+ */
+export function getRoutingPolicy(): RoutingPolicy {
+  if (!cachedPolicy) {
+    cachedPolicy = loadRoutingPolicy();
+  }
+  return cachedPolicy;
+}
+
+/**
+ * The models to try for a request, in order, and why the first was chosen
+ */
+export function routeModel(request: RoutingRequest, policy: RoutingPolicy = getRoutingPolicy()): ModelRoute {
+  const tier: UserTier = (USER_TIERS as readonly string[]).includes(request.tier || '') ? request.tier as UserTier : 'free';
+  let strong = false;
+  let reason: string;
+
+  if (request.budgetRemaining != null && request.budgetRemaining < policy.lowBudgetTokens) {
+    reason = `${request.budgetRemaining} tokens left today`;
+  } else if (policy.strongTiers.includes(tier)) {
+    strong = true;
+    reason = `${tier} tier`;
+  } else if (request.task && policy.strongTasks.includes(request.task)) {
+    strong = true;
+    reason = `${request.task} answer`;
+  } else if (request.documentTokens > policy.longDocumentTokens) {
+    strong = true;
+    reason = `long document (${request.documentTokens} tokens)`;
+  } else {
+    reason = 'default';
+  }
+
+  // No reply may be longer than what is left of today's budget
+  const replyTokens = (maxTokens: number) =>
+    request.budgetRemaining != null ? Math.max(1, Math.min(maxTokens, request.budgetRemaining)) : maxTokens;
+
+  return {
+    steps: [
+      { model: strong ? policy.strongModel : policy.fastModel, maxTokens: replyTokens(policy.replyTokens), timeoutMs: policy.timeoutMs },
+      ...policy.fallback.map(step => ({
+        model: step.model === 'strong' ? policy.strongModel : policy.fastModel,
+        maxTokens: replyTokens(step.maxTokens),
+        timeoutMs: step.timeoutMs,
+      })),
+    ],
+    reason,
+  };
+}
+
+/**
+ * Complete with each step in turn until one answers; rejects with ModelChainError when all fail,
+ * or GenerationCancelledError once request.signal is aborted
+ */
+export async function completeWithFallback(
+  llm: LLMProvider,
+  steps: RouteStep[],
+  { signal, ...request }: Omit<CompletionRequest, 'model' | 'maxTokens'>
+): Promise<{ result: CompletionResult; step: number }> {
+  const attempts: Array<{ model: string; error: string }> = [];
+  let lastError: unknown;
+  for (const [index, step] of steps.entries()) {
+    if (signal?.aborted) throw new GenerationCancelledError();
+    const controller = new AbortController();
+    const cancel = () => controller.abort();
+    signal?.addEventListener('abort', cancel);
+    const timer = setTimeout(() => controller.abort(), step.timeoutMs);
+    try {
+      const result = await Promise.race([
+        llm.complete({ ...request, model: step.model, maxTokens: step.maxTokens, signal: controller.signal }),
+        new Promise<never>((_, reject) => {
+          controller.signal.addEventListener('abort', () => reject(new Error(`${step.model} timed out`)));
+        }),
+      ]);
+      return { result, step: index };
+    } catch (error) {
+      if (signal?.aborted) throw new GenerationCancelledError();
+      lastError = error;
+      attempts.push({ model: step.model, error: error instanceof Error ? error.message : String(error) });
+      console.warn(`Model router: ${step.model} failed${index < steps.length - 1 ? ', trying the next model' : ''}:`, error);
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', cancel);
+    }
+  }
+  throw new ModelChainError(attempts, lastError);
+}
+
+// Where streamWithFallback sends an answer as it arrives
+export interface StreamedAnswerOutput {
+  /** A content or tool_call chunk, from the primary's stream or the fallback's whole answer */
+  chunk(chunk: Exclude<StreamChunk, { type: 'done' }>): Promise<void>;
+  /** The primary failed (or was cancelled) after sending generated (possibly nothing); what it sent must be discarded */
+  abandon(model: string, generated: string, error: unknown): Promise<void>;
+}
+
+export interface StreamedAnswer {
+  model: string; // the model that answered
+  content: string;
+  usage?: LLMUsage;
+  step: number; // the step of the chain that answered
+}
+
+/**
+ * Stream the first step, then complete with the rest in turn if it fails, does not start within
+ * firstTokenTimeoutMs or does not finish within its own timeoutMs.
+ * Rejects with ModelChainError when every step fails. Aborting request.signal stops the stream
+ * at once: what was sent is abandoned, no fallback runs and it rejects with GenerationCancelledError.
+ */
+export async function streamWithFallback(
+  llm: LLMProvider,
+  steps: RouteStep[],
+  { signal, ...request }: Omit<CompletionRequest, 'model' | 'maxTokens'>,
+  output: StreamedAnswerOutput,
+  firstTokenTimeoutMs = getRoutingPolicy().firstTokenTimeoutMs
+): Promise<StreamedAnswer> {
+  if (signal?.aborted) throw new GenerationCancelledError();
+  const [primary, ...fallbacks] = steps;
+  const controller = new AbortController();
+  const timers: Array<ReturnType<typeof setTimeout>> = [];
+  let cancel = () => {};
+  const timedOut = new Promise<never>((_, reject) => {
+    const expire = (message: string) => () => {
+      controller.abort();
+      reject(new Error(message));
+    };
+    timers.push(setTimeout(expire(`${primary.model} did not start answering`), firstTokenTimeoutMs));
+    timers.push(setTimeout(expire(`${primary.model} timed out`), primary.timeoutMs));
+    cancel = expire('Generation was cancelled');
+    signal?.addEventListener('abort', cancel);
+  });
+  timedOut.catch(() => {}); // only observed while racing a chunk
+
+  let generated = '';
+  let failure: unknown;
+  try {
+    const iterator = llm.stream({ ...request, model: primary.model, maxTokens: primary.maxTokens, signal: controller.signal })[Symbol.asyncIterator]();
+    let next = await Promise.race([iterator.next(), timedOut]);
+    clearTimeout(timers[0]);
+
+    let model = llm.resolveModel(primary.model);
+    let usage: LLMUsage | undefined;
+    while (!next.done) {
+      const chunk = next.value;
+      if (chunk.type === 'done') {
+        model = chunk.model || model;
+        usage = chunk.usage;
+      } else {
+        if (chunk.type === 'content') generated += chunk.content;
+        await output.chunk(chunk);
+      }
+      next = await Promise.race([iterator.next(), timedOut]);
+    }
+    return { model, content: generated, usage, step: 0 };
+  } catch (error) {
+    controller.abort();
+    failure = error;
+    if (!signal?.aborted) console.warn(`Model router: streaming from ${primary.model} failed${fallbacks.length ? ', trying the next model' : ''}:`, error);
+  } finally {
+    timers.forEach(clearTimeout);
+    signal?.removeEventListener('abort', cancel);
+  }
+
+  await output.abandon(primary.model, generated, failure);
+  if (signal?.aborted) throw new GenerationCancelledError();
+  const primaryAttempt = { model: primary.model, error: failure instanceof Error ? failure.message : String(failure) };
+  try {
+    const { result, step } = await completeWithFallback(llm, fallbacks, { ...request, signal });
+    if (result.content) await output.chunk({ type: 'content', content: result.content });
+    for (const call of result.toolCalls || []) {
+      await output.chunk({ type: 'tool_call', call });
+    }
+    return { model: result.model, content: result.content, usage: result.usage, step: step + 1 };
+  } catch (error) {
+    if (error instanceof ModelChainError) throw new ModelChainError([primaryAttempt, ...error.attempts], error.attempts.length ? error.lastError : failure);
+    throw error;
+  }
+}
+
+/**
+ * What to store with an answer given by step of route
+ */
+export function routingDecision(route: ModelRoute, step: number, model = route.steps[step].model): RoutingDecision {
+  return step === 0
+    ? { model, reason: route.reason }
+    : { model, reason: `${route.reason}; ${route.steps[0].model} failed`, fallback: step };
+}
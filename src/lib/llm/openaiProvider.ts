@@ -0,0 +1,167 @@
+/**
+ * OpenAI provider
+ * Also serves any OpenAI-compatible endpoint (Ollama, llama.cpp server, vLLM) through baseURL
+ */
+
+import OpenAI from 'openai';
+import { countTokens } from './tokenCount';
+import {
+  CompletionRequest,
+  CompletionResult,
+  LLMMessage,
+  LLMProvider,
+  LLMUsage,
+  StreamChunk,
+  ToolCall,
+  ToolDefinition,
+} from './types';
+
+export interface OpenAIProviderOptions {
+  apiKey: string;
+  baseURL?: string;
+  defaultModel?: string;
+  // Serve every request with defaultModel, ignoring the model a route asks for.
+  // Used for local servers that only host one model.
+  fixedModel?: boolean;
+  maxRetries?: number;
+  name?: string;
+  // Local servers often reject the tools parameter; OpenAI itself supports it
+  supportsTools?: boolean;
+}
+
+function toOpenAITools(tools?: ToolDefinition[]) {
+  if (!tools || tools.length === 0) return {};
+  return {
+    tools: tools.map(tool => ({
+      type: 'function' as const,
+      function: { name: tool.name, description: tool.description, parameters: { ...tool.parameters } },
+    })),
+    tool_choice: 'auto' as const,
+  };
+}
+
+function toUsage(usage: any): LLMUsage | undefined {
+  if (!usage) return undefined;
+  return {
+    promptTokens: usage.prompt_tokens || 0,
+    completionTokens: usage.completion_tokens || 0,
+    totalTokens: usage.total_tokens || (usage.prompt_tokens || 0) + (usage.completion_tokens || 0),
+  };
+}
+
+export class OpenAIProvider implements LLMProvider {
+  readonly name: string;
+  readonly defaultModel: string;
+  readonly supportsTools: boolean;
+  private client: OpenAI;
+  private fixedModel: boolean;
+  private streamUsage: boolean;
+
+  constructor(options: OpenAIProviderOptions) {
+    this.name = options.name || (options.baseURL ? 'openai-compatible' : 'openai');
+    this.defaultModel = options.defaultModel || 'gpt-3.5-turbo';
+    this.fixedModel = !!options.fixedModel;
+    this.supportsTools = options.supportsTools ?? !options.baseURL;
+    // OpenAI reports usage at the end of a stream when asked; compatible servers may reject the option
+    this.streamUsage = !options.baseURL;
+    this.client = new OpenAI({
+      apiKey: options.apiKey,
+      baseURL: options.baseURL,
+      dangerouslyAllowBrowser: false, // Explicitly disallow browser usage
+      maxRetries: options.maxRetries ?? 2, // Limit retries to prevent hanging
+    });
+  }
+
+  resolveModel(requested?: string): string {
+    if (this.fixedModel) return this.defaultModel;
+    return requested || this.defaultModel;
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const model = this.resolveModel(request.model);
+    const response = await this.client.chat.completions.create(
+      {
+        model,
+        messages: request.messages,
+        temperature: request.temperature ?? 0.7,
+        max_tokens: request.maxTokens,
+        stream: false,
+        ...(this.supportsTools ? toOpenAITools(request.tools) : {}),
+      },
+      { signal: request.signal }
+    );
+
+    const toolCalls: ToolCall[] = (response.choices[0]?.message?.tool_calls || []).map(call => ({
+      id: call.id,
+      name: call.function.name,
+      arguments: call.function.arguments || '{}',
+    }));
+
+    return {
+      content: response.choices[0]?.message?.content || '',
+      model: response.model || model,
+      finishReason: response.choices[0]?.finish_reason,
+      usage: toUsage(response.usage),
+      ...(toolCalls.length > 0 ? { toolCalls } : {}),
+    };
+  }
+
+  async *stream(request: CompletionRequest): AsyncIterable<StreamChunk> {
+    const model = this.resolveModel(request.model);
+    const stream = await this.client.chat.completions.create(
+      {
+        model,
+        messages: request.messages,
+        temperature: request.temperature ?? 0.7,
+        max_tokens: request.maxTokens,
+        stream: true,
+        ...(this.streamUsage ? { stream_options: { include_usage: true } } : {}),
+        ...(this.supportsTools ? toOpenAITools(request.tools) : {}),
+      },
+      { signal: request.signal }
+    );
+
+    let finishReason: string | null | undefined;
+    let usage: LLMUsage | undefined;
+    // Tool call arguments arrive as fragments keyed by index
+    const pendingCalls = new Map<number, ToolCall>();
+    const flushCalls = function* (): Generator<StreamChunk> {
+      for (const call of Array.from(pendingCalls.values())) {
+        if (call.name) yield { type: 'tool_call', call };
+      }
+      pendingCalls.clear();
+    };
+
+    for await (const chunk of stream as AsyncIterable<any>) {
+      const delta = chunk.choices?.[0]?.delta;
+      if (delta?.content) {
+        yield { type: 'content', content: delta.content };
+      }
+      for (const fragment of delta?.tool_calls || []) {
+        // A new index means the previous call is complete
+        if (!pendingCalls.has(fragment.index)) {
+          yield* flushCalls();
+          pendingCalls.set(fragment.index, { id: fragment.id || `call_${fragment.index}`, name: '', arguments: '' });
+        }
+        const call = pendingCalls.get(fragment.index)!;
+        if (fragment.id) call.id = fragment.id;
+        if (fragment.function?.name) call.name += fragment.function.name;
+        if (fragment.function?.arguments) call.arguments += fragment.function.arguments;
+      }
+      if (chunk.choices?.[0]?.finish_reason) {
+        finishReason = chunk.choices[0].finish_reason;
+        yield* flushCalls();
+      }
+      if (chunk.usage) {
+        usage = toUsage(chunk.usage);
+      }
+    }
+
+    yield* flushCalls();
+    yield { type: 'done', model, finishReason, usage };
+  }
+
+  countTokens(input: string | LLMMessage[], model?: string): number {
+    return countTokens(input, this.resolveModel(model));
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * Unit tests for token-budgeted prompt assembly
+ */
+
+import { MAX_PROMPT_TOKENS, PRIORITY, assemblePrompt, promptBudget, truncateToTokens } from './promptAssembler';
+import { FakeProvider } from './fakeProvider';
+import { contextWindow, countTokens } from './tokenCount';
+import { LLMMessage } from './types';
+
+const llm = new FakeProvider();
+const words = (count: number, word = 'word') => `${word} `.repeat(count).trim();
+const question: LLMMessage[] = [{ role: 'user', content: 'What is entropy?' }];
+
+// A tutor prompt; 'local' has no known window, so prompts get 4096 tokens minus the reply
+const sections = (page: string, passages: string, marks: string) => [
+  { name: 'role', priority: PRIORITY.required, content: 'You are an AI tutor.' },
+  { name: 'currentPage', priority: PRIORITY.currentPage, content: page },
+  { name: 'passages', priority: PRIORITY.passages, content: passages },
+  { name: 'studentMarks', priority: PRIORITY.studentMarks, content: marks },
+];
+
+describe('promptAssembler', () => {
+  test('should count OpenAI models with their tokenizer and estimate the rest', () => {
+    const text = 'Entropy measures the disorder of a system.';
+
+    expect(countTokens(text, 'gpt-4o')).toBe(8);
+    expect(countTokens(text, 'gpt-3.5-turbo')).toBe(8);
+    expect(countTokens(text, 'llama3')).toBe(Math.ceil(text.length / 4));
+    expect(contextWindow('gpt-4o-2024-08-06')).toBe(128000);
+    expect(contextWindow('gpt-4-0613')).toBe(8192);
+    expect(promptBudget('gpt-4o', 800)).toBe(MAX_PROMPT_TOKENS);
+  });
+
+  test('should send everything when it fits', () => {
+    const prompt = assemblePrompt({
+      llm,
+      model: 'local',
+      system: sections('Page text', 'Passage text', 'A highlight'),
+      history: [{ role: 'assistant', content: 'Earlier answer' }],
+      question,
+      replyTokens: 800,
+    });
+
+    expect(prompt.trimmed).toEqual([]);
+    expect(prompt.messages).toHaveLength(3);
+    expect(prompt.messages[0].content).toBe('You are an AI tutor.\n\nPage text\n\nPassage text\n\nA highlight');
+    expect(prompt.promptTokens).toBe(llm.countTokens(prompt.messages));
+  });
+
+  test('should trim the lowest priority sections first', () => {
+    const prompt = assemblePrompt({
+      llm,
+      model: 'local',
+      system: sections(words(1500, 'page'), words(1500, 'passage'), words(1500, 'mark')),
+      history: [{ role: 'assistant', content: words(200, 'turn') }],
+      question,
+      replyTokens: 800,
+    });
+
+    expect(prompt.promptTokens).toBeLessThanOrEqual(prompt.budget);
+    expect(prompt.trimmed).toEqual(['studentMarks', 'passages']);
+    expect(prompt.messages[0].content).not.toContain('mark');
+    expect(prompt.messages[0].content).toContain(words(1500, 'page'));
+    expect(prompt.messages[0].content).toMatch(/passage…$/);
+    expect(prompt.messages.slice(1)).toEqual([{ role: 'assistant', content: words(200, 'turn') }, ...question]);
+  });
+
+  test('should cap sections at their share and keep required ones whole', () => {
+    const instructions = words(5000, 'rule');
+    const prompt = assemblePrompt({
+      llm,
+      model: 'local',
+      system: [
+        { name: 'instructions', priority: PRIORITY.required, content: instructions },
+        { name: 'nearbyPages', priority: PRIORITY.nearbyPages, content: words(100, 'next'), maxTokens: 20 },
+      ],
+      history: [{ role: 'user', content: 'Earlier question' }],
+      question,
+      replyTokens: 800,
+    });
+
+    expect(prompt.messages[0].content).toBe(instructions);
+    expect(prompt.messages.slice(1)).toEqual(question);
+    expect(prompt.trimmed).toEqual(['nearbyPages', 'recentTurns']);
+    expect(truncateToTokens(words(100, 'next'), 20, text => llm.countTokens(text))).toMatch(/^(next ){14}next…$/);
+  });
+});
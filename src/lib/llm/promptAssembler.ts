@@ -0,0 +1,129 @@
+/**
+ * Prompt assembly within a token budget
+ * A prompt is built from sections (instructions, page text, retrieved passages, the memory summary,
+ * recent turns, the question) and a reserve for the reply. When the prompt would not fit the
+ * model's budget, sections are shortened or dropped from the lowest priority up; required
+ * sections and the question are always sent in full.
+ */
+
+import { contextWindow } from './tokenCount';
+import { LLMMessage, LLMProvider } from './types';
+
+// Prompts stay within this many tokens even on models with far larger windows, to bound cost and latency
+export const MAX_PROMPT_TOKENS = 6000;
+
+// Higher survives longer when the prompt is over budget
+export const PRIORITY = {
+  required: Number.POSITIVE_INFINITY, // instructions; never trimmed
+  currentPage: 80,
+  recentTurns: 60,
+  memory: 50,
+  passages: 40,
+  studentMarks: 30,
+  nearbyPages: 20,
+} as const;
+
+export interface PromptSection {
+  name: string; // reported when trimmed
+  content: string;
+  priority: number;
+  maxTokens?: number; // this section's share, even when the budget has room for more
+}
+
+interface AssemblePromptParams {
+  llm: Pick<LLMProvider, 'countTokens'>;
+  model: string;
+  system: PromptSection[]; // joined in this order into the system message
+  history?: LLMMessage[]; // recent turns, oldest first; dropped from the oldest
+  historyPriority?: number;
+  question: LLMMessage[];
+  replyTokens: number;
+}
+
+export interface AssembledPrompt {
+  messages: LLMMessage[];
+  promptTokens: number;
+  budget: number;
+  trimmed: string[]; // names of the sections that were shortened or dropped
+}
+
+const TRIM_MARKER = '…';
+
+/**
+ * Tokens available to a prompt on this model once the reply is reserved
+ */
+export function promptBudget(model: string, replyTokens: number): number {
+  return Math.min(MAX_PROMPT_TOKENS, contextWindow(model) - replyTokens);
+}
+
+/**
+ * The longest start of text within maxTokens, cut at a word boundary; empty when nothing fits
+ */
+export function truncateToTokens(text: string, maxTokens: number, count: (text: string) => number): string {
+  if (count(text) <= maxTokens) return text;
+  if (maxTokens <= 0) return '';
+  // Binary search on length, since tokens do not map to characters evenly
+  let low = 0;
+  let high = text.length;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (count(text.slice(0, middle) + TRIM_MARKER) <= maxTokens) low = middle;
+    else high = middle - 1;
+  }
+  const cut = text.slice(0, low);
+  const boundary = cut.search(/\s\S*$/);
+  const trimmed = (boundary > 0 ? cut.slice(0, boundary) : cut).trimEnd();
+  return trimmed ? trimmed + TRIM_MARKER : '';
+}
+
+/**
+ * Build the messages for a request so that prompt and reply fit the model
+ */
+export function assemblePrompt({ llm, model, system, history = [], historyPriority = PRIORITY.recentTurns, question, replyTokens }: AssemblePromptParams): AssembledPrompt {
+  const count = (text: string) => llm.countTokens(text, model);
+  const budget = promptBudget(model, replyTokens);
+  const trimmed = new Set<string>();
+
+  // Each section first gets its own share
+  const sections = system.map(section => {
+    if (section.maxTokens === undefined) return { ...section };
+    const content = truncateToTokens(section.content, section.maxTokens, count);
+    if (content !== section.content) trimmed.add(section.name);
+    return { ...section, content };
+  });
+  let turns = [...history];
+
+  const build = (): LLMMessage[] => [
+    { role: 'system', content: sections.map(s => s.content).filter(Boolean).join('\n\n') },
+    ...turns,
+    ...question,
+  ];
+  const measure = () => llm.countTokens(build(), model);
+
+  // Then the lowest priority parts give way until the prompt fits
+  const trimmable = [
+    ...sections.filter(s => s.priority !== PRIORITY.required).map(s => ({ priority: s.priority, section: s })),
+    { priority: historyPriority, section: null },
+  ].sort((a, b) => a.priority - b.priority);
+
+  let total = measure();
+  for (const { section } of trimmable) {
+    if (total <= budget) break;
+    if (section) {
+      // Separators and the cut itself can leave a few tokens over, so shrink until it fits or is gone
+      while (section.content && total > budget) {
+        section.content = truncateToTokens(section.content, count(section.content) - (total - budget), count);
+        total = measure();
+        trimmed.add(section.name);
+      }
+    } else {
+      while (turns.length > 0 && total > budget) {
+        turns = turns.slice(1);
+        total = measure();
+        trimmed.add('recentTurns');
+      }
+    }
+  }
+
+  return { messages: build(), promptTokens: total, budget, trimmed: Array.from(trimmed) };
+}
@@ -0,0 +1,98 @@
+/**
+ * Selects the LLM provider from configuration
+ *
+ * LLM_PROVIDER=openai             (default) uses OPENAI_API_KEY / OPENAI_MODEL
+ * LLM_PROVIDER=openai-compatible  uses LLM_BASE_URL, LLM_MODEL and optional LLM_API_KEY
+ * LLM_PROVIDER=fake               offline scripted replies (optional LLM_FAKE_SCRIPT JSON array)
+ *
+ * LLM_SUPPORTS_TOOLS=true|false overrides tool-calling support; without it the tutor falls back to bracket commands
+ */
+
+import { FakeProvider } from './fakeProvider';
+import { OpenAIProvider } from './openaiProvider';
+import { LLMConfigurationError, LLMProvider } from './types';
+
+type Env = Record<string, string | undefined>;
+
+let cachedProvider: LLMProvider | null = null;
+
+// Environment values copied from dashboards often carry stray newlines
+function clean(value?: string): string {
+  return (value || '').replace(/\r?\n|\r/g, '').trim();
+}
+
+function readFlag(value?: string): boolean | undefined {
+  const normalized = clean(value).toLowerCase();
+  if (!normalized) return undefined;
+  return normalized === 'true' || normalized === '1';
+}
+
+export function createLLMProvider(env: Env = process.env): LLMProvider {
+  const kind = clean(env.LLM_PROVIDER) || 'openai';
+  const supportsTools = readFlag(env.LLM_SUPPORTS_TOOLS);
+
+  switch (kind) {
+    case 'openai': {
+      const apiKey = clean(env.OPENAI_API_KEY);
+      if (!apiKey) {
+        throw new LLMConfigurationError('OpenAI API key not configured');
+      }
+      if (apiKey.length < 20 || !apiKey.startsWith('sk-')) {
+        throw new LLMConfigurationError('OpenAI API key appears malformed');
+      }
+      return new OpenAIProvider({
+        apiKey,
+        defaultModel: clean(env.OPENAI_MODEL) || 'gpt-3.5-turbo',
+        supportsTools: supportsTools ?? true,
+      });
+    }
+
+    case 'openai-compatible': {
+      const baseURL = clean(env.LLM_BASE_URL);
+      const model = clean(env.LLM_MODEL);
+      if (!baseURL || !model) {
+        throw new LLMConfigurationError('LLM_BASE_URL and LLM_MODEL are required for an OpenAI-compatible provider');
+      }
+      return new OpenAIProvider({
+        apiKey: clean(env.LLM_API_KEY) || 'not-needed', // local servers usually ignore the key
+        baseURL,
+        defaultModel: model,
+        fixedModel: true,
+        supportsTools: supportsTools ?? false,
+      });
+    }
+
+    case 'fake': {
+      let script: string[] | undefined;
+      if (env.LLM_FAKE_SCRIPT) {
+        try {
+          const parsed = JSON.parse(env.LLM_FAKE_SCRIPT);
+          script = Array.isArray(parsed) ? parsed.map(String) : undefined;
+        } catch {
+          throw new LLMConfigurationError('LLM_FAKE_SCRIPT must be a JSON array of strings');
+        }
+      }
+      return new FakeProvider({ script, supportsTools: supportsTools ?? false });
+    }
+
+    default:
+      throw new LLMConfigurationError(`Unknown LLM_PROVIDER "${kind}"`);
+  }
+}
+
+/**
+ * Get the process-wide provider, creating it on first use
+ */
+export function getLLMProvider(): LLMProvider {
+  if (!cachedProvider) {
+    cachedProvider = createLLMProvider();
+  }
+  return cachedProvider;
+}
+
+/**
+ * Override the process-wide provider (tests), or pass null to re-read configuration
+ */
+export function setLLMProvider(provider: LLMProvider | null) {
+  cachedProvider = provider;
+}
@@ -0,0 +1,80 @@
+/**
+ * Token counting shared by the providers
+ * OpenAI models are counted with their own tokenizer; anything else (local models, the fake
+ * provider) uses the ~4 characters per token rule of thumb for English text
+ */
+
+import { countTokens as countCl100k } from 'gpt-tokenizer/encoding/cl100k_base';
+import { countTokens as countO200k } from 'gpt-tokenizer/encoding/o200k_base';
+import { LLMMessage } from './types';
+
+// Per-message overhead used by chat-formatted prompts (role markers etc.)
+const MESSAGE_OVERHEAD_TOKENS = 4;
+const REPLY_PRIMING_TOKENS = 2;
+
+// OpenAI's chat format: <|start|>role<|message|>content<|end|> per message, and the reply is primed with 3 more
+const CHAT_MESSAGE_TOKENS = 3;
+const CHAT_REPLY_PRIMING_TOKENS = 3;
+
+// Models without an entry are assumed to have a small window (local servers)
+const DEFAULT_CONTEXT_WINDOW = 4096;
+
+// Longest prefix wins, so dated snapshots (gpt-4o-2024-08-06) share their family's entry
+const CONTEXT_WINDOWS: Array<[prefix: string, tokens: number]> = [
+  ['gpt-3.5-turbo', 16385],
+  ['gpt-4-32k', 32768],
+  ['gpt-4-turbo', 128000],
+  ['gpt-4o', 128000],
+  ['gpt-4.1', 1047576],
+  ['gpt-4', 8192],
+  ['gpt-5', 400000],
+  ['o1', 200000],
+  ['o3', 200000],
+  ['o4', 200000],
+];
+
+type Counter = (text: string) => number;
+
+function counterFor(model?: string): Counter | null {
+  if (!model) return null;
+  if (/^(gpt-4o|gpt-4\.1|gpt-5|o\d)/.test(model)) return countO200k;
+  if (/^(gpt-4|gpt-3\.5)/.test(model)) return countCl100k;
+  return null;
+}
+
+export function estimateTokens(input: string | LLMMessage[]): number {
+  if (typeof input === 'string') {
+    return Math.ceil(input.length / 4);
+  }
+
+  return input.reduce(
+    (total, message) => total + MESSAGE_OVERHEAD_TOKENS + estimateTokens(message.content || ''),
+    REPLY_PRIMING_TOKENS
+  );
+}
+
+/**
+ * Tokens the model will see for a text or a chat prompt; estimated for models without a known tokenizer
+ */
+export function countTokens(input: string | LLMMessage[], model?: string): number {
+  const count = counterFor(model);
+  if (!count) return estimateTokens(input);
+  if (typeof input === 'string') return count(input);
+
+  return input.reduce(
+    // Roles are a single token each
+    (total, message) => total + CHAT_MESSAGE_TOKENS + 1 + count(message.content || ''),
+    CHAT_REPLY_PRIMING_TOKENS
+  );
+}
+
+/**
+ * The number of tokens a model accepts for prompt and reply together
+ */
+export function contextWindow(model?: string): number {
+  let match: [string, number] | undefined;
+  for (const entry of CONTEXT_WINDOWS) {
+    if (model?.startsWith(entry[0]) && (!match || entry[0].length > match[0].length)) match = entry;
+  }
+  return match ? match[1] : DEFAULT_CONTEXT_WINDOW;
+}
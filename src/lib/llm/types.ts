@@ -0,0 +1,93 @@
+/**
+ * LLM provider abstraction
+ * Every model backend (OpenAI, OpenAI-compatible servers, the offline fake) implements LLMProvider
+ */
+
+export type LLMRole = 'system' | 'user' | 'assistant';
+
+export interface LLMMessage {
+  role: LLMRole;
+  content: string;
+}
+
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+// The subset of JSON Schema used to describe tool arguments
+export interface JSONSchema {
+  type: 'object' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  enum?: Array<string | number>;
+  minimum?: number;
+  maximum?: number;
+  maxLength?: number;
+}
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: JSONSchema;
+}
+
+// A function call requested by the model; arguments are the raw JSON text
+export interface ToolCall {
+  id: string;
+  name: string;
+  arguments: string;
+}
+
+export interface CompletionRequest {
+  messages: LLMMessage[];
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  signal?: AbortSignal;
+  tools?: ToolDefinition[]; // ignored by providers without tool support
+}
+
+export interface CompletionResult {
+  content: string;
+  model: string;
+  finishReason?: string | null;
+  usage?: LLMUsage;
+  toolCalls?: ToolCall[];
+}
+
+// Chunks yielded by LLMProvider.stream
+export type StreamChunk =
+  | { type: 'content'; content: string }
+  | { type: 'tool_call'; call: ToolCall }
+  | { type: 'done'; model: string; finishReason?: string | null; usage?: LLMUsage };
+
+export interface LLMProvider {
+  readonly name: string;
+  readonly defaultModel: string;
+
+  /** Whether the backend accepts tool definitions; callers fall back to bracket commands otherwise */
+  readonly supportsTools: boolean;
+
+  /** Resolve the model that will actually serve a request */
+  resolveModel(requested?: string): string;
+
+  complete(request: CompletionRequest): Promise<CompletionResult>;
+
+  stream(request: CompletionRequest): AsyncIterable<StreamChunk>;
+
+  countTokens(input: string | LLMMessage[], model?: string): number;
+}
+
+/**
+ * Thrown when a provider cannot be constructed from the current configuration
+ */
+export class LLMConfigurationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LLMConfigurationError';
+  }
+}
@@ -0,0 +1,36 @@
+/**
+ * PDF ownership checks shared by the routes under /api/pdf/[id]
+ */
+
+import fs from 'fs';
+import path from 'path';
+import prisma from '@/lib/prisma';
+
+const typedPrisma = prisma as any;
+
+/**
+ * The PDF if it exists, is not deleted and belongs to userId; otherwise null (routes answer 404)
+ */
+export async function findOwnedPdf(pdfId: string, userId: string): Promise<{ id: string; title: string; url: string } | null> {
+  return await typedPrisma.pDF.findFirst({
+    where: { id: pdfId, userId, deletedAt: null },
+    select: { id: true, title: true, url: true },
+  });
+}
+
+/**
+ * The bytes of an uploaded PDF, read from public/ by its stored url; null if the file is missing
+ */
+export async function readPdfFile(url: string): Promise<Buffer | null> {
+  const publicDir = path.join(process.cwd(), 'public');
+  const filePath = path.join(publicDir, url);
+  // Stored urls are /uploads/..., never outside public/
+  if (!filePath.startsWith(publicDir + path.sep)) return null;
+
+  try {
+    return await fs.promises.readFile(filePath);
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return null;
+    throw error;
+  }
+}
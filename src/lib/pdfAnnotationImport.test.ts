@@ -0,0 +1,107 @@
+import { PDFDocument, PDFHexString, degrees } from 'pdf-lib';
+import { Annotation } from '@/types/types';
+import { exportAnnotatedPdf, parseExportOptions } from './pdfExport';
+import { pdfColorToHex, readPdfAnnotations } from './pdfAnnotationImport';
+
+async function pdfWithAnnots(annots: Record<string, any>[], cropBox?: [number, number, number, number], rotation = 0): Promise<PDFDocument> {
+  const doc = await PDFDocument.create();
+  const page = doc.addPage([600, 800]);
+  if (cropBox) page.setCropBox(...cropBox);
+  if (rotation) page.setRotation(degrees(rotation));
+  annots.forEach(annot => page.node.addAnnot(doc.context.register(doc.context.obj({ Type: 'Annot', ...annot }))));
+  return await PDFDocument.load(await doc.save());
+}
+
+describe('readPdfAnnotations', () => {
+  test('should turn each line of a highlight into a top-left highlight', async () => {
+    const doc = await pdfWithAnnots([{
+      Subtype: 'Highlight',
+      Rect: [100, 650, 300, 700],
+      // Two lines: y 688-700 and y 650-662 in PDF space
+      QuadPoints: [100, 700, 300, 700, 100, 688, 300, 688, 100, 662, 200, 662, 100, 650, 200, 650],
+      C: [1, 1, 0],
+      Contents: PDFHexString.fromText('Exam topic'),
+      T: PDFHexString.fromText('Sam'),
+    }]);
+
+    expect(readPdfAnnotations(doc)).toEqual([
+      {
+        subtype: 'Highlight',
+        author: 'Sam',
+        annotation: { type: 'highlight', page: 1, x: 100, y: 100, width: 200, height: 12, color: 'rgba(255, 255, 0, 0.3)', text: 'Exam topic', isAutomatic: false },
+      },
+      {
+        subtype: 'Highlight',
+        author: 'Sam',
+        annotation: { type: 'highlight', page: 1, x: 100, y: 138, width: 100, height: 12, color: 'rgba(255, 255, 0, 0.3)', text: 'Exam topic', isAutomatic: false },
+      },
+    ]);
+  });
+
+  test('should measure from the crop box and map sticky notes', async () => {
+    const doc = await pdfWithAnnots([
+      { Subtype: 'Text', Rect: [120, 700, 140, 720], Contents: PDFHexString.fromText('Ask about this') },
+      { Subtype: 'Text', Rect: [120, 600, 140, 620] }, // an empty note is nothing to show
+    ], [20, 0, 560, 750]);
+
+    expect(readPdfAnnotations(doc).map(imported => imported.annotation)).toEqual([
+      { type: 'text', page: 1, x: 100, y: 30, width: 200, text: 'Ask about this', isAutomatic: false },
+    ]);
+  });
+
+  test('should place annotations on a rotated page as the viewer shows it', async () => {
+    const annots = [
+      { Subtype: 'Square', Rect: [100, 650, 300, 700] },
+      { Subtype: 'Ink', Rect: [100, 600, 200, 700], InkList: [[100, 700, 150, 650, 200, 600]] },
+    ];
+    const read = async (rotation: number) => readPdfAnnotations(await pdfWithAnnots(annots, undefined, rotation)).map(imported => imported.annotation);
+
+    // Turned a quarter clockwise, the page is 800 wide and its PDF bottom-left corner is the top-left
+    const quarter = await read(90);
+    expect(quarter[0]).toMatchObject({ type: 'rectangle', x: 650, y: 100, width: 50, height: 200 });
+    expect(quarter[1]).toMatchObject({ type: 'freeform', x: 600, y: 100, width: 100, height: 100 });
+    expect((await read(180))[0]).toMatchObject({ x: 300, y: 650, width: 200, height: 50 });
+    expect((await read(-90))[0]).toMatchObject({ x: 100, y: 300, width: 50, height: 200 });
+  });
+
+  test('should skip hidden annotations, links and malformed entries', async () => {
+    const doc = await pdfWithAnnots([
+      { Subtype: 'Square', Rect: [0, 0, 50, 50], F: 2 },
+      { Subtype: 'Link', Rect: [0, 0, 50, 50] },
+      { Subtype: 'Circle', Rect: 'not a rectangle' },
+      { Subtype: 'Square', Rect: [10, 700, 60, 780], C: [0, 0, 1, 0] },
+    ]);
+
+    expect(readPdfAnnotations(doc).map(imported => imported.annotation)).toEqual([
+      { type: 'rectangle', page: 1, x: 10, y: 20, width: 50, height: 80, color: '#ffff00', isAutomatic: false },
+    ]);
+  });
+
+  test('should read back what a native export wrote', async () => {
+    const drawn: Annotation[] = [
+      { type: 'rectangle', page: 1, x: 40, y: 60, width: 120, height: 80, color: '#ff0000', isAutomatic: false },
+      { type: 'circle', page: 1, x: 200, y: 200, radius: 30, color: '#00ff00', isAutomatic: false },
+      { type: 'freeform', page: 1, x: 10, y: 10, width: 30, height: 30, color: '#0000ff', text: '[[10,10],[40,40]]', isAutomatic: false },
+      { type: 'text', page: 1, x: 300, y: 400, width: 150, text: 'Remember', color: '#333333', isAutomatic: false },
+    ];
+    const source = await PDFDocument.create();
+    source.addPage([600, 800]);
+    const { options } = parseExportOptions(new URLSearchParams('mode=native'));
+    const exported = await exportAnnotatedPdf(await source.save(), drawn, options!, { title: 'Notes', author: 'Sam' });
+
+    const imported = readPdfAnnotations(await PDFDocument.load(exported)).map(item => item.annotation);
+    expect(imported[0]).toMatchObject({ type: 'rectangle', x: 40, y: 60, width: 120, height: 80, color: '#ff0000' });
+    expect(imported[1]).toMatchObject({ type: 'circle', x: 200, y: 200, radius: 30, color: '#00ff00' });
+    expect(imported[2]).toMatchObject({ type: 'freeform', text: '[[10,10],[40,40]]', color: '#0000ff' });
+    expect(imported[3]).toMatchObject({ type: 'text', x: 300, y: 400, width: 150, text: 'Remember', color: '#333333' });
+  });
+});
+
+describe('pdfColorToHex', () => {
+  test('should convert gray, RGB and CMYK', () => {
+    expect(pdfColorToHex([0.5])).toBe('#808080');
+    expect(pdfColorToHex([1, 0, 0])).toBe('#ff0000');
+    expect(pdfColorToHex([0, 1, 1, 0])).toBe('#ff0000');
+    expect(pdfColorToHex([])).toBeUndefined();
+  });
+});
@@ -0,0 +1,239 @@
+/**
+ * Import of annotations made in other PDF readers
+ * Reads each page's /Annots and maps the markup the viewer can draw into annotations,
+ * converted from PDF user space (bottom-left origin) to top-left points of the page as the viewer
+ * shows it, turned by its /Rotate.
+ */
+
+import {
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFNumber,
+  PDFPage,
+  PDFString,
+} from 'pdf-lib';
+import { Annotation } from '@/types/types';
+import { DEFAULT_TOOL_COLOR, STICKY_NOTE_WIDTH, strokeToAnnotation, withAlpha } from './drawingTools';
+
+export const IMPORTED_SUBTYPES = ['Highlight', 'Underline', 'Square', 'Circle', 'Ink', 'FreeText', 'Text'] as const;
+export type ImportedSubtype = typeof IMPORTED_SUBTYPES[number];
+
+export interface ImportedAnnotation {
+  annotation: Annotation & { page: number };
+  subtype: ImportedSubtype;
+  author?: string;
+}
+
+// A document with more marks than this is unlikely to be study notes; keep the first ones
+export const MAX_IMPORTED_ANNOTATIONS = 2000;
+
+const HIDDEN_FLAG = 1 << 1;
+const UNDERLINE_HEIGHT = 5;
+// FreeText and Text contents are plain text in practice; rich text (RC) is ignored
+const MAX_NOTE_LENGTH = 10000;
+
+export interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+function numbers(dict: PDFDict, key: string): number[] | undefined {
+  const array = dict.lookupMaybe(PDFName.of(key), PDFArray);
+  if (!array) return undefined;
+  const values: number[] = [];
+  for (let i = 0; i < array.size(); i++) {
+    const value = array.lookup(i);
+    if (!(value instanceof PDFNumber)) return undefined;
+    values.push(value.asNumber());
+  }
+  return values;
+}
+
+function text(dict: PDFDict, key: string): string | undefined {
+  const value = dict.lookupMaybe(PDFName.of(key), PDFString, PDFHexString);
+  const decoded = value?.decodeText().trim();
+  return decoded ? decoded.slice(0, MAX_NOTE_LENGTH) : undefined;
+}
+
+/**
+ * A PDF color array (gray, RGB or CMYK components in 0-1) as '#rrggbb'
+ */
+export function pdfColorToHex(components: number[] | undefined): string | undefined {
+  if (!components) return undefined;
+  let rgb: number[];
+  if (components.length === 1) {
+    rgb = [components[0], components[0], components[0]];
+  } else if (components.length === 3) {
+    rgb = components;
+  } else if (components.length === 4) {
+    const [c, m, y, k] = components;
+    rgb = [(1 - c) * (1 - k), (1 - m) * (1 - k), (1 - y) * (1 - k)];
+  } else {
+    return undefined;
+  }
+  return '#' + rgb.map(value => Math.round(Math.min(Math.max(value, 0), 1) * 255).toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * The text color in a default appearance string (e.g. '/Helv 12 Tf 1 0 0 rg'); FreeText uses C for the background
+ */
+export function appearanceColor(appearance: string | undefined): string | undefined {
+  const rgb = appearance && /([\d.]+)\s+([\d.]+)\s+([\d.]+)\s+rg\b/.exec(appearance);
+  if (rgb) return pdfColorToHex(rgb.slice(1, 4).map(Number));
+  const gray = appearance && /([\d.]+)\s+g\b/.exec(appearance);
+  return gray ? pdfColorToHex([Number(gray[1])]) : undefined;
+}
+
+/**
+ * A page's /Rotate as 0, 90, 180 or 270 (clockwise, as the viewer turns the page)
+ */
+export function pageRotation(page: PDFPage): number {
+  return ((Math.round(page.getRotation().angle / 90) * 90) % 360 + 360) % 360;
+}
+
+/**
+ * A point in PDF user space to top-left points of the crop box, as the viewer shows it turned by rotation
+ */
+export function toViewerPoint(crop: Box, rotation: number, x: number, y: number): { x: number; y: number } {
+  switch (rotation) {
+    case 90: return { x: y - crop.y, y: x - crop.x };
+    case 180: return { x: crop.x + crop.width - x, y: y - crop.y };
+    case 270: return { x: crop.y + crop.height - y, y: crop.x + crop.width - x };
+    default: return { x: x - crop.x, y: crop.y + crop.height - y };
+  }
+}
+
+/**
+ * Corner points in PDF user space to a top-left box, measured from the crop box the viewer shows
+ */
+export function topLeftBox(crop: Box, xs: number[], ys: number[], rotation = 0): Box {
+  const points = xs.map((x, i) => toViewerPoint(crop, rotation, x, ys[i]));
+  const left = Math.min(...points.map(point => point.x));
+  const top = Math.min(...points.map(point => point.y));
+  return {
+    x: Math.round(left),
+    y: Math.round(top),
+    width: Math.round(Math.max(...points.map(point => point.x)) - left),
+    height: Math.round(Math.max(...points.map(point => point.y)) - top),
+  };
+}
+
+function rectBox(page: PDFPage, rect: number[]): Box {
+  return topLeftBox(page.getCropBox(), [rect[0], rect[2]], [rect[1], rect[3]], pageRotation(page));
+}
+
+/**
+ * One box per quadrilateral (a line of marked text), falling back to the annotation's Rect
+ */
+function quadBoxes(page: PDFPage, dict: PDFDict, rect: number[]): Box[] {
+  const quads = numbers(dict, 'QuadPoints');
+  if (!quads || quads.length < 8 || quads.length % 8 !== 0) return [rectBox(page, rect)];
+
+  const boxes: Box[] = [];
+  for (let i = 0; i < quads.length; i += 8) {
+    const quad = quads.slice(i, i + 8);
+    boxes.push(topLeftBox(page.getCropBox(), [quad[0], quad[2], quad[4], quad[6]], [quad[1], quad[3], quad[5], quad[7]], pageRotation(page)));
+  }
+  return boxes;
+}
+
+function toAnnotations(page: PDFPage, pageNumber: number, subtype: ImportedSubtype, dict: PDFDict, rect: number[]): Annotation[] {
+  const color = pdfColorToHex(numbers(dict, 'C'));
+  const contents = text(dict, 'Contents');
+  const base = { page: pageNumber, isAutomatic: false, ...(contents ? { text: contents } : {}) };
+
+  switch (subtype) {
+    case 'Highlight':
+      return quadBoxes(page, dict, rect)
+        .filter(box => box.width > 0 && box.height > 0)
+        .map(box => ({ ...base, type: 'highlight', ...box, color: color ? withAlpha(color, 0.3) : undefined }));
+    case 'Underline':
+      // The canvas draws the line height below y, so place it at the bottom of the marked text
+      return quadBoxes(page, dict, rect)
+        .filter(box => box.width > 0)
+        .map(box => ({ ...base, type: 'underline', ...box, y: box.y + box.height - UNDERLINE_HEIGHT, height: UNDERLINE_HEIGHT, color }));
+    case 'Square': {
+      const box = rectBox(page, rect);
+      return box.width > 0 && box.height > 0 ? [{ ...base, type: 'rectangle', ...box, color }] : [];
+    }
+    case 'Circle': {
+      const box = rectBox(page, rect);
+      const radius = Math.round(Math.max(box.width, box.height) / 2);
+      if (!radius) return [];
+      return [{ ...base, type: 'circle', x: Math.round(box.x + box.width / 2) - radius, y: Math.round(box.y + box.height / 2) - radius, radius, color }];
+    }
+    case 'Ink': {
+      const inkList = dict.lookupMaybe(PDFName.of('InkList'), PDFArray);
+      if (!inkList) return [];
+      const crop = page.getCropBox();
+      const rotation = pageRotation(page);
+      const strokes: Annotation[] = [];
+      for (let i = 0; i < inkList.size(); i++) {
+        const path = inkList.lookupMaybe(i, PDFArray);
+        if (!path) continue;
+        const coordinates = path.asArray().map((_, j) => path.lookupMaybe(j, PDFNumber)?.asNumber() ?? NaN);
+        const points: Array<{ x: number; y: number }> = [];
+        for (let j = 0; j + 1 < coordinates.length; j += 2) {
+          if (Number.isFinite(coordinates[j]) && Number.isFinite(coordinates[j + 1])) {
+            points.push(toViewerPoint(crop, rotation, coordinates[j], coordinates[j + 1]));
+          }
+        }
+        // Pen strokes keep their points in text, so the stroke's note is not carried over
+        const stroke = strokeToAnnotation(points, pageNumber, color || DEFAULT_TOOL_COLOR);
+        if (stroke) strokes.push(stroke);
+      }
+      return strokes;
+    }
+    case 'FreeText': {
+      if (!contents) return [];
+      const box = rectBox(page, rect);
+      return [{ ...base, type: 'text', x: box.x, y: box.y, width: box.width || STICKY_NOTE_WIDTH, color: appearanceColor(text(dict, 'DA')) }];
+    }
+    case 'Text': {
+      // A sticky-note icon; the note opens where the icon sits
+      if (!contents) return [];
+      const box = rectBox(page, rect);
+      return [{ ...base, type: 'text', x: box.x, y: box.y, width: STICKY_NOTE_WIDTH }];
+    }
+  }
+}
+
+/**
+ * Annotations from every page's /Annots that the viewer can show, in page order.
+ * Hidden annotations and other subtypes (links, popups, form widgets) are skipped.
+ */
+export function readPdfAnnotations(doc: PDFDocument): ImportedAnnotation[] {
+  const imported: ImportedAnnotation[] = [];
+
+  doc.getPages().forEach((page, index) => {
+    const annots = page.node.Annots();
+    if (!annots) return;
+
+    for (let i = 0; i < annots.size() && imported.length < MAX_IMPORTED_ANNOTATIONS; i++) {
+      try {
+        const dict = annots.lookupMaybe(i, PDFDict);
+        const subtype = dict?.lookupMaybe(PDFName.of('Subtype'), PDFName)?.decodeText() as ImportedSubtype | undefined;
+        if (!dict || !subtype || !IMPORTED_SUBTYPES.includes(subtype)) continue;
+
+        const flags = dict.lookupMaybe(PDFName.of('F'), PDFNumber)?.asNumber() ?? 0;
+        const rect = numbers(dict, 'Rect');
+        if (flags & HIDDEN_FLAG || !rect || rect.length !== 4) continue;
+
+        const author = text(dict, 'T');
+        for (const annotation of toAnnotations(page, index + 1, subtype, dict, rect)) {
+          imported.push({ annotation: annotation as ImportedAnnotation['annotation'], subtype, ...(author ? { author } : {}) });
+        }
+      } catch (error) {
+        // pdf-lib throws on entries of the wrong type; one malformed annotation should not cost the rest
+        console.warn(`Skipping unreadable annotation ${i} on page ${index + 1}:`, error);
+      }
+    }
+  });
+
+  return imported.slice(0, MAX_IMPORTED_ANNOTATIONS);
+}
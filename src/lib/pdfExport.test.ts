@@ -0,0 +1,124 @@
+import { PDFArray, PDFDict, PDFDocument, PDFName, degrees } from 'pdf-lib';
+import { Annotation } from '@/types/types';
+import { ExportRangeError, exportAnnotatedPdf, filterAnnotations, parseColor, parseExportOptions, wrapText } from './pdfExport';
+import { readPdfAnnotations } from './pdfAnnotationImport';
+
+async function blankPdf(pageCount: number): Promise<Uint8Array> {
+  const doc = await PDFDocument.create();
+  for (let i = 0; i < pageCount; i++) doc.addPage([600, 800]);
+  return await doc.save();
+}
+
+function annotationSubtypes(doc: PDFDocument, pageIndex: number): string[] {
+  const annots = doc.getPage(pageIndex).node.Annots();
+  if (!annots) return [];
+  return annots.asArray().map(ref => doc.context.lookup(ref, PDFDict).get(PDFName.of('Subtype'))!.toString());
+}
+
+const annotations: Annotation[] = [
+  { type: 'highlight', page: 1, x: 50, y: 100, width: 200, height: 12, importance: 'high', isAutomatic: true },
+  { type: 'arrow', page: 2, x: 10, y: 10, width: 50, height: 0, isAutomatic: true, importance: 'low' },
+  { type: 'freeform', page: 2, x: 0, y: 0, text: '[[10,10],[20,30],[40,40]]', color: '#2563eb', isAutomatic: false },
+  { type: 'text', page: 3, x: 100, y: 100, text: 'Remember this', isAutomatic: false },
+];
+
+describe('parseExportOptions', () => {
+  test('should default to flattening every annotation on every page', () => {
+    expect(parseExportOptions(new URLSearchParams()).options).toEqual({
+      mode: 'flatten', source: 'all', pages: undefined, importance: undefined, includeChat: false,
+    });
+  });
+
+  test('should read page ranges, source, importance and chat', () => {
+    const { options } = parseExportOptions(new URLSearchParams('mode=native&pages=1-3,5&source=user&importance=high,medium&chat=true'));
+    expect(options).toEqual({ mode: 'native', source: 'user', pages: [[1, 3], [5, 5]], importance: ['high', 'medium'], includeChat: true });
+  });
+
+  test('should reject invalid values', () => {
+    expect(parseExportOptions(new URLSearchParams('mode=print')).error).toMatch('mode');
+    expect(parseExportOptions(new URLSearchParams('pages=3-1')).error).toMatch('pages');
+    expect(parseExportOptions(new URLSearchParams('pages=0')).error).toMatch('pages');
+    expect(parseExportOptions(new URLSearchParams('importance=urgent')).error).toMatch('importance');
+  });
+});
+
+describe('filterAnnotations', () => {
+  const options = parseExportOptions(new URLSearchParams()).options!;
+
+  test('should filter by page, source and importance', () => {
+    expect(filterAnnotations(annotations, { ...options, pages: [[2, 3]] })).toHaveLength(3);
+    expect(filterAnnotations(annotations, { ...options, source: 'ai' }).map(a => a.type)).toEqual(['highlight', 'arrow']);
+    expect(filterAnnotations(annotations, { ...options, source: 'user' }).map(a => a.type)).toEqual(['freeform', 'text']);
+    expect(filterAnnotations(annotations, { ...options, importance: ['high'] }).map(a => a.type)).toEqual(['highlight']);
+  });
+});
+
+describe('parseColor', () => {
+  test('should read hex, rgba and named colors', () => {
+    expect(parseColor('#ff0000', 'black')).toEqual({ r: 1, g: 0, b: 0, alpha: 1 });
+    expect(parseColor('#00f', 'black')).toEqual({ r: 0, g: 0, b: 1, alpha: 1 });
+    expect(parseColor('rgba(255, 255, 0, 0.3)', 'black')).toEqual({ r: 1, g: 1, b: 0, alpha: 0.3 });
+    expect(parseColor('yellow', 'black')).toEqual({ r: 1, g: 1, b: 0, alpha: 1 });
+    expect(parseColor('hsl(0, 0%, 0%)', '#ffffff')).toEqual({ r: 1, g: 1, b: 1, alpha: 1 });
+  });
+});
+
+describe('wrapText', () => {
+  test('should wrap on words, keep line breaks and split long words', () => {
+    const measure = (line: string) => line.length;
+    expect(wrapText('one two three\nfour', measure, 8)).toEqual(['one two', 'three', 'four']);
+    expect(wrapText('abcdefghij', measure, 4)).toEqual(['abcd', 'efgh', 'ij']);
+  });
+});
+
+describe('exportAnnotatedPdf', () => {
+  const details = { title: 'Lecture 1', author: 'student@example.com' };
+
+  test('should write native annotations on the selected pages only', async () => {
+    const { options } = parseExportOptions(new URLSearchParams('mode=native&pages=2-3'));
+    const exported = await PDFDocument.load(await exportAnnotatedPdf(await blankPdf(3), annotations, options!, details));
+
+    expect(exported.getPageCount()).toBe(2);
+    expect(annotationSubtypes(exported, 0)).toEqual(['/Line', '/Ink']);
+    expect(annotationSubtypes(exported, 1)).toEqual(['/FreeText']);
+
+    const line = exported.context.lookup(exported.getPage(0).node.Annots()!.get(0), PDFDict);
+    // Top-left (10, 10) on an 800pt page is (10, 790) in PDF space
+    expect(line.lookup(PDFName.of('L'), PDFArray).asArray().map(n => Number(n.toString()))).toEqual([10, 790, 60, 790]);
+  });
+
+  test('should flatten into the page content and append the transcript', async () => {
+    const { options } = parseExportOptions(new URLSearchParams('chat=true'));
+    const transcript = [
+      { role: 'user', content: 'What is entropy? 🤔' },
+      { role: 'assistant', content: 'A measure of disorder.\n\nSee the highlight on page 1.' },
+    ];
+    const exported = await PDFDocument.load(await exportAnnotatedPdf(await blankPdf(3), annotations, options!, { ...details, transcript }));
+
+    expect(exported.getPageCount()).toBe(4);
+    expect(annotationSubtypes(exported, 0)).toEqual([]);
+  });
+
+  test('should place annotations on a rotated page where the viewer showed them', async () => {
+    const source = await PDFDocument.create();
+    source.addPage([600, 800]).setRotation(degrees(90));
+    const drawn: Annotation[] = [
+      { type: 'rectangle', page: 1, x: 650, y: 100, width: 50, height: 200, isAutomatic: false },
+      { type: 'arrow', page: 1, x: 10, y: 20, width: 50, height: 0, isAutomatic: true },
+    ];
+    const { options } = parseExportOptions(new URLSearchParams('mode=native'));
+    const exported = await PDFDocument.load(await exportAnnotatedPdf(await source.save(), drawn, options!, details));
+
+    const square = exported.context.lookup(exported.getPage(0).node.Annots()!.get(0), PDFDict);
+    // Turned a quarter clockwise, the shown top-left corner is the PDF's bottom-left
+    expect(square.lookup(PDFName.of('Rect'), PDFArray).asArray().map(n => Number(n.toString()))).toEqual([100, 650, 300, 700]);
+    const line = exported.context.lookup(exported.getPage(0).node.Annots()!.get(1), PDFDict);
+    expect(line.lookup(PDFName.of('L'), PDFArray).asArray().map(n => Number(n.toString()))).toEqual([20, 10, 20, 60]);
+    expect(readPdfAnnotations(exported)[0].annotation).toMatchObject({ type: 'rectangle', x: 650, y: 100, width: 50, height: 200 });
+  });
+
+  test('should refuse a range with no pages', async () => {
+    const { options } = parseExportOptions(new URLSearchParams('pages=9'));
+    await expect(exportAnnotatedPdf(await blankPdf(3), annotations, options!, details)).rejects.toBeInstanceOf(ExportRangeError);
+  });
+});
@@ -0,0 +1,526 @@
+/**
+ * Annotated PDF export
+ * Copies a PDF with its annotations either drawn into the page content (flattened) or written as
+ * native PDF annotation objects that Acrobat and Preview can show and edit.
+ * Annotations are in top-left page points, as the viewer draws them at scale 1 on the page turned by its /Rotate.
+ */
+
+import {
+  BlendMode,
+  LineCapStyle,
+  PDFDocument,
+  PDFFont,
+  PDFHexString,
+  PDFPage,
+  PDFString,
+  StandardFonts,
+  degrees,
+  rgb,
+} from 'pdf-lib';
+import { Annotation } from '@/types/types';
+import { STICKY_NOTE_WIDTH, freeformPoints } from './drawingTools';
+import { pageRotation } from './pdfAnnotationImport';
+
+export type ExportMode = 'flatten' | 'native';
+export type ExportSource = 'all' | 'ai' | 'user';
+type Importance = NonNullable<Annotation['importance']>;
+
+export interface ExportOptions {
+  mode: ExportMode;
+  pages?: Array<[number, number]>; // inclusive page ranges to export; every page when unset
+  source: ExportSource;
+  importance?: Importance[]; // when set, annotations without an importance are left out
+  includeChat: boolean;
+}
+
+export interface TranscriptMessage {
+  role: string;
+  content: string;
+  createdAt?: Date | string;
+}
+
+// The requested page range has no pages in this document
+export class ExportRangeError extends Error {
+  constructor() {
+    super('No pages in the selected range');
+    this.name = 'ExportRangeError';
+  }
+}
+
+interface ParsedColor {
+  r: number;
+  g: number;
+  b: number;
+  alpha: number;
+}
+
+// The viewer's defaults, so an export looks like the screen
+const DEFAULT_COLORS: Record<Annotation['type'], string> = {
+  highlight: 'rgba(255, 255, 0, 0.3)',
+  circle: 'rgba(255, 0, 0, 0.8)',
+  arrow: 'rgba(255, 0, 0, 0.8)',
+  underline: 'rgba(0, 0, 255, 0.8)',
+  rectangle: 'rgba(0, 0, 255, 0.8)',
+  text: '#000000',
+  freeform: 'rgba(128, 0, 128, 0.8)',
+};
+
+const NAMED_COLORS: Record<string, [number, number, number]> = {
+  black: [0, 0, 0],
+  white: [255, 255, 255],
+  red: [255, 0, 0],
+  green: [0, 128, 0],
+  blue: [0, 0, 255],
+  yellow: [255, 255, 0],
+  orange: [255, 165, 0],
+  purple: [128, 0, 128],
+};
+
+const IMPORTANCE_LEVELS: Importance[] = ['low', 'medium', 'high'];
+const MAX_HIGHLIGHT_ALPHA = 0.4;
+const ARROW_HEAD_LENGTH = 12;
+const NOTE_FONT_SIZE = 12;
+const NOTE_PADDING = 5;
+const TRANSCRIPT_FONT_SIZE = 10;
+const TRANSCRIPT_MARGIN = 50;
+
+/**
+ * Parse '1-3,5' into inclusive ranges; null if malformed
+ */
+export function parsePageRanges(value: string): Array<[number, number]> | null {
+  const ranges: Array<[number, number]> = [];
+  for (const part of value.split(',')) {
+    const match = /^\s*(\d+)\s*(?:-\s*(\d+)\s*)?$/.exec(part);
+    if (!match) return null;
+    const from = parseInt(match[1], 10);
+    const to = match[2] ? parseInt(match[2], 10) : from;
+    if (from < 1 || to < from) return null;
+    ranges.push([from, to]);
+  }
+  return ranges;
+}
+
+/**
+ * Read export options from the query string: mode, pages, source, importance and chat
+ */
+export function parseExportOptions(params: URLSearchParams): { options?: ExportOptions; error?: string } {
+  const mode = params.get('mode') || 'flatten';
+  if (mode !== 'flatten' && mode !== 'native') {
+    return { error: 'mode must be flatten or native' };
+  }
+
+  const source = params.get('source') || 'all';
+  if (source !== 'all' && source !== 'ai' && source !== 'user') {
+    return { error: 'source must be all, ai or user' };
+  }
+
+  let pages: ExportOptions['pages'];
+  const pagesParam = params.get('pages');
+  if (pagesParam) {
+    const ranges = parsePageRanges(pagesParam);
+    if (!ranges) return { error: 'pages must look like 1-3,5' };
+    pages = ranges;
+  }
+
+  let importance: ExportOptions['importance'];
+  const importanceParam = params.get('importance');
+  if (importanceParam) {
+    const levels = importanceParam.split(',').map(level => level.trim());
+    if (!levels.every(level => (IMPORTANCE_LEVELS as string[]).includes(level))) {
+      return { error: 'importance must list low, medium and/or high' };
+    }
+    importance = levels as Importance[];
+  }
+
+  const chat = params.get('chat');
+  return { options: { mode, source, pages, importance, includeChat: chat === 'true' || chat === '1' } };
+}
+
+export function isPageSelected(page: number, ranges?: Array<[number, number]>): boolean {
+  return !ranges || ranges.some(([from, to]) => page >= from && page <= to);
+}
+
+/**
+ * The annotations an export includes
+ */
+export function filterAnnotations(annotations: Annotation[], options: ExportOptions): Annotation[] {
+  return annotations.filter(annotation => {
+    if (!annotation.page || !isPageSelected(annotation.page, options.pages)) return false;
+    if (options.source === 'ai' && !annotation.isAutomatic) return false;
+    if (options.source === 'user' && annotation.isAutomatic) return false;
+    if (options.importance && !(annotation.importance && options.importance.includes(annotation.importance))) return false;
+    return true;
+  });
+}
+
+/**
+ * A CSS color ('#rgb', '#rrggbb', 'rgb()', 'rgba()' or a common name) as 0-1 channels; fallback when unreadable
+ */
+export function parseColor(color: string | undefined, fallback: string): ParsedColor {
+  const value = (color || '').trim().toLowerCase();
+
+  const hex = /^#([0-9a-f]{3}|[0-9a-f]{6})$/.exec(value);
+  if (hex) {
+    const digits = hex[1].length === 3 ? hex[1].split('').map(d => d + d) : hex[1].match(/../g)!;
+    const [r, g, b] = digits.map(d => parseInt(d, 16) / 255);
+    return { r, g, b, alpha: 1 };
+  }
+
+  const functional = /^rgba?\(\s*([\d.]+)\s*,\s*([\d.]+)\s*,\s*([\d.]+)\s*(?:,\s*([\d.]+)\s*)?\)$/.exec(value);
+  if (functional) {
+    const [r, g, b] = functional.slice(1, 4).map(channel => Math.min(Number(channel), 255) / 255);
+    const alpha = functional[4] === undefined ? 1 : Math.min(Number(functional[4]), 1);
+    return { r, g, b, alpha };
+  }
+
+  if (NAMED_COLORS[value]) {
+    const [r, g, b] = NAMED_COLORS[value];
+    return { r: r / 255, g: g / 255, b: b / 255, alpha: 1 };
+  }
+
+  return color === fallback ? { r: 0, g: 0, b: 0, alpha: 1 } : parseColor(fallback, fallback);
+}
+
+function annotationColor(annotation: Annotation): ParsedColor {
+  return parseColor(annotation.color, DEFAULT_COLORS[annotation.type]);
+}
+
+// Top-left page points to PDF user space, measured from the crop box the viewer shows turned by /Rotate
+function toPdfPoint(page: PDFPage, x: number, y: number): { x: number; y: number } {
+  const box = page.getCropBox();
+  switch (pageRotation(page)) {
+    case 90: return { x: box.x + y, y: box.y + x };
+    case 180: return { x: box.x + box.width - x, y: box.y + y };
+    case 270: return { x: box.x + box.width - y, y: box.y + box.height - x };
+    default: return { x: box.x + x, y: box.y + box.height - y };
+  }
+}
+
+// A top-left box to the rectangle it covers in PDF user space, from its bottom-left corner
+function toPdfRect(page: PDFPage, x: number, y: number, width: number, height: number): { x: number; y: number; width: number; height: number } {
+  const [a, b] = [toPdfPoint(page, x, y), toPdfPoint(page, x + width, y + height)];
+  return { x: Math.min(a.x, b.x), y: Math.min(a.y, b.y), width: Math.abs(b.x - a.x), height: Math.abs(b.y - a.y) };
+}
+
+// [llx, lly, urx, ury] of points, grown by pad on every side
+function boundingRect(points: Array<{ x: number; y: number }>, pad = 0): number[] {
+  const xs = points.map(point => point.x);
+  const ys = points.map(point => point.y);
+  return [Math.min(...xs) - pad, Math.min(...ys) - pad, Math.max(...xs) + pad, Math.max(...ys) + pad];
+}
+
+// Standard fonts only cover WinAnsi; anything else prints as '?' (line breaks are kept for wrapText)
+function encodable(font: PDFFont, text: string): string {
+  const supported = new Set(font.getCharacterSet());
+  return Array.from(text.replace(/\t/g, '  ').replace(/[‘’]/g, "'").replace(/[“”]/g, '"'))
+    .map(char => char === '\n' || char === '\r' || supported.has(char.codePointAt(0)!) ? char : '?')
+    .join('');
+}
+
+/**
+ * Split text into lines no wider than maxWidth; long words are broken
+ */
+export function wrapText(text: string, measure: (line: string) => number, maxWidth: number): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split(/\r?\n/)) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (measure(candidate) <= maxWidth) {
+        line = candidate;
+        continue;
+      }
+      if (line) lines.push(line);
+      line = word;
+      while (measure(line) > maxWidth && line.length > 1) {
+        let cut = line.length - 1;
+        while (cut > 1 && measure(line.slice(0, cut)) > maxWidth) cut--;
+        lines.push(line.slice(0, cut));
+        line = line.slice(cut);
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+function arrowHead(from: { x: number; y: number }, to: { x: number; y: number }) {
+  const angle = Math.atan2(to.y - from.y, to.x - from.x);
+  const spread = Math.PI / 7;
+  return [angle + Math.PI - spread, angle + Math.PI + spread].map(side => ({
+    x: to.x + ARROW_HEAD_LENGTH * Math.cos(side),
+    y: to.y + ARROW_HEAD_LENGTH * Math.sin(side),
+  }));
+}
+
+function drawNote(page: PDFPage, annotation: Annotation, font: PDFFont, color: ParsedColor) {
+  const width = annotation.width || STICKY_NOTE_WIDTH;
+  const lines = wrapText(encodable(font, annotation.text || ''), line => font.widthOfTextAtSize(line, NOTE_FONT_SIZE), width - NOTE_PADDING * 2);
+  const lineHeight = font.heightAtSize(NOTE_FONT_SIZE) * 1.2;
+  const height = lines.length * lineHeight + NOTE_PADDING * 2;
+
+  page.drawRectangle({ ...toPdfRect(page, annotation.x, annotation.y, width, height), color: rgb(1, 1, 1), opacity: 0.9 });
+  lines.forEach((line, index) => {
+    page.drawText(line, {
+      ...toPdfPoint(page, annotation.x + NOTE_PADDING, annotation.y + NOTE_PADDING + (index + 1) * lineHeight - (lineHeight - NOTE_FONT_SIZE)),
+      // Upright once the viewer turns the page
+      rotate: degrees(pageRotation(page)),
+      size: NOTE_FONT_SIZE,
+      font,
+      color: rgb(color.r, color.g, color.b),
+    });
+  });
+}
+
+/**
+ * Draw an annotation into the page content
+ */
+function drawAnnotation(page: PDFPage, annotation: Annotation, font: PDFFont) {
+  const color = annotationColor(annotation);
+  const stroke = rgb(color.r, color.g, color.b);
+  const thickness = annotation.strokeWidth || 2;
+
+  switch (annotation.type) {
+    case 'highlight':
+      if (!annotation.width || !annotation.height) return;
+      page.drawRectangle({
+        ...toPdfRect(page, annotation.x, annotation.y, annotation.width, annotation.height),
+        color: stroke,
+        opacity: Math.min(color.alpha, MAX_HIGHLIGHT_ALPHA),
+        blendMode: BlendMode.Multiply,
+      });
+      return;
+    case 'rectangle':
+      if (!annotation.width || !annotation.height) return;
+      page.drawRectangle({
+        ...toPdfRect(page, annotation.x, annotation.y, annotation.width, annotation.height),
+        borderColor: stroke,
+        borderWidth: thickness,
+        borderOpacity: color.alpha,
+        borderDashArray: [5, 5],
+      });
+      return;
+    case 'circle':
+      if (!annotation.radius) return;
+      page.drawCircle({
+        ...toPdfPoint(page, annotation.x + annotation.radius, annotation.y + annotation.radius),
+        size: annotation.radius,
+        color: stroke,
+        opacity: 0.1,
+        borderColor: stroke,
+        borderWidth: thickness,
+        borderOpacity: color.alpha,
+      });
+      return;
+    case 'underline': {
+      if (!annotation.width) return;
+      const y = annotation.y + (annotation.height || 5);
+      page.drawLine({
+        start: toPdfPoint(page, annotation.x, y),
+        end: toPdfPoint(page, annotation.x + annotation.width, y),
+        thickness,
+        color: stroke,
+        opacity: color.alpha,
+      });
+      return;
+    }
+    case 'arrow': {
+      if (!annotation.width && !annotation.height) return;
+      const start = toPdfPoint(page, annotation.x, annotation.y);
+      const end = toPdfPoint(page, annotation.x + (annotation.width || 0), annotation.y + (annotation.height || 0));
+      const line = { thickness, color: stroke, opacity: color.alpha, lineCap: LineCapStyle.Round };
+      page.drawLine({ start, end, ...line });
+      arrowHead(start, end).forEach(point => page.drawLine({ start: end, end: point, ...line }));
+      return;
+    }
+    case 'freeform': {
+      const points = freeformPoints(annotation).map(point => toPdfPoint(page, point.x, point.y));
+      if (points.length < 2) return;
+      // SVG paths are drawn downwards from the given origin, so PDF points go in with y negated
+      const path = points.map((point, index) => `${index === 0 ? 'M' : 'L'} ${point.x} ${-point.y}`).join(' ');
+      page.drawSvgPath(path, {
+        x: 0,
+        y: 0,
+        borderColor: stroke,
+        borderWidth: thickness,
+        borderOpacity: color.alpha,
+        borderLineCap: LineCapStyle.Round,
+      });
+      return;
+    }
+    case 'text':
+      if (annotation.text) drawNote(page, annotation, font, color);
+      return;
+  }
+}
+
+/**
+ * Add an annotation to the page as a native PDF annotation object
+ */
+function addNativeAnnotation(doc: PDFDocument, page: PDFPage, annotation: Annotation, author: string) {
+  const color = annotationColor(annotation);
+  const thickness = annotation.strokeWidth || 2;
+  const { x, y } = annotation;
+  const width = annotation.width || 0;
+  const height = annotation.height || 0;
+  const pad = thickness + ARROW_HEAD_LENGTH;
+  const rect = (boxWidth: number, boxHeight: number) => boundingRect([toPdfPoint(page, x, y), toPdfPoint(page, x + boxWidth, y + boxHeight)]);
+
+  const common: Record<string, any> = {
+    Type: 'Annot',
+    C: [color.r, color.g, color.b],
+    CA: color.alpha,
+    F: 4, // Print
+    T: PDFHexString.fromText(author),
+    M: PDFString.fromDate(new Date()),
+    ...(annotation.id ? { NM: PDFHexString.fromText(annotation.id) } : {}),
+    ...(annotation.text && annotation.type !== 'freeform' ? { Contents: PDFHexString.fromText(annotation.text) } : {}),
+  };
+  const border = { BS: { W: thickness, S: 'S' } };
+  // Corners in reading order as the page is shown: top-left, top-right, bottom-left, bottom-right
+  const quad = (boxHeight: number) => {
+    const corners = [[x, y], [x + width, y], [x, y + boxHeight], [x + width, y + boxHeight]].map(([cx, cy]) => toPdfPoint(page, cx, cy));
+    return { Rect: boundingRect(corners), QuadPoints: corners.flatMap(corner => [corner.x, corner.y]) };
+  };
+
+  let dict: Record<string, any> | null = null;
+  switch (annotation.type) {
+    case 'highlight':
+      if (width && height) dict = { Subtype: 'Highlight', ...quad(height), CA: Math.min(color.alpha, MAX_HIGHLIGHT_ALPHA) };
+      break;
+    case 'underline':
+      if (width) dict = { Subtype: 'Underline', ...quad(height || 5) };
+      break;
+    case 'rectangle':
+      if (width && height) {
+        dict = { Subtype: 'Square', Rect: rect(width, height), BS: { W: thickness, S: 'D', D: [5, 5] } };
+      }
+      break;
+    case 'circle':
+      if (annotation.radius) {
+        const diameter = annotation.radius * 2;
+        dict = { Subtype: 'Circle', Rect: rect(diameter, diameter), ...border };
+      }
+      break;
+    case 'arrow':
+      if (width || height) {
+        const start = toPdfPoint(page, x, y);
+        const end = toPdfPoint(page, x + width, y + height);
+        dict = {
+          Subtype: 'Line',
+          Rect: boundingRect([start, end], pad),
+          L: [start.x, start.y, end.x, end.y],
+          LE: ['None', 'OpenArrow'],
+          IC: [color.r, color.g, color.b],
+          ...border,
+        };
+      }
+      break;
+    case 'freeform': {
+      const points = freeformPoints(annotation).map(point => toPdfPoint(page, point.x, point.y));
+      if (points.length >= 2) {
+        dict = {
+          Subtype: 'Ink',
+          Rect: boundingRect(points, thickness),
+          InkList: [points.flatMap(point => [point.x, point.y])],
+          ...border,
+        };
+      }
+      break;
+    }
+    case 'text':
+      if (annotation.text) {
+        const noteWidth = width || STICKY_NOTE_WIDTH;
+        const noteHeight = height || NOTE_FONT_SIZE * 4;
+        dict = {
+          Subtype: 'FreeText',
+          Rect: rect(noteWidth, noteHeight),
+          DA: PDFString.of(`/Helv ${NOTE_FONT_SIZE} Tf ${color.r} ${color.g} ${color.b} rg`),
+          C: [1, 1, 1],
+          CA: 1,
+          BS: { W: 0 },
+        };
+      }
+      break;
+  }
+
+  if (!dict) return;
+  page.node.addAnnot(doc.context.register(doc.context.obj({ ...common, ...dict })));
+}
+
+/**
+ * Append the chat as extra pages, sized like the document's first page
+ */
+async function appendTranscript(doc: PDFDocument, title: string, messages: TranscriptMessage[]) {
+  const font = await doc.embedFont(StandardFonts.Helvetica);
+  const bold = await doc.embedFont(StandardFonts.HelveticaBold);
+  const [width, height] = doc.getPageCount() > 0 ? [doc.getPage(0).getWidth(), doc.getPage(0).getHeight()] : [612, 792];
+  const lineHeight = TRANSCRIPT_FONT_SIZE * 1.4;
+  const textWidth = width - TRANSCRIPT_MARGIN * 2;
+
+  let page = doc.addPage([width, height]);
+  let y = height - TRANSCRIPT_MARGIN;
+  const writeLine = (text: string, lineFont: PDFFont, size = TRANSCRIPT_FONT_SIZE) => {
+    if (y - lineHeight < TRANSCRIPT_MARGIN) {
+      page = doc.addPage([width, height]);
+      y = height - TRANSCRIPT_MARGIN;
+    }
+    y -= lineHeight;
+    page.drawText(text, { x: TRANSCRIPT_MARGIN, y, size, font: lineFont, color: rgb(0, 0, 0) });
+  };
+  const writeWrapped = (text: string, lineFont: PDFFont, size = TRANSCRIPT_FONT_SIZE) => {
+    wrapText(encodable(lineFont, text), line => lineFont.widthOfTextAtSize(line, size), textWidth)
+      .forEach(line => writeLine(line, lineFont, size));
+  };
+
+  writeWrapped(`Chat transcript: ${title}`, bold, TRANSCRIPT_FONT_SIZE + 4);
+  y -= lineHeight;
+  for (const message of messages) {
+    const speaker = message.role === 'user' ? 'You' : 'Tutor';
+    const time = message.createdAt ? ` (${new Date(message.createdAt).toLocaleString('en-US')})` : '';
+    writeWrapped(`${speaker}${time}`, bold);
+    writeWrapped(message.content, font);
+    y -= lineHeight / 2;
+  }
+}
+
+/**
+ * Build the exported PDF. Pages outside options.pages are dropped; annotations are filtered
+ * by filterAnnotations. author names the user on native annotations they drew.
+ */
+export async function exportAnnotatedPdf(
+  pdfBytes: Uint8Array | ArrayBuffer,
+  annotations: Annotation[],
+  options: ExportOptions,
+  details: { title: string; author: string; transcript?: TranscriptMessage[] }
+): Promise<Uint8Array> {
+  const doc = await PDFDocument.load(pdfBytes);
+  const font = await doc.embedFont(StandardFonts.Helvetica);
+  const pages = doc.getPages();
+  const selected = filterAnnotations(annotations, options);
+
+  pages.forEach((page, index) => {
+    const pageNumber = index + 1;
+    if (!isPageSelected(pageNumber, options.pages)) return;
+    for (const annotation of selected.filter(a => a.page === pageNumber)) {
+      if (options.mode === 'native') {
+        addNativeAnnotation(doc, page, annotation, annotation.isAutomatic ? 'AI tutor' : details.author);
+      } else {
+        drawAnnotation(page, annotation, font);
+      }
+    }
+  });
+
+  for (let index = pages.length - 1; index >= 0; index--) {
+    if (!isPageSelected(index + 1, options.pages)) doc.removePage(index);
+  }
+  if (doc.getPageCount() === 0) {
+    throw new ExportRangeError();
+  }
+
+  if (options.includeChat && details.transcript?.length) {
+    await appendTranscript(doc, details.title, details.transcript);
+  }
+
+  return await doc.save();
+}
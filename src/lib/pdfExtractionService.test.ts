@@ -0,0 +1,78 @@
+/**
+ * Unit tests for the server-side PDF extraction pipeline
+ * Tests grouping of pdf.js text items into lines and page geometry
+ */
+
+import { buildPageLayout, RawTextItem } from './pdfExtractionService';
+
+jest.mock('@/lib/prisma', () => ({}));
+
+// pdf.js items use a bottom-left origin: transform[4] = x, transform[5] = baseline
+const item = (str: string, x: number, baseline: number, width: number, height = 12): RawTextItem => ({
+  str,
+  width,
+  height,
+  transform: [height, 0, 0, height, x, baseline],
+});
+
+describe('buildPageLayout', () => {
+  test('should group items on the same baseline into one line', () => {
+    const layout = buildPageLayout([
+      item('Hello', 72, 700, 30),
+      item('world', 106, 700, 32),
+    ], 612, 792);
+
+    expect(layout.lines).toHaveLength(1);
+    expect(layout.lines[0].text).toBe('Hello world');
+    expect(layout.text).toBe('Hello world');
+  });
+
+  test('should convert positions to top-left coordinates', () => {
+    const layout = buildPageLayout([item('Title', 72, 700, 40)], 612, 792);
+
+    expect(layout.lines[0]).toMatchObject({ x: 72, y: 80, width: 40, height: 12 });
+    expect(layout.lineOffsets).toEqual([80]);
+  });
+
+  test('should order lines top to bottom regardless of item order', () => {
+    const layout = buildPageLayout([
+      item('Second line', 72, 680, 60),
+      item('First line', 72, 700, 55),
+    ], 612, 792);
+
+    expect(layout.text).toBe('First line\nSecond line');
+    expect(layout.lineOffsets).toEqual([80, 100]);
+  });
+
+  test('should record page-text offsets and item spans for each line', () => {
+    const layout = buildPageLayout([
+      item('Hello', 72, 700, 30),
+      item('world', 106, 700, 32),
+      item('Next', 72, 680, 25),
+    ], 612, 792);
+
+    expect(layout.geometry.lines.map(line => line.start)).toEqual([0, 12]);
+    expect(layout.geometry.lines[0].spans).toEqual([
+      { start: 0, end: 5, x: 72, width: 30 },
+      { start: 6, end: 11, x: 106, width: 32 },
+    ]);
+    expect(layout.text.slice(layout.geometry.lines[1].start)).toBe('Next');
+  });
+
+  test('should compute the content box around all lines', () => {
+    const layout = buildPageLayout([
+      item('Left', 50, 700, 20),
+      item('Wider line here', 72, 600, 300),
+    ], 612, 792);
+
+    expect(layout.contentBox).toEqual({ left: 50, top: 80, width: 322, height: 112 });
+  });
+
+  test('should ignore whitespace-only items and fall back to the page box', () => {
+    const layout = buildPageLayout([item('   ', 72, 700, 10)], 612, 792);
+
+    expect(layout.lines).toHaveLength(0);
+    expect(layout.text).toBe('');
+    expect(layout.contentBox).toEqual({ left: 0, top: 0, width: 612, height: 792 });
+  });
+});
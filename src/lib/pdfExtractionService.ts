@@ -0,0 +1,321 @@
+/**
+ * Server-side PDF text extraction pipeline
+ * Extracts the text and line geometry of every page after upload and stores it as PDFPage rows
+ */
+
+import prisma from '@/lib/prisma';
+import { pdfPageService } from '@/lib/pdfPageService';
+import { annotationService } from '@/lib/annotationService';
+import { readPdfFile } from '@/lib/pdfAccess';
+import { GeometryLine, PageGeometry, TextSpan } from '@/lib/textAnchor';
+
+// Add a type cast to work around TypeScript errors with Prisma client
+const typedPrisma = prisma as any;
+
+export type ExtractionStatus = 'pending' | 'processing' | 'ready' | 'failed';
+
+// Minimal shape of a pdf.js text item that we rely on
+export interface RawTextItem {
+  str: string;
+  width: number;
+  height: number;
+  transform: number[];
+}
+
+// A line of text in top-left page coordinates (same system as PDFAnnotationCanvas),
+// with its offset in the page text and per-item spans for anchoring quotes
+export type TextLine = GeometryLine;
+
+export interface PageLayout {
+  text: string;
+  lines: TextLine[];
+  geometry: PageGeometry;
+  lineOffsets: number[];
+  contentBox: { left: number; top: number; width: number; height: number };
+  pageWidth: number;
+  pageHeight: number;
+}
+
+export interface ExtractionProgress {
+  pdfId: string;
+  status: ExtractionStatus;
+  pageCount: number;
+  extractedPages: number;
+  error?: string | null;
+}
+
+// Items whose baselines are closer than this fraction of the font size share a line
+const LINE_MERGE_RATIO = 0.5;
+
+// Jobs currently running in this process, keyed by pdfId
+const runningJobs = new Map<string, Promise<void>>();
+
+// A pending or processing PDF untouched for this long lost its job (a restart, or an instance that went away)
+export const EXTRACTION_STALE_MS = 10 * 60 * 1000;
+
+// Running jobs touch the PDF row every this many pages, so a long extraction is not taken for a lost one
+const HEARTBEAT_PAGES = 10;
+
+/**
+ * Group pdf.js text items into lines and compute page geometry.
+ * pdf.js reports positions with a bottom-left origin; everything returned here uses a top-left origin.
+ */
+export function buildPageLayout(items: RawTextItem[], pageWidth: number, pageHeight: number): PageLayout {
+  const positioned = items
+    .filter(item => item.str && item.str.trim().length > 0)
+    .map(item => {
+      const height = item.height || Math.abs(item.transform[3]) || 10;
+      return {
+        str: item.str,
+        x: item.transform[4],
+        baseline: item.transform[5],
+        width: item.width,
+        height,
+      };
+    })
+    // Top to bottom, then left to right
+    .sort((a, b) => (b.baseline - a.baseline) || (a.x - b.x));
+
+  const groups: typeof positioned[] = [];
+  for (const item of positioned) {
+    const current = groups[groups.length - 1];
+    if (current && Math.abs(current[0].baseline - item.baseline) <= current[0].height * LINE_MERGE_RATIO) {
+      current.push(item);
+    } else {
+      groups.push([item]);
+    }
+  }
+
+  let offset = 0;
+  const lines: TextLine[] = groups.map(group => {
+    group.sort((a, b) => a.x - b.x);
+
+    let text = '';
+    const spans: TextSpan[] = [];
+    let previousEnd: number | null = null;
+    for (const item of group) {
+      let str = item.str.replace(/\s+/g, ' ');
+      // Insert a space when there is a visible gap between consecutive items
+      if (previousEnd !== null && item.x - previousEnd > item.height * 0.15 && !text.endsWith(' ') && !str.startsWith(' ')) {
+        text += ' ';
+      }
+      if (text.length === 0 || text.endsWith(' ')) {
+        str = str.replace(/^ /, '');
+      }
+      spans.push({ start: text.length, end: text.length + str.length, x: Math.round(item.x * 10) / 10, width: Math.round(item.width * 10) / 10 });
+      text += str;
+      previousEnd = item.x + item.width;
+    }
+    text = text.trimEnd();
+
+    const left = Math.min(...group.map(i => i.x));
+    const right = Math.max(...group.map(i => i.x + i.width));
+    const height = Math.max(...group.map(i => i.height));
+    const baseline = Math.min(...group.map(i => i.baseline));
+
+    const line = {
+      text,
+      x: Math.round(left),
+      y: Math.round(pageHeight - baseline - height),
+      width: Math.round(right - left),
+      height: Math.round(height),
+      start: offset,
+      spans: spans.map(span => ({ ...span, end: Math.min(span.end, text.length) })),
+    };
+    offset += text.length + 1; // lines are joined with '\n'
+    return line;
+  });
+
+  const contentBox = lines.length > 0
+    ? (() => {
+        const left = Math.min(...lines.map(l => l.x));
+        const top = Math.min(...lines.map(l => l.y));
+        const right = Math.max(...lines.map(l => l.x + l.width));
+        const bottom = Math.max(...lines.map(l => l.y + l.height));
+        return { left, top, width: right - left, height: bottom - top };
+      })()
+    : { left: 0, top: 0, width: Math.round(pageWidth), height: Math.round(pageHeight) };
+
+  return {
+    text: lines.map(l => l.text).join('\n'),
+    lines,
+    geometry: { pageWidth, pageHeight, lines },
+    lineOffsets: lines.map(l => l.y),
+    contentBox,
+    pageWidth,
+    pageHeight,
+  };
+}
+
+/**
+ * Extract the layout of every page of a PDF buffer
+ */
+export async function extractPageLayouts(
+  buffer: Buffer | Uint8Array,
+  onPage?: (pageNumber: number, layout: PageLayout) => Promise<void>
+): Promise<PageLayout[]> {
+  // Imported lazily so the legacy (Node-compatible) build is only loaded on the server
+  const pdfjs = await import('pdfjs-dist/legacy/build/pdf.js');
+
+  const loadingTask = pdfjs.getDocument({
+    data: new Uint8Array(buffer),
+    isEvalSupported: false,
+    useSystemFonts: false,
+    disableFontFace: true,
+  });
+  const doc = await loadingTask.promise;
+
+  const layouts: PageLayout[] = [];
+  try {
+    for (let pageNumber = 1; pageNumber <= doc.numPages; pageNumber++) {
+      const page = await doc.getPage(pageNumber);
+      const viewport = page.getViewport({ scale: 1 });
+      const textContent = await page.getTextContent();
+
+      const layout = buildPageLayout(textContent.items as RawTextItem[], viewport.width, viewport.height);
+      layouts.push(layout);
+      page.cleanup();
+
+      if (onPage) {
+        await onPage(pageNumber, layout);
+      }
+    }
+  } finally {
+    await doc.destroy();
+  }
+
+  return layouts;
+}
+
+export const pdfExtractionService = {
+  /**
+   * Start extracting a PDF in the background.
+   * Safe to call repeatedly - a PDF that is already being extracted is not started twice.
+   */
+  start(pdfId: string, buffer: Buffer | Uint8Array): Promise<void> {
+    const running = runningJobs.get(pdfId);
+    if (running) return running;
+
+    const job = this.run(pdfId, buffer)
+      .catch(error => {
+        console.error(`PDF extraction failed for ${pdfId}:`, error);
+      })
+      .finally(() => {
+        runningJobs.delete(pdfId);
+      });
+
+    runningJobs.set(pdfId, job);
+    return job;
+  },
+
+  /**
+   * Extract every page and store it through pdfPageService, tracking status on the PDF row
+   */
+  async run(pdfId: string, buffer: Buffer | Uint8Array): Promise<void> {
+    await typedPrisma.pDF.update({
+      where: { id: pdfId },
+      data: { extractionStatus: 'processing', extractionError: null },
+    });
+
+    try {
+      const layouts = await extractPageLayouts(buffer, async (pageNumber, layout) => {
+        await pdfPageService.createOrUpdate({
+          pdfId,
+          pageNumber,
+          text: layout.text,
+          lineOffsets: layout.lineOffsets,
+          contentBox: layout.contentBox,
+          geometry: layout.geometry,
+        });
+        if (pageNumber % HEARTBEAT_PAGES === 0) {
+          await typedPrisma.pDF.update({ where: { id: pdfId }, data: { extractionStatus: 'processing' } });
+        }
+      });
+
+      await typedPrisma.pDF.update({
+        where: { id: pdfId },
+        data: {
+          extractionStatus: 'ready',
+          extractedAt: new Date(),
+          pageCount: layouts.length,
+        },
+      });
+
+      // Text-anchored highlights follow their quotes if the layout changed
+      try {
+        await annotationService.reanchor(pdfId);
+      } catch (reanchorError) {
+        console.error(`Re-anchoring annotations failed for ${pdfId}:`, reanchorError);
+      }
+    } catch (error: any) {
+      await typedPrisma.pDF.update({
+        where: { id: pdfId },
+        data: {
+          extractionStatus: 'failed',
+          extractionError: error?.message || 'Extraction failed',
+        },
+      });
+      throw error;
+    }
+  },
+
+  /**
+   * Restart an extraction whose job was lost: the PDF is still pending or processing, has not been
+   * touched for EXTRACTION_STALE_MS and no job runs for it here. It is extracted again from the
+   * stored file, or marked failed when the file is gone. Resolves to the status the PDF now has.
+   */
+  async recoverStale(
+    pdf: { id: string; url: string; extractionStatus: string; updatedAt: Date | string },
+    now: number = Date.now()
+  ): Promise<ExtractionStatus> {
+    const status = pdf.extractionStatus as ExtractionStatus;
+    if (status !== 'pending' && status !== 'processing') return status;
+    if (runningJobs.has(pdf.id) || now - new Date(pdf.updatedAt).getTime() < EXTRACTION_STALE_MS) return status;
+
+    // Claim the stale row, so concurrent reads (or instances) restart it once
+    const { count } = await typedPrisma.pDF.updateMany({
+      where: { id: pdf.id, extractionStatus: status, updatedAt: pdf.updatedAt },
+      data: { extractionStatus: 'pending', extractionError: null },
+    });
+    if (count === 0) return 'pending';
+
+    const buffer = await readPdfFile(pdf.url);
+    if (!buffer) {
+      console.warn(`PDF ${pdf.id} - Extraction was lost and the file is missing; marking it failed`);
+      await typedPrisma.pDF.update({
+        where: { id: pdf.id },
+        data: { extractionStatus: 'failed', extractionError: 'The uploaded file is missing' },
+      });
+      return 'failed';
+    }
+
+    console.warn(`PDF ${pdf.id} - Extraction was lost while ${status}; extracting again`);
+    this.start(pdf.id, buffer);
+    return 'pending';
+  },
+
+  /**
+   * Report extraction progress for a PDF, restarting an extraction whose job was lost
+   */
+  async getProgress(pdfId: string): Promise<ExtractionProgress | null> {
+    const findPdf = () => typedPrisma.pDF.findUnique({
+      where: { id: pdfId },
+      select: { id: true, url: true, updatedAt: true, pageCount: true, extractionStatus: true, extractionError: true },
+    });
+
+    let pdf = await findPdf();
+    if (!pdf) return null;
+    if (await this.recoverStale(pdf) !== pdf.extractionStatus) {
+      pdf = await findPdf();
+      if (!pdf) return null;
+    }
+
+    return {
+      pdfId,
+      status: pdf.extractionStatus as ExtractionStatus,
+      pageCount: pdf.pageCount,
+      extractedPages: await pdfPageService.countByPdfId(pdfId),
+      error: pdf.extractionError,
+    };
+  },
+};
@@ -6,6 +6,8 @@
 import { PrismaClient } from '@prisma/client';
 import prisma from '@/lib/prisma';
 import crypto from 'crypto';
+import { PageGeometry } from '@/lib/textAnchor';
+import { pdfExtractionService } from '@/lib/pdfExtractionService';
 
 // Add a type cast to work around TypeScript errors with Prisma client
 // This is needed because the model name in Prisma schema (PDFPage) doesn't match
@@ -21,6 +23,7 @@ type PDFPage = {
   textHash?: string | null;
   lineOffsets?: any | null;
   contentBox?: any | null;
+  geometry?: PageGeometry | null;
   createdAt: Date;
   updatedAt: Date;
 };
@@ -29,6 +32,25 @@ interface CreatePDFPageParams {
   pdfId: string;
   pageNumber: number;
   text: string;
+  lineOffsets?: number[];
+  contentBox?: ContentBox;
+  geometry?: PageGeometry;
+}
+
+interface ContentBox {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+// Text of the current page and its neighbours, as consumed by the chat routes
+export interface PageContext {
+  current: string;
+  previous: string | null;
+  next: string | null;
+  currentPage: number;
+  totalPages: number;
 }
 
 interface PageMetadata {
@@ -47,7 +69,7 @@ export const pdfPageService = {
   /**
    * Create or update a PDF page
    */
-  async createOrUpdate({ pdfId, pageNumber, text }: CreatePDFPageParams) {
+  async createOrUpdate({ pdfId, pageNumber, text, lineOffsets, contentBox, geometry }: CreatePDFPageParams) {
     // Create a hash of the text for quick comparisons
     const textHash = crypto
       .createHash('md5')
@@ -65,8 +87,8 @@ export const pdfPageService = {
     }) as PDFPage | null;
     
     if (existingPage) {
-      // Update if text has changed (based on hash)
-      if (existingPage.textHash !== textHash) {
+      // Update if text has changed (based on hash) or new geometry was supplied
+      if (existingPage.textHash !== textHash || lineOffsets || contentBox || geometry) {
         return await typedPrisma.pDFPage.update({
           where: {
             id: existingPage.id,
@@ -74,6 +96,9 @@ export const pdfPageService = {
           data: {
             text,
             textHash,
+            lineOffsets,
+            contentBox,
+            geometry,
           },
         }) as PDFPage;
       }
@@ -87,6 +112,9 @@ export const pdfPageService = {
         pageNumber,
         text,
         textHash,
+        lineOffsets,
+        contentBox,
+        geometry,
       },
     }) as PDFPage;
   },
@@ -115,6 +143,128 @@ export const pdfPageService = {
     }) as PDFPage | null;
   },
   
+  /**
+   * Get stored line geometry for a set of pages, keyed by page number.
+   * Pages extracted before geometry was stored are left out.
+   */
+  async getGeometry(pdfId: string, pageNumbers: number[]): Promise<Record<number, PageGeometry>> {
+    const wanted = Array.from(new Set(pageNumbers.filter(n => Number.isInteger(n) && n > 0)));
+    if (wanted.length === 0) return {};
+
+    const pages = await typedPrisma.pDFPage.findMany({
+      where: { pdfId, pageNumber: { in: wanted } },
+      select: { pageNumber: true, geometry: true },
+    }) as Pick<PDFPage, 'pageNumber' | 'geometry'>[];
+
+    const result: Record<number, PageGeometry> = {};
+    for (const page of pages) {
+      if (page.geometry && Array.isArray(page.geometry.lines)) {
+        result[page.pageNumber] = page.geometry;
+      }
+    }
+    return result;
+  },
+
+  /**
+   * A string that changes whenever a PDF's stored page text does (pages added, removed or re-extracted),
+   * read without loading the text; null when no pages are stored
+   */
+  async getTextVersion(pdfId: string): Promise<string | null> {
+    const { _count, _max } = await typedPrisma.pDFPage.aggregate({
+      where: { pdfId },
+      _count: { _all: true },
+      _max: { updatedAt: true },
+    });
+    if (!_count._all) return null;
+    return `${_count._all}:${new Date(_max.updatedAt).getTime()}`;
+  },
+
+  /**
+   * Count the pages stored for a PDF
+   */
+  async countByPdfId(pdfId: string) {
+    return await typedPrisma.pDFPage.count({
+      where: { pdfId },
+    }) as number;
+  },
+
+  /**
+   * Get the stored text of a page and its neighbours.
+   * Returns null when the PDF has not been extracted yet.
+   */
+  async getPageContext(pdfId: string, currentPage: number): Promise<PageContext | null> {
+    const pdf = await typedPrisma.pDF.findUnique({
+      where: { id: pdfId },
+      select: { pageCount: true, extractionStatus: true },
+    });
+
+    if (!pdf || pdf.extractionStatus !== 'ready') {
+      return null;
+    }
+
+    const totalPages = pdf.pageCount || 1;
+    const page = Math.max(1, Math.min(currentPage || 1, totalPages));
+
+    const pages = await typedPrisma.pDFPage.findMany({
+      where: {
+        pdfId,
+        pageNumber: { in: [page - 1, page, page + 1] },
+      },
+      select: { pageNumber: true, text: true },
+    }) as Pick<PDFPage, 'pageNumber' | 'text'>[];
+
+    const textFor = (pageNumber: number) =>
+      pages.find(p => p.pageNumber === pageNumber)?.text ?? null;
+
+    return {
+      current: textFor(page) || '',
+      previous: textFor(page - 1),
+      next: textFor(page + 1),
+      currentPage: page,
+      totalPages,
+    };
+  },
+  
+  /**
+   * Build the pdfText payload used by the chat routes from stored pages.
+   * Stored text wins over the client's copy; client-only fields (positions, page size) are kept.
+   * The client's text is unverified, so it only stands in while extraction is still running;
+   * otherwise (extraction failed, or the PDF is gone) the tutor gets no page text at all.
+   * A stale pending/processing status is recovered first, so a lost job cannot keep the client's text in use.
+   */
+  async buildChatPdfText(pdfId: string, currentPage: number, clientPdfText: Record<string, any> = {}) {
+    const context = await this.getPageContext(pdfId, currentPage);
+    if (context) {
+      return {
+        ...clientPdfText,
+        ...context,
+        source: 'server',
+      };
+    }
+
+    const pdf = await typedPrisma.pDF.findUnique({
+      where: { id: pdfId },
+      select: { url: true, updatedAt: true, pageCount: true, extractionStatus: true },
+    });
+    const status = pdf && await pdfExtractionService.recoverStale({ id: pdfId, ...pdf });
+    if (status === 'pending' || status === 'processing') {
+      console.warn(`PDF ${pdfId} - Text extraction is ${status}; using the client's page text`);
+      return { ...clientPdfText, source: 'client' };
+    }
+
+    console.warn(`PDF ${pdfId} - No extracted text (${pdf ? `extraction ${status}` : 'PDF not found'}); answering without page text`);
+    const totalPages = pdf?.pageCount || 1;
+    return {
+      ...clientPdfText,
+      current: '',
+      previous: null,
+      next: null,
+      currentPage: Math.max(1, Math.min(currentPage || 1, totalPages)),
+      totalPages,
+      source: 'unavailable',
+    };
+  },
+  
   /**
    * Extract page metadata for coordinate normalization
    * This helps improve annotation accuracy by understanding the page structure
@@ -0,0 +1,62 @@
+/**
+ * Snapshot tests for the prompt templates
+ * A snapshot change means the wording changed: bump that template's version with it.
+ */
+
+import { DEFAULT_TEMPLATE, UnknownTemplateError, isTemplateName, promptRegistry } from './registry';
+import { PromptContext, TEMPLATE_NAMES } from './types';
+
+jest.mock('@/lib/chatMessageService', () => ({ chatMessageService: {} }));
+jest.mock('@/lib/usageService', () => ({ usageService: {} }));
+
+const context: PromptContext = {
+  currentPage: 3,
+  totalPages: 12,
+  currentPageText: 'Entropy is a measure of disorder. The second law says it never decreases in an isolated system.',
+  previousPageText: 'Chapter 2 introduces heat and work.',
+  nextPageText: 'Worked example: melting ice.',
+  documentType: 'textbook',
+  passages: '[Page 7] (relevance 0.82)\nEntropy change is heat divided by temperature.',
+  studentMarks: '- Page 3: the student highlighted "second law"',
+  memorySummary: 'The student asked what heat is and was shown page 2.',
+};
+
+const render = (name: typeof TEMPLATE_NAMES[number], tools = false) =>
+  promptRegistry.render(name, { ...context, tools }).sections.map(s => `## ${s.name}\n${s.content}`).join('\n\n');
+
+describe('promptRegistry', () => {
+  test.each(TEMPLATE_NAMES.map(name => [name]))('should render the %s template', name => {
+    expect(render(name)).toMatchSnapshot();
+  });
+
+  test('should add tool instructions when the provider takes tools', () => {
+    const sections = promptRegistry.render('tutor', { ...context, tools: true }).sections;
+
+    expect(sections.find(s => s.name === 'commands')?.content).toContain('TOOLS: Use the highlight_text');
+    expect(render('tutor', false)).not.toContain('TOOLS:');
+  });
+
+  test('should teach one command syntax in every template', () => {
+    for (const name of TEMPLATE_NAMES) {
+      const prompt = render(name);
+      expect(prompt).toContain('[PREV PAGE]');
+      expect(prompt).not.toContain('[PREVIOUS PAGE]');
+    }
+  });
+
+  test('should default to the latest tutor template and reject unknown ones', () => {
+    expect(promptRegistry.render(undefined, context).ref).toEqual({ template: DEFAULT_TEMPLATE, version: promptRegistry.get('tutor').version });
+    expect(promptRegistry.list().map(t => t.name)).toEqual([...TEMPLATE_NAMES]);
+    expect(isTemplateName('quiz')).toBe(true);
+    expect(isTemplateName('poem')).toBe(false);
+    expect(() => promptRegistry.get('tutor', 99)).toThrow(UnknownTemplateError);
+  });
+
+  test('should leave missing context empty and never trim the instructions', () => {
+    const sections = promptRegistry.render('summary', { currentPage: 1, totalPages: 1 }).sections;
+
+    expect(sections.find(s => s.name === 'passages')?.content).toBe('');
+    expect(sections.find(s => s.name === 'currentPage')?.content).toContain('No text available');
+    expect(sections.filter(s => s.priority === Number.POSITIVE_INFINITY).map(s => s.name)).toEqual(['role', 'instructions', 'commands']);
+  });
+});
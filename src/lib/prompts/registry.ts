@@ -0,0 +1,64 @@
+/**
+ * Prompt template registry
+ * Requests name a template (tutor by default); every version of a template stays registered
+ * so an answer's meta.prompt can be traced back to the exact wording that produced it.
+ */
+
+import { PromptSection } from '@/lib/llm/promptAssembler';
+import { TEMPLATES } from './templates';
+import { PromptContext, PromptTemplate, TEMPLATE_LABELS, TEMPLATE_NAMES, TemplateName, TemplateRef } from './types';
+
+export const DEFAULT_TEMPLATE: TemplateName = 'tutor';
+
+/**
+ * Thrown for a template name or version that is not registered
+ */
+export class UnknownTemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnknownTemplateError';
+  }
+}
+
+export interface RenderedPrompt {
+  sections: PromptSection[];
+  ref: TemplateRef;
+}
+
+export function isTemplateName(value: unknown): value is TemplateName {
+  return typeof value === 'string' && (TEMPLATE_NAMES as readonly string[]).includes(value);
+}
+
+export const promptRegistry = {
+  /**
+   * A template by name; the latest version unless one is given
+   */
+  get(name: TemplateName, version?: number): PromptTemplate {
+    const versions = TEMPLATES.filter(t => t.name === name);
+    const template = version === undefined
+      ? versions.reduce<PromptTemplate | undefined>((latest, t) => (!latest || t.version > latest.version ? t : latest), undefined)
+      : versions.find(t => t.version === version);
+    if (!template) {
+      throw new UnknownTemplateError(`Unknown prompt template "${name}"${version === undefined ? '' : ` version ${version}`}`);
+    }
+    return template;
+  },
+
+  /**
+   * The latest version of every template, for pickers
+   */
+  list(): Array<Pick<PromptTemplate, 'name' | 'version' | 'description'> & { label: string }> {
+    return TEMPLATE_NAMES.map(name => {
+      const { version, description } = this.get(name);
+      return { name, version, label: TEMPLATE_LABELS[name], description };
+    });
+  },
+
+  /**
+   * The system prompt sections for a request, and the reference to store with its answer
+   */
+  render(name: TemplateName | undefined, context: PromptContext): RenderedPrompt {
+    const template = this.get(name || DEFAULT_TEMPLATE);
+    return { sections: template.build(context), ref: { template: template.name, version: template.version } };
+  },
+};
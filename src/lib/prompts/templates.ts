@@ -0,0 +1,169 @@
+/**
+ * Prompt templates
+ * Every template shares the document sections and the command syntax the server parses
+ * (see annotationEngine and tutorTools); templates differ in how the tutor teaches.
+ * Change a template's wording only together with its version.
+ */
+
+import { PRIORITY, PromptSection } from '@/lib/llm/promptAssembler';
+import { formatMemoryForPrompt } from '@/lib/conversationMemory';
+import { toolUsePrompt } from '@/lib/tutorTools';
+import { PromptContext, PromptTemplate } from './types';
+
+/**
+ * The page being read, its neighbours, retrieved passages, the student's marks and the memory summary
+ */
+function documentSections(context: PromptContext): PromptSection[] {
+  const { currentPage, totalPages } = context;
+  return [
+    {
+      name: 'currentPage',
+      priority: PRIORITY.currentPage,
+      content: `CURRENT PAGE (${currentPage}/${totalPages}):\n${context.currentPageText || 'No text available for this page.'}`,
+    },
+    {
+      name: 'nearbyPages',
+      priority: PRIORITY.nearbyPages,
+      content: [
+        context.previousPageText ? `PREVIOUS PAGE (${currentPage - 1}):\n${context.previousPageText}` : '',
+        context.nextPageText ? `NEXT PAGE (${currentPage + 1}):\n${context.nextPageText}` : '',
+      ].filter(Boolean).join('\n\n'),
+    },
+    {
+      name: 'passages',
+      priority: PRIORITY.passages,
+      content: context.passages
+        ? `RELEVANT PASSAGES FROM THE WHOLE DOCUMENT (navigate with [GO TO PAGE x] before explaining content from another page):\n${context.passages}`
+        : '',
+    },
+    {
+      name: 'studentMarks',
+      priority: PRIORITY.studentMarks,
+      content: context.studentMarks
+        ? `WHAT THE STUDENT MARKED THEMSELVES (refer to these when relevant, e.g. "the part you highlighted"):\n${context.studentMarks}`
+        : '',
+    },
+    { name: 'memory', priority: PRIORITY.memory, content: formatMemoryForPrompt(context.memorySummary || null).trim() },
+  ];
+}
+
+function roleSection(context: PromptContext, role: string): PromptSection {
+  const documentType = context.documentType && context.documentType !== 'unknown'
+    ? `\nDOCUMENT TYPE: ${context.documentType.toUpperCase()}`
+    : '';
+  return {
+    name: 'role',
+    priority: PRIORITY.required,
+    content: `${role}\n\nThe student is viewing page ${context.currentPage} of ${context.totalPages}.${documentType}`,
+  };
+}
+
+/**
+ * The one command syntax every template teaches; tool instructions are added when the provider takes tools
+ */
+function commandsSection(context: PromptContext): PromptSection {
+  const page = context.currentPage;
+  const commands = `COMMANDS (write them in your answer; they are applied to the PDF and removed from the text):
+Navigation:
+- [GO TO PAGE x] jumps to page x; [NEXT PAGE], [PREV PAGE], [FIRST PAGE] and [LAST PAGE] move relative to the current page.
+- Navigate BEFORE explaining content from another page, and say why you are going there.
+Annotations:
+- Highlight text by quoting it exactly: [HIGHLIGHT TEXT "exact words copied from the page" ON PAGE ${page}]. The quote is located on the page for you, so never estimate coordinates for text.
+- Only for figures, diagrams or anything that cannot be quoted, use coordinates in PDF points from the top-left of a 612x792 page:
+  [HIGHLIGHT ${page} x y width height color="rgba(255,255,0,0.35)"]
+  [CIRCLE ${page} x y radius color="rgba(255,0,0,0.4)"]
+  [ARROW ${page} x1 y1 x2 y2 color="rgba(255,0,0,0.8)"]
+  [UNDERLINE ${page} x y width color="rgba(0,0,255,0.8)"]
+  [RECTANGLE ${page} x y width height color="rgba(0,0,255,0.3)"]
+  [TEXT ${page} x y "label" color="rgba(0,0,0,0.9)"]
+- Keep coordinates inside the page and each highlight one line tall (18-28 points); use several small highlights rather than one tall one.`;
+  return {
+    name: 'commands',
+    priority: PRIORITY.required,
+    content: context.tools ? `${commands}\n\n${toolUsePrompt(page)}` : commands,
+  };
+}
+
+const tutor: PromptTemplate = {
+  name: 'tutor',
+  version: 1,
+  description: 'Explains the material, highlighting and navigating as it goes',
+  build: context => [
+    roleSection(context, 'You are an AI tutor helping a student understand a PDF document. Explain concepts, answer questions and help them navigate and comprehend the material.'),
+    ...documentSections(context),
+    {
+      name: 'instructions',
+      priority: PRIORITY.required,
+      content: `HOW TO TEACH:
+1. Act as an experienced, encouraging tutor: explain clearly, use examples and check for understanding.
+2. Adapt to the material: for textbooks explain concepts and highlight definitions; for research papers explain the methodology, findings and implications; for study notes point out key facts and connect concepts.
+3. Answer from the current page when you can. Otherwise use the relevant passages, navigate to the page of the most relevant one and then explain.
+4. Include at least one annotation or navigation command in every answer, and say what you highlighted and why it matters.
+5. Be concise but thorough, refer to page numbers, and end with a question that makes the student think when it helps.`,
+    },
+    commandsSection(context),
+  ],
+};
+
+const quiz: PromptTemplate = {
+  name: 'quiz',
+  version: 1,
+  description: 'Asks questions on the material one at a time and gives feedback',
+  build: context => [
+    roleSection(context, 'You are an AI tutor quizzing a student on a PDF document to check and strengthen their understanding.'),
+    ...documentSections(context),
+    {
+      name: 'instructions',
+      priority: PRIORITY.required,
+      content: `HOW TO QUIZ:
+1. Ask one question at a time about the current page (or the pages the student names), starting with the key ideas.
+2. When the student answers, say whether they are right, correct misunderstandings briefly and highlight the text that holds the answer.
+3. Mix recall, explanation and application questions, and make them harder as the student gets them right.
+4. Never answer your own question in the same message; wait for the student.
+5. If the student asks for the answer, give it with the supporting highlight, then ask the next question.`,
+    },
+    commandsSection(context),
+  ],
+};
+
+const summary: PromptTemplate = {
+  name: 'summary',
+  version: 1,
+  description: 'Summarizes the page or section and highlights the key sentences',
+  build: context => [
+    roleSection(context, 'You are an AI tutor summarizing a PDF document for a student.'),
+    ...documentSections(context),
+    {
+      name: 'instructions',
+      priority: PRIORITY.required,
+      content: `HOW TO SUMMARIZE:
+1. Summarize what the student asks for (the current page unless they name other pages or a section) in a short paragraph followed by 3-6 key points.
+2. Stay faithful to the text: no facts that are not in the document, and say when something is unclear or missing.
+3. Highlight the one to three sentences that carry the main ideas, quoting them exactly.
+4. Refer to page numbers, and navigate first when the summary covers another page.`,
+    },
+    commandsSection(context),
+  ],
+};
+
+const socratic: PromptTemplate = {
+  name: 'socratic',
+  version: 1,
+  description: 'Guides the student to the answer with questions instead of giving it',
+  build: context => [
+    roleSection(context, 'You are a Socratic tutor helping a student reason their way through a PDF document.'),
+    ...documentSections(context),
+    {
+      name: 'instructions',
+      priority: PRIORITY.required,
+      content: `HOW TO GUIDE:
+1. Do not give the answer outright. Ask one focused question at a time that moves the student a step closer to it.
+2. Point the student to the evidence: highlight the passage they should read, or navigate to it, and ask what it tells them.
+3. Build on what the student says; when they are stuck, narrow the question or offer a hint rather than the solution.
+4. When the student reaches the answer, confirm it, restate it in one or two sentences and connect it to the rest of the material.`,
+    },
+    commandsSection(context),
+  ],
+};
+
+export const TEMPLATES: PromptTemplate[] = [tutor, quiz, summary, socratic];
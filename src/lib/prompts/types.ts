@@ -0,0 +1,45 @@
+/**
+ * Prompt template types
+ * Kept free of server-only imports so the chat box can offer the template names
+ */
+
+import type { PromptSection } from '@/lib/llm/promptAssembler';
+
+export const TEMPLATE_NAMES = ['tutor', 'quiz', 'summary', 'socratic'] as const;
+
+export type TemplateName = typeof TEMPLATE_NAMES[number];
+
+// How the chat box offers each template
+export const TEMPLATE_LABELS: Record<TemplateName, string> = {
+  tutor: 'Tutor',
+  quiz: 'Quiz me',
+  summary: 'Summarize',
+  socratic: 'Socratic',
+};
+
+// What a template knows about the request; the routes fill it from the stored page text
+export interface PromptContext {
+  currentPage: number;
+  totalPages: number;
+  currentPageText?: string | null;
+  previousPageText?: string | null;
+  nextPageText?: string | null;
+  documentType?: string | null; // e.g. 'scientific', when detected from the page
+  passages?: string; // formatted by formatPassagesForPrompt
+  studentMarks?: string; // formatted by formatStudentMarksForPrompt
+  memorySummary?: string | null;
+  tools?: boolean; // the provider takes tool calls; bracket commands are parsed either way
+}
+
+export interface PromptTemplate {
+  name: TemplateName;
+  version: number; // bump when the wording changes, so answers can be compared across versions
+  description: string;
+  build(context: PromptContext): PromptSection[];
+}
+
+// Which template produced an answer; stored in ChatMessage.meta.prompt
+export interface TemplateRef {
+  template: TemplateName;
+  version: number;
+}
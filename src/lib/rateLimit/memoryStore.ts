@@ -0,0 +1,51 @@
+/**
+ * In-process rate limit store
+ * Limits are per server instance, so several instances together allow several times the limit.
+ */
+
+import { RateLimitStore } from './types';
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  readonly name = 'memory';
+  private entries = new Map<string, { value: number; expiresAt: number }>();
+
+  // Cleanup runs lazily on access to avoid timers
+  private cleanup(now = Date.now()) {
+    for (const [key, entry] of Array.from(this.entries.entries())) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key);
+      }
+    }
+  }
+
+  async increment(key: string, ttlMs: number): Promise<number> {
+    this.cleanup();
+    const entry = this.entries.get(key);
+    if (entry) {
+      entry.value += 1;
+      return entry.value;
+    }
+    this.entries.set(key, { value: 1, expiresAt: Date.now() + ttlMs });
+    return 1;
+  }
+
+  async get(key: string): Promise<number> {
+    this.cleanup();
+    return this.entries.get(key)?.value ?? 0;
+  }
+
+  async set(key: string, value: number, ttlMs: number): Promise<void> {
+    this.cleanup();
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+  }
+
+  async ttl(key: string): Promise<number> {
+    this.cleanup();
+    const entry = this.entries.get(key);
+    return entry ? entry.expiresAt - Date.now() : 0;
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+}
@@ -0,0 +1,176 @@
+/**
+ * Unit tests for rate limiting and the login lockout
+ * The Redis store runs against a real server when REDIS_TEST_URL is set (e.g. redis://localhost:6379/15)
+ */
+
+import type { NextRequest } from 'next/server';
+import { MemoryRateLimitStore } from './memoryStore';
+import { RedisRateLimitStore } from './redisStore';
+import {
+  LOCKOUT_THRESHOLD,
+  createRateLimitStore,
+  loadRateLimits,
+  loadTrustedProxies,
+  loginLockout,
+  setRateLimitStore,
+  slidingWindow
+} from './rateLimiter';
+import { clientIp, rateLimitHeaders, withRateLimit } from './withRateLimit';
+import { RateLimitConfigurationError, RateLimitStore } from './types';
+
+let mockUserId: string | null = null;
+jest.mock('@/lib/auth', () => ({ getRequestUser: () => (mockUserId ? { userId: mockUserId } : null) }));
+
+const rule = { limit: 3, windowMs: 60000 };
+const windowStart = 1800000000000; // a multiple of the window
+
+// Behaviour every backend must share
+function describeStore(name: string, create: () => RateLimitStore, teardown?: (store: RateLimitStore) => void, run: jest.Describe = describe) {
+  run(name, () => {
+    let store: RateLimitStore;
+    beforeEach(() => {
+      store = create();
+    });
+    afterEach(() => teardown?.(store));
+
+    test('should count up from one and keep the first expiry', async () => {
+      const key = `counter-${Date.now()}`;
+      expect(await store.increment(key, 60000)).toBe(1);
+      expect(await store.increment(key, 60000)).toBe(2);
+      expect(await store.get(key)).toBe(2);
+      expect(await store.ttl(key)).toBeGreaterThan(50000);
+      await store.delete(key);
+      expect(await store.get(key)).toBe(0);
+      expect(await store.ttl(key)).toBe(0);
+    });
+
+    test('should lock an account after repeated failures, longer each time', async () => {
+      const account = `Student-${Date.now()}@example.com`;
+      for (let i = 1; i < LOCKOUT_THRESHOLD; i++) {
+        expect(await loginLockout.recordFailure(account, store)).toBe(0);
+      }
+      expect(await loginLockout.check(account, store)).toBe(0);
+
+      expect(await loginLockout.recordFailure(account, store)).toBe(60000);
+      expect(await loginLockout.recordFailure(account.toLowerCase(), store)).toBe(120000);
+      expect(await loginLockout.check(` ${account} `, store)).toBeGreaterThan(60000);
+
+      await loginLockout.recordSuccess(account, store);
+      expect(await loginLockout.check(account, store)).toBe(0);
+      expect(await loginLockout.recordFailure(account, store)).toBe(0);
+      await loginLockout.recordSuccess(account, store);
+    });
+  });
+}
+
+describeStore('MemoryRateLimitStore', () => new MemoryRateLimitStore());
+
+const redisUrl = process.env.REDIS_TEST_URL;
+describeStore(
+  'RedisRateLimitStore',
+  () => new RedisRateLimitStore(redisUrl || 'redis://localhost:6379'),
+  store => (store as RedisRateLimitStore).close(),
+  redisUrl ? describe : describe.skip
+);
+
+describe('slidingWindow', () => {
+  test('should allow the limit in a window and say when to retry', async () => {
+    const store = new MemoryRateLimitStore();
+    const results = [];
+    for (let i = 0; i < 4; i++) {
+      results.push(await slidingWindow(store, 'chat:user-1', rule, windowStart + 15000));
+    }
+
+    expect(results.map(r => [r.allowed, r.remaining])).toEqual([[true, 2], [true, 1], [true, 0], [false, 0]]);
+    expect(results[3].resetMs).toBe(45000);
+    expect(results[3].retryAfterMs).toBeGreaterThan(45000);
+    expect(await slidingWindow(store, 'chat:user-2', rule, windowStart + 15000)).toMatchObject({ allowed: true, remaining: 2 });
+  });
+
+  test('should weigh the previous window by how much of it still overlaps', async () => {
+    const store = new MemoryRateLimitStore();
+    for (let i = 0; i < 3; i++) await slidingWindow(store, 'key', rule, windowStart + 50000);
+
+    // Three quarters into the next window, a quarter of the previous three requests still counts
+    expect(await slidingWindow(store, 'key', rule, windowStart + 105000)).toMatchObject({ allowed: true, remaining: 1 });
+    expect(await slidingWindow(store, 'key', rule, windowStart + 105000)).toMatchObject({ allowed: true, remaining: 0 });
+    const blocked = await slidingWindow(store, 'key', rule, windowStart + 105000);
+    expect(blocked.allowed).toBe(false);
+
+    // The window is full on its own, so the retry waits for it to end and slide two thirds out
+    expect(blocked.retryAfterMs).toBe(35000);
+    expect(await slidingWindow(store, 'key', rule, windowStart + 105000 + blocked.retryAfterMs)).toMatchObject({ allowed: true, remaining: 0 });
+  });
+});
+
+describe('rate limit configuration', () => {
+  test('should read limits and the store from the environment', () => {
+    expect(loadRateLimits({ RATE_LIMIT_CHAT: '5/10' }).chat).toEqual({ limit: 5, windowMs: 10000 });
+    expect(loadRateLimits({}).auth).toEqual({ limit: 10, windowMs: 60000 });
+    expect(() => loadRateLimits({ RATE_LIMIT_AUTH: 'ten a minute' })).toThrow(RateLimitConfigurationError);
+    expect(createRateLimitStore({}).name).toBe('memory');
+    expect(() => createRateLimitStore({ RATE_LIMIT_STORE: 'redis', REDIS_URL: 'localhost' })).toThrow(RateLimitConfigurationError);
+  });
+
+  test('should describe a result with RateLimit headers', () => {
+    const limited = { allowed: false, limit: 3, remaining: 0, windowMs: 60000, resetMs: 45000, retryAfterMs: 50500 };
+
+    expect(rateLimitHeaders(limited)).toEqual({
+      'RateLimit-Limit': '3',
+      'RateLimit-Remaining': '0',
+      'RateLimit-Reset': '51',
+      'RateLimit-Policy': '3;w=60',
+      'Retry-After': '51',
+    });
+    expect(rateLimitHeaders({ ...limited, allowed: true, remaining: 1, retryAfterMs: 0 })).not.toHaveProperty('Retry-After');
+  });
+
+  test('should read the client address the trusted proxies appended', () => {
+    const request = (headers: Record<string, string>) => new Request('http://localhost/api/auth/login', { headers });
+    const forwarded = request({ 'x-forwarded-for': '198.51.100.1, 203.0.113.7, 10.0.0.1' });
+
+    expect(clientIp(forwarded, 1)).toBe('10.0.0.1');
+    expect(clientIp(forwarded, 2)).toBe('203.0.113.7');
+    expect(clientIp(forwarded, 5)).toBe('198.51.100.1');
+    expect(clientIp(forwarded, 0)).toBe('unknown');
+    expect(clientIp(request({ 'x-real-ip': '203.0.113.9' }), 1)).toBe('203.0.113.9');
+    expect(loadTrustedProxies({})).toBe(1);
+    expect(loadTrustedProxies({ RATE_LIMIT_TRUSTED_PROXIES: '2' })).toBe(2);
+    expect(() => loadTrustedProxies({ RATE_LIMIT_TRUSTED_PROXIES: 'yes' })).toThrow(RateLimitConfigurationError);
+  });
+});
+
+describe('withRateLimit', () => {
+  const handler = withRateLimit('chat', async () => new Response('ok'));
+  const ask = (forwardedFor: string) =>
+    handler(new Request('http://localhost/api/chat', { method: 'POST', headers: { 'x-forwarded-for': forwardedFor } }) as NextRequest, {});
+
+  beforeEach(() => {
+    mockUserId = null;
+    setRateLimitStore(new MemoryRateLimitStore());
+  });
+  afterAll(() => setRateLimitStore(null));
+
+  test('should keep limiting a client that rotates the addresses it forwards', async () => {
+    const statuses = [];
+    for (let i = 0; i < 21; i++) {
+      statuses.push((await ask(`198.51.100.${i}, 203.0.113.7`)).status);
+    }
+
+    expect(statuses.slice(0, 20).every(status => status === 200)).toBe(true);
+    expect(statuses[20]).toBe(429);
+  });
+
+  test('should count a signed-in user against both the account and the address', async () => {
+    mockUserId = 'user-1';
+    for (let i = 0; i < 20; i++) await ask('203.0.113.7');
+
+    expect((await ask('203.0.113.8')).status).toBe(429);
+
+    mockUserId = 'user-2';
+    expect((await ask('203.0.113.7')).status).toBe(429);
+    const allowed = await ask('203.0.113.9');
+    expect(allowed.status).toBe(200);
+    expect(allowed.headers.get('RateLimit-Remaining')).toBe('18'); // the refused request counted too
+  });
+});
@@ -0,0 +1,205 @@
+/**
+ * Rate limiting and login lockout
+ * Requests are counted per route class in a sliding window: the current fixed window plus the
+ * share of the previous one that still overlaps it. Rejected requests count too, so a client
+ * that keeps retrying stays limited. A store that cannot be reached lets requests through.
+ *
+ * RATE_LIMIT_STORE=memory (default) or redis (uses REDIS_URL, like STREAM_STORE=redis)
+ * RATE_LIMIT_AUTH / RATE_LIMIT_UPLOAD / RATE_LIMIT_CHAT set a class's limit as "requests/seconds"
+ * (defaults 10/60 per IP, 20/3600 per user and 20/60 per user; a signed-in user's requests count
+ * against their IP address too)
+ * RATE_LIMIT_TRUSTED_PROXIES is how many proxies in front of the app append to X-Forwarded-For
+ * (default 1; 0 trusts no forwarding headers)
+ */
+
+import { MemoryRateLimitStore } from './memoryStore';
+import { RedisRateLimitStore } from './redisStore';
+import { RateLimitConfigurationError, RateLimitResult, RateLimitRule, RateLimitStore } from './types';
+
+type Env = Record<string, string | undefined>;
+
+export const ROUTE_CLASSES = ['auth', 'upload', 'chat'] as const;
+
+export type RouteClass = typeof ROUTE_CLASSES[number];
+
+const DEFAULT_RULES: Record<RouteClass, RateLimitRule> = {
+  auth: { limit: 10, windowMs: 60 * 1000 },
+  upload: { limit: 20, windowMs: 60 * 60 * 1000 },
+  chat: { limit: 20, windowMs: 60 * 1000 },
+};
+
+// Failed sign-ins per account before it is locked; each further failure doubles the lock up to the maximum
+export const LOCKOUT_THRESHOLD = 5;
+const LOCKOUT_BASE_MS = 60 * 1000;
+const LOCKOUT_MAX_MS = 60 * 60 * 1000;
+const LOCKOUT_FAILURE_WINDOW_MS = 60 * 60 * 1000; // failures are forgotten an hour after the first
+
+let cachedStore: RateLimitStore | null = null;
+let cachedRules: Record<RouteClass, RateLimitRule> | null = null;
+
+function clean(value?: string): string {
+  return (value || '').replace(/\r?\n|\r/g, '').trim();
+}
+
+/**
+ * A rule from "requests/seconds", e.g. "10/60"
+ */
+export function parseRule(name: string, value: string): RateLimitRule {
+  const match = /^(\d+)\s*\/\s*(\d+)$/.exec(clean(value));
+  if (!match || Number(match[1]) <= 0 || Number(match[2]) <= 0) {
+    throw new RateLimitConfigurationError(`${name} must look like "requests/seconds", e.g. "10/60"`);
+  }
+  return { limit: Number(match[1]), windowMs: Number(match[2]) * 1000 };
+}
+
+export function loadRateLimits(env: Env = process.env): Record<RouteClass, RateLimitRule> {
+  const rules = { ...DEFAULT_RULES };
+  for (const routeClass of ROUTE_CLASSES) {
+    const name = `RATE_LIMIT_${routeClass.toUpperCase()}`;
+    if (clean(env[name])) rules[routeClass] = parseRule(name, env[name]!);
+  }
+  return rules;
+}
+
+export function loadTrustedProxies(env: Env = process.env): number {
+  const value = clean(env.RATE_LIMIT_TRUSTED_PROXIES);
+  if (!value) return 1;
+  if (!/^\d+$/.test(value)) {
+    throw new RateLimitConfigurationError('RATE_LIMIT_TRUSTED_PROXIES must be a whole number of proxies, e.g. 1');
+  }
+  return Number(value);
+}
+
+export function createRateLimitStore(env: Env = process.env): RateLimitStore {
+  const kind = clean(env.RATE_LIMIT_STORE) || 'memory';
+  switch (kind) {
+    case 'memory':
+      return new MemoryRateLimitStore();
+
+    case 'redis': {
+      const url = clean(env.REDIS_URL);
+      if (!/^rediss?:\/\//.test(url)) {
+        throw new RateLimitConfigurationError('REDIS_URL must be a redis:// or rediss:// URL when RATE_LIMIT_STORE=redis');
+      }
+      return new RedisRateLimitStore(url);
+    }
+
+    default:
+      throw new RateLimitConfigurationError(`Unknown RATE_LIMIT_STORE "${kind}"`);
+  }
+}
+
+/**
+ * Get the process-wide store, creating it on first use
+ */
+export function getRateLimitStore(): RateLimitStore {
+  if (!cachedStore) {
+    cachedStore = createRateLimitStore();
+  }
+  return cachedStore;
+}
+
+/**
+ * Override the process-wide store (tests), or pass null to re-read configuration
+ */
+export function setRateLimitStore(store: RateLimitStore | null) {
+  cachedStore = store;
+  cachedRules = null;
+}
+
+/**
+ * Count one request against key and decide whether it may proceed
+ */
+export async function slidingWindow(store: RateLimitStore, key: string, rule: RateLimitRule, now = Date.now()): Promise<RateLimitResult> {
+  const { limit, windowMs } = rule;
+  const window = Math.floor(now / windowMs);
+  const elapsed = now - window * windowMs;
+
+  const [current, previous] = await Promise.all([
+    store.increment(`${key}:${window}`, windowMs * 2),
+    store.get(`${key}:${window - 1}`),
+  ]);
+  const weight = (windowMs - elapsed) / windowMs;
+  const count = previous * weight + current;
+  const allowed = count <= limit;
+
+  // The next request fits once enough of the previous window has slid out, or the current one has ended
+  let retryAfterMs = 0;
+  if (!allowed) {
+    const room = limit - current - 1;
+    retryAfterMs = room >= 0 && previous > 0
+      ? windowMs * (1 - room / previous) - elapsed
+      : windowMs - elapsed + windowMs * Math.max(0, 1 - (limit - 1) / current);
+  }
+
+  return {
+    allowed,
+    limit,
+    remaining: Math.max(0, Math.floor(limit - count)),
+    windowMs,
+    resetMs: windowMs - elapsed,
+    retryAfterMs: Math.max(0, Math.ceil(retryAfterMs)),
+  };
+}
+
+export const rateLimiter = {
+  /**
+   * Count a request of a route class from key (e.g. "user:<id>" or "ip:<address>")
+   */
+  async check(routeClass: RouteClass, key: string): Promise<RateLimitResult> {
+    if (!cachedRules) cachedRules = loadRateLimits();
+    const rule = cachedRules[routeClass];
+    try {
+      return await slidingWindow(getRateLimitStore(), `${routeClass}:${key}`, rule);
+    } catch (error) {
+      console.error(`Rate limit check failed for ${routeClass}, allowing the request:`, error);
+      return { allowed: true, limit: rule.limit, remaining: rule.limit, windowMs: rule.windowMs, resetMs: rule.windowMs, retryAfterMs: 0 };
+    }
+  },
+};
+
+const accountKey = (account: string) => account.trim().toLowerCase();
+
+export const loginLockout = {
+  /**
+   * Milliseconds until the account may try to sign in again; 0 when it is not locked
+   */
+  async check(account: string, store = getRateLimitStore()): Promise<number> {
+    try {
+      return await store.ttl(`lock:${accountKey(account)}`);
+    } catch (error) {
+      console.error('Login lockout check failed, allowing the attempt:', error);
+      return 0;
+    }
+  },
+
+  /**
+   * Count a failed sign-in; resolves to how long the account is now locked for (0 below the threshold)
+   */
+  async recordFailure(account: string, store = getRateLimitStore()): Promise<number> {
+    try {
+      const failures = await store.increment(`failures:${accountKey(account)}`, LOCKOUT_FAILURE_WINDOW_MS);
+      if (failures < LOCKOUT_THRESHOLD) return 0;
+      const lockMs = Math.min(LOCKOUT_BASE_MS * 2 ** (failures - LOCKOUT_THRESHOLD), LOCKOUT_MAX_MS);
+      await store.set(`lock:${accountKey(account)}`, failures, lockMs);
+      return lockMs;
+    } catch (error) {
+      console.error('Failed to record a failed sign-in:', error);
+      return 0;
+    }
+  },
+
+  /**
+   * A successful sign-in clears the account's failures
+   */
+  async recordSuccess(account: string, store = getRateLimitStore()): Promise<void> {
+    try {
+      await Promise.all([
+        store.delete(`failures:${accountKey(account)}`),
+        store.delete(`lock:${accountKey(account)}`),
+      ]);
+    } catch (error) {
+      console.error('Failed to clear sign-in failures:', error);
+    }
+  },
+};
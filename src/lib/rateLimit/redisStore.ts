@@ -0,0 +1,51 @@
+/**
+ * Redis rate limit store
+ * Shared by every instance, so a limit holds however requests are balanced.
+ * Uses the stream store's Redis protocol client; expiries are enforced by the server.
+ */
+
+import { RedisConnection } from '@/lib/streamStore/respClient';
+import { RateLimitStore } from './types';
+
+const KEY_PREFIX = 'rate-limit:';
+
+export class RedisRateLimitStore implements RateLimitStore {
+  readonly name = 'redis';
+  private connection: RedisConnection;
+
+  constructor(url: string, options: { commandTimeoutMs?: number } = {}) {
+    this.connection = new RedisConnection(new URL(url), { commandTimeoutMs: options.commandTimeoutMs });
+  }
+
+  // The expiry is only set by the command that created the counter, so later hits do not extend it
+  async increment(key: string, ttlMs: number): Promise<number> {
+    const count = Number(await this.connection.command(['INCR', KEY_PREFIX + key]));
+    if (count === 1) {
+      await this.connection.command(['PEXPIRE', KEY_PREFIX + key, String(Math.max(1, Math.round(ttlMs)))]);
+    }
+    return count;
+  }
+
+  async get(key: string): Promise<number> {
+    const value = await this.connection.command(['GET', KEY_PREFIX + key]);
+    return typeof value === 'string' ? Number(value) || 0 : 0;
+  }
+
+  async set(key: string, value: number, ttlMs: number): Promise<void> {
+    await this.connection.command(['SET', KEY_PREFIX + key, String(value), 'PX', String(Math.max(1, Math.round(ttlMs)))]);
+  }
+
+  async ttl(key: string): Promise<number> {
+    const ms = Number(await this.connection.command(['PTTL', KEY_PREFIX + key]));
+    return ms > 0 ? ms : 0;
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.connection.command(['DEL', KEY_PREFIX + key]);
+  }
+
+  /** Close the connection (tests and shutdown) */
+  close() {
+    this.connection.close();
+  }
+}
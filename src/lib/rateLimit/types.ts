@@ -0,0 +1,48 @@
+/**
+ * Rate limit store abstraction
+ * Counters and locks with an expiry, shared by the sliding window limiter and the login lockout.
+ * Backends: in-memory (single instance) and Redis (shared across instances).
+ */
+
+export interface RateLimitStore {
+  readonly name: string;
+
+  /** Add one to a counter, starting it at 1 with a ttlMs expiry when it does not exist; resolves to the new count */
+  increment(key: string, ttlMs: number): Promise<number>;
+
+  /** A counter's value; 0 when it does not exist or has expired */
+  get(key: string): Promise<number>;
+
+  /** Set a key for ttlMs, replacing any value and expiry it had */
+  set(key: string, value: number, ttlMs: number): Promise<void>;
+
+  /** Milliseconds until a key expires; 0 when it does not exist */
+  ttl(key: string): Promise<number>;
+
+  delete(key: string): Promise<void>;
+}
+
+// At most `limit` requests in any `windowMs`
+export interface RateLimitRule {
+  limit: number;
+  windowMs: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  windowMs: number;
+  resetMs: number; // until the current window ends
+  retryAfterMs: number; // until a request would be allowed again; 0 when allowed
+}
+
+/**
+ * Thrown when rate limits cannot be set up from the current configuration
+ */
+export class RateLimitConfigurationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RateLimitConfigurationError';
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * Route handler wrapper for rate limits
+ * Counts each request against its route class, keyed by the client's IP and, outside the auth
+ * routes, by the signed-in user as well; answers 429 once either limit is reached and adds the
+ * RateLimit-* headers (IETF draft) to every response.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser } from '@/lib/auth';
+import { RouteClass, loadTrustedProxies, rateLimiter } from './rateLimiter';
+import { RateLimitResult } from './types';
+
+/**
+ * The client's address as reported by the trusted proxies in front of the app.
+ * Each proxy appends the address it was connected from to X-Forwarded-For, so the client is the
+ * entry trustedProxies from the end; anything further left came from the client and can be made up.
+ */
+export function clientIp(request: Request, trustedProxies = loadTrustedProxies()): string {
+  if (trustedProxies > 0) {
+    const forwarded = (request.headers.get('x-forwarded-for') || '').split(',').map(entry => entry.trim()).filter(Boolean);
+    if (forwarded.length > 0) return forwarded[Math.max(0, forwarded.length - trustedProxies)];
+    const real = request.headers.get('x-real-ip')?.trim();
+    if (real) return real;
+  }
+  return (request as NextRequest).ip || 'unknown';
+}
+
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  const seconds = (ms: number) => String(Math.max(0, Math.ceil(ms / 1000)));
+  return {
+    'RateLimit-Limit': String(result.limit),
+    'RateLimit-Remaining': String(result.remaining),
+    'RateLimit-Reset': seconds(result.allowed ? result.resetMs : result.retryAfterMs),
+    'RateLimit-Policy': `${result.limit};w=${seconds(result.windowMs)}`,
+    ...(result.allowed ? {} : { 'Retry-After': seconds(result.retryAfterMs) }),
+  };
+}
+
+export function withRateLimit<Context>(
+  routeClass: RouteClass,
+  handler: (request: NextRequest, context: Context) => Promise<Response>
+) {
+  return async (request: NextRequest, context: Context): Promise<Response> => {
+    const userId = routeClass === 'auth' ? undefined : getRequestUser(request)?.userId;
+    const ip = clientIp(request);
+    // Signed-in users share an unknown address with everyone, so it only limits anonymous requests
+    const keys = [...(userId ? [`user:${userId}`] : []), ...(!userId || ip !== 'unknown' ? [`ip:${ip}`] : [])];
+    const results = await Promise.all(keys.map(key => rateLimiter.check(routeClass, key)));
+
+    // The tightest limit answers: the longest wait when refused, otherwise the fewest requests left
+    const refused = results.filter(r => !r.allowed).sort((a, b) => b.retryAfterMs - a.retryAfterMs);
+    const result = refused[0] || results.reduce((tightest, r) => (r.remaining < tightest.remaining ? r : tightest));
+    const headers = rateLimitHeaders(result);
+
+    if (!result.allowed) {
+      return NextResponse.json(
+        { error: 'Too many requests; please slow down', retryAfter: Number(headers['Retry-After']) },
+        { status: 429, headers }
+      );
+    }
+
+    const response = await handler(request, context);
+    for (const [name, value] of Object.entries(headers)) {
+      response.headers.set(name, value);
+    }
+    return response;
+  };
+}
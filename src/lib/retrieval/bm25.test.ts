@@ -0,0 +1,58 @@
+/**
+ * Unit tests for passage chunking and BM25 retrieval
+ */
+
+import { BM25Retriever, tokenize } from './bm25';
+import { chunkPage, chunkPages } from './chunker';
+
+describe('chunkPage', () => {
+  test('should return a single passage for short pages', () => {
+    const passages = chunkPage('pdf-1', 3, 'Short page\nwith two lines');
+
+    expect(passages).toHaveLength(1);
+    expect(passages[0]).toMatchObject({ id: 'pdf-1:3:0', page: 3, index: 0, text: 'Short page with two lines' });
+  });
+
+  test('should split long pages into overlapping passages', () => {
+    const text = Array.from({ length: 50 }, (_, i) => `w${i}`).join(' ');
+    const passages = chunkPage('pdf-1', 1, text, { maxWords: 20, overlapWords: 5 });
+
+    expect(passages.length).toBeGreaterThan(2);
+    // Each passage after the first starts with the last words of the previous one
+    const firstWords = passages[0].text.split(' ');
+    expect(passages[1].text.startsWith(firstWords.slice(-5).join(' '))).toBe(true);
+    expect(passages[passages.length - 1].text.endsWith('w49')).toBe(true);
+  });
+
+  test('should skip empty pages', () => {
+    expect(chunkPages('pdf-1', [{ pageNumber: 1, text: '' }, { pageNumber: 2, text: 'content' }])).toHaveLength(1);
+  });
+});
+
+describe('BM25Retriever', () => {
+  const retriever = new BM25Retriever();
+  retriever.index(chunkPages('pdf-1', [
+    { pageNumber: 1, text: 'Introduction to the course and grading policy' },
+    { pageNumber: 3, text: 'Six Sigma uses the DMAIC cycle: define, measure, analyze, improve, control' },
+    { pageNumber: 40, text: 'Regression analysis estimates the relationship between variables' },
+  ]));
+
+  test('should drop stopwords when tokenizing', () => {
+    expect(tokenize('What is the DMAIC cycle?')).toEqual(['dmaic', 'cycle']);
+  });
+
+  test('should rank the passage containing the query terms first', () => {
+    const results = retriever.search('explain regression analysis', 2);
+
+    expect(results[0].page).toBe(40);
+    expect(results[0].score).toBeGreaterThan(0);
+  });
+
+  test('should return nothing for queries without matching terms', () => {
+    expect(retriever.search('photosynthesis', 5)).toEqual([]);
+  });
+
+  test('should limit results to k', () => {
+    expect(retriever.search('analysis analyze control course', 1)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * In-memory BM25 retriever over document passages
+ */
+
+import { Passage, Retriever, ScoredPassage } from './types';
+
+// Common English words that carry no retrieval signal
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'do', 'does', 'for', 'from',
+  'has', 'have', 'how', 'i', 'in', 'is', 'it', 'its', 'me', 'my', 'of', 'on', 'or', 'page',
+  'so', 'that', 'the', 'their', 'this', 'to', 'was', 'we', 'what', 'when', 'where', 'which',
+  'who', 'why', 'will', 'with', 'you', 'your', 'explain', 'tell', 'about', 'please',
+]);
+
+/**
+ * Lowercase, split on non-alphanumerics and drop stopwords
+ */
+export function tokenize(text: string): string[] {
+  return (text || '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length > 1 && !STOPWORDS.has(token));
+}
+
+interface IndexedPassage {
+  passage: Passage;
+  termFrequencies: Map<string, number>;
+  length: number;
+}
+
+export class BM25Retriever implements Retriever {
+  readonly kind = 'bm25';
+  private docs: IndexedPassage[] = [];
+  private documentFrequencies = new Map<string, number>();
+  private averageLength = 0;
+
+  constructor(private k1 = 1.2, private b = 0.75) {}
+
+  index(passages: Passage[]): void {
+    this.docs = [];
+    this.documentFrequencies = new Map();
+
+    let totalLength = 0;
+    for (const passage of passages) {
+      const tokens = tokenize(passage.text);
+      const termFrequencies = new Map<string, number>();
+      tokens.forEach(token => termFrequencies.set(token, (termFrequencies.get(token) || 0) + 1));
+      termFrequencies.forEach((_, token) => {
+        this.documentFrequencies.set(token, (this.documentFrequencies.get(token) || 0) + 1);
+      });
+
+      this.docs.push({ passage, termFrequencies, length: tokens.length });
+      totalLength += tokens.length;
+    }
+
+    this.averageLength = this.docs.length > 0 ? totalLength / this.docs.length : 0;
+  }
+
+  search(query: string, k: number): ScoredPassage[] {
+    const queryTerms = Array.from(new Set(tokenize(query)));
+    if (queryTerms.length === 0 || this.docs.length === 0) return [];
+
+    const n = this.docs.length;
+    const scored: ScoredPassage[] = [];
+
+    for (const doc of this.docs) {
+      let score = 0;
+      for (const term of queryTerms) {
+        const tf = doc.termFrequencies.get(term);
+        if (!tf) continue;
+
+        const df = this.documentFrequencies.get(term) || 0;
+        const idf = Math.log(1 + (n - df + 0.5) / (df + 0.5));
+        const norm = tf + this.k1 * (1 - this.b + this.b * (doc.length / (this.averageLength || 1)));
+        score += idf * ((tf * (this.k1 + 1)) / norm);
+      }
+
+      if (score > 0) {
+        scored.push({ ...doc.passage, score });
+      }
+    }
+
+    return scored
+      .sort((a, b) => b.score - a.score || a.page - b.page || a.index - b.index)
+      .slice(0, k);
+  }
+}
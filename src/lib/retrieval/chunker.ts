@@ -0,0 +1,75 @@
+/**
+ * Splits page text into overlapping passages for retrieval
+ */
+
+import { Passage } from './types';
+
+export interface ChunkOptions {
+  maxWords?: number;
+  overlapWords?: number;
+}
+
+const DEFAULT_MAX_WORDS = 120;
+const DEFAULT_OVERLAP_WORDS = 30;
+
+/**
+ * Chunk a single page into passages.
+ * Lines are kept whole where possible so passages start at natural boundaries.
+ */
+export function chunkPage(pdfId: string, page: number, text: string, options: ChunkOptions = {}): Passage[] {
+  const maxWords = options.maxWords ?? DEFAULT_MAX_WORDS;
+  const overlapWords = Math.min(options.overlapWords ?? DEFAULT_OVERLAP_WORDS, Math.floor(maxWords / 2));
+
+  const words: string[] = [];
+  // Remember where each line starts so chunk boundaries can snap to them
+  const lineStarts = new Set<number>();
+  for (const line of (text || '').split('\n')) {
+    const lineWords = line.split(/\s+/).filter(Boolean);
+    if (lineWords.length === 0) continue;
+    lineStarts.add(words.length);
+    words.push(...lineWords);
+  }
+
+  if (words.length === 0) return [];
+
+  const passages: Passage[] = [];
+  let start = 0;
+  while (start < words.length) {
+    let end = Math.min(start + maxWords, words.length);
+
+    // Snap the end back to a line start if one is reasonably close
+    if (end < words.length) {
+      for (let candidate = end; candidate > start + maxWords / 2; candidate--) {
+        if (lineStarts.has(candidate)) {
+          end = candidate;
+          break;
+        }
+      }
+    }
+
+    const index = passages.length;
+    passages.push({
+      id: `${pdfId}:${page}:${index}`,
+      pdfId,
+      page,
+      index,
+      text: words.slice(start, end).join(' '),
+    });
+
+    if (end >= words.length) break;
+    start = Math.max(end - overlapWords, start + 1);
+  }
+
+  return passages;
+}
+
+/**
+ * Chunk every page of a document
+ */
+export function chunkPages(
+  pdfId: string,
+  pages: Array<{ pageNumber: number; text: string }>,
+  options: ChunkOptions = {}
+): Passage[] {
+  return pages.flatMap(p => chunkPage(pdfId, p.pageNumber, p.text, options));
+}
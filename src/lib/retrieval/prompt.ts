@@ -0,0 +1,23 @@
+/**
+ * Prompt formatting for retrieved passages
+ * Kept free of server-only imports so the Edge stream route can use it
+ */
+
+import { ScoredPassage } from './types';
+
+/**
+ * Render retrieved passages as a system prompt section
+ */
+export function formatPassagesForPrompt(
+  passages: Array<Pick<ScoredPassage, 'page' | 'text' | 'score'>>,
+  maxCharsPerPassage = 600
+): string {
+  if (!passages || passages.length === 0) return '';
+
+  return passages
+    .map(p => {
+      const text = p.text.length > maxCharsPerPassage ? `${p.text.slice(0, maxCharsPerPassage)}...` : p.text;
+      return `[Page ${p.page}] (relevance ${p.score.toFixed(2)})\n${text}`;
+    })
+    .join('\n\n');
+}
@@ -0,0 +1,101 @@
+/**
+ * Whole-document retrieval service
+ * Chunks stored PDFPage text into passages, indexes them and returns the top-k passages for a question
+ */
+
+import { pdfPageService } from '@/lib/pdfPageService';
+import { BM25Retriever } from './bm25';
+import { chunkPages } from './chunker';
+import { Retriever, ScoredPassage } from './types';
+
+interface CachedIndex {
+  signature: string; // version of the stored page text the index was built from
+  retriever: Retriever;
+  builtAt: number;
+}
+
+interface RetrieveOptions {
+  k?: number;
+  minScore?: number;
+}
+
+const DEFAULT_TOP_K = 5;
+const MAX_CACHED_INDEXES = 50;
+
+// Indexes are rebuilt whenever the stored page text changes; Map order is least recently used first
+const indexCache = new Map<string, CachedIndex>();
+
+/**
+ * Create the configured retriever backend.
+ * Only BM25 exists today; embedding retrievers plug in here.
+ */
+export function createRetriever(kind: string = process.env.RETRIEVAL_BACKEND || 'bm25'): Retriever {
+  switch (kind) {
+    case 'bm25':
+      return new BM25Retriever();
+    default:
+      console.warn(`Unknown retrieval backend "${kind}", falling back to bm25`);
+      return new BM25Retriever();
+  }
+}
+
+export const retrievalService = {
+  /**
+   * Build (or reuse) the passage index for a PDF; page text is only loaded to build one
+   */
+  async getIndex(pdfId: string): Promise<Retriever | null> {
+    const signature = await pdfPageService.getTextVersion(pdfId);
+    if (!signature) return null;
+
+    const cached = indexCache.get(pdfId);
+    if (cached && cached.signature === signature) {
+      // Most recently used goes last
+      indexCache.delete(pdfId);
+      indexCache.set(pdfId, cached);
+      return cached.retriever;
+    }
+
+    const pages = await pdfPageService.getByPdfId(pdfId);
+    if (pages.length === 0) return null;
+
+    const retriever = createRetriever();
+    await retriever.index(chunkPages(pdfId, pages));
+
+    // Drop the least recently used index when full
+    if (indexCache.size >= MAX_CACHED_INDEXES && !indexCache.has(pdfId)) {
+      const oldestKey = indexCache.keys().next().value;
+      if (oldestKey) indexCache.delete(oldestKey);
+    }
+    indexCache.set(pdfId, { signature, retriever, builtAt: Date.now() });
+
+    return retriever;
+  },
+
+  /**
+   * Return the passages most relevant to a question, with page numbers
+   */
+  async retrieve(pdfId: string, query: string, options: RetrieveOptions = {}): Promise<ScoredPassage[]> {
+    if (!query || !query.trim()) return [];
+
+    const retriever = await this.getIndex(pdfId);
+    if (!retriever) return [];
+
+    const results = await retriever.search(query, options.k ?? DEFAULT_TOP_K);
+    return results.filter(r => r.score >= (options.minScore ?? 0));
+  },
+
+  /**
+   * Drop the cached index for a PDF
+   */
+  invalidate(pdfId: string) {
+    indexCache.delete(pdfId);
+  },
+};
+
+/**
+ * Pick the retrieval query from a chat transcript: the latest user message
+ */
+export function queryFromMessages(messages: Array<{ role: string; content: string }>): string {
+  const lastUser = [...(messages || [])].reverse().find(m => m.role === 'user');
+  return lastUser?.content || '';
+}
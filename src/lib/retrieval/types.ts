@@ -0,0 +1,26 @@
+/**
+ * Shared types for the document retrieval subsystem
+ */
+
+// A chunk of page text that can be retrieved independently
+export interface Passage {
+  id: string;
+  pdfId: string;
+  page: number;
+  index: number; // position of the passage within its page
+  text: string;
+}
+
+export interface ScoredPassage extends Passage {
+  score: number;
+}
+
+/**
+ * A retrieval backend. BM25 is the default; embedding-based retrievers
+ * can be added later by implementing the same interface.
+ */
+export interface Retriever {
+  readonly kind: string;
+  index(passages: Passage[]): Promise<void> | void;
+  search(query: string, k: number): Promise<ScoredPassage[]> | ScoredPassage[];
+}
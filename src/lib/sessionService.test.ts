@@ -0,0 +1,92 @@
+/**
+ * Unit tests for session rotation and revocation, against an in-memory session table
+ */
+
+import { verifyJwt, getJwtSecret } from './edgeAuth';
+import { sessionService } from './sessionService';
+
+const mockSessions = new Map<string, any>();
+let mockNextId = 0;
+
+const matches = (row: any, where: any) => Object.entries(where).every(([key, value]) => row[key] === value);
+
+jest.mock('@/lib/prisma', () => ({
+  session: {
+    create: async ({ data }: any) => {
+      const row = { id: `session-${++mockNextId}`, previousRefreshTokenHash: null, revokedAt: null, rotatedAt: new Date(), ...data };
+      mockSessions.set(row.id, row);
+      return row;
+    },
+    findUnique: async ({ where, include }: any) => {
+      const row = mockSessions.get(where.id);
+      if (!row) return null;
+      return include?.user ? { ...row, user: { id: row.userId, email: `${row.userId}@example.com` } } : { ...row };
+    },
+    updateMany: async ({ where, data }: any) => {
+      let count = 0;
+      mockSessions.forEach(row => {
+        if (matches(row, where)) {
+          Object.assign(row, data);
+          count++;
+        }
+      });
+      return { count };
+    },
+  },
+}));
+
+const user = { id: 'user-1', email: 'user-1@example.com' };
+
+describe('sessionService', () => {
+  beforeEach(() => {
+    mockSessions.clear();
+  });
+
+  test('should issue an access token naming the session', async () => {
+    const issued = await sessionService.createSession(user, 'jest');
+    const claims = await verifyJwt(issued.accessToken, getJwtSecret());
+
+    expect(claims).toMatchObject({ userId: 'user-1', email: 'user-1@example.com', sid: issued.sessionId });
+    expect(issued.refreshToken.startsWith(`${issued.sessionId}.`)).toBe(true);
+    expect(await sessionService.isSessionActive(issued.sessionId, 'user-1')).toBe(true);
+  });
+
+  test('should rotate the refresh token on every use', async () => {
+    const issued = await sessionService.createSession(user);
+    const refreshed = await sessionService.refresh(issued.refreshToken);
+
+    expect(refreshed?.sessionId).toBe(issued.sessionId);
+    expect(refreshed?.refreshToken).not.toBe(issued.refreshToken);
+    expect(await sessionService.refresh(refreshed!.refreshToken)).not.toBeNull();
+  });
+
+  test('should revoke the session when a rotated token is replayed', async () => {
+    const issued = await sessionService.createSession(user);
+    const refreshed = await sessionService.refresh(issued.refreshToken);
+    mockSessions.get(issued.sessionId).rotatedAt = new Date(Date.now() - 60 * 1000);
+
+    expect(await sessionService.refresh(issued.refreshToken)).toBeNull();
+    expect(await sessionService.refresh(refreshed!.refreshToken)).toBeNull();
+    expect(await sessionService.isSessionActive(issued.sessionId, 'user-1')).toBe(false);
+  });
+
+  test('should reject malformed and unknown refresh tokens', async () => {
+    const issued = await sessionService.createSession(user);
+
+    expect(await sessionService.refresh('')).toBeNull();
+    expect(await sessionService.refresh('no-dot')).toBeNull();
+    expect(await sessionService.refresh(`${issued.sessionId}.wrong`)).toBeNull();
+    expect(await sessionService.isSessionActive(issued.sessionId, 'user-1')).toBe(true);
+  });
+
+  test('should sign out every device', async () => {
+    const laptop = await sessionService.createSession(user);
+    const labComputer = await sessionService.createSession(user);
+    const otherUser = await sessionService.createSession({ id: 'user-2', email: 'user-2@example.com' });
+
+    expect(await sessionService.revokeAllSessions('user-1')).toBe(2);
+    expect(await sessionService.refresh(laptop.refreshToken)).toBeNull();
+    expect(await sessionService.refresh(labComputer.refreshToken)).toBeNull();
+    expect(await sessionService.isSessionActive(otherUser.sessionId, 'user-2')).toBe(true);
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * Session service
+ * Each login creates a Session row. Clients hold a short-lived access token (a JWT naming the session)
+ * and a refresh token in an httpOnly cookie that is rotated on every use. Revoking a session stops
+ * refreshes immediately; outstanding access tokens lapse within ACCESS_TOKEN_TTL_SECONDS.
+ */
+
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import prisma from '@/lib/prisma';
+import { getJwtSecret, signJwt } from '@/lib/edgeAuth';
+
+// Work around the Prisma client typings, as the other services do
+const typedPrisma = prisma as any;
+
+export const ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+export const REFRESH_TOKEN_TTL_SECONDS = 30 * 24 * 60 * 60;
+export const REFRESH_COOKIE = 'refresh_token';
+
+// Two tabs refreshing at once may both present the previous token; that is not theft
+const REUSE_GRACE_MS = 10 * 1000;
+
+export interface IssuedSession {
+  sessionId: string;
+  accessToken: string;
+  refreshToken: string;
+  expiresIn: number; // access token lifetime in seconds
+}
+
+function hashToken(secret: string): string {
+  return createHash('sha256').update(secret).digest('hex');
+}
+
+function sameHash(a: string, b: string | null | undefined): boolean {
+  if (!b || a.length !== b.length) return false;
+  return timingSafeEqual(Buffer.from(a), Buffer.from(b));
+}
+
+// Refresh tokens are "<sessionId>.<secret>" so the row can be found without scanning hashes
+function parseRefreshToken(token: string): { sessionId: string; secret: string } | null {
+  const dot = (token || '').indexOf('.');
+  if (dot <= 0 || dot === token.length - 1) return null;
+  return { sessionId: token.slice(0, dot), secret: token.slice(dot + 1) };
+}
+
+function issueAccessToken(user: { id: string; email: string }, sessionId: string): Promise<string> {
+  return signJwt({ userId: user.id, email: user.email, sid: sessionId }, getJwtSecret(), ACCESS_TOKEN_TTL_SECONDS);
+}
+
+export const sessionService = {
+  /**
+   * Start a session for a user who just logged in
+   */
+  async createSession(user: { id: string; email: string }, userAgent?: string | null): Promise<IssuedSession> {
+    const secret = randomBytes(32).toString('base64url');
+    const session = await typedPrisma.session.create({
+      data: {
+        userId: user.id,
+        refreshTokenHash: hashToken(secret),
+        userAgent: userAgent ? userAgent.slice(0, 255) : null,
+        expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_SECONDS * 1000),
+      },
+    });
+
+    return {
+      sessionId: session.id,
+      accessToken: await issueAccessToken(user, session.id),
+      refreshToken: `${session.id}.${secret}`,
+      expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+    };
+  },
+
+  /**
+   * Exchange a refresh token for a new access token and a new refresh token.
+   * Returns null if the token is unknown, expired or revoked. Replaying an already rotated token
+   * revokes the whole session, since only a copied token can be presented twice.
+   */
+  async refresh(refreshToken: string): Promise<IssuedSession | null> {
+    const parsed = parseRefreshToken(refreshToken);
+    if (!parsed) return null;
+
+    const session = await typedPrisma.session.findUnique({
+      where: { id: parsed.sessionId },
+      include: { user: { select: { id: true, email: true } } },
+    });
+    if (!session || session.revokedAt || new Date(session.expiresAt).getTime() <= Date.now()) return null;
+
+    const presented = hashToken(parsed.secret);
+    if (!sameHash(presented, session.refreshTokenHash)) {
+      if (sameHash(presented, session.previousRefreshTokenHash)
+        && Date.now() - new Date(session.rotatedAt).getTime() > REUSE_GRACE_MS) {
+        console.warn(`Refresh token reuse detected for session ${session.id}; revoking it`);
+        await this.revokeSession(session.id);
+      }
+      return null;
+    }
+
+    // Conditional on the current hash, so only one of two concurrent refreshes can rotate
+    const secret = randomBytes(32).toString('base64url');
+    const rotated = await typedPrisma.session.updateMany({
+      where: { id: session.id, refreshTokenHash: session.refreshTokenHash, revokedAt: null },
+      data: {
+        refreshTokenHash: hashToken(secret),
+        previousRefreshTokenHash: session.refreshTokenHash,
+        rotatedAt: new Date(),
+      },
+    });
+    if (rotated.count !== 1) return null;
+
+    return {
+      sessionId: session.id,
+      accessToken: await issueAccessToken(session.user, session.id),
+      refreshToken: `${session.id}.${secret}`,
+      expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+    };
+  },
+
+  /**
+   * The session a refresh token belongs to, without rotating it (used by logout)
+   */
+  async findByRefreshToken(refreshToken: string): Promise<{ id: string; userId: string } | null> {
+    const parsed = parseRefreshToken(refreshToken);
+    if (!parsed) return null;
+    const session = await typedPrisma.session.findUnique({ where: { id: parsed.sessionId } });
+    if (!session || !sameHash(hashToken(parsed.secret), session.refreshTokenHash)) return null;
+    return { id: session.id, userId: session.userId };
+  },
+
+  async revokeSession(sessionId: string): Promise<void> {
+    await typedPrisma.session.updateMany({
+      where: { id: sessionId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+  },
+
+  /**
+   * Sign out everywhere: revoke every session the user has
+   */
+  async revokeAllSessions(userId: string): Promise<number> {
+    const result = await typedPrisma.session.updateMany({
+      where: { userId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+    return result.count;
+  },
+
+  async isSessionActive(sessionId: string, userId: string): Promise<boolean> {
+    const session = await typedPrisma.session.findUnique({ where: { id: sessionId } });
+    return !!session
+      && session.userId === userId
+      && !session.revokedAt
+      && new Date(session.expiresAt).getTime() > Date.now();
+  },
+};
+
+/**
+ * Cookie settings for the refresh token: httpOnly, and only sent to the auth routes
+ */
+export function refreshCookieOptions(maxAge = REFRESH_TOKEN_TTL_SECONDS) {
+  return {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'strict' as const,
+    path: '/api/auth',
+    maxAge,
+  };
+}
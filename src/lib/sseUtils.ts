@@ -18,10 +18,12 @@ export function createSSEResponse() {
  * Format a message for SSE
  * @param data The data to send
  * @param event The event type
+ * @param id Optional event id; the browser sends the last one back as Last-Event-ID when reconnecting
  * @returns Formatted SSE message string
  */
-export function formatSSEMessage(data: any, event: string = 'message') {
-  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+export function formatSSEMessage(data: any, event: string = 'message', id?: number) {
+  const idLine = id !== undefined ? `id: ${id}\n` : '';
+  return `${idLine}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
 }
 
 /**
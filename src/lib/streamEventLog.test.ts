@@ -0,0 +1,96 @@
+/**
+ * Unit tests for the resumable stream event log
+ */
+
+import {
+  appendStreamEvent,
+  canReadStream,
+  completeStreamLog,
+  followStream,
+  hasStreamLog,
+  openStreamLog,
+  parseLastEventId,
+  StreamEvent,
+} from './streamEventLog';
+import { formatSSEMessage } from './sseUtils';
+
+let counter = 0;
+const newStreamId = () => `stream-test-${++counter}`;
+
+describe('streamEventLog', () => {
+  test('should number events from 1 and open each stream only once', () => {
+    const streamId = newStreamId();
+
+    expect(openStreamLog(streamId, 'token-a')).toBe(true);
+    expect(openStreamLog(streamId, 'token-a')).toBe(false);
+    expect(appendStreamEvent(streamId, { type: 'content', content: 'a' })?.id).toBe(1);
+    expect(appendStreamEvent(streamId, { type: 'content', content: 'b' })?.id).toBe(2);
+    expect(appendStreamEvent('stream-unknown', { type: 'content' })).toBeUndefined();
+  });
+
+  test('should replay events after the last id and then follow the live tail', () => {
+    const streamId = newStreamId();
+    openStreamLog(streamId, 'token-a');
+    appendStreamEvent(streamId, { n: 1 });
+    appendStreamEvent(streamId, { n: 2 });
+
+    const received: Array<StreamEvent | null> = [];
+    const unsubscribe = followStream(streamId, 1, event => received.push(event));
+    appendStreamEvent(streamId, { n: 3 });
+    completeStreamLog(streamId);
+
+    expect(unsubscribe).not.toBeNull();
+    expect(received).toEqual([{ id: 2, data: { n: 2 } }, { id: 3, data: { n: 3 } }, null]);
+  });
+
+  test('should keep completed streams replayable and reject further events', () => {
+    const streamId = newStreamId();
+    openStreamLog(streamId, 'token-a');
+    appendStreamEvent(streamId, { type: 'end' });
+    completeStreamLog(streamId);
+
+    expect(appendStreamEvent(streamId, { type: 'content' })).toBeUndefined();
+    const received: Array<StreamEvent | null> = [];
+    followStream(streamId, 0, event => received.push(event));
+    expect(received).toEqual([{ id: 1, data: { type: 'end' } }, null]);
+  });
+
+  test('should expire completed streams after the retention window', () => {
+    jest.useFakeTimers();
+    try {
+      const streamId = newStreamId();
+      openStreamLog(streamId, 'token-a');
+      completeStreamLog(streamId);
+
+      jest.advanceTimersByTime(4 * 60 * 1000);
+      expect(hasStreamLog(streamId)).toBe(true);
+      jest.advanceTimersByTime(2 * 60 * 1000);
+      expect(hasStreamLog(streamId)).toBe(false);
+      expect(followStream(streamId, 0, () => {})).toBeNull();
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  test('should only let the opening credential read a stream', () => {
+    const streamId = newStreamId();
+    openStreamLog(streamId, 'token-a');
+
+    expect(canReadStream(streamId, 'token-a')).toBe(true);
+    expect(canReadStream(streamId, 'token-b')).toBe(false);
+  });
+
+  test('should parse Last-Event-ID values', () => {
+    expect(parseLastEventId('42')).toBe(42);
+    expect(parseLastEventId(null)).toBe(0);
+    expect(parseLastEventId('abc')).toBe(0);
+    expect(parseLastEventId('-3')).toBe(0);
+  });
+});
+
+describe('formatSSEMessage', () => {
+  test('should include the event id only when given', () => {
+    expect(formatSSEMessage({ type: 'content' }, 'message', 7)).toBe('id: 7\nevent: message\ndata: {"type":"content"}\n\n');
+    expect(formatSSEMessage({ type: 'heartbeat' })).toBe('event: message\ndata: {"type":"heartbeat"}\n\n');
+  });
+});
@@ -0,0 +1,126 @@
+// In-memory log of the SSE events produced for each chat stream.
+// Generation writes numbered events here instead of straight to a connection, so a dropped
+// EventSource can reconnect with Last-Event-ID, replay what it missed and follow the live tail.
+// Completed logs are kept for a short window so a page reload mid-answer can recover the response.
+// NOTE: The log is per-server-instance (only the payload goes through the shared stream store),
+// so reconnects must reach the instance that is generating.
+
+export interface StreamEvent {
+  id: number;
+  data: any;
+}
+
+// Called with each new event, and with null once the stream has completed
+export type StreamListener = (event: StreamEvent | null) => void;
+
+interface StreamLog {
+  events: StreamEvent[];
+  lastId: number;
+  done: boolean;
+  owner: string; // credential that opened the stream; replays must present the same one
+  updatedAt: number;
+  listeners: Set<StreamListener>;
+}
+
+const COMPLETED_TTL_MS = 5 * 60 * 1000; // completed streams stay replayable for 5 minutes
+const STALLED_TTL_MS = 10 * 60 * 1000; // live streams whose producer vanished
+const MAX_EVENTS = 5000;
+
+const logs = new Map<string, StreamLog>();
+
+// Cleanup runs lazily on access to avoid timers
+function cleanup(now = Date.now()) {
+  for (const [streamId, log] of Array.from(logs.entries())) {
+    const ttl = log.done ? COMPLETED_TTL_MS : STALLED_TTL_MS;
+    if (now - log.updatedAt > ttl) {
+      logs.delete(streamId);
+    }
+  }
+}
+
+/**
+ * Create the log for a stream. Returns false if it already exists,
+ * in which case the caller should replay it rather than start generating again.
+ */
+export function openStreamLog(streamId: string, owner: string): boolean {
+  cleanup();
+  if (logs.has(streamId)) return false;
+  logs.set(streamId, { events: [], lastId: 0, done: false, owner, updatedAt: Date.now(), listeners: new Set() });
+  return true;
+}
+
+export function hasStreamLog(streamId: string): boolean {
+  cleanup();
+  return logs.has(streamId);
+}
+
+/**
+ * Whether a credential may read a stream (the one that opened it)
+ */
+export function canReadStream(streamId: string, owner: string): boolean {
+  const log = logs.get(streamId);
+  return !!log && log.owner === owner;
+}
+
+/**
+ * Append an event and deliver it to live listeners. Ids start at 1 and increase by one.
+ */
+export function appendStreamEvent(streamId: string, data: any): StreamEvent | undefined {
+  const log = logs.get(streamId);
+  if (!log || log.done) return undefined;
+
+  const event = { id: ++log.lastId, data };
+  log.events.push(event);
+  // Very long streams keep only their tail; a reconnect that far behind replays from the oldest kept event
+  if (log.events.length > MAX_EVENTS) {
+    log.events.shift();
+  }
+  log.updatedAt = Date.now();
+  log.listeners.forEach(listener => listener(event));
+  return event;
+}
+
+/**
+ * Mark a stream finished; listeners are told with null and removed
+ */
+export function completeStreamLog(streamId: string) {
+  const log = logs.get(streamId);
+  if (!log || log.done) return;
+
+  log.done = true;
+  log.updatedAt = Date.now();
+  log.listeners.forEach(listener => listener(null));
+  log.listeners.clear();
+}
+
+/**
+ * Replay events after lastEventId, then follow new ones until the stream completes.
+ * Replay and subscription happen synchronously, so no event is missed or delivered twice.
+ * Returns an unsubscribe function, or null if the stream is unknown.
+ */
+export function followStream(streamId: string, lastEventId: number, listener: StreamListener): (() => void) | null {
+  cleanup();
+  const log = logs.get(streamId);
+  if (!log) return null;
+
+  for (const event of log.events) {
+    if (event.id > lastEventId) listener(event);
+  }
+  if (log.done) {
+    listener(null);
+    return () => {};
+  }
+
+  log.listeners.add(listener);
+  return () => {
+    log.listeners.delete(listener);
+  };
+}
+
+/**
+ * Parse a Last-Event-ID value; anything unusable means "from the start"
+ */
+export function parseLastEventId(value: string | null | undefined): number {
+  const id = parseInt(value || '', 10);
+  return Number.isFinite(id) && id > 0 ? id : 0;
+}
@@ -0,0 +1,96 @@
+/**
+ * Shared behaviour for stream payload stores: serialization, size limits, TTL defaults and metrics.
+ * Backends only move strings.
+ */
+
+import {
+  DEFAULT_MAX_BYTES,
+  DEFAULT_TTL_MS,
+  PayloadTooLargeError,
+  StreamPayload,
+  StreamPayloadStore,
+  StreamStoreMetrics,
+  StreamStoreOptions,
+} from './types';
+
+export abstract class BaseStreamPayloadStore implements StreamPayloadStore {
+  abstract readonly name: string;
+  protected readonly ttlMs: number;
+  protected readonly maxBytes: number;
+  private counters: StreamStoreMetrics = { writes: 0, hits: 0, misses: 0, rejected: 0, errors: 0, bytesWritten: 0 };
+
+  constructor(options: StreamStoreOptions = {}) {
+    this.ttlMs = options.ttlMs ?? DEFAULT_TTL_MS;
+    this.maxBytes = options.maxBytes ?? DEFAULT_MAX_BYTES;
+  }
+
+  protected abstract write(key: string, value: string, ttlMs: number): Promise<void>;
+  protected abstract read(key: string): Promise<string | null>;
+  protected abstract remove(key: string): Promise<void>;
+  /** Write only if the key is absent (or expired); false when it already exists */
+  protected abstract writeIfAbsent(key: string, value: string, ttlMs: number): Promise<boolean>;
+
+  /** Backends with an atomic read-and-delete override this */
+  protected async readAndRemove(key: string): Promise<string | null> {
+    const value = await this.read(key);
+    if (value !== null) await this.remove(key);
+    return value;
+  }
+
+  async set(streamId: string, payload: Omit<StreamPayload, 'createdAt'>, ttlMs = this.ttlMs): Promise<void> {
+    const value = JSON.stringify({ ...payload, createdAt: Date.now() });
+    const bytes = new TextEncoder().encode(value).length;
+    if (bytes > this.maxBytes) {
+      this.counters.rejected++;
+      throw new PayloadTooLargeError(bytes, this.maxBytes);
+    }
+
+    await this.track(() => this.write(streamId, value, ttlMs));
+    this.counters.writes++;
+    this.counters.bytesWritten += bytes;
+  }
+
+  async get(streamId: string): Promise<StreamPayload | undefined> {
+    return this.parse(await this.track(() => this.read(streamId)));
+  }
+
+  async take(streamId: string): Promise<StreamPayload | undefined> {
+    return this.parse(await this.track(() => this.readAndRemove(streamId)));
+  }
+
+  async delete(streamId: string): Promise<void> {
+    await this.track(() => this.remove(streamId));
+  }
+
+  async markUsed(id: string, ttlMs: number): Promise<boolean> {
+    return this.track(() => this.writeIfAbsent(`used:${id}`, '1', ttlMs));
+  }
+
+  metrics(): StreamStoreMetrics {
+    return { ...this.counters };
+  }
+
+  private async track<T>(operation: () => Promise<T>): Promise<T> {
+    try {
+      return await operation();
+    } catch (error) {
+      this.counters.errors++;
+      throw error;
+    }
+  }
+
+  private parse(value: string | null): StreamPayload | undefined {
+    if (value === null) {
+      this.counters.misses++;
+      return undefined;
+    }
+    try {
+      const payload = JSON.parse(value) as StreamPayload;
+      this.counters.hits++;
+      return payload;
+    } catch {
+      this.counters.errors++;
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,126 @@
+/**
+ * Filesystem payload store
+ * One JSON file per stream in a directory that every instance can reach (a shared volume, or local disk
+ * when instances share a host). Survives restarts; expired files are swept lazily.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { BaseStreamPayloadStore } from './baseStore';
+import { StreamStoreOptions } from './types';
+
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+interface StoredFile {
+  expiresAt: number;
+  value: string;
+}
+
+export class FileStreamPayloadStore extends BaseStreamPayloadStore {
+  readonly name = 'file';
+  private lastSweep = 0;
+
+  constructor(private directory: string, options: StreamStoreOptions = {}) {
+    super(options);
+  }
+
+  // Stream ids come from clients, so never use them as paths directly
+  private fileFor(key: string): string {
+    return path.join(this.directory, `${Buffer.from(key).toString('base64url')}.json`);
+  }
+
+  protected async write(key: string, value: string, ttlMs: number): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    await this.sweep();
+
+    // Write then rename so readers never see a partial file
+    const file = this.fileFor(key);
+    const temp = `${file}.${process.pid}.${Date.now()}.tmp`;
+    const stored: StoredFile = { expiresAt: Date.now() + ttlMs, value };
+    await fs.writeFile(temp, JSON.stringify(stored), 'utf8');
+    await fs.rename(temp, file);
+  }
+
+  protected async read(key: string): Promise<string | null> {
+    return this.readFile(this.fileFor(key));
+  }
+
+  protected async remove(key: string): Promise<void> {
+    await fs.rm(this.fileFor(key), { force: true });
+  }
+
+  // The 'wx' flag makes creation exclusive across processes sharing the directory
+  protected async writeIfAbsent(key: string, value: string, ttlMs: number): Promise<boolean> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const file = this.fileFor(key);
+    const stored: StoredFile = { expiresAt: Date.now() + ttlMs, value };
+
+    for (let attempt = 0; attempt < 2; attempt++) {
+      try {
+        await fs.writeFile(file, JSON.stringify(stored), { encoding: 'utf8', flag: 'wx' });
+        return true;
+      } catch (error: any) {
+        if (error?.code !== 'EEXIST') throw error;
+        // An expired entry is removed by readFile, after which one retry may succeed
+        if ((await this.readFile(file)) !== null) return false;
+      }
+    }
+    return false;
+  }
+
+  // Claim the file by renaming it first; only one reader's rename can succeed
+  protected async readAndRemove(key: string): Promise<string | null> {
+    const file = this.fileFor(key);
+    const claimed = `${file}.${process.pid}.${Date.now()}.taken`;
+    try {
+      await fs.rename(file, claimed);
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return null;
+      throw error;
+    }
+    try {
+      return await this.readFile(claimed);
+    } finally {
+      await fs.rm(claimed, { force: true });
+    }
+  }
+
+  private async readFile(file: string): Promise<string | null> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(file, 'utf8');
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return null;
+      throw error;
+    }
+
+    const stored = JSON.parse(raw) as StoredFile;
+    if (stored.expiresAt <= Date.now()) {
+      await fs.rm(file, { force: true });
+      return null;
+    }
+    return stored.value;
+  }
+
+  /** Delete expired payloads and leftovers from interrupted writes, at most once a minute */
+  private async sweep() {
+    const now = Date.now();
+    if (now - this.lastSweep < SWEEP_INTERVAL_MS) return;
+    this.lastSweep = now;
+
+    const names = await fs.readdir(this.directory).catch(() => [] as string[]);
+    for (const name of names) {
+      const file = path.join(this.directory, name);
+      try {
+        if (name.endsWith('.json')) {
+          await this.readFile(file); // removes the file when expired
+        } else if (name.endsWith('.tmp') || name.endsWith('.taken')) {
+          const stat = await fs.stat(file);
+          if (now - stat.mtimeMs > SWEEP_INTERVAL_MS) await fs.rm(file, { force: true });
+        }
+      } catch (error) {
+        console.warn(`Stream store sweep skipped ${name}:`, error);
+      }
+    }
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * In-process payload store
+ * Only works when the POST and GET requests reach the same server instance (local development, single node).
+ */
+
+import { BaseStreamPayloadStore } from './baseStore';
+
+export class MemoryStreamPayloadStore extends BaseStreamPayloadStore {
+  readonly name = 'memory';
+  private entries = new Map<string, { value: string; expiresAt: number }>();
+
+  // Cleanup runs lazily on access to avoid timers
+  private cleanup(now = Date.now()) {
+    for (const [key, entry] of Array.from(this.entries.entries())) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key);
+      }
+    }
+  }
+
+  protected async write(key: string, value: string, ttlMs: number): Promise<void> {
+    this.cleanup();
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+  }
+
+  protected async read(key: string): Promise<string | null> {
+    this.cleanup();
+    return this.entries.get(key)?.value ?? null;
+  }
+
+  protected async remove(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  protected async writeIfAbsent(key: string, value: string, ttlMs: number): Promise<boolean> {
+    this.cleanup();
+    if (this.entries.has(key)) return false;
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+    return true;
+  }
+
+  // Read and delete without yielding, so concurrent takes cannot both see the payload
+  protected async readAndRemove(key: string): Promise<string | null> {
+    this.cleanup();
+    const entry = this.entries.get(key);
+    this.entries.delete(key);
+    return entry?.value ?? null;
+  }
+}
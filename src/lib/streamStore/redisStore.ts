@@ -0,0 +1,59 @@
+/**
+ * Redis payload store
+ * Shared by every instance, so the POST and GET halves of a stream may land anywhere.
+ * Speaks the Redis protocol directly; TTLs are enforced by the server with SET ... PX.
+ */
+
+import { BaseStreamPayloadStore } from './baseStore';
+import { RedisConnection, RespError } from './respClient';
+import { StreamStoreOptions } from './types';
+
+const KEY_PREFIX = 'stream-payload:';
+
+export class RedisStreamPayloadStore extends BaseStreamPayloadStore {
+  readonly name = 'redis';
+  private connection: RedisConnection;
+  private supportsGetDel = true;
+
+  constructor(url: string, options: StreamStoreOptions & { commandTimeoutMs?: number } = {}) {
+    super(options);
+    this.connection = new RedisConnection(new URL(url), { commandTimeoutMs: options.commandTimeoutMs });
+  }
+
+  protected async write(key: string, value: string, ttlMs: number): Promise<void> {
+    await this.connection.command(['SET', KEY_PREFIX + key, value, 'PX', String(Math.max(1, Math.round(ttlMs)))]);
+  }
+
+  protected async read(key: string): Promise<string | null> {
+    const value = await this.connection.command(['GET', KEY_PREFIX + key]);
+    return typeof value === 'string' ? value : null;
+  }
+
+  protected async remove(key: string): Promise<void> {
+    await this.connection.command(['DEL', KEY_PREFIX + key]);
+  }
+
+  protected async writeIfAbsent(key: string, value: string, ttlMs: number): Promise<boolean> {
+    const reply = await this.connection.command(['SET', KEY_PREFIX + key, value, 'NX', 'PX', String(Math.max(1, Math.round(ttlMs)))]);
+    return reply === 'OK';
+  }
+
+  // GETDEL is atomic; servers older than Redis 6.2 fall back to GET then DEL
+  protected async readAndRemove(key: string): Promise<string | null> {
+    if (this.supportsGetDel) {
+      try {
+        const value = await this.connection.command(['GETDEL', KEY_PREFIX + key]);
+        return typeof value === 'string' ? value : null;
+      } catch (error) {
+        if (!(error instanceof RespError) || !/unknown command/i.test(error.message)) throw error;
+        this.supportsGetDel = false;
+      }
+    }
+    return super.readAndRemove(key);
+  }
+
+  /** Close the connection (tests and shutdown) */
+  close() {
+    this.connection.close();
+  }
+}
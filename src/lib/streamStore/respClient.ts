@@ -0,0 +1,207 @@
+/**
+ * Minimal Redis protocol (RESP2) client
+ * Just enough for the payload store: one connection, pipelined commands, AUTH and SELECT from the URL.
+ * Works with Redis, Valkey, KeyDB and other servers speaking the Redis protocol.
+ */
+
+import net from 'net';
+import tls from 'tls';
+
+export type RespValue = string | number | null | RespValue[];
+
+/**
+ * An error reply from the server (e.g. "ERR unknown command")
+ */
+export class RespError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RespError';
+  }
+}
+
+const CRLF = '\r\n';
+
+/**
+ * Encode a command as a RESP array of bulk strings
+ */
+export function encodeCommand(args: string[]): string {
+  return `*${args.length}${CRLF}` + args.map(arg => `$${Buffer.byteLength(arg)}${CRLF}${arg}${CRLF}`).join('');
+}
+
+/**
+ * Incremental reply parser; feed it socket data and it returns every complete reply
+ */
+export class RespParser {
+  private buffer: Buffer = Buffer.alloc(0);
+
+  push(chunk: Buffer): Array<RespValue | RespError> {
+    this.buffer = this.buffer.length ? Buffer.concat([this.buffer, chunk]) : chunk;
+    const replies: Array<RespValue | RespError> = [];
+
+    for (;;) {
+      const parsed = this.parseAt(0);
+      if (!parsed) break;
+      replies.push(parsed.value);
+      this.buffer = this.buffer.subarray(parsed.next);
+    }
+    return replies;
+  }
+
+  // Returns null while the reply is still incomplete
+  private parseAt(offset: number): { value: RespValue | RespError; next: number } | null {
+    const lineEnd = this.buffer.indexOf(CRLF, offset);
+    if (lineEnd === -1) return null;
+
+    const type = String.fromCharCode(this.buffer[offset]);
+    const line = this.buffer.toString('utf8', offset + 1, lineEnd);
+    const next = lineEnd + 2;
+
+    switch (type) {
+      case '+':
+        return { value: line, next };
+      case '-':
+        return { value: new RespError(line), next };
+      case ':':
+        return { value: parseInt(line, 10), next };
+      case '$': {
+        const length = parseInt(line, 10);
+        if (length < 0) return { value: null, next };
+        if (this.buffer.length < next + length + 2) return null;
+        return { value: this.buffer.toString('utf8', next, next + length), next: next + length + 2 };
+      }
+      case '*': {
+        const count = parseInt(line, 10);
+        if (count < 0) return { value: null, next };
+        const items: RespValue[] = [];
+        let cursor = next;
+        for (let i = 0; i < count; i++) {
+          const item = this.parseAt(cursor);
+          if (!item) return null;
+          if (item.value instanceof RespError) return { value: item.value, next: item.next };
+          items.push(item.value);
+          cursor = item.next;
+        }
+        return { value: items, next: cursor };
+      }
+      default:
+        throw new RespError(`Unexpected reply type "${type}"`);
+    }
+  }
+}
+
+interface PendingCommand {
+  resolve: (value: RespValue) => void;
+  reject: (error: Error) => void;
+}
+
+export interface RedisConnectionOptions {
+  commandTimeoutMs?: number;
+}
+
+/**
+ * A lazily opened connection. Replies arrive in command order, so pending commands are a FIFO queue.
+ * A broken connection fails its pending commands and is reopened on the next command.
+ */
+export class RedisConnection {
+  private socket: net.Socket | null = null;
+  private ready: Promise<void> | null = null;
+  private pending: PendingCommand[] = [];
+  private parser = new RespParser();
+  private commandTimeoutMs: number;
+
+  constructor(private url: URL, options: RedisConnectionOptions = {}) {
+    this.commandTimeoutMs = options.commandTimeoutMs ?? 5000;
+  }
+
+  async command(args: string[]): Promise<RespValue> {
+    await this.connect();
+    return this.send(args);
+  }
+
+  close() {
+    this.socket?.end();
+    this.reset(new Error('Redis connection closed'));
+  }
+
+  private send(args: string[]): Promise<RespValue> {
+    const socket = this.socket;
+    if (!socket) return Promise.reject(new Error('Redis connection is not open'));
+
+    return new Promise<RespValue>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        if (this.socket !== socket) return;
+        socket.destroy();
+        this.reset(new Error(`Redis command ${args[0]} timed out`));
+      }, this.commandTimeoutMs);
+
+      this.pending.push({
+        resolve: value => { clearTimeout(timer); resolve(value); },
+        reject: error => { clearTimeout(timer); reject(error); },
+      });
+      socket.write(encodeCommand(args));
+    });
+  }
+
+  private connect(): Promise<void> {
+    if (this.ready) return this.ready;
+
+    const port = parseInt(this.url.port || '6379', 10);
+    const host = this.url.hostname || '127.0.0.1';
+    const socket = this.url.protocol === 'rediss:'
+      ? tls.connect({ host, port, servername: host })
+      : net.connect({ host, port });
+    this.socket = socket;
+    this.parser = new RespParser();
+
+    // Events from a socket that has already been replaced are ignored
+    const fail = (error: Error) => {
+      if (this.socket !== socket) return;
+      socket.destroy();
+      this.reset(error);
+    };
+
+    socket.on('data', chunk => {
+      let replies: Array<RespValue | RespError>;
+      try {
+        replies = this.parser.push(chunk);
+      } catch (error) {
+        fail(error as Error);
+        return;
+      }
+      for (const reply of replies) {
+        const command = this.pending.shift();
+        if (!command) continue;
+        if (reply instanceof RespError) command.reject(reply);
+        else command.resolve(reply);
+      }
+    });
+    socket.on('error', fail);
+    socket.on('close', () => fail(new Error('Redis connection closed')));
+
+    this.ready = new Promise<void>((resolve, reject) => {
+      socket.once(this.url.protocol === 'rediss:' ? 'secureConnect' : 'connect', resolve);
+      socket.once('error', reject);
+    }).then(async () => {
+      const password = decodeURIComponent(this.url.password || '');
+      const username = decodeURIComponent(this.url.username || '');
+      if (password) {
+        await this.send(username ? ['AUTH', username, password] : ['AUTH', password]);
+      }
+      const db = this.url.pathname.replace('/', '');
+      if (db && db !== '0') {
+        await this.send(['SELECT', db]);
+      }
+    });
+    this.ready.catch(error => fail(error));
+
+    return this.ready;
+  }
+
+  private reset(error: Error) {
+    this.socket = null;
+    this.ready = null;
+    const failed = this.pending;
+    this.pending = [];
+    failed.forEach(command => command.reject(error));
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * Selects the stream payload store from configuration
+ *
+ * STREAM_STORE=memory  (default) in-process, single instance only
+ * STREAM_STORE=file    uses STREAM_STORE_DIR (default .stream-store under the working directory)
+ * STREAM_STORE=redis   uses REDIS_URL, e.g. redis://:password@localhost:6379/0 or rediss:// for TLS
+ *
+ * STREAM_STORE_TTL_SECONDS (default 120) and STREAM_STORE_MAX_BYTES (default 2 MB) apply to every backend
+ */
+
+import path from 'path';
+import { FileStreamPayloadStore } from './fileStore';
+import { MemoryStreamPayloadStore } from './memoryStore';
+import { RedisStreamPayloadStore } from './redisStore';
+import { StreamPayloadStore, StreamStoreConfigurationError, StreamStoreOptions } from './types';
+
+type Env = Record<string, string | undefined>;
+
+let cachedStore: StreamPayloadStore | null = null;
+
+function clean(value?: string): string {
+  return (value || '').replace(/\r?\n|\r/g, '').trim();
+}
+
+function readPositive(name: string, value?: string): number | undefined {
+  const normalized = clean(value);
+  if (!normalized) return undefined;
+  const parsed = Number(normalized);
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    throw new StreamStoreConfigurationError(`${name} must be a positive number`);
+  }
+  return parsed;
+}
+
+export function createStreamPayloadStore(env: Env = process.env): StreamPayloadStore {
+  const kind = clean(env.STREAM_STORE) || 'memory';
+  const ttlSeconds = readPositive('STREAM_STORE_TTL_SECONDS', env.STREAM_STORE_TTL_SECONDS);
+  const options: StreamStoreOptions = {
+    ttlMs: ttlSeconds !== undefined ? ttlSeconds * 1000 : undefined,
+    maxBytes: readPositive('STREAM_STORE_MAX_BYTES', env.STREAM_STORE_MAX_BYTES),
+  };
+
+  switch (kind) {
+    case 'memory':
+      return new MemoryStreamPayloadStore(options);
+
+    case 'file':
+      return new FileStreamPayloadStore(
+        path.resolve(clean(env.STREAM_STORE_DIR) || '.stream-store'),
+        options
+      );
+
+    case 'redis': {
+      const url = clean(env.REDIS_URL);
+      if (!/^rediss?:\/\//.test(url)) {
+        throw new StreamStoreConfigurationError('REDIS_URL must be a redis:// or rediss:// URL when STREAM_STORE=redis');
+      }
+      return new RedisStreamPayloadStore(url, options);
+    }
+
+    default:
+      throw new StreamStoreConfigurationError(`Unknown STREAM_STORE "${kind}"`);
+  }
+}
+
+/**
+ * Get the process-wide store, creating it on first use
+ */
+export function getStreamPayloadStore(): StreamPayloadStore {
+  if (!cachedStore) {
+    cachedStore = createStreamPayloadStore();
+  }
+  return cachedStore;
+}
+
+/**
+ * Override the process-wide store (tests), or pass null to re-read configuration
+ */
+export function setStreamPayloadStore(store: StreamPayloadStore | null) {
+  cachedStore = store;
+}
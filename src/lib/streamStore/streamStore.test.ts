@@ -0,0 +1,152 @@
+/**
+ * Unit tests for the stream payload stores
+ * The Redis backend runs against a real server when REDIS_TEST_URL is set (e.g. redis://localhost:6379/15)
+ */
+
+import { mkdtempSync, readdirSync, rmSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { FileStreamPayloadStore } from './fileStore';
+import { MemoryStreamPayloadStore } from './memoryStore';
+import { RedisStreamPayloadStore } from './redisStore';
+import { encodeCommand, RespError, RespParser } from './respClient';
+import { createStreamPayloadStore } from './storeFactory';
+import { PayloadTooLargeError, StreamPayloadStore, StreamStoreConfigurationError } from './types';
+
+const payload = {
+  userId: 'user-1',
+  messages: [{ role: 'user', content: 'What is on page 2?' }],
+  pdfText: { current: 'Page two text', currentPage: 2, totalPages: 5 },
+  pdfId: 'pdf-1',
+  currentPage: 2,
+};
+
+// Behaviour every backend must share
+function describeStore(
+  name: string,
+  create: () => StreamPayloadStore,
+  teardown?: (store: StreamPayloadStore) => void,
+  run: jest.Describe = describe
+) {
+  run(name, () => {
+    let store: StreamPayloadStore;
+    beforeEach(() => {
+      store = create();
+    });
+    afterEach(() => teardown?.(store));
+
+    test('should round-trip a payload and stamp createdAt', async () => {
+      await store.set('stream-1', payload);
+
+      const stored = await store.get('stream-1');
+      expect(stored).toMatchObject(payload);
+      expect(typeof stored?.createdAt).toBe('number');
+    });
+
+    test('should hand a payload out only once through take', async () => {
+      await store.set('stream-2', payload);
+
+      const [first, second] = await Promise.all([store.take('stream-2'), store.take('stream-2')]);
+      expect([first, second].filter(Boolean)).toHaveLength(1);
+      expect(await store.get('stream-2')).toBeUndefined();
+    });
+
+    test('should expire payloads after their TTL', async () => {
+      await store.set('stream-3', payload, 50);
+      await new Promise(resolve => setTimeout(resolve, 120));
+
+      expect(await store.get('stream-3')).toBeUndefined();
+    });
+
+    test('should reject payloads over the size limit and count it', async () => {
+      const huge = { ...payload, pdfText: { current: 'x'.repeat(5000) } };
+
+      await expect(store.set('stream-4', huge)).rejects.toBeInstanceOf(PayloadTooLargeError);
+      expect(await store.get('stream-4')).toBeUndefined();
+      expect(store.metrics()).toMatchObject({ rejected: 1, misses: 1 });
+    });
+
+    test('should record one-time ids only once until they expire', async () => {
+      expect(await store.markUsed('ticket-1', 50)).toBe(true);
+      expect(await store.markUsed('ticket-1', 50)).toBe(false);
+      await new Promise(resolve => setTimeout(resolve, 120));
+      expect(await store.markUsed('ticket-1', 50)).toBe(true);
+    });
+
+    test('should track writes, hits and misses', async () => {
+      await store.set('stream-5', payload);
+      await store.get('stream-5');
+      await store.delete('stream-5');
+      await store.get('stream-5');
+
+      expect(store.metrics()).toMatchObject({ writes: 1, hits: 1, misses: 1, errors: 0 });
+      expect(store.metrics().bytesWritten).toBeGreaterThan(0);
+    });
+  });
+}
+
+describeStore('MemoryStreamPayloadStore', () => new MemoryStreamPayloadStore({ maxBytes: 4096 }));
+
+const directories: string[] = [];
+describeStore(
+  'FileStreamPayloadStore',
+  () => {
+    const directory = mkdtempSync(path.join(os.tmpdir(), 'stream-store-'));
+    directories.push(directory);
+    return new FileStreamPayloadStore(directory, { maxBytes: 4096 });
+  },
+  () => directories.splice(0).forEach(directory => rmSync(directory, { recursive: true, force: true }))
+);
+
+const redisUrl = process.env.REDIS_TEST_URL;
+describeStore(
+  'RedisStreamPayloadStore',
+  () => new RedisStreamPayloadStore(redisUrl || 'redis://localhost:6379', { maxBytes: 4096 }),
+  store => (store as RedisStreamPayloadStore).close(),
+  redisUrl ? describe : describe.skip
+);
+
+describe('FileStreamPayloadStore file names', () => {
+  test('should never use the stream id as a path', async () => {
+    const directory = mkdtempSync(path.join(os.tmpdir(), 'stream-store-'));
+    try {
+      const store = new FileStreamPayloadStore(directory);
+      await store.set('../../escape', payload);
+
+      expect(readdirSync(directory)).toHaveLength(1);
+      expect(await store.get('../../escape')).toMatchObject(payload);
+    } finally {
+      rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('RESP client', () => {
+  test('should encode commands as bulk string arrays', () => {
+    expect(encodeCommand(['SET', 'k', 'héllo'])).toBe('*3\r\n$3\r\nSET\r\n$1\r\nk\r\n$6\r\nhéllo\r\n');
+  });
+
+  test('should parse replies split across socket chunks', () => {
+    const parser = new RespParser();
+
+    expect(parser.push(Buffer.from('+OK\r\n$5\r\nhel'))).toEqual(['OK']);
+    expect(parser.push(Buffer.from('lo\r\n$-1\r\n:3\r\n*2\r\n$1\r\na\r\n:1\r\n'))).toEqual(['hello', null, 3, ['a', 1]]);
+
+    const [error] = parser.push(Buffer.from("-ERR unknown command 'GETDEL'\r\n"));
+    expect(error).toBeInstanceOf(RespError);
+    expect((error as RespError).message).toBe("ERR unknown command 'GETDEL'");
+  });
+});
+
+describe('createStreamPayloadStore', () => {
+  test('should default to the memory store', () => {
+    expect(createStreamPayloadStore({}).name).toBe('memory');
+    expect(createStreamPayloadStore({ STREAM_STORE: 'file', STREAM_STORE_DIR: os.tmpdir() }).name).toBe('file');
+  });
+
+  test('should reject incomplete or invalid configuration', () => {
+    expect(() => createStreamPayloadStore({ STREAM_STORE: 'redis' })).toThrow(StreamStoreConfigurationError);
+    expect(() => createStreamPayloadStore({ STREAM_STORE: 'postgres' })).toThrow('Unknown STREAM_STORE "postgres"');
+    expect(() => createStreamPayloadStore({ STREAM_STORE_TTL_SECONDS: '-5' })).toThrow('STREAM_STORE_TTL_SECONDS must be a positive number');
+  });
+});
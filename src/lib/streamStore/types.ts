@@ -0,0 +1,83 @@
+/**
+ * Stream payload store abstraction
+ * Carries the chat payload from POST /api/chat/stream to GET /api/chat/stream/[streamId].
+ * Backends: in-memory (single instance), filesystem (shared disk) and Redis (shared across instances).
+ */
+
+import type { PageGeometry } from '@/lib/textAnchor';
+import type { StudentMark } from '@/lib/studentAnnotations';
+import type { TemplateName } from '@/lib/prompts/types';
+
+export interface StreamPayload {
+  userId: string; // owner; only a ticket minted for this user can consume the payload
+  messages: any[];
+  pdfText: Record<string, any>;
+  pdfId?: string;
+  sessionId?: string; // the chat session the question was asked in
+  parentId?: string | null; // the stored message the question follows
+  replyTo?: string; // a stored question to answer (regenerating or after an edit); only the answer is stored
+  currentPage?: number;
+  template?: TemplateName; // the prompt template to answer with; tutor when omitted
+  tier?: string; // the user's tier, for model routing
+  quota?: { remaining: number; resetAt: string }; // daily tokens left when the question was asked
+  passages?: Array<{ page: number; score: number; text: string }>;
+  geometry?: Record<number, PageGeometry>; // line geometry for anchoring quoted highlights
+  studentMarks?: StudentMark[]; // what the student highlighted or noted themselves
+  createdAt: number;
+}
+
+export interface StreamStoreMetrics {
+  writes: number;
+  hits: number;
+  misses: number; // unknown or expired stream ids
+  rejected: number; // payloads over the size limit
+  errors: number; // backend failures
+  bytesWritten: number;
+}
+
+export interface StreamPayloadStore {
+  readonly name: string;
+
+  /** Store a payload for ttlMs (the store default when omitted); throws PayloadTooLargeError over the size limit */
+  set(streamId: string, payload: Omit<StreamPayload, 'createdAt'>, ttlMs?: number): Promise<void>;
+
+  get(streamId: string): Promise<StreamPayload | undefined>;
+
+  /** Read and delete in one step so a payload is only consumed once */
+  take(streamId: string): Promise<StreamPayload | undefined>;
+
+  delete(streamId: string): Promise<void>;
+
+  /** Record a one-time id (e.g. a redeemed stream ticket) for ttlMs; false if it was already recorded */
+  markUsed(id: string, ttlMs: number): Promise<boolean>;
+
+  metrics(): StreamStoreMetrics;
+}
+
+export interface StreamStoreOptions {
+  ttlMs?: number;
+  maxBytes?: number;
+}
+
+export const DEFAULT_TTL_MS = 2 * 60 * 1000; // 2 minutes
+export const DEFAULT_MAX_BYTES = 2 * 1024 * 1024; // 2 MB of serialized JSON
+
+/**
+ * Thrown when a payload is larger than the store accepts
+ */
+export class PayloadTooLargeError extends Error {
+  constructor(readonly bytes: number, readonly maxBytes: number) {
+    super(`Stream payload is ${bytes} bytes; the limit is ${maxBytes}`);
+    this.name = 'PayloadTooLargeError';
+  }
+}
+
+/**
+ * Thrown when a store cannot be constructed from the current configuration
+ */
+export class StreamStoreConfigurationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StreamStoreConfigurationError';
+  }
+}
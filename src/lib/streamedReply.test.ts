@@ -0,0 +1,88 @@
+/**
+ * Unit tests for storing a streamed reply as it is generated
+ */
+
+import { StreamedReply } from './streamedReply';
+import { chatMessageService } from '@/lib/chatMessageService';
+
+jest.mock('@/lib/chatMessageService', () => ({
+  chatMessageService: {
+    appendUnsaved: jest.fn(async ({ messages }: any) => messages.map((m: any) => ({ ...m, id: 'question-1', createdAt: new Date(5000) }))),
+    appendMessages: jest.fn(async ({ messages, startAt }: any) => messages.map((m: any) => ({ ...m, id: 'reply-1', createdAt: startAt }))),
+    update: jest.fn(async () => ({})),
+    attachAnnotations: jest.fn(async () => []),
+  },
+}));
+
+const service = chatMessageService as jest.Mocked<typeof chatMessageService>;
+const highlight = { type: 'highlight' as const, page: 1, x: 10, y: 20, width: 100, height: 12, color: 'yellow' };
+
+describe('StreamedReply', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('should store the question and an answer after it', async () => {
+    const reply = await StreamedReply.start({ pdfId: 'pdf-1', userId: 'user-1', sessionId: 'session-1', question: 'What is entropy?' });
+
+    expect(reply.id).toBe('reply-1');
+    expect(service.appendUnsaved.mock.calls[0][0].messages).toEqual([{ role: 'user', content: 'What is entropy?', pageContext: undefined }]);
+    expect(service.appendMessages.mock.calls[0][0].startAt!.getTime()).toBeGreaterThan(5000);
+  });
+
+  test('should batch text and link annotations when finished', async () => {
+    const reply = await StreamedReply.start({ pdfId: 'pdf-1', userId: 'user-1', question: 'Q' });
+    reply.append('Entropy ');
+    reply.append('measures disorder.');
+    reply.addAnnotation(highlight);
+    await reply.finish();
+
+    expect(service.update).toHaveBeenCalledTimes(2);
+    expect(service.update).toHaveBeenLastCalledWith({ id: 'reply-1', content: 'Entropy measures disorder.', error: false });
+    expect(service.attachAnnotations).toHaveBeenCalledWith('reply-1', 'pdf-1', [highlight]);
+  });
+
+  test('should store token counts on the answer and the question it stored', async () => {
+    const reply = await StreamedReply.start({ pdfId: 'pdf-1', userId: 'user-1', question: 'Q' });
+    reply.append('Entropy.');
+    reply.recordUsage({ model: 'gpt-4o', promptTokens: 1200, completionTokens: 3, questionTokens: 1 });
+    await reply.finish();
+
+    expect(service.update).toHaveBeenCalledWith({
+      id: 'reply-1',
+      content: 'Entropy.',
+      error: false,
+      tokenCount: 3,
+      meta: { usage: { model: 'gpt-4o', promptTokens: 1200, completionTokens: 3 } },
+    });
+    expect(service.update).toHaveBeenLastCalledWith({ id: 'question-1', tokenCount: 1 });
+  });
+
+  test('should drop what streamed before a reset', async () => {
+    const reply = await StreamedReply.start({ pdfId: 'pdf-1', userId: 'user-1', question: 'Q' });
+    reply.append('Entropy is [HIGH');
+    reply.addAnnotation(highlight);
+    reply.reset();
+    reply.append('Short answer.');
+    await reply.finish();
+
+    expect(service.update).toHaveBeenLastCalledWith({ id: 'reply-1', content: 'Short answer.', error: false });
+    expect(service.attachAnnotations).not.toHaveBeenCalled();
+  });
+
+  test('should mark a failed reply and keep the notice when nothing streamed', async () => {
+    const reply = await StreamedReply.start({ pdfId: 'pdf-1', userId: 'user-1', question: 'Q' });
+    await reply.fail('Stream timeout reached');
+
+    expect(service.update).toHaveBeenLastCalledWith({ id: 'reply-1', content: 'Stream timeout reached', error: true });
+  });
+
+  test('should not throw when storing fails', async () => {
+    const reply = await StreamedReply.start({ pdfId: 'pdf-1', userId: 'user-1', question: 'Q' });
+    service.update.mockRejectedValueOnce(new Error('database down'));
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    reply.append('partial');
+    await expect(reply.finish()).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * Streamed reply persistence
+ * The stream route stores the question and the tutor's answer as it is generated, so a reply
+ * survives the browser closing mid-stream. Text is written in batches rather than per token.
+ */
+
+import { Annotation } from '@/types/types';
+import { chatMessageService } from '@/lib/chatMessageService';
+import { LLMUsage } from '@/lib/llm/types';
+import { TemplateRef } from '@/lib/prompts/types';
+import { RoutingDecision } from '@/lib/llm/modelRouter';
+
+// Write the text so far at most this often while streaming
+const FLUSH_INTERVAL_MS = 1000;
+
+interface StartParams {
+  pdfId: string;
+  userId: string;
+  sessionId?: string | null;
+  question?: string;
+  parentId?: string | null; // the message the question follows
+  replyTo?: string; // an already stored question; only the answer is stored
+  pageContext?: number;
+}
+
+// What answering took, stored with the reply
+export interface ReplyUsage extends Pick<LLMUsage, 'promptTokens' | 'completionTokens'> {
+  model: string;
+  questionTokens?: number; // the question's own size, stored with a question this reply stored
+}
+
+export class StreamedReply {
+  private text = '';
+  private annotations: Annotation[] = [];
+  private failed = false;
+  private usage: ReplyUsage | null = null;
+  private prompt: TemplateRef | null = null;
+  private routing: RoutingDecision | null = null;
+  private lastFlush = 0;
+  private writes: Promise<void> = Promise.resolve();
+
+  private constructor(
+    readonly id: string,
+    private readonly pdfId: string,
+    readonly questionId?: string,
+    private readonly storedQuestion = false
+  ) {}
+
+  /**
+   * Store the question (unless the branch already ends with it) and an empty answer to stream into
+   */
+  static async start({ pdfId, userId, sessionId, question, parentId, replyTo, pageContext }: StartParams): Promise<StreamedReply> {
+    const [saved] = question && !replyTo
+      ? await chatMessageService.appendUnsaved({ pdfId, userId, sessionId, parentId, messages: [{ role: 'user', content: question, pageContext }] })
+      : [];
+    const [reply] = await chatMessageService.appendMessages({
+      pdfId,
+      userId,
+      sessionId,
+      // A question the branch already ended with is parentId (or the newest message) itself
+      parentId: replyTo || saved?.id || parentId,
+      messages: [{ role: 'assistant', content: '', pageContext }],
+      // Always after the question, even within the same millisecond
+      startAt: new Date(Math.max(Date.now(), saved ? new Date(saved.createdAt).getTime() + 1 : 0)),
+    });
+    return new StreamedReply(reply.id, pdfId, replyTo || saved?.id, !!saved);
+  }
+
+  append(text: string): void {
+    this.text += text;
+    if (Date.now() - this.lastFlush >= FLUSH_INTERVAL_MS) this.flush();
+  }
+
+  addAnnotation(annotation: Annotation): void {
+    this.annotations.push(annotation);
+  }
+
+  /**
+   * Drop the text and annotations streamed so far, when a fallback model answers instead
+   */
+  reset(): void {
+    this.text = '';
+    this.annotations = [];
+    this.flush();
+  }
+
+  /**
+   * Token counts to store when the reply finishes
+   */
+  recordUsage(usage: ReplyUsage): void {
+    this.usage = usage;
+  }
+
+  /**
+   * The prompt template that produced the reply, stored when it finishes
+   */
+  recordPrompt(prompt: TemplateRef): void {
+    this.prompt = prompt;
+  }
+
+  /**
+   * The model that answered and why it was chosen, stored when the reply finishes
+   */
+  recordRouting(routing: RoutingDecision): void {
+    this.routing = routing;
+  }
+
+  /**
+   * Write the rest of the text and link the annotations; resolves when stored
+   */
+  async finish(): Promise<void> {
+    const usage = this.usage;
+    const meta = {
+      ...(usage ? { usage: { model: usage.model, promptTokens: usage.promptTokens, completionTokens: usage.completionTokens } } : {}),
+      ...(this.prompt ? { prompt: this.prompt } : {}),
+      ...(this.routing ? { routing: this.routing } : {}),
+    };
+    this.flush({
+      error: this.failed,
+      ...(usage ? { tokenCount: usage.completionTokens } : {}),
+      ...(Object.keys(meta).length ? { meta } : {}),
+    });
+    if (usage?.questionTokens !== undefined && this.storedQuestion && this.questionId) {
+      const questionId = this.questionId;
+      this.queue(async () => {
+        await chatMessageService.update({ id: questionId, tokenCount: usage.questionTokens });
+      });
+    }
+    const annotations = this.annotations.splice(0);
+    if (annotations.length) {
+      this.queue(async () => {
+        await chatMessageService.attachAnnotations(this.id, this.pdfId, annotations);
+      });
+    }
+    await this.writes;
+  }
+
+  /**
+   * Keep what was streamed but mark the reply as failed; notice stands in for an answer that never started
+   */
+  async fail(notice: string): Promise<void> {
+    this.failed = true;
+    if (!this.text) this.text = notice;
+    await this.finish();
+  }
+
+  private flush(extra: { error?: boolean; tokenCount?: number; meta?: Record<string, any> } = {}): void {
+    this.lastFlush = Date.now();
+    const content = this.text;
+    this.queue(async () => {
+      await chatMessageService.update({ id: this.id, content, ...extra });
+    });
+  }
+
+  // Writes run one at a time in order; a failed write is logged and never breaks the stream
+  private queue(write: () => Promise<void>): void {
+    this.writes = this.writes.then(write).catch(error => {
+      console.error(`StreamedReply ${this.id} - Failed to store reply:`, error);
+    });
+  }
+}
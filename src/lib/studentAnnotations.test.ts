@@ -0,0 +1,52 @@
+import { Annotation } from '@/types/types';
+import { PageGeometry } from './textAnchor';
+import { describeStudentAnnotations, formatStudentMarksForPrompt } from './studentAnnotations';
+
+// One span per line, 6pt per character from x=72
+const geometry: PageGeometry = {
+  pageWidth: 612,
+  pageHeight: 792,
+  lines: ['Entropy always increases in an', 'isolated system over time.'].map((text, i, all) => ({
+    text,
+    x: 72,
+    y: 100 + i * 20,
+    width: text.length * 6,
+    height: 12,
+    start: all.slice(0, i).reduce((sum, line) => sum + line.length + 1, 0),
+    spans: [{ start: 0, end: text.length, x: 72, width: text.length * 6 }],
+  })),
+};
+
+describe('describeStudentAnnotations', () => {
+  test('should quote the text under marks and join a highlight that spans lines', () => {
+    const annotations: Annotation[] = [
+      { type: 'highlight', page: 2, x: 72, y: 100, width: 180, height: 12, isAutomatic: false },
+      { type: 'highlight', page: 2, x: 72, y: 120, width: 156, height: 12, isAutomatic: false },
+      { type: 'underline', page: 2, x: 72, y: 127, width: 48, height: 5, isAutomatic: false },
+    ];
+
+    expect(describeStudentAnnotations(annotations, { 2: geometry }, 2)).toEqual([
+      { page: 2, type: 'highlight', quote: 'Entropy always increases in an isolated system over time.' },
+      { page: 2, type: 'underline', quote: 'isolated' },
+    ]);
+  });
+
+  test('should put the nearest pages first and leave out the tutor\'s annotations', () => {
+    const annotations: Annotation[] = [
+      { type: 'text', page: 9, x: 0, y: 0, text: 'Far away', isAutomatic: false },
+      { type: 'highlight', page: 3, x: 0, y: 0, width: 10, height: 10, isAutomatic: true },
+      { type: 'text', page: 4, x: 0, y: 0, text: 'Ask in class', isAutomatic: false },
+    ];
+
+    expect(describeStudentAnnotations(annotations, {}, 3).map(mark => mark.note)).toEqual(['Ask in class', 'Far away']);
+  });
+});
+
+describe('formatStudentMarksForPrompt', () => {
+  test('should describe each mark on its own line', () => {
+    expect(formatStudentMarksForPrompt([
+      { page: 2, type: 'highlight', quote: 'isolated system', note: 'exam' },
+      { page: 4, type: 'text', note: 'Ask in class' },
+    ])).toBe('- Page 2: the student highlighted "isolated system" with the note "exam"\n- Page 4: the student left a note: "Ask in class"');
+  });
+});
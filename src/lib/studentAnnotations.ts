@@ -0,0 +1,111 @@
+/**
+ * The student's own annotations as tutor context
+ * Describes what the student marked (in this app or in another reader before uploading),
+ * with the text under each mark, so the tutor can refer to "the part you highlighted".
+ * Pure so the stream route can format it without server-only imports.
+ */
+
+import { Annotation } from '@/types/types';
+import { AnchorRect, PageGeometry, textInRect } from './textAnchor';
+
+export interface StudentMark {
+  page: number;
+  type: Annotation['type'];
+  quote?: string; // the page text under the mark, when the page geometry is known
+  note?: string; // what the student wrote
+}
+
+// Enough to show what the student cares about without crowding out the page text
+export const MAX_STUDENT_MARKS = 20;
+const MAX_QUOTE_LENGTH = 300;
+// Underlines are stored as the line under the text; look this far above it for the text
+const UNDERLINED_TEXT_HEIGHT = 14;
+
+const DESCRIPTIONS: Record<Annotation['type'], string> = {
+  highlight: 'highlighted',
+  underline: 'underlined',
+  rectangle: 'boxed',
+  circle: 'circled',
+  freeform: 'drew over',
+  arrow: 'drew an arrow',
+  text: 'left a note',
+};
+
+/**
+ * The part of the page an annotation marks, for reading the text under it; null for arrows and notes
+ */
+export function markedArea(annotation: Annotation): AnchorRect | null {
+  switch (annotation.type) {
+    case 'highlight':
+    case 'rectangle':
+    case 'freeform':
+      return annotation.width && annotation.height
+        ? { x: annotation.x, y: annotation.y, width: annotation.width, height: annotation.height }
+        : null;
+    case 'underline': {
+      if (!annotation.width) return null;
+      const bottom = annotation.y + (annotation.height || 5);
+      return { x: annotation.x, y: bottom - UNDERLINED_TEXT_HEIGHT, width: annotation.width, height: UNDERLINED_TEXT_HEIGHT };
+    }
+    case 'circle':
+      return annotation.radius
+        ? { x: annotation.x, y: annotation.y, width: annotation.radius * 2, height: annotation.radius * 2 }
+        : null;
+    default:
+      return null;
+  }
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_QUOTE_LENGTH ? `${text.slice(0, MAX_QUOTE_LENGTH)}...` : text;
+}
+
+/**
+ * Marks on the pages closest to currentPage first, at most MAX_STUDENT_MARKS.
+ * Consecutive highlights of one passage (one per line) are joined into a single mark.
+ */
+export function describeStudentAnnotations(
+  annotations: Annotation[],
+  geometry: Record<number, PageGeometry>,
+  currentPage: number
+): StudentMark[] {
+  const byDistance = annotations
+    .filter(annotation => annotation.page && !annotation.isAutomatic)
+    .map((annotation, index) => ({ annotation, index }))
+    .sort((a, b) => (Math.abs(a.annotation.page! - currentPage) - Math.abs(b.annotation.page! - currentPage)) || (a.index - b.index))
+    .map(({ annotation }) => annotation);
+
+  const marks: StudentMark[] = [];
+  for (const annotation of byDistance) {
+    const page = annotation.page!;
+    const area = markedArea(annotation);
+    const quote = area && geometry[page] ? textInRect(geometry[page], area) : '';
+    // Pen strokes keep their points in text
+    const note = annotation.type === 'freeform' ? undefined : annotation.text?.trim() || undefined;
+
+    const previous = marks[marks.length - 1];
+    if (previous && previous.page === page && previous.type === annotation.type && previous.note === note && previous.quote && quote) {
+      previous.quote = truncate(`${previous.quote} ${quote}`);
+      continue;
+    }
+    if (marks.length >= MAX_STUDENT_MARKS) break;
+
+    marks.push({ page, type: annotation.type, ...(quote ? { quote: truncate(quote) } : {}), ...(note ? { note: truncate(note) } : {}) });
+  }
+
+  return marks;
+}
+
+/**
+ * Render marks as a system prompt section
+ */
+export function formatStudentMarksForPrompt(marks: StudentMark[]): string {
+  return marks
+    .map(mark => {
+      let line = `- Page ${mark.page}: the student ${DESCRIPTIONS[mark.type]}`;
+      if (mark.quote) line += ` "${mark.quote}"`;
+      if (mark.note) line += `${mark.type === 'text' ? ':' : ' with the note'} "${mark.note}"`;
+      return line;
+    })
+    .join('\n');
+}
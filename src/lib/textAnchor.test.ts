@@ -0,0 +1,106 @@
+/**
+ * Unit tests for resolving quoted text to page geometry
+ */
+
+import { findQuote, normalizeForMatch, PageGeometry, rectsForRange, resolveQuote, anchoredHighlights, textInRect } from './textAnchor';
+
+// Each line is one span whose characters are 6pt wide, starting at x=72
+function geometryOf(lines: string[]): PageGeometry {
+  let start = 0;
+  return {
+    pageWidth: 612,
+    pageHeight: 792,
+    lines: lines.map((text, i) => {
+      const line = {
+        text,
+        x: 72,
+        y: 100 + i * 20,
+        width: text.length * 6,
+        height: 12,
+        start,
+        spans: [{ start: 0, end: text.length, x: 72, width: text.length * 6 }],
+      };
+      start += text.length + 1;
+      return line;
+    }),
+  };
+}
+
+const page = geometryOf([
+  'The central limit theorem states that the',
+  'distribution of sample means approaches a nor-',
+  'mal distribution as the sample size grows.',
+]);
+const pageText = page.lines.map(l => l.text).join('\n');
+
+describe('normalizeForMatch', () => {
+  test('should fold case, whitespace, typographic quotes and line-end hyphenation', () => {
+    const { text, map } = normalizeForMatch('A  “Nor-\nmal”\tcurve');
+
+    expect(text).toBe('a "normal" curve');
+    expect(map).toHaveLength(text.length);
+    expect(pageText[normalizeForMatch(pageText).map[0]]).toBe('T');
+  });
+});
+
+describe('findQuote', () => {
+  test('should find a quote exactly and return offsets into the original text', () => {
+    const match = findQuote(pageText, 'central limit theorem');
+
+    expect(match).toMatchObject({ score: 1 });
+    expect(pageText.slice(match!.start, match!.end)).toBe('central limit theorem');
+  });
+
+  test('should match across line breaks and hyphenation', () => {
+    const match = findQuote(pageText, 'approaches a normal distribution');
+
+    expect(match?.score).toBe(1);
+    expect(pageText.slice(match!.start, match!.end)).toBe('approaches a nor-\nmal distribution');
+  });
+
+  test('should tolerate small wording differences and reject unrelated text', () => {
+    expect(findQuote(pageText, 'the distribution of the sample means approaches')?.score).toBeGreaterThanOrEqual(0.75);
+    expect(findQuote(pageText, 'photosynthesis in green plants')).toBeNull();
+    expect(findQuote(pageText, 'a')).toBeNull();
+  });
+});
+
+describe('rectsForRange', () => {
+  test('should produce one rectangle per line for a multi-line span', () => {
+    const resolved = resolveQuote(page, 'sample means approaches a normal distribution');
+
+    expect(resolved?.rects).toEqual([
+      { x: 72 + 'distribution of '.length * 6, y: 120, width: 'sample means approaches a nor-'.length * 6, height: 12 },
+      { x: 72, y: 140, width: 'mal distribution'.length * 6, height: 12 },
+    ]);
+  });
+
+  test('should interpolate positions inside spans', () => {
+    expect(rectsForRange(page, 4, 11)).toEqual([{ x: 72 + 4 * 6, y: 100, width: 7 * 6, height: 12 }]);
+  });
+});
+
+describe('textInRect', () => {
+  test('should read back the text under the rectangles of a quote', () => {
+    const resolved = resolveQuote(page, 'sample means approaches a normal distribution');
+    const text = resolved!.rects.map(rect => textInRect(page, rect)).join(' ');
+
+    expect(text).toBe('sample means approaches a nor- mal distribution');
+  });
+
+  test('should ignore lines the rectangle only grazes', () => {
+    expect(textInRect(page, { x: 72, y: 110, width: 3 * 6, height: 20 })).toBe('dis');
+    expect(textInRect(page, { x: 0, y: 300, width: 600, height: 20 })).toBe('');
+  });
+});
+
+describe('anchoredHighlights', () => {
+  test('should build highlights that carry the quote and offsets', () => {
+    const highlights = anchoredHighlights(3, page, 'sample size grows');
+
+    expect(highlights).toHaveLength(1);
+    expect(highlights[0]).toMatchObject({ type: 'highlight', page: 3, y: 140, text: 'sample size grows' });
+    expect(highlights[0].anchor).toMatchObject({ quote: 'sample size grows', line: 0 });
+    expect(pageText.slice(highlights[0].anchor!.start, highlights[0].anchor!.end)).toBe('sample size grows');
+  });
+});
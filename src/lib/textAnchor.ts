@@ -0,0 +1,283 @@
+/**
+ * Text anchoring
+ * Resolves a quoted span of page text to exact line rectangles using stored line geometry.
+ * Pure and dependency-free so it runs in both the Node and Edge chat routes.
+ */
+
+import { Annotation, TextAnchor } from '@/types/types';
+
+// A run of characters within a line and its horizontal extent (offsets are relative to the line)
+export interface TextSpan {
+  start: number;
+  end: number;
+  x: number;
+  width: number;
+}
+
+// A line of text in top-left page coordinates; start is its offset in the page text
+export interface GeometryLine {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  start: number;
+  spans: TextSpan[];
+}
+
+// Stored per page in PDFPage.geometry; page text is the line texts joined with '\n'
+export interface PageGeometry {
+  pageWidth: number;
+  pageHeight: number;
+  lines: GeometryLine[];
+}
+
+export interface AnchorRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ResolvedAnchor {
+  start: number;
+  end: number;
+  score: number; // 1 for an exact (normalized) match
+  rects: AnchorRect[];
+}
+
+// Fuzzy matches must cover at least this share of the quote's words
+const MIN_FUZZY_SCORE = 0.75;
+// Quotes shorter than this are too ambiguous to anchor
+const MIN_QUOTE_LENGTH = 3;
+
+const CHARACTER_FOLDS: Record<string, string> = {
+  '‘': "'", '’': "'", '“': '"', '”': '"',
+  '–': '-', '—': '-', ' ': ' ',
+  'ﬁ': 'fi', 'ﬂ': 'fl', 'ﬀ': 'ff', 'ﬃ': 'ffi', 'ﬄ': 'ffl',
+};
+
+/**
+ * Lowercase, fold typographic characters, collapse whitespace and join words hyphenated across lines.
+ * map[i] is the offset in the original text of normalized character i.
+ */
+export function normalizeForMatch(text: string): { text: string; map: number[] } {
+  let out = '';
+  const map: number[] = [];
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+
+    // "inter-\nnational" -> "international"
+    if ((ch === '-' || ch === '­') && /[a-z]/i.test(text[i - 1] || '')) {
+      const rest = text.slice(i + 1).match(/^[ \t]*\n\s*/);
+      if (rest && /[a-z]/i.test(text[i + 1 + rest[0].length] || '')) {
+        i += rest[0].length;
+        continue;
+      }
+    }
+
+    if (/\s/.test(ch)) {
+      if (out.length > 0 && !out.endsWith(' ')) {
+        out += ' ';
+        map.push(i);
+      }
+      continue;
+    }
+
+    const folded = (CHARACTER_FOLDS[ch] ?? ch).toLowerCase();
+    for (const c of folded) {
+      out += c;
+      map.push(i);
+    }
+  }
+
+  if (out.endsWith(' ')) {
+    out = out.slice(0, -1);
+    map.pop();
+  }
+  return { text: out, map };
+}
+
+function words(text: string): Array<{ word: string; start: number; end: number }> {
+  return Array.from(text.matchAll(/[a-z0-9]+/g)).map(m => ({
+    word: m[0],
+    start: m.index!,
+    end: m.index! + m[0].length,
+  }));
+}
+
+/**
+ * Find a quote in page text. Exact normalized matches win; otherwise the window of page words
+ * sharing the most words (in order) with the quote is used. Offsets refer to the original text.
+ */
+export function findQuote(
+  pageText: string,
+  quote: string,
+  hint?: number
+): { start: number; end: number; score: number } | null {
+  const page = normalizeForMatch(pageText);
+  const needle = normalizeForMatch(quote.replace(/^[\s"'“‘.…]+|[\s"'”’.…]+$/g, '')).text;
+  if (needle.length < MIN_QUOTE_LENGTH || page.text.length === 0) return null;
+
+  const toOriginal = (start: number, end: number, score: number) => ({
+    start: page.map[start],
+    end: page.map[end - 1] + 1,
+    score,
+  });
+
+  // Exact match, preferring the occurrence closest to the hint
+  let best = -1;
+  for (let at = page.text.indexOf(needle); at !== -1; at = page.text.indexOf(needle, at + 1)) {
+    if (best === -1 || (hint !== undefined && Math.abs(page.map[at] - hint) < Math.abs(page.map[best] - hint))) {
+      best = at;
+    }
+    if (hint === undefined) break;
+  }
+  if (best !== -1) return toOriginal(best, best + needle.length, 1);
+
+  // Fuzzy match on words
+  const quoteWords = words(needle).map(w => w.word);
+  const pageWords = words(page.text);
+  if (quoteWords.length === 0 || pageWords.length === 0) return null;
+
+  const windowSize = Math.ceil(quoteWords.length * 1.25);
+  let bestMatch: { first: number; last: number; score: number } | null = null;
+
+  for (let i = 0; i < pageWords.length; i++) {
+    if (!quoteWords.includes(pageWords[i].word)) continue;
+
+    // Longest in-order match of quote words within the window starting at i
+    let q = 0;
+    let matched = 0;
+    let last = i;
+    for (let j = i; j < Math.min(pageWords.length, i + windowSize) && q < quoteWords.length; j++) {
+      const found = quoteWords.indexOf(pageWords[j].word, q);
+      if (found !== -1 && found - q <= 2) {
+        matched++;
+        q = found + 1;
+        last = j;
+      }
+    }
+
+    const score = matched / quoteWords.length;
+    if (!bestMatch || score > bestMatch.score) {
+      bestMatch = { first: i, last, score };
+    }
+  }
+
+  if (!bestMatch || bestMatch.score < MIN_FUZZY_SCORE) return null;
+  return toOriginal(pageWords[bestMatch.first].start, pageWords[bestMatch.last].end, bestMatch.score);
+}
+
+/**
+ * x position of a character offset within a line, interpolated inside the span that holds it
+ */
+function xAt(line: GeometryLine, offset: number): number {
+  if (line.spans.length === 0 || line.text.length === 0) {
+    return line.x + (line.width * offset) / Math.max(1, line.text.length);
+  }
+  for (const span of line.spans) {
+    if (offset < span.start) return span.x; // in a gap before this span
+    if (offset <= span.end) {
+      return span.x + (span.width * (offset - span.start)) / Math.max(1, span.end - span.start);
+    }
+  }
+  const lastSpan = line.spans[line.spans.length - 1];
+  return lastSpan.x + lastSpan.width;
+}
+
+/**
+ * One rectangle per line covered by the [start, end) range of page text
+ */
+export function rectsForRange(geometry: PageGeometry, start: number, end: number): AnchorRect[] {
+  const rects: AnchorRect[] = [];
+
+  for (const line of geometry.lines) {
+    const lineEnd = line.start + line.text.length;
+    if (lineEnd <= start || line.start >= end) continue;
+
+    const from = Math.max(start, line.start) - line.start;
+    const to = Math.min(end, lineEnd) - line.start;
+    const left = xAt(line, from);
+    const right = xAt(line, to);
+    if (right <= left) continue;
+
+    rects.push({
+      x: Math.round(left),
+      y: Math.round(line.y),
+      width: Math.round(right - left),
+      height: Math.round(line.height),
+    });
+  }
+
+  return rects;
+}
+
+/**
+ * The text a rectangle covers: characters whose centers fall inside it, on lines it overlaps
+ * by at least half their height. The inverse of rectsForRange, for marks made outside the app.
+ */
+export function textInRect(geometry: PageGeometry, rect: AnchorRect): string {
+  const parts: string[] = [];
+
+  for (const line of geometry.lines) {
+    const overlap = Math.min(rect.y + rect.height, line.y + line.height) - Math.max(rect.y, line.y);
+    if (overlap < line.height / 2) continue;
+
+    let text = '';
+    for (let i = 0; i < line.text.length; i++) {
+      const center = (xAt(line, i) + xAt(line, i + 1)) / 2;
+      if (center >= rect.x && center <= rect.x + rect.width) text += line.text[i];
+    }
+    if (text.trim()) parts.push(text.trim());
+  }
+
+  return parts.join(' ');
+}
+
+/**
+ * Page text as stored for the geometry (line texts joined with newlines)
+ */
+export function geometryText(geometry: PageGeometry): string {
+  return geometry.lines.map(line => line.text).join('\n');
+}
+
+/**
+ * Resolve a quote to rectangles on a page
+ */
+export function resolveQuote(geometry: PageGeometry, quote: string, hint?: number): ResolvedAnchor | null {
+  const match = findQuote(geometryText(geometry), quote, hint);
+  if (!match) return null;
+
+  const rects = rectsForRange(geometry, match.start, match.end);
+  return rects.length > 0 ? { ...match, rects } : null;
+}
+
+/**
+ * Build one highlight per line for a quote. Each carries the anchor so it can be re-resolved later.
+ */
+export function anchoredHighlights(
+  page: number,
+  geometry: PageGeometry,
+  quote: string,
+  style: { color?: string; label?: string } = {}
+): Annotation[] {
+  const resolved = resolveQuote(geometry, quote);
+  if (!resolved) return [];
+
+  return resolved.rects.map((rect, line) => {
+    const anchor: TextAnchor = { quote, start: resolved.start, end: resolved.end, line };
+    return {
+      type: 'highlight' as const,
+      page,
+      ...rect,
+      color: style.color || 'rgba(255, 255, 0, 0.3)',
+      animationEffect: 'pulse' as const,
+      opacity: 0.35,
+      text: quote,
+      anchor,
+      ...(style.label && line === 0 ? { label: style.label } : {}),
+    };
+  });
+}
@@ -0,0 +1,81 @@
+/**
+ * Tutor stream preparation
+ * Gathers what the tutor needs for an answer (page text, retrieved passages, line geometry,
+ * the student's own marks, their tier and what is left of their daily quota), hands it to
+ * GET /api/chat/stream/[streamId] through the stream store and returns a ticketed URL for it.
+ * Callers check the user owns the PDF and session, and has quota left, first.
+ */
+
+import { getStreamPayloadStore } from '@/lib/streamStore/storeFactory';
+import { mintStreamTicket } from '@/lib/edgeAuth';
+import { pdfPageService } from '@/lib/pdfPageService';
+import { retrievalService, queryFromMessages } from '@/lib/retrieval/retrievalService';
+import { annotationService } from '@/lib/annotationService';
+import { TemplateName } from '@/lib/prompts/types';
+import { QuotaStatus } from '@/lib/usageService';
+
+interface PrepareTutorStreamParams {
+  userId: string;
+  messages: any[];
+  pdfId?: string;
+  sessionId?: string;
+  currentPage?: number;
+  pdfText?: Record<string, any>; // the client's page text, replaced by the stored extraction when there is a PDF
+  parentId?: string | null; // the message the question follows
+  replyTo?: string; // a stored question to answer; the stream then stores only the answer
+  template?: TemplateName;
+  quota: QuotaStatus; // from usageService.checkQuota
+}
+
+export interface TutorStream {
+  streamId: string;
+  streamUrl: string;
+}
+
+/**
+ * Store the stream payload and mint the first ticket; throws PayloadTooLargeError for oversized conversations
+ */
+export async function prepareTutorStream({ userId, messages, pdfId, sessionId, currentPage, pdfText, parentId, replyTo, template, quota }: PrepareTutorStreamParams): Promise<TutorStream> {
+  if (pdfId) {
+    pdfText = await pdfPageService.buildChatPdfText(pdfId, currentPage || 1, pdfText || {});
+  }
+
+  // Retrieve the most relevant passages from the whole document for the latest question
+  const passages = pdfId
+    ? (await retrievalService.retrieve(pdfId, queryFromMessages(messages))).map(p => ({ page: p.page, score: p.score, text: p.text }))
+    : [];
+
+  // Line geometry so quoted highlights can be placed on the pages the tutor is likely to reference
+  const page = pdfText?.currentPage || currentPage || 1;
+  const geometry = pdfId
+    ? await pdfPageService.getGeometry(pdfId, [page - 1, page, page + 1, ...passages.map(p => p.page)])
+    : {};
+
+  // What the student marked themselves (here or in another reader), with the text under each mark
+  const studentMarks = pdfId ? await annotationService.studentMarks(pdfId, page, geometry) : [];
+
+  // Stream ids are generated here so they cannot be guessed
+  const streamId = crypto.randomUUID();
+
+  // Hand the payload to the stream route through the configured store
+  await getStreamPayloadStore().set(streamId, {
+    userId,
+    messages,
+    pdfText: pdfText || {},
+    pdfId,
+    sessionId: pdfId ? sessionId : undefined,
+    parentId: pdfId ? parentId : undefined,
+    replyTo: pdfId ? replyTo : undefined,
+    currentPage: currentPage || 1,
+    template,
+    tier: quota.tier,
+    quota: { remaining: quota.remaining, resetAt: quota.resetAt.toISOString() },
+    passages,
+    geometry,
+    studentMarks
+  });
+
+  // The login token never goes in the URL; a single-use ticket bound to this user, stream and PDF does
+  const ticket = await mintStreamTicket({ userId, streamId, pdfId });
+  return { streamId, streamUrl: `/api/chat/stream/${streamId}?ticket=${ticket}` };
+}
@@ -0,0 +1,104 @@
+/**
+ * Unit tests for tutor tool validation and the bracket-command fallback
+ */
+
+import { TUTOR_TOOLS, TutorActionStream, resolveTutorReply, toolCallToAction, validateToolArguments } from './tutorTools';
+
+const context = { currentPage: 2, totalPages: 10 };
+const call = (name: string, args: unknown) => ({ id: 'call_1', name, arguments: JSON.stringify(args) });
+
+describe('validateToolArguments', () => {
+  const highlight = TUTOR_TOOLS.find(t => t.name === 'highlight_text')!;
+
+  test('should accept well-formed arguments', () => {
+    expect(validateToolArguments(highlight.parameters, { page: 2, x: 80, y: 200, width: 400, height: 22 })).toEqual([]);
+  });
+
+  test('should report missing, mistyped and unknown arguments', () => {
+    const errors = validateToolArguments(highlight.parameters, { page: 1.5, x: '80', y: 200, quote: 3, z: 1 });
+
+    expect(errors).toEqual(expect.arrayContaining([
+      'arguments.page must be an integer',
+      'arguments.x must be a number',
+      'arguments.quote must be a string',
+      'arguments.z is not allowed',
+    ]));
+    expect(validateToolArguments(highlight.parameters, { quote: 'mean' })).toEqual(['arguments.page is required']);
+  });
+});
+
+describe('toolCallToAction', () => {
+  test('should turn a highlight call into an annotation', () => {
+    const result = toolCallToAction(call('highlight_text', { page: 2, x: 80, y: 200, width: 400, height: 22 }), context);
+
+    expect(result).toMatchObject({
+      actions: [{ kind: 'annotation', source: 'tool', annotation: { type: 'highlight', page: 2, x: 80, y: 200, width: 400, height: 22 } }],
+    });
+  });
+
+  test('should place a quoted highlight from page geometry', () => {
+    const text = 'Variance measures spread';
+    const geometry = { pageWidth: 612, pageHeight: 792, lines: [{ text, x: 72, y: 300, width: 144, height: 12, start: 0, spans: [] }] };
+    const result = toolCallToAction(call('highlight_text', { page: 2, quote: 'measures spread' }), { ...context, geometry: { 2: geometry } });
+
+    expect(result).toMatchObject({
+      actions: [{ kind: 'annotation', annotation: { page: 2, x: 126, y: 300, width: 90, anchor: { quote: 'measures spread', start: 9, end: 24 } } }],
+    });
+    expect(toolCallToAction(call('highlight_text', { page: 2, quote: 'standard error' }), { ...context, geometry: { 2: geometry } }))
+      .toEqual({ error: 'highlight_text: quote not found on page 2' });
+  });
+
+  test('should turn add_note into a text annotation and navigate_to_page into navigation', () => {
+    expect(toolCallToAction(call('add_note', { page: 3, x: 60, y: 100, text: 'Key term' }), context))
+      .toMatchObject({ actions: [{ kind: 'annotation', annotation: { type: 'text', page: 3, text: 'Key term' } }] });
+    expect(toolCallToAction(call('navigate_to_page', { page: 7 }), context))
+      .toEqual({ actions: [{ kind: 'navigation', page: 7, source: 'tool' }] });
+  });
+
+  test('should reject unknown tools, bad JSON and pages past the end', () => {
+    expect(toolCallToAction(call('delete_pdf', {}), context)).toEqual({ error: 'Unknown tool "delete_pdf"' });
+    expect(toolCallToAction({ id: 'x', name: 'navigate_to_page', arguments: '{page:' }, context))
+      .toEqual({ error: 'navigate_to_page: arguments are not valid JSON' });
+    expect(toolCallToAction(call('navigate_to_page', { page: 11 }), context))
+      .toEqual({ error: 'navigate_to_page: page 11 is past the last page (10)' });
+  });
+});
+
+describe('TutorActionStream', () => {
+  test('should strip bracket commands split across chunks and emit them as actions', () => {
+    const stream = new TutorActionStream(context);
+    const first = stream.pushText('See the definition [HIGHLIGHT 2 80 2');
+    const second = stream.pushText('00 400 22] and then [GO TO PAGE 4] done.');
+
+    expect(first).toEqual({ text: 'See the definition ', actions: [] });
+    expect(second.text).toBe(' and then  done.');
+    expect(second.actions).toEqual([
+      { kind: 'navigation', page: 4, source: 'text' },
+      expect.objectContaining({ kind: 'annotation', source: 'text', annotation: expect.objectContaining({ page: 2, y: 200 }) }),
+    ]);
+    expect(stream.flush()).toBe('');
+  });
+
+  test('should release an unterminated bracket at the end of the stream', () => {
+    const stream = new TutorActionStream(context);
+
+    expect(stream.pushText('Arrays are [zero-indexed').text).toBe('Arrays are ');
+    expect(stream.flush()).toBe('[zero-indexed');
+  });
+});
+
+describe('resolveTutorReply', () => {
+  test('should merge tool calls with bracket commands from the same reply', () => {
+    const result = resolveTutorReply(
+      'Here it is [CIRCLE 2 300 400 40]. [HIGHLIGHT TEXT "mean value" ON PAGE 2]',
+      [call('highlight_text', { page: 5, x: 80, y: 120, width: 300, height: 24 }), call('navigate_to_page', { page: 5 })],
+      context
+    );
+
+    expect(result.text).toBe('Here it is .');
+    expect(result.annotations.map(a => [a.type, a.page])).toEqual([['circle', 2], ['highlight', 5]]);
+    expect(result.targetPage).toBe(5);
+    expect(result.textHighlights).toEqual([{ page: 2, text: 'mean value' }]);
+    expect(result.errors).toEqual([]);
+  });
+});
@@ -0,0 +1,313 @@
+/**
+ * Tutor tools
+ * Structured function calls the tutor uses to annotate and navigate the PDF.
+ * Providers without tool support fall back to the bracket grammar in annotationEngine;
+ * both paths produce the same typed actions.
+ */
+
+import { Annotation } from '@/types/types';
+import { AnnotationEngine, AnnotationFields } from '@/lib/annotationEngine';
+import { JSONSchema, ToolCall, ToolDefinition } from '@/lib/llm/types';
+import { PageGeometry, anchoredHighlights } from '@/lib/textAnchor';
+
+export interface TutorContext {
+  currentPage: number;
+  totalPages: number;
+  geometry?: Record<number, PageGeometry>; // stored line geometry for pages quotes may be resolved on
+}
+
+// What a tool call or bracket command asks the viewer to do
+export type TutorAction =
+  | { kind: 'annotation'; annotation: Annotation; source: 'tool' | 'text' }
+  | { kind: 'navigation'; page: number; source: 'tool' | 'text' };
+
+const pageParam: JSONSchema = { type: 'integer', minimum: 1, description: '1-based page number' };
+const coordinate = (description: string): JSONSchema => ({ type: 'number', minimum: 0, maximum: 2000, description });
+const colorParam: JSONSchema = { type: 'string', maxLength: 64, description: 'CSS color, e.g. rgba(255,255,0,0.35)' };
+
+export const TUTOR_TOOLS: ToolDefinition[] = [
+  {
+    name: 'highlight_text',
+    description: 'Highlight text on a page. Pass the exact words as quote and they are located on the page; only give coordinates when the text cannot be quoted.',
+    parameters: {
+      type: 'object',
+      properties: {
+        page: pageParam,
+        quote: { type: 'string', maxLength: 300, description: 'Exact text to highlight, copied from the page' },
+        x: coordinate('Left edge in PDF points from the left'),
+        y: coordinate('Top edge in PDF points from the top'),
+        width: coordinate('Width in points'),
+        height: coordinate('Height in points, usually 18-28 for one line'),
+        color: colorParam,
+        label: { type: 'string', maxLength: 80, description: 'Short label shown with the highlight' },
+      },
+      required: ['page'],
+      additionalProperties: false,
+    },
+  },
+  {
+    name: 'circle_region',
+    description: 'Draw a circle around a figure, formula or other item on a page.',
+    parameters: {
+      type: 'object',
+      properties: {
+        page: pageParam,
+        x: coordinate('Center x in points'),
+        y: coordinate('Center y in points'),
+        radius: { type: 'number', minimum: 5, maximum: 200, description: 'Radius in points' },
+        color: colorParam,
+        label: { type: 'string', maxLength: 80, description: 'Short label shown with the circle' },
+      },
+      required: ['page', 'x', 'y', 'radius'],
+      additionalProperties: false,
+    },
+  },
+  {
+    name: 'navigate_to_page',
+    description: 'Turn the viewer to another page before explaining content that is on it.',
+    parameters: {
+      type: 'object',
+      properties: { page: pageParam },
+      required: ['page'],
+      additionalProperties: false,
+    },
+  },
+  {
+    name: 'add_note',
+    description: 'Place a short margin note on a page.',
+    parameters: {
+      type: 'object',
+      properties: {
+        page: pageParam,
+        x: coordinate('Left edge in points'),
+        y: coordinate('Top edge in points'),
+        text: { type: 'string', maxLength: 200, description: 'Note text' },
+        color: colorParam,
+      },
+      required: ['page', 'x', 'y', 'text'],
+      additionalProperties: false,
+    },
+  },
+];
+
+/**
+ * Validate a value against the JSON Schema subset used by TUTOR_TOOLS.
+ * Returns a list of problems; empty means valid.
+ */
+export function validateToolArguments(schema: JSONSchema, value: unknown, path = 'arguments'): string[] {
+  const errors: string[] = [];
+
+  switch (schema.type) {
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return [`${path} must be an object`];
+      }
+      const record = value as Record<string, unknown>;
+      for (const key of schema.required || []) {
+        if (record[key] === undefined) errors.push(`${path}.${key} is required`);
+      }
+      for (const [key, child] of Object.entries(record)) {
+        const childSchema = schema.properties?.[key];
+        if (!childSchema) {
+          if (schema.additionalProperties === false) errors.push(`${path}.${key} is not allowed`);
+          continue;
+        }
+        errors.push(...validateToolArguments(childSchema, child, `${path}.${key}`));
+      }
+      return errors;
+    }
+    case 'number':
+    case 'integer': {
+      if (typeof value !== 'number' || !Number.isFinite(value)) return [`${path} must be a number`];
+      if (schema.type === 'integer' && !Number.isInteger(value)) errors.push(`${path} must be an integer`);
+      if (schema.minimum !== undefined && value < schema.minimum) errors.push(`${path} must be >= ${schema.minimum}`);
+      if (schema.maximum !== undefined && value > schema.maximum) errors.push(`${path} must be <= ${schema.maximum}`);
+      break;
+    }
+    case 'string': {
+      if (typeof value !== 'string') return [`${path} must be a string`];
+      if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+        errors.push(`${path} must be at most ${schema.maxLength} characters`);
+      }
+      break;
+    }
+    case 'boolean':
+      if (typeof value !== 'boolean') errors.push(`${path} must be a boolean`);
+      break;
+  }
+
+  if (schema.enum && !schema.enum.includes(value as string | number)) {
+    errors.push(`${path} must be one of ${schema.enum.join(', ')}`);
+  }
+  return errors;
+}
+
+/**
+ * Place a quote on a page using stored geometry; one highlight per line
+ */
+export function resolveQuoteHighlights(
+  quote: string,
+  page: number,
+  context: TutorContext,
+  style: { color?: string; label?: string } = {}
+): Annotation[] {
+  const geometry = context.geometry?.[page];
+  return geometry ? anchoredHighlights(page, geometry, quote, style) : [];
+}
+
+const annotationActions = (annotations: Annotation[], source: 'tool' | 'text'): TutorAction[] =>
+  annotations.map(annotation => ({ kind: 'annotation' as const, annotation, source }));
+
+/**
+ * Validate a model tool call and turn it into viewer actions
+ */
+export function toolCallToAction(
+  call: ToolCall,
+  context: TutorContext,
+  engine: AnnotationEngine = new AnnotationEngine()
+): { actions: TutorAction[] } | { error: string } {
+  const tool = TUTOR_TOOLS.find(t => t.name === call.name);
+  if (!tool) return { error: `Unknown tool "${call.name}"` };
+
+  let args: Record<string, any>;
+  try {
+    args = JSON.parse(call.arguments || '{}');
+  } catch {
+    return { error: `${call.name}: arguments are not valid JSON` };
+  }
+
+  const problems = validateToolArguments(tool.parameters, args);
+  if (problems.length > 0) return { error: `${call.name}: ${problems.join('; ')}` };
+
+  if (args.page > context.totalPages) {
+    return { error: `${call.name}: page ${args.page} is past the last page (${context.totalPages})` };
+  }
+
+  if (call.name === 'navigate_to_page') {
+    return { actions: [{ kind: 'navigation', page: args.page, source: 'tool' }] };
+  }
+
+  // Quotes are the primary way to highlight; coordinates are only a fallback
+  const hasBox = ['x', 'y', 'width', 'height'].every(key => args[key] !== undefined);
+  if (call.name === 'highlight_text') {
+    if (args.quote) {
+      const anchored = resolveQuoteHighlights(args.quote, args.page, context, { color: args.color, label: args.label });
+      if (anchored.length > 0) return { actions: annotationActions(anchored, 'tool') };
+      if (!hasBox) return { error: `highlight_text: quote not found on page ${args.page}` };
+    } else if (!hasBox) {
+      return { error: 'highlight_text: needs a quote or x, y, width and height' };
+    }
+  }
+
+  const type = call.name === 'circle_region' ? 'circle' : call.name === 'add_note' ? 'text' : 'highlight';
+  const annotation = engine.buildAnnotation(type, args as AnnotationFields);
+  if (!annotation) return { error: `${call.name}: arguments do not describe a visible region` };
+
+  return { actions: annotationActions([annotation], 'tool') };
+}
+
+/**
+ * Clamp a bracket navigation target ([LAST PAGE] yields a sentinel) into the document
+ */
+function clampNavigation(targetPage: number | null, context: TutorContext): number | null {
+  if (targetPage === null) return null;
+  const page = Math.max(1, Math.min(targetPage, context.totalPages));
+  return page === context.currentPage ? null : page;
+}
+
+/**
+ * Turns one streamed reply into display text and typed actions.
+ * Bracket commands in the text are stripped and parsed (the fallback path),
+ * tool calls are validated (the structured path). One instance per stream.
+ */
+export class TutorActionStream {
+  private engine = new AnnotationEngine();
+
+  constructor(private context: TutorContext) {}
+
+  pushText(chunk: string): { text: string; actions: TutorAction[] } {
+    const result = this.engine.processStreamChunk(chunk, undefined, this.context.currentPage);
+    const actions = annotationActions(result.annotations, 'text');
+    for (const { text, page } of result.textHighlights) {
+      actions.push(...annotationActions(resolveQuoteHighlights(text, page, this.context), 'text'));
+    }
+
+    const page = clampNavigation(result.navigation.targetPage, this.context);
+    if (page !== null) actions.unshift({ kind: 'navigation', page, source: 'text' });
+
+    return { text: result.cleanedText, actions };
+  }
+
+  pushToolCall(call: ToolCall): { actions: TutorAction[]; error?: string } {
+    const result = toolCallToAction(call, this.context, this.engine);
+    if ('error' in result) return { actions: [], error: result.error };
+    return result;
+  }
+
+  /** Text still held back waiting for a closing bracket */
+  flush(): string {
+    return this.engine.flush();
+  }
+}
+
+/**
+ * Resolve a complete (non-streamed) reply into clean text, annotations and a navigation target.
+ * textHighlights holds quotes that could not be placed from stored geometry.
+ */
+export function resolveTutorReply(
+  reply: string,
+  toolCalls: ToolCall[] | undefined,
+  context: TutorContext
+): {
+  text: string;
+  annotations: Annotation[];
+  targetPage: number | null;
+  textHighlights: Array<{ page: number; text: string }>;
+  errors: string[];
+} {
+  const engine = new AnnotationEngine();
+  const parsed = engine.parseAnnotationCommands(reply || '', context.currentPage);
+  const annotations = [...parsed.annotations];
+  const errors: string[] = [];
+  const textHighlights: Array<{ page: number; text: string }> = [];
+
+  for (const quote of parsed.textHighlights) {
+    const anchored = resolveQuoteHighlights(quote.text, quote.page, context);
+    if (anchored.length > 0) annotations.push(...anchored);
+    else textHighlights.push(quote);
+  }
+  let targetPage = clampNavigation(
+    engine.parseNavigationCommands(reply || '', context.currentPage).targetPage,
+    context
+  );
+
+  for (const call of toolCalls || []) {
+    const result = toolCallToAction(call, context, engine);
+    if ('error' in result) {
+      errors.push(result.error);
+      continue;
+    }
+    for (const action of result.actions) {
+      if (action.kind === 'annotation') {
+        annotations.push(action.annotation);
+      } else if (targetPage === null) {
+        targetPage = clampNavigation(action.page, context);
+      }
+    }
+  }
+
+  return {
+    text: engine.cleanText(parsed.cleanedText),
+    annotations,
+    targetPage,
+    textHighlights,
+    errors,
+  };
+}
+
+/**
+ * Instructions appended to the system prompt when tools are offered
+ */
+export function toolUsePrompt(currentPage: number): string {
+  return `TOOLS: Use the highlight_text, circle_region, navigate_to_page and add_note tools for every annotation and page change instead of writing bracket commands. Highlight by passing the exact words from the page as quote; the server finds them on the page, so do not guess coordinates for text. Coordinates (PDF points from the top-left of a 612x792 page) are only for circles, notes and figures. The student is on page ${currentPage}. Call navigate_to_page before explaining content from another page, and always write your explanation as normal text alongside the tool calls.`;
+}
@@ -0,0 +1,106 @@
+/**
+ * Unit tests for token usage accounting, against in-memory user and usage tables
+ */
+
+import { QuotaExceededError, dailyTokenQuota, estimateCost, usageService } from './usageService';
+
+const mockUsers: Record<string, { tier: string }> = { student: { tier: 'free' }, subscriber: { tier: 'pro' } };
+const mockRecords: any[] = [];
+
+const inRange = (record: any, where: any) => record.userId === where.userId && record.createdAt >= where.createdAt.gte;
+
+jest.mock('@/lib/prisma', () => ({
+  user: {
+    findUnique: async ({ where }: any) => mockUsers[where.id] || null,
+  },
+  usageRecord: {
+    create: async ({ data }: any) => {
+      if (data.userId === 'broken') throw new Error('database is down');
+      mockRecords.push({ createdAt: new Date(), ...data });
+      return data;
+    },
+    aggregate: async ({ where }: any) => {
+      const found = mockRecords.filter(record => inRange(record, where));
+      return {
+        _sum: {
+          promptTokens: found.length ? found.reduce((sum, r) => sum + r.promptTokens, 0) : null,
+          completionTokens: found.length ? found.reduce((sum, r) => sum + r.completionTokens, 0) : null,
+        },
+      };
+    },
+    findMany: async ({ where }: any) => mockRecords.filter(record => inRange(record, where)),
+  },
+}));
+
+const now = new Date('2026-03-15T18:30:00Z');
+const at = (iso: string, promptTokens: number, completionTokens: number, userId = 'student') =>
+  mockRecords.push({ userId, createdAt: new Date(iso), model: 'gpt-4o', promptTokens, completionTokens, cost: estimateCost('gpt-4o', promptTokens, completionTokens) });
+
+beforeEach(() => {
+  mockRecords.length = 0;
+});
+
+describe('usageService', () => {
+  test('should estimate cost by the longest matching model prefix', () => {
+    expect(estimateCost('gpt-4o-2024-08-06', 1000000, 0)).toBe(2.5);
+    expect(estimateCost('gpt-4o-mini', 1000, 1000)).toBe(0.00075);
+    expect(estimateCost('gpt-4-0613', 1000, 500)).toBe(0.06);
+    expect(estimateCost('llama3', 5000, 5000)).toBe(0);
+  });
+
+  test('should count only today\'s tokens against the tier quota', async () => {
+    at('2026-03-14T23:59:00Z', 40000, 9000);
+    at('2026-03-15T00:01:00Z', 30000, 2000);
+    at('2026-03-15T12:00:00Z', 1000, 1000, 'subscriber');
+
+    expect(await usageService.quota('student', now)).toEqual({
+      tier: 'free',
+      limit: dailyTokenQuota('free'),
+      used: 32000,
+      remaining: dailyTokenQuota('free') - 32000,
+      resetAt: new Date('2026-03-16T00:00:00Z'),
+    });
+    expect((await usageService.quota('subscriber', now)).limit).toBe(dailyTokenQuota('pro'));
+    expect(dailyTokenQuota('free', { USAGE_DAILY_TOKENS_FREE: '1000' })).toBe(1000);
+  });
+
+  test('should refuse questions once the quota is used, with the time it resets', async () => {
+    at('2026-03-15T09:00:00Z', 45000, 5000);
+
+    const error = await usageService.checkQuota('student', now).catch(e => e);
+
+    expect(error).toBeInstanceOf(QuotaExceededError);
+    expect(error.quota.remaining).toBe(0);
+    expect(error.message).toContain('2026-03-16T00:00:00.000Z');
+    expect(error.retryAfterSeconds(now)).toBe(5.5 * 60 * 60);
+  });
+
+  test('should roll usage up by day and month, including empty periods', async () => {
+    at('2026-01-20T10:00:00Z', 100, 50);
+    at('2026-03-14T10:00:00Z', 200, 100);
+    at('2026-03-15T08:00:00Z', 300, 100);
+    at('2026-03-15T09:00:00Z', 300, 100);
+
+    const { daily, monthly } = await usageService.rollups('student', { days: 3, months: 3 }, now);
+
+    expect(daily.map(d => [d.period, d.requests, d.totalTokens])).toEqual([
+      ['2026-03-13', 0, 0],
+      ['2026-03-14', 1, 300],
+      ['2026-03-15', 2, 800],
+    ]);
+    expect(monthly.map(m => [m.period, m.totalTokens])).toEqual([['2026-01', 150], ['2026-02', 0], ['2026-03', 1100]]);
+    expect(monthly[2].cost).toBe(estimateCost('gpt-4o', 800, 300));
+  });
+
+  test('should record usage with its cost and never throw when the write fails', async () => {
+    const errorLog = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    await usageService.record({ userId: 'student', pdfId: 'pdf-1', model: 'gpt-3.5-turbo', promptTokens: 1000, completionTokens: 200, route: 'stream', reason: 'default' });
+    await expect(usageService.record({ userId: 'broken', model: 'gpt-4o', promptTokens: 1, completionTokens: 1, route: 'chat' })).resolves.toBeUndefined();
+    errorLog.mockRestore();
+
+    expect(mockRecords).toEqual([
+      expect.objectContaining({ userId: 'student', pdfId: 'pdf-1', messageId: null, cost: 0.0008, route: 'stream', reason: 'default' }),
+    ]);
+  });
+});
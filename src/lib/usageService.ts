@@ -0,0 +1,201 @@
+/**
+ * Token usage accounting and daily quotas
+ * Every answer records the tokens the provider reported (or counted) and an estimated cost.
+ * A user's tokens for the current UTC day are checked against their tier's quota before a
+ * question is accepted; what is left also steers model routing (see modelRouter).
+ *
+ * USAGE_DAILY_TOKENS_FREE / USAGE_DAILY_TOKENS_PRO set the quotas (50,000 and 500,000).
+ */
+
+import prisma from '@/lib/prisma';
+
+// Work around the Prisma client typings, as the other services do
+const typedPrisma = prisma as any;
+
+type Env = Record<string, string | undefined>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// The longest rollups GET /api/usage serves
+export const MAX_ROLLUP_DAYS = 31;
+export const MAX_ROLLUP_MONTHS = 12;
+
+// USD per million prompt and completion tokens; longest prefix wins, unknown (local) models cost nothing
+const PRICES: Array<[prefix: string, prompt: number, completion: number]> = [
+  ['gpt-3.5-turbo', 0.5, 1.5],
+  ['gpt-4', 30, 60],
+  ['gpt-4-turbo', 10, 30],
+  ['gpt-4o', 2.5, 10],
+  ['gpt-4o-mini', 0.15, 0.6],
+  ['gpt-4.1', 2, 8],
+  ['gpt-4.1-mini', 0.4, 1.6],
+  ['gpt-5', 1.25, 10],
+];
+
+export interface UsageEntry {
+  userId: string;
+  pdfId?: string | null;
+  messageId?: string | null; // the stored answer, when there is one
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  route: 'chat' | 'stream' | 'summary'; // the endpoint that answered, or summary for conversation memory
+  reason?: string; // why the model was chosen (RoutingDecision.reason)
+}
+
+export interface QuotaStatus {
+  tier: string;
+  limit: number;
+  used: number;
+  remaining: number;
+  resetAt: Date; // the next UTC midnight
+}
+
+export interface UsageRollup {
+  period: string; // YYYY-MM-DD for days, YYYY-MM for months
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cost: number;
+}
+
+/**
+ * Thrown when a user has used their daily tokens; routes answer 429 with the reset time
+ */
+export class QuotaExceededError extends Error {
+  constructor(readonly quota: QuotaStatus) {
+    super(`Daily token limit of ${quota.limit} reached; it resets at ${quota.resetAt.toISOString()}`);
+    this.name = 'QuotaExceededError';
+  }
+
+  /**
+   * Seconds until the quota resets, for the Retry-After header
+   */
+  retryAfterSeconds(now = new Date()): number {
+    return Math.max(1, Math.ceil((this.quota.resetAt.getTime() - now.getTime()) / 1000));
+  }
+}
+
+/**
+ * Estimated USD cost of one call, rounded to a millionth of a dollar
+ */
+export function estimateCost(model: string, promptTokens: number, completionTokens: number): number {
+  let match: (typeof PRICES)[number] | undefined;
+  for (const entry of PRICES) {
+    if (model.startsWith(entry[0]) && (!match || entry[0].length > match[0].length)) match = entry;
+  }
+  if (!match) return 0;
+  return Math.round(promptTokens * match[1] + completionTokens * match[2]) / 1e6;
+}
+
+/**
+ * Daily token quota for a tier; unknown tiers get the free quota
+ */
+export function dailyTokenQuota(tier?: string | null, env: Env = process.env): number {
+  const free = Number(env.USAGE_DAILY_TOKENS_FREE) || 50000;
+  return tier === 'pro' ? Number(env.USAGE_DAILY_TOKENS_PRO) || 500000 : free;
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+function rollup(records: any[], periodOf: (date: Date) => string, periods: string[]): UsageRollup[] {
+  const buckets = new Map(periods.map(period => [period, { period, requests: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, cost: 0 }]));
+  for (const record of records) {
+    const bucket = buckets.get(periodOf(new Date(record.createdAt)));
+    if (!bucket) continue;
+    bucket.requests += 1;
+    bucket.promptTokens += record.promptTokens;
+    bucket.completionTokens += record.completionTokens;
+    bucket.totalTokens += record.promptTokens + record.completionTokens;
+    bucket.cost += record.cost;
+  }
+  return [...buckets.values()].map(bucket => ({ ...bucket, cost: Math.round(bucket.cost * 1e6) / 1e6 }));
+}
+
+export const usageService = {
+  /**
+   * Store one call's usage; a failed write is logged and never fails the answer
+   */
+  async record(entry: UsageEntry): Promise<void> {
+    try {
+      await typedPrisma.usageRecord.create({
+        data: {
+          userId: entry.userId,
+          pdfId: entry.pdfId || null,
+          messageId: entry.messageId || null,
+          model: entry.model,
+          promptTokens: entry.promptTokens,
+          completionTokens: entry.completionTokens,
+          cost: estimateCost(entry.model, entry.promptTokens, entry.completionTokens),
+          route: entry.route,
+          reason: entry.reason || null,
+        },
+      });
+    } catch (error) {
+      console.error(`Failed to record token usage for user ${entry.userId}:`, error);
+    }
+  },
+
+  /**
+   * The user's quota and what is left of it today
+   */
+  async quota(userId: string, now = new Date()): Promise<QuotaStatus> {
+    const since = startOfDay(now);
+    const [user, totals] = await Promise.all([
+      typedPrisma.user.findUnique({ where: { id: userId }, select: { tier: true } }),
+      typedPrisma.usageRecord.aggregate({
+        where: { userId, createdAt: { gte: since } },
+        _sum: { promptTokens: true, completionTokens: true },
+      }),
+    ]);
+    const tier = user?.tier || 'free';
+    const limit = dailyTokenQuota(tier);
+    const used = (totals?._sum?.promptTokens || 0) + (totals?._sum?.completionTokens || 0);
+    return { tier, limit, used, remaining: Math.max(0, limit - used), resetAt: new Date(since.getTime() + DAY_MS) };
+  },
+
+  /**
+   * The quota, or QuotaExceededError when none is left.
+   * The router caps a reply at what remains, but its prompt is not capped, so the question that
+   * uses up the quota can take the day's total a prompt's worth past the limit.
+   */
+  async checkQuota(userId: string, now = new Date()): Promise<QuotaStatus> {
+    const quota = await this.quota(userId, now);
+    if (quota.remaining <= 0) {
+      throw new QuotaExceededError(quota);
+    }
+    return quota;
+  },
+
+  /**
+   * Per-day totals for the last `days` days and per-month totals for the last `months` months, oldest first
+   */
+  async rollups(userId: string, { days = 30, months = 6 } = {}, now = new Date()) {
+    days = Math.min(Math.max(1, days), MAX_ROLLUP_DAYS);
+    months = Math.min(Math.max(1, months), MAX_ROLLUP_MONTHS);
+
+    const today = startOfDay(now);
+    const firstDay = new Date(today.getTime() - (days - 1) * DAY_MS);
+    const firstMonth = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - (months - 1), 1));
+    const since = firstDay < firstMonth ? firstDay : firstMonth;
+
+    const records = await typedPrisma.usageRecord.findMany({
+      where: { userId, createdAt: { gte: since } },
+      select: { createdAt: true, promptTokens: true, completionTokens: true, cost: true },
+    });
+
+    const dayOf = (date: Date) => date.toISOString().slice(0, 10);
+    const monthOf = (date: Date) => date.toISOString().slice(0, 7);
+    const dayPeriods = Array.from({ length: days }, (_, i) => dayOf(new Date(firstDay.getTime() + i * DAY_MS)));
+    const monthPeriods = Array.from({ length: months }, (_, i) =>
+      monthOf(new Date(Date.UTC(firstMonth.getUTCFullYear(), firstMonth.getUTCMonth() + i, 1))));
+
+    return {
+      daily: rollup(records, dayOf, dayPeriods),
+      monthly: rollup(records, monthOf, monthPeriods),
+    };
+  },
+};
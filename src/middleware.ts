@@ -1,43 +1,43 @@
 /**
- * Mock auth middleware for testing
- * Simulates authentication for development and testing environments
+ * Auth middleware
+ * Verifies the bearer token on every API request, except the public routes in lib/auth.ts,
+ * and hands the user to routes in trusted headers (read them with getRequestUser).
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { authenticateToken, isPublicApiRoute, USER_EMAIL_HEADER, USER_ID_HEADER, USER_SESSION_HEADER } from '@/lib/auth';
 
-export function middleware(request: NextRequest) {
-  // Skip authentication for development and testing
-  if (process.env.NODE_ENV === 'development' || process.env.NODE_ENV === 'test') {
-    // Add test user ID to headers
-    const headers = new Headers(request.headers);
-    headers.set('Authorization', 'Bearer mock-token');
-    
-    // Clone the request with new headers
-    const modifiedRequest = new NextRequest(request.url, {
-      headers,
-      method: request.method,
-      body: request.body,
-      cache: request.cache,
-      credentials: request.credentials,
-      integrity: request.integrity,
-      keepalive: request.keepalive,
-      mode: request.mode,
-      redirect: request.redirect,
-    });
-    
-    return NextResponse.next({
-      request: modifiedRequest,
-    });
+export async function middleware(request: NextRequest) {
+  // Identity headers may only come from here
+  const headers = new Headers(request.headers);
+  headers.delete(USER_ID_HEADER);
+  headers.delete(USER_EMAIL_HEADER);
+  headers.delete(USER_SESSION_HEADER);
+
+  // CORS preflights never carry credentials
+  if (request.method === 'OPTIONS') {
+    return NextResponse.next({ request: { headers } });
+  }
+
+  let user;
+  try {
+    user = await authenticateToken(request.headers.get('authorization'));
+  } catch (error) {
+    console.error('Auth middleware error:', error);
+    return NextResponse.json({ error: 'Authentication is not configured' }, { status: 500 });
   }
-  
-  // For production, continue without modification
-  return NextResponse.next();
+
+  if (user) {
+    headers.set(USER_ID_HEADER, user.userId);
+    headers.set(USER_EMAIL_HEADER, user.email);
+    headers.set(USER_SESSION_HEADER, user.sessionId);
+  } else if (!isPublicApiRoute(request.nextUrl.pathname, request.method)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  return NextResponse.next({ request: { headers } });
 }
 
-// Apply middleware to specific API routes
 export const config = {
-  matcher: [
-    '/api/pdf/:path*/annotations/:path*',
-    '/api/pdf/:path*/chat/:path*',
-  ],
-};
\ No newline at end of file
+  matcher: ['/api/:path*'],
+};
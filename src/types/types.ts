@@ -1,4 +1,13 @@
+// A quoted span of page text an annotation is attached to (character offsets into the page text)
+export interface TextAnchor {
+  quote: string;
+  start: number;
+  end: number;
+  line?: number; // which line of a multi-line quote this annotation covers
+}
+
 export interface Annotation {
+  id?: string; // Set once the annotation is saved
   type: 'highlight' | 'circle' | 'underline' | 'arrow' | 'text' | 'rectangle' | 'freeform';
   page?: number;
   x: number;
@@ -15,13 +24,16 @@ export interface Annotation {
   label?: string; // For adding numbered labels
   importance?: 'low' | 'medium' | 'high'; // For priority-based visual styling
   timestamp?: Date; // When the annotation was created
+  anchor?: TextAnchor; // Set when placed from quoted text rather than coordinates
 }
 
 export interface ChatMessage {
+  id?: string; // set once the message is stored
   role: 'user' | 'assistant';
   content: string;
   timestamp?: Date;
   annotations?: Annotation[];
   streaming?: boolean; // Flag for messages that are currently streaming
   error?: boolean; // Flag for messages that failed with an error
+  siblingIds?: string[]; // this message and its regenerated or edited alternatives, oldest first
 }